@@ -9,11 +9,34 @@ const STATIC_ASSETS = [
   '/icons/icon-monochrome.svg'
 ];
 
+// Deadline clock helpers, mirroring client/src/lib/timerClock.ts. This file is
+// served as-is from public/ and can't import app modules, so keep the two in
+// step. The countdown is always read off the clock, never counted down.
+function createTimerClock(durationSeconds) {
+  return { durationMs: Math.max(0, durationSeconds) * 1000, startedAt: null, elapsedBeforeStartMs: 0 };
+}
+
+function startClock(clock, now) {
+  return clock.startedAt !== null ? clock : { ...clock, startedAt: now };
+}
+
+function pauseClock(clock, now) {
+  return clock.startedAt === null ? clock : { ...clock, startedAt: null, elapsedBeforeStartMs: getElapsedMs(clock, now) };
+}
+
+function getElapsedMs(clock, now) {
+  const running = clock.startedAt === null ? 0 : Math.max(0, now - clock.startedAt);
+  return Math.min(clock.durationMs, clock.elapsedBeforeStartMs + running);
+}
+
+function getRemainingSeconds(clock, now) {
+  return Math.ceil((clock.durationMs - getElapsedMs(clock, now)) / 1000);
+}
+
 // Timer state for background operation
 let backgroundTimerState = {
   isRunning: false,
-  startTime: null,
-  duration: 0,
+  clock: createTimerClock(0),
   timeRemaining: 0,
   mode: 'work',
   currentIteration: 1,
@@ -98,13 +121,11 @@ self.addEventListener('sync', (event) => {
 
 // Update timer state in background
 async function updateBackgroundTimer() {
-  if (!backgroundTimerState.isRunning || !backgroundTimerState.startTime) {
+  if (!backgroundTimerState.isRunning) {
     return;
   }
 
-  const now = Date.now();
-  const elapsed = Math.floor((now - backgroundTimerState.startTime) / 1000);
-  const newTimeRemaining = Math.max(0, backgroundTimerState.duration - elapsed);
+  const newTimeRemaining = getRemainingSeconds(backgroundTimerState.clock, Date.now());
 
   backgroundTimerState.timeRemaining = newTimeRemaining;
 
@@ -218,15 +239,17 @@ self.addEventListener('message', (event) => {
       break;
 
     case 'START_BACKGROUND_TIMER':
+      // Follow the page's clock when it sends one so both share a deadline
       backgroundTimerState = {
         ...backgroundTimerState,
         ...payload,
-        startTime: Date.now(),
+        clock: payload.clock || startClock(createTimerClock(payload.duration), Date.now()),
         isRunning: true
       };
       break;
 
     case 'STOP_BACKGROUND_TIMER':
+      backgroundTimerState.clock = pauseClock(backgroundTimerState.clock, Date.now());
       backgroundTimerState.isRunning = false;
       break;
 
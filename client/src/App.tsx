@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { getSettings } from '@/lib/localStorage';
 import { DEFAULT_SETTINGS } from '@/lib/timerService';
 import { applyTheme } from '@/lib/theme';
+import { initPlanRollover } from '@/lib/planRollover';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
@@ -12,6 +13,7 @@ import { isRepertoireSubdomain } from '@/lib/subdomain';
 import Home from '@/pages/Home';
 import Settings from '@/pages/Settings';
 import PracticeLog from '@/pages/PracticeLog';
+import Analytics from '@/pages/Analytics';
 import Report from '@/pages/Report';
 import PracticePlan from '@/pages/PracticePlan';
 import LessonPlan from '@/pages/LessonPlan';
@@ -19,7 +21,11 @@ import RepertoireList from '@/pages/RepertoireList';
 import RepertoireDetail from '@/pages/RepertoireDetail';
 import ResetPassword from '@/pages/ResetPassword';
 import SharedPieceDetail from '@/pages/SharedPieceDetail';
+import Teaching from '@/pages/Teaching';
+import TeacherInvite from '@/pages/TeacherInvite';
+import TeacherDashboard from '@/pages/TeacherDashboard';
 import { NavigationLayout } from '@/components/NavigationLayout';
+import SyncConflictDialog from '@/components/SyncConflictDialog';
 import { SharedReportProvider } from '@/contexts/SharedReportContext';
 import { ShareProvider } from '@/contexts/ShareContext';
 
@@ -50,12 +56,16 @@ function AppRoutes() {
       <Route path="/lesson-plan" element={<LessonPlan />} />
       <Route path="/settings" element={<Settings />} />
       <Route path="/practice-log" element={<PracticeLog />} />
+      <Route path="/practice-log/analytics" element={<Analytics />} />
       <Route path="/report" element={<Report />} />
       <Route path="/report/:token" element={<Report />} />
       <Route path="/report/:token/piece/:pieceId" element={<SharedPieceDetail />} />
       <Route path="/report/piece/:pieceId" element={<SharedPieceDetail />} />
       <Route path="/r/:id" element={<Report />} />
       <Route path="/r/:id/piece/:pieceId" element={<SharedPieceDetail />} />
+      <Route path="/teaching" element={<Teaching />} />
+      <Route path="/teaching/dashboard" element={<TeacherDashboard />} />
+      <Route path="/invite/:token" element={<TeacherInvite />} />
       <Route path="/reset-password" element={<ResetPassword />} />
       {/* Repertoire routes (auth-gated / promo) */}
       <Route path="/repertoire" element={<RepertoireList />} />
@@ -74,6 +84,9 @@ function AppContent() {
     applyTheme(currentTheme);
   }, []);
 
+  // Uncheck segments whose day or week is over, catching up after the app was closed
+  useEffect(() => initPlanRollover(), []);
+
   useEffect(() => {
     // Service worker updates only apply in production mode
     if (import.meta.env.DEV) return;
@@ -175,6 +188,7 @@ function AppContent() {
       <NavigationLayout>
         <AppRoutes />
       </NavigationLayout>
+      <SyncConflictDialog />
       <Toaster />
     </Router>
   );
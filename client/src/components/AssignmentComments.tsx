@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { teacherService } from "@/lib/teacherService";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+interface AssignmentCommentsProps {
+  assignmentId: string;
+  /** Display names by user id, for the other side of the assignment. */
+  names: Record<string, string>;
+}
+
+/** Comment thread between a teacher and a student on one assignment. */
+export default function AssignmentComments({ assignmentId, names }: AssignmentCommentsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState("");
+  const queryKey = ["assignment-comments", assignmentId];
+
+  const { data: comments = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => teacherService.getComments(assignmentId),
+  });
+
+  const addMutation = useMutation({
+    mutationFn: (body: string) => teacherService.addComment(assignmentId, body),
+    onSuccess: () => {
+      setDraft("");
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (e: Error) => toast({ title: "Comment not sent", description: e.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => teacherService.deleteComment(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const send = () => {
+    const body = draft.trim();
+    if (body) addMutation.mutate(body);
+  };
+
+  return (
+    <div className="space-y-2">
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Loading comments…</p>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No comments yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {comments.map((comment) => {
+            const own = comment.author_id === user?.id;
+            return (
+              <li key={comment.id} className="rounded-md bg-white/5 px-2 py-1.5">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-semibold">{own ? "You" : names[comment.author_id] ?? "Unknown"}</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-[11px] text-muted-foreground">
+                      {new Date(comment.created_at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+                    </span>
+                    {own && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0 text-muted-foreground hover:text-foreground"
+                        onClick={() => deleteMutation.mutate(comment.id)}
+                        aria-label="Delete comment"
+                      >
+                        <span className="material-icons text-sm">delete</span>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <p className="text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) send();
+          }}
+          placeholder="Write a comment…"
+          rows={2}
+          maxLength={4000}
+          className="min-h-0 text-sm"
+        />
+        <Button size="sm" onClick={send} disabled={!draft.trim() || addMutation.isPending}>
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+}
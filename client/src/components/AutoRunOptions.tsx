@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  type AutoRunSettings,
+  TRANSITION_OPTIONS,
+  getAutoRunSettings,
+  saveAutoRunSettings,
+} from "@/lib/autoRun";
+
+/** Auto-run plan: whether finished segments hand over to the next one, and how. */
+export default function AutoRunOptions() {
+  const [autoRun, setAutoRun] = useState<AutoRunSettings>(() => getAutoRunSettings());
+
+  const update = (changes: Partial<AutoRunSettings>) => {
+    const next = { ...autoRun, ...changes };
+    setAutoRun(next);
+    saveAutoRunSettings(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <span className="material-icons text-muted-foreground mr-3">playlist_play</span>
+          <Label htmlFor="auto-run">Auto-run plan</Label>
+        </div>
+        <Switch id="auto-run" checked={autoRun.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        When a segment's time is up, the next unchecked segment in the Practice Plan starts by itself.
+      </p>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <span className="material-icons text-muted-foreground mr-3">hourglass_empty</span>
+          <Label htmlFor="auto-run-pause">Pause between segments</Label>
+        </div>
+        <div className="w-32">
+          <Select
+            value={String(autoRun.transitionSeconds)}
+            disabled={!autoRun.enabled}
+            onValueChange={(value) => update({ transitionSeconds: Number(value) })}
+          >
+            <SelectTrigger id="auto-run-pause">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSITION_OPTIONS.map((seconds) => (
+                <SelectItem key={seconds} value={String(seconds)}>
+                  {seconds === 0 ? "None" : `${seconds} seconds`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <span className="material-icons text-muted-foreground mr-3">low_priority</span>
+          <Label htmlFor="auto-run-sections">Continue past headers</Label>
+        </div>
+        <Switch
+          id="auto-run-sections"
+          checked={autoRun.crossSections}
+          disabled={!autoRun.enabled}
+          onCheckedChange={(crossSections) => update({ crossSections })}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Off: auto-run stops when the segments under the current header are done.
+      </p>
+    </div>
+  );
+}
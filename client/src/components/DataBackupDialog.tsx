@@ -0,0 +1,300 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { formatDate, formatDuration } from "@/lib/practiceLog";
+import { getSettings } from "@/lib/localStorage";
+import { applyTheme } from "@/lib/theme";
+import { useTimerStore } from "@/stores/timerStore";
+import {
+  type BackupImportMode,
+  type PracticeBackup,
+  createBackup,
+  createBackupZip,
+  getBackupFileName,
+  getBackupPreview,
+  importBackup,
+  readBackupFile,
+} from "@/lib/dataBackup";
+
+interface DataBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after an import so the caller can reload plans and settings. */
+  onImported?: () => void;
+}
+
+function downloadFile(data: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+const IMPORT_MODES: { value: BackupImportMode; title: string; description: string }[] = [
+  {
+    value: "merge",
+    title: "Merge",
+    description: "Keep everything on this device and add what the backup has. Settings stay as they are.",
+  },
+  {
+    value: "replace",
+    title: "Replace",
+    description: "Make this device match the backup, including settings. Data not in the backup is removed.",
+  },
+];
+
+/**
+ * Export all practice data as a backup file and restore one, with a preview
+ * of the backup and a choice between merging and replacing.
+ */
+export default function DataBackupDialog({ open, onOpenChange, onImported }: DataBackupDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [pending, setPending] = useState<{ fileName: string; backup: PracticeBackup } | null>(null);
+  const [mode, setMode] = useState<BackupImportMode>("merge");
+  const [error, setError] = useState<string | null>(null);
+  const [confirmReplaceOpen, setConfirmReplaceOpen] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setPending(null);
+      setMode("merge");
+      setError(null);
+      setConfirmReplaceOpen(false);
+    }
+  }, [open]);
+
+  const handleExport = async (format: "json" | "zip") => {
+    setBusy(true);
+    try {
+      const backup = await createBackup();
+      if (format === "zip") {
+        downloadFile(createBackupZip(backup), getBackupFileName("zip"), "application/zip");
+      } else {
+        downloadFile(JSON.stringify(backup, null, 2), getBackupFileName("json"), "application/json");
+      }
+      toast({
+        title: "Backup downloaded",
+        description: backup.repertoire
+          ? "Your plans, logs, settings and repertoire were saved."
+          : "Your plans, logs and settings were saved. Sign in to include repertoire pieces.",
+        duration: 3000,
+      });
+    } catch (e) {
+      console.error("Failed to export backup:", e);
+      toast({ title: "Export failed", description: "The backup could not be created.", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChosen = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setPending(null);
+    const result = await readBackupFile(file);
+    if (result.ok) {
+      setPending({ fileName: file.name, backup: result.backup });
+    } else {
+      setError(result.error);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      const result = await importBackup(pending.backup, mode);
+      if (mode === "replace") {
+        const settings = getSettings();
+        if (settings.theme) applyTheme(settings.theme);
+        useTimerStore.getState().setSettings(settings);
+      }
+      onImported?.();
+      const changes = result.repertoireCreated + result.repertoireUpdated + result.repertoireDeleted;
+      toast({
+        title: "Backup imported",
+        description: [
+          mode === "merge" ? "The backup was merged into your data." : "Your data was replaced with the backup.",
+          changes > 0 ? `${changes} repertoire ${changes === 1 ? "piece" : "pieces"} updated.` : "",
+          ...result.warnings,
+        ]
+          .filter(Boolean)
+          .join(" "),
+        duration: 5000,
+      });
+      onOpenChange(false);
+    } catch (e) {
+      console.error("Failed to import backup:", e);
+      setError("The backup could not be imported.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const preview = pending ? getBackupPreview(pending.backup) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-slate-900 border-white/10 text-foreground">
+        <DialogHeader>
+          <DialogTitle>Backup &amp; restore</DialogTitle>
+          <DialogDescription>
+            Save plans, snapshots, logs, completions, settings and repertoire to a file, or restore them from one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Export</Label>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" disabled={busy} onClick={() => handleExport("json")}>
+                <span className="material-icons text-base mr-1">download</span>
+                Backup (JSON)
+              </Button>
+              <Button variant="outline" size="sm" disabled={busy} onClick={() => handleExport("zip")}>
+                <span className="material-icons text-base mr-1">folder_zip</span>
+                Backup + CSV (zip)
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The zip holds the same backup plus spreadsheet copies of your logs, plans and repertoire.
+            </p>
+          </div>
+
+          <div className="space-y-2 pt-4 border-t border-white/10">
+            <Label htmlFor="backup-file">Import</Label>
+            <input
+              ref={fileInputRef}
+              id="backup-file"
+              type="file"
+              accept=".json,.zip,application/json,application/zip"
+              className="hidden"
+              onChange={(e) => handleFileChosen(e.target.files?.[0])}
+            />
+            <Button variant="outline" size="sm" disabled={busy} onClick={() => fileInputRef.current?.click()}>
+              <span className="material-icons text-base mr-1">upload_file</span>
+              Choose backup file
+            </Button>
+
+            {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+
+            {pending && preview && (
+              <div className="space-y-3">
+                <div className="rounded-md border border-white/10 px-3 py-2 text-sm space-y-1">
+                  <p className="font-medium truncate">{pending.fileName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Made {new Date(preview.exportedAt).toLocaleString()}
+                  </p>
+                  <ul className="text-xs text-muted-foreground grid grid-cols-2 gap-x-4 gap-y-0.5 pt-1">
+                    <li>{preview.plans} {preview.plans === 1 ? "plan" : "plans"}, {preview.planItems} blocks</li>
+                    <li>{preview.lessonItems} lesson plan blocks</li>
+                    <li>{preview.snapshots} snapshots</li>
+                    <li>{preview.segmentTemplates} segment templates</li>
+                    <li>{preview.loggedDays} days logged ({formatDuration(preview.totalSeconds)})</li>
+                    <li>{preview.completions} segment completions</li>
+                    <li>{preview.journalEntries} timeline entries</li>
+                    <li>{preview.manualEntries} manual edits</li>
+                    <li>{preview.pieceReviews} piece review schedules</li>
+                    <li className="col-span-2">
+                      {preview.repertoirePieces === null
+                        ? "No repertoire (exported while signed out)"
+                        : `${preview.repertoirePieces} repertoire pieces`}
+                    </li>
+                  </ul>
+                  {preview.firstDate && preview.lastDate && (
+                    <p className="text-xs text-muted-foreground">
+                      Logs from {formatDate(preview.firstDate)} to {formatDate(preview.lastDate)}
+                    </p>
+                  )}
+                </div>
+
+                <div role="radiogroup" aria-label="Import mode" className="grid gap-2">
+                  {IMPORT_MODES.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      role="radio"
+                      aria-checked={mode === option.value}
+                      onClick={() => setMode(option.value)}
+                      className={cn(
+                        "rounded-md border px-3 py-2 text-left transition-colors",
+                        mode === option.value ? "border-primary bg-primary/10" : "border-white/10 hover:bg-white/5"
+                      )}
+                    >
+                      <span className="block text-sm font-medium">{option.title}</span>
+                      <span className="block text-xs text-muted-foreground">{option.description}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {pending && (
+            <Button
+              type="button"
+              variant={mode === "replace" ? "destructive" : "default"}
+              disabled={busy}
+              onClick={() => (mode === "replace" ? setConfirmReplaceOpen(true) : handleImport())}
+            >
+              {mode === "replace" ? "Replace data" : "Merge backup"}
+            </Button>
+          )}
+        </DialogFooter>
+
+        <AlertDialog open={confirmReplaceOpen} onOpenChange={setConfirmReplaceOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Replace your data?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Plans, logs, settings and segment templates on this device will be replaced with the backup. Signed in, your
+                repertoire will match it too. This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleImport}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Replace data
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
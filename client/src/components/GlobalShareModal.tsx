@@ -93,6 +93,11 @@ export function GlobalShareModal() {
                 <span>Last published: {formatLastPublishedDate(lastPublishedDate)}</span>
               </p>
             )}
+            {permalinkId && (
+              <p className="text-[11px] text-muted-foreground pl-1">
+                Each update is kept as a version; viewers can switch versions and see what changed.
+              </p>
+            )}
             <Button
               className="w-full gap-2 h-9"
               onClick={handlePublishUpdate}
@@ -116,7 +121,7 @@ export function GlobalShareModal() {
             <div className="flex items-center justify-between">
               <h4 className="text-sm font-semibold text-foreground">Snapshot version</h4>
               <span className="text-[10px] uppercase tracking-wider text-muted-foreground font-bold">
-                Static backup
+                Pinned link
               </span>
             </div>
             <Button
@@ -130,7 +135,7 @@ export function GlobalShareModal() {
               </span>
               Create Snapshot Version
             </Button>
-            {shareUrl && !shareUrl.includes(permalinkId || "___") && (
+            {shareUrl && shareUrl !== `${window.location.origin}/r/${permalinkId}` && (
               <div className="flex items-center space-x-2 animate-in fade-in slide-in-from-top-2 duration-300">
                 <Input
                   value={shareUrl}
@@ -0,0 +1,116 @@
+import { Link } from "react-router-dom";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { TextWithLinks } from "@/components/TextWithLinks";
+import { getSettings } from "@/lib/localStorage";
+import { getPracticePlan } from "@/lib/practicePlan";
+import { formatDuration } from "@/lib/practiceLog";
+import {
+  type GoalProgress,
+  getDailyGoalProgress,
+  getPieceTargets,
+  getStreaks,
+  getWeeklyGoalProgress,
+} from "@/lib/practiceGoals";
+
+interface GoalProgressCardProps {
+  /** Home shows just the streak and the daily/weekly bars. */
+  compact?: boolean;
+  className?: string;
+}
+
+function GoalBar({ label, goal }: { label: string; goal: GoalProgress }) {
+  const percent = Math.min(100, Math.round((goal.practicedSeconds / goal.targetSeconds) * 100));
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-muted-foreground uppercase tracking-wider">{label}</span>
+        <span className={cn("font-mono", goal.met ? "text-emerald-600 dark:text-emerald-300" : "text-muted-foreground")}>
+          {formatDuration(goal.practicedSeconds)} / {formatDuration(goal.targetSeconds)}
+        </span>
+      </div>
+      <Progress value={percent} className="h-2" aria-label={`${label} goal ${percent}%`} />
+    </div>
+  );
+}
+
+/**
+ * Streaks and progress towards the practice goals set in Settings. Reads the
+ * logs on every render, so the parent's per-tick re-render keeps it current.
+ */
+export default function GoalProgressCard({ compact = false, className }: GoalProgressCardProps) {
+  const settings = getSettings();
+  const daily = getDailyGoalProgress(settings);
+  const weekly = getWeeklyGoalProgress(settings);
+  const streaks = getStreaks(settings);
+  const pieceTargets = compact ? [] : getPieceTargets(getPracticePlan(), settings.weekStartsOn);
+  const hasGoals = !!daily || !!weekly;
+
+  if (compact && !hasGoals && streaks.currentDays === 0) return null;
+
+  return (
+    <div className={cn("rounded-xl border border-primary/20 bg-primary/5 p-4 space-y-3", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="inline-flex items-center gap-1.5 text-sm font-semibold">
+          <span
+            className={cn(
+              "material-icons text-lg select-none",
+              streaks.currentDays > 0 ? "text-orange-500" : "text-muted-foreground"
+            )}
+            aria-hidden="true"
+          >
+            local_fire_department
+          </span>
+          {streaks.currentDays} day{streaks.currentDays === 1 ? "" : "s"} streak
+          {streaks.todayPending && (
+            <span className="text-xs font-normal text-muted-foreground">• practice today to keep it</span>
+          )}
+        </span>
+        {!compact && (
+          <span className="text-xs text-muted-foreground">
+            Best {streaks.longestDays} day{streaks.longestDays === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+
+      {daily && <GoalBar label="Today" goal={daily} />}
+      {weekly && <GoalBar label="This week" goal={weekly} />}
+
+      {!compact && (
+        <p className="text-xs text-muted-foreground">
+          {streaks.currentWeeks} week{streaks.currentWeeks === 1 ? "" : "s"} in a row
+          {settings.weeklyGoalMinutes ? " on target" : " with practice"} • best {streaks.longestWeeks}
+        </p>
+      )}
+
+      {!hasGoals && !compact && (
+        <p className="text-xs text-muted-foreground">
+          <Link to="/settings" className="text-primary hover:underline">Set a daily or weekly goal</Link> to track your progress.
+        </p>
+      )}
+
+      {pieceTargets.length > 0 && (
+        <ul className="space-y-1.5 pt-1 border-t border-primary/10">
+          {pieceTargets.map((target) => (
+            <li key={target.itemId} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate min-w-0">
+                <TextWithLinks text={target.itemName} />
+              </span>
+              <span
+                className={cn(
+                  "inline-flex items-center h-[22px] px-2 rounded-full text-xs font-semibold font-mono tracking-tight shrink-0 select-none border",
+                  target.met
+                    ? "bg-emerald-500/15 border-emerald-500/35 text-emerald-700 dark:text-emerald-300"
+                    : "bg-muted/60 border-muted-foreground/20 text-muted-foreground"
+                )}
+              >
+                {formatDuration(target.practicedSeconds)} / {formatDuration(target.targetSeconds)}
+                {target.period === "week" ? " wk" : ""}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,62 @@
 import { cn } from "@/lib/utils";
+import type { TimerInterval } from "@/lib/intervalSequence";
 
 interface IterationTrackerProps {
   currentIteration: number;
   totalIterations: number;
   mode: 'work' | 'break';
+  isLongBreak?: boolean;
+  /** Custom sequence intervals; when set, one dot is shown per interval. */
+  intervals?: TimerInterval[];
+  intervalIndex?: number;
 }
 
 export default function IterationTracker({
   currentIteration,
   totalIterations,
-  mode
+  mode,
+  isLongBreak = false,
+  intervals,
+  intervalIndex = 0
 }: IterationTrackerProps) {
+  if (intervals && intervals.length > 0) {
+    const current = intervals[Math.min(intervalIndex, intervals.length - 1)];
+    const label = current.name || (current.mode === 'work' ? 'Work Session' : current.isLongBreak ? 'Long Break' : 'Break');
+
+    return (
+      <div className="flex flex-col items-center space-y-2">
+        <div className="text-base font-medium text-white/80">
+          {label} •  {intervalIndex + 1} of {intervals.length}
+        </div>
+        <div className="flex flex-wrap justify-center gap-2 max-w-xs">
+          {intervals.map((interval, index) => (
+            <div
+              key={`${interval.id}-${index}`}
+              title={interval.name}
+              className={cn(
+                "rounded-full transition-all duration-300",
+                interval.mode === 'work' ? "w-5 h-5" : interval.isLongBreak ? "w-4 h-4 self-center" : "w-3 h-3 self-center",
+                index === intervalIndex
+                  ? interval.mode === 'work'
+                    ? "bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.5)]"
+                    : interval.isLongBreak
+                    ? "bg-teal-400 shadow-[0_0_8px_rgba(45,212,191,0.5)]"
+                    : "bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.5)]"
+                  : index < intervalIndex
+                  ? "bg-white/30"
+                  : "bg-white/10"
+              )}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col items-center space-y-2">
       <div className="text-base font-medium text-white/80">
-        {mode === 'work' ? 'Work Session' : 'Break'} •  {currentIteration} of {totalIterations}
+        {mode === 'work' ? 'Work Session' : isLongBreak ? 'Long Break' : 'Break'} •  {currentIteration} of {totalIterations}
       </div>
       <div className="flex space-x-2">
         {Array.from({ length: totalIterations }).map((_, index) => (
@@ -23,8 +65,10 @@ export default function IterationTracker({
             className={cn(
               "w-5 h-5 rounded-full transition-all duration-300",
               index + 1 === currentIteration
-                ? mode === 'work' 
-                  ? "bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.5)]" 
+                ? mode === 'work'
+                  ? "bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.5)]"
+                  : isLongBreak
+                  ? "bg-teal-400 shadow-[0_0_8px_rgba(45,212,191,0.5)]"
                   : "bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.5)]"
                 : index + 1 < currentIteration
                 ? "bg-white/30"
@@ -35,4 +79,4 @@ export default function IterationTracker({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  type BeatAccent,
+  type MetronomeSettings,
+  type MetronomeStatus,
+  MAX_TEMPO,
+  MIN_TEMPO,
+  getMetronomeStatus,
+  getTapTempo,
+  setMetronomeSettings,
+  subscribeMetronome,
+  toggleMetronome,
+} from "@/lib/metronome";
+
+const METERS: { label: string; beatsPerBar: number; beatUnit: MetronomeSettings["beatUnit"] }[] = [
+  { label: "2/4", beatsPerBar: 2, beatUnit: 4 },
+  { label: "3/4", beatsPerBar: 3, beatUnit: 4 },
+  { label: "4/4", beatsPerBar: 4, beatUnit: 4 },
+  { label: "5/4", beatsPerBar: 5, beatUnit: 4 },
+  { label: "6/8", beatsPerBar: 6, beatUnit: 8 },
+  { label: "7/8", beatsPerBar: 7, beatUnit: 8 },
+  { label: "2/2", beatsPerBar: 2, beatUnit: 2 },
+];
+
+const SUBDIVISIONS: { value: MetronomeSettings["subdivision"]; label: string }[] = [
+  { value: 1, label: "Beats" },
+  { value: 2, label: "Eighths" },
+  { value: 3, label: "Triplets" },
+  { value: 4, label: "Sixteenths" },
+];
+
+const NEXT_ACCENT: Record<BeatAccent, BeatAccent> = { accent: "normal", normal: "mute", mute: "accent" };
+
+/** Tap-tempo taps further apart than this start a new count. */
+const TAP_RESET_MS = 2000;
+
+interface MetronomePanelProps {
+  className?: string;
+}
+
+/**
+ * Metronome controls for Home. Selecting a segment with a saved tempo loads
+ * it here (see selectPiece in the timer store).
+ */
+export default function MetronomePanel({ className }: MetronomePanelProps) {
+  const [status, setStatus] = useState<MetronomeStatus>(() => getMetronomeStatus());
+  const [expanded, setExpanded] = useState(false);
+  const taps = useRef<number[]>([]);
+  const { running, settings, beat } = status;
+
+  useEffect(() => subscribeMetronome(setStatus), []);
+
+  const meter = `${settings.beatsPerBar}/${settings.beatUnit}`;
+
+  const handleTap = () => {
+    const now = Date.now();
+    const previous = taps.current[taps.current.length - 1];
+    taps.current = previous !== undefined && now - previous > TAP_RESET_MS ? [now] : [...taps.current, now];
+    const tempo = getTapTempo(taps.current);
+    if (tempo) setMetronomeSettings({ tempo });
+  };
+
+  const cycleAccent = (index: number) => {
+    const accents = settings.accents.map((accent, i) => (i === index ? NEXT_ACCENT[accent] : accent));
+    setMetronomeSettings({ accents });
+  };
+
+  return (
+    <div className={cn("rounded-xl border border-border/60 bg-muted/20 p-4 space-y-3", className)}>
+      <div className="flex items-center gap-3">
+        <Button
+          variant={running ? "default" : "outline"}
+          size="icon"
+          className="h-10 w-10 rounded-full shrink-0"
+          onClick={() => toggleMetronome()}
+          title={running ? "Stop metronome" : "Start metronome"}
+          aria-pressed={running}
+        >
+          <span className="material-icons">{running ? "stop" : "play_arrow"}</span>
+        </Button>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setMetronomeSettings({ tempo: settings.tempo - 1 })}
+            disabled={settings.tempo <= MIN_TEMPO}
+            aria-label="Slower"
+          >
+            <span className="material-icons text-base">remove</span>
+          </Button>
+          <span className="w-12 text-center text-2xl font-bold font-mono tabular-nums" aria-live="polite">
+            {settings.tempo}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setMetronomeSettings({ tempo: settings.tempo + 1 })}
+            disabled={settings.tempo >= MAX_TEMPO}
+            aria-label="Faster"
+          >
+            <span className="material-icons text-base">add</span>
+          </Button>
+          <span className="text-xs text-muted-foreground">BPM</span>
+        </div>
+
+        <div className="flex items-center gap-1 ml-auto" aria-label="Accent pattern">
+          {settings.accents.map((accent, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => cycleAccent(i)}
+              title={`Beat ${i + 1}: ${accent}`}
+              className={cn(
+                "rounded-full border transition-colors",
+                accent === "accent" ? "h-3.5 w-3.5" : "h-2.5 w-2.5",
+                accent === "mute" ? "border-muted-foreground/40 bg-transparent" : "border-primary/50",
+                accent !== "mute" && (running && beat === i ? "bg-primary" : "bg-primary/20")
+              )}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Slider
+          min={MIN_TEMPO}
+          max={MAX_TEMPO}
+          step={1}
+          value={[settings.tempo]}
+          onValueChange={(value) => setMetronomeSettings({ tempo: value[0] })}
+          className="flex-1"
+          aria-label="Tempo"
+        />
+        <Button variant="outline" size="sm" className="h-7 px-3 text-xs" onClick={handleTap}>
+          Tap
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-muted-foreground"
+          onClick={() => setExpanded((e) => !e)}
+          aria-expanded={expanded}
+          title="Meter, subdivision and volume"
+        >
+          <span className="material-icons text-base">{expanded ? "expand_less" : "tune"}</span>
+        </Button>
+      </div>
+
+      {expanded && (
+        <div className="grid grid-cols-2 gap-3 pt-1">
+          <Select
+            value={meter}
+            onValueChange={(value) => {
+              const selected = METERS.find((m) => m.label === value);
+              if (selected) setMetronomeSettings({ beatsPerBar: selected.beatsPerBar, beatUnit: selected.beatUnit });
+            }}
+          >
+            <SelectTrigger className="h-8" aria-label="Meter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {!METERS.some((m) => m.label === meter) && <SelectItem value={meter}>{meter}</SelectItem>}
+              {METERS.map((m) => (
+                <SelectItem key={m.label} value={m.label}>{m.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(settings.subdivision)}
+            onValueChange={(value) => setMetronomeSettings({ subdivision: Number(value) as MetronomeSettings["subdivision"] })}
+          >
+            <SelectTrigger className="h-8" aria-label="Subdivision">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUBDIVISIONS.map((s) => (
+                <SelectItem key={s.value} value={String(s.value)}>{s.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="col-span-2 flex items-center gap-3">
+            <span className="material-icons text-base text-muted-foreground" aria-hidden="true">volume_up</span>
+            <Slider
+              min={0}
+              max={100}
+              step={1}
+              value={[settings.volume]}
+              onValueChange={(value) => setMetronomeSettings({ volume: value[0] })}
+              className="flex-1"
+              aria-label="Metronome volume"
+            />
+            <span className="w-10 text-right text-xs text-muted-foreground">{settings.volume}%</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
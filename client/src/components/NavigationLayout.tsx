@@ -17,6 +17,10 @@ import { useSharedReport } from '@/contexts/SharedReportContext';
 import { useShareModal } from '@/contexts/ShareContext';
 import { GlobalShareModal } from '@/components/GlobalShareModal';
 import { stripMarkdownLinks } from '@/lib/richText';
+import { PlanSwitcher } from '@/components/PlanSwitcher';
+import { PLAN_SWITCHED_EVENT } from '@/lib/planLibrary';
+import { getPracticePlan } from '@/lib/practicePlan';
+import { findPathToId } from '@/lib/planStoreHelpers';
 
 interface NavigationLayoutProps {
   children: React.ReactNode;
@@ -48,6 +52,18 @@ export function NavigationLayout({ children }: NavigationLayoutProps) {
 
   const isReportPath = pathname.startsWith('/report') || pathname.startsWith('/r/');
 
+  // The timer's selected segment belongs to the active plan; drop it when switching to a plan without it
+  useEffect(() => {
+    const handlePlanSwitched = () => {
+      const { activePieceId, clearPiece: clearActivePiece } = useTimerStore.getState();
+      if (activePieceId && !findPathToId(getPracticePlan(), activePieceId)) {
+        clearActivePiece();
+      }
+    };
+    window.addEventListener(PLAN_SWITCHED_EVENT, handlePlanSwitched);
+    return () => window.removeEventListener(PLAN_SWITCHED_EVENT, handlePlanSwitched);
+  }, []);
+
   const [isSidebarExpanded, setIsSidebarExpanded] = useState(() => {
     if (typeof window !== 'undefined') {
       const isReport = window.location.pathname.startsWith('/report') || window.location.pathname.startsWith('/r/');
@@ -173,13 +189,16 @@ export function NavigationLayout({ children }: NavigationLayoutProps) {
     { path: '/lesson-plan', label: 'Lesson Plan', icon: 'school' },
     { path: '/repertoire', label: 'Repertoire', icon: 'library_music' },
     { path: '/practice-log', label: 'Practice Log', icon: 'history' },
+    { path: '/teaching', label: 'Teaching', icon: 'groups' },
   ];
 
   // Detect if on sub-path (like detail screens) for rendering Top Bar back arrow
   const isRepertoireDetail = pathname.startsWith('/repertoire/') && pathname !== '/repertoire';
   const isReportDetail = pathname.startsWith('/report/') || pathname.startsWith('/r/');
   const isReportSubPage = isReportDetail && pathname.includes('/piece/');
-  const isSubPage = isRepertoireDetail || isReportSubPage;
+  const isAnalytics = pathname === '/practice-log/analytics';
+  const isTeacherDashboard = pathname === '/teaching/dashboard';
+  const isSubPage = isRepertoireDetail || isReportSubPage || isAnalytics || isTeacherDashboard;
 
   // Determine page title
   let pageTitle = 'Practice Mate';
@@ -195,6 +214,14 @@ export function NavigationLayout({ children }: NavigationLayoutProps) {
     pageTitle = 'Piece Details';
   } else if (pathname === '/practice-log') {
     pageTitle = 'Practice Log';
+  } else if (isAnalytics) {
+    pageTitle = 'Analytics';
+  } else if (pathname === '/teaching') {
+    pageTitle = 'Teaching';
+  } else if (isTeacherDashboard) {
+    pageTitle = 'Student Reports';
+  } else if (pathname.startsWith('/invite/')) {
+    pageTitle = 'Teacher Invite';
   } else if (pathname === '/settings') {
     pageTitle = 'Settings';
   } else if (isReportDetail) {
@@ -205,6 +232,10 @@ export function NavigationLayout({ children }: NavigationLayoutProps) {
   const handleBackNavigation = () => {
     if (isRepertoireDetail) {
       navigate('/repertoire');
+    } else if (isAnalytics) {
+      navigate('/practice-log');
+    } else if (isTeacherDashboard) {
+      navigate('/teaching');
     } else if (isReportSubPage) {
       const matchReportToken = pathname.match(/^\/report\/([^\/]+)/);
       const matchReportId = pathname.match(/^\/r\/([^\/]+)/);
@@ -351,6 +382,21 @@ export function NavigationLayout({ children }: NavigationLayoutProps) {
               );
             })
           )}
+
+          {/* Plan library switcher — multiple plans are a registered-user feature */}
+          {!isReportPath && isLoggedIn && (
+            <div className={cn(
+              "pt-3 mt-3 border-t border-black/5 dark:border-white/10",
+              isSidebarExpanded ? "" : "flex justify-center"
+            )}>
+              <div className={cn(isSidebarExpanded ? "hidden md:block" : "hidden")}>
+                <PlanSwitcher />
+              </div>
+              <div className={cn(isSidebarExpanded ? "md:hidden" : "block")}>
+                <PlanSwitcher compact />
+              </div>
+            </div>
+          )}
         </nav>
       </aside>
 
@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { TextWithLinks } from "@/components/TextWithLinks";
+import SessionPlannerDialog from "@/components/SessionPlannerDialog";
+import { cn } from "@/lib/utils";
+import { stripMarkdownLinks } from "@/lib/richText";
+import { getPracticePlan } from "@/lib/practicePlan";
+import { PLAN_SWITCHED_EVENT } from "@/lib/planLibrary";
+import {
+  type AutoRunSettings,
+  type QueuedSegment,
+  getAutoRunSettings,
+  getPlanSegments,
+  getUpcomingSegments,
+  saveAutoRunSettings,
+} from "@/lib/autoRun";
+import { useTimerStore } from "@/stores/timerStore";
+
+const QUEUE_LENGTH = 3;
+
+interface NextUpQueueProps {
+  /** Select a segment and start timing it, like the plan's play button. */
+  onPlay: (segment: QueuedSegment) => void;
+  className?: string;
+}
+
+/**
+ * The upcoming segments - a loaded daily session's, or else the plan's - with
+ * the auto-run switch, the transition countdown and the session planner.
+ */
+export default function NextUpQueue({ onPlay, className }: NextUpQueueProps) {
+  const activePieceId = useTimerStore((state) => state.activePieceId);
+  const pendingSegment = useTimerStore((state) => state.pendingSegment);
+  const sessionQueue = useTimerStore((state) => state.sessionQueue);
+  const startPendingSegment = useTimerStore((state) => state.startPendingSegment);
+  const cancelPendingSegment = useTimerStore((state) => state.cancelPendingSegment);
+  const loadSession = useTimerStore((state) => state.loadSession);
+  const clearSession = useTimerStore((state) => state.clearSession);
+  const [autoRun, setAutoRun] = useState<AutoRunSettings>(() => getAutoRunSettings());
+  const [plannerOpen, setPlannerOpen] = useState(false);
+  const [plan, setPlan] = useState(() => getPracticePlan());
+  const [now, setNow] = useState(() => Date.now());
+
+  // The store checks segments off as they finish; re-read the plan when that happens
+  useEffect(() => {
+    setPlan(getPracticePlan());
+  }, [activePieceId, pendingSegment]);
+
+  useEffect(() => {
+    const refresh = () => setPlan(getPracticePlan());
+    window.addEventListener(PLAN_SWITCHED_EVENT, refresh);
+    window.addEventListener("piece-timer-complete", refresh);
+    return () => {
+      window.removeEventListener(PLAN_SWITCHED_EVENT, refresh);
+      window.removeEventListener("piece-timer-complete", refresh);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!pendingSegment) return;
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(id);
+  }, [pendingSegment]);
+
+  const hasSegments = useMemo(() => getPlanSegments(plan).length > 0, [plan]);
+  const upcoming = useMemo(() => {
+    if (sessionQueue.length > 0) {
+      return sessionQueue.filter((segment) => segment.id !== pendingSegment?.id).slice(0, QUEUE_LENGTH);
+    }
+    return getUpcomingSegments(plan, pendingSegment?.id ?? activePieceId, autoRun).slice(0, QUEUE_LENGTH);
+  }, [plan, pendingSegment, activePieceId, autoRun, sessionQueue]);
+
+  if (!hasSegments) return null;
+
+  const toggleAutoRun = (enabled: boolean) => {
+    const next = { ...autoRun, enabled };
+    setAutoRun(next);
+    saveAutoRunSettings(next);
+  };
+
+  const handleLoadSession = (segments: QueuedSegment[]) => {
+    loadSession(segments);
+    onPlay(segments[0]);
+  };
+
+  const secondsLeft = pendingSegment ? Math.max(0, Math.ceil((pendingSegment.startsAt - now) / 1000)) : 0;
+
+  return (
+    <div className={cn("rounded-lg bg-muted/40 border border-border/40 p-3 space-y-2", className)}>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-muted-foreground uppercase tracking-wider font-bold">Next up</span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => setPlannerOpen(true)}
+            title="Propose a session for the time you have"
+          >
+            <span className="material-icons text-sm mr-1">event_note</span>
+            Plan session
+          </Button>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Auto-run plan
+            <Switch checked={autoRun.enabled} onCheckedChange={toggleAutoRun} aria-label="Auto-run plan" />
+          </label>
+        </div>
+      </div>
+
+      {sessionQueue.length > 0 && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            Today's session: {sessionQueue.length} more segment{sessionQueue.length === 1 ? "" : "s"}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs text-muted-foreground hover:text-foreground"
+            onClick={clearSession}
+          >
+            Clear
+          </Button>
+        </div>
+      )}
+
+      {pendingSegment && (
+        <div className="flex items-center justify-between gap-2 rounded-md bg-primary/10 px-2 py-1.5">
+          <div className="min-w-0">
+            <p className="text-sm font-semibold truncate" title={stripMarkdownLinks(pendingSegment.name)}>
+              <TextWithLinks text={pendingSegment.name} />
+            </p>
+            <p className="text-xs text-muted-foreground font-mono">Starts in {secondsLeft}s</p>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs font-semibold" onClick={startPendingSegment}>
+              Start now
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+              onClick={cancelPendingSegment}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {upcoming.length === 0 && !pendingSegment ? (
+        <p className="text-xs text-muted-foreground">
+          {activePieceId ? "This is the last segment in this section." : "Every segment in the plan is done."}
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {upcoming.map((segment) => (
+            <li key={segment.id} className="flex items-center gap-2">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm truncate" title={stripMarkdownLinks(segment.name)}>
+                  <TextWithLinks text={segment.name} />
+                </p>
+                {segment.sectionName && (
+                  <p className="text-[11px] text-muted-foreground truncate">{stripMarkdownLinks(segment.sectionName)}</p>
+                )}
+              </div>
+              <span className="text-xs text-muted-foreground font-mono">{segment.minutes} min</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-muted-foreground hover:text-foreground"
+                onClick={() => onPlay(segment)}
+                title="Start this segment"
+                aria-label={`Start ${stripMarkdownLinks(segment.name)}`}
+              >
+                <span className="material-icons text-sm">play_arrow</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <SessionPlannerDialog open={plannerOpen} onOpenChange={setPlannerOpen} onLoad={handleLoadSession} />
+    </div>
+  );
+}
@@ -51,6 +51,7 @@ import {
   type PlanItem as PracticePlanItem,
   type BlockType,
   type PlanSnapshot,
+  type TempoProgression,
   generateId,
 } from "@/lib/planTypes";
 import { type PlanStoreApi } from "@/lib/planStoreHelpers";
@@ -71,7 +72,7 @@ import { repertoireService } from "@/lib/repertoireService";
 import { useAuth } from "@/contexts/AuthContext";
 import type { RepertoirePiece } from "@/lib/repertoire.types";
 import { cn } from "@/lib/utils";
-import { playSound, resumeAudioContext } from "@/lib/soundEffects";
+import { playEventSound, resumeAudioContext } from "@/lib/soundEffects";
 import { TextWithLinks } from "./TextWithLinks";
 import { RichLink } from "./RichLink";
 import { InlineToolbar, type InlineToolbarProps } from "./InlineToolbar";
@@ -83,6 +84,19 @@ import { applyTextFormat, stripMarkdownLinks } from "@/lib/richText";
 import { useTimerStore } from "@/stores/timerStore";
 import { getPiecePracticedSeconds, getLast7DaysSummary, getSegmentCompletionsForThisWeek, hasCompletedSegmentToday, formatDuration } from "@/lib/practiceLog";
 import { getSettings } from "@/lib/localStorage";
+import { PLAN_SWITCHED_EVENT } from "@/lib/planLibrary";
+import { LESSON_PLAN_REPLACED_EVENT } from "@/lib/lessonPlan";
+import { MAX_TEMPO, MIN_TEMPO, clampTempo } from "@/lib/metronome";
+import { getTempoProgress, normalizeTempoProgression } from "@/lib/tempoProgression";
+import {
+  SEGMENT_LIBRARY_CHANGED_EVENT,
+  type SegmentTemplate,
+  getSegmentLibrary,
+  createSegmentTemplate,
+  getTemplateFieldsFromItem,
+} from "@/lib/segmentLibrary";
+import SegmentLibraryDialog from "./SegmentLibraryDialog";
+import DataBackupDialog from "./DataBackupDialog";
 import "@/assets/headerBlur.css";
 import {
   DndContext,
@@ -138,6 +152,18 @@ const PRACTICE_BLOCK_OPTIONS: { type: BlockType | "repertoire-piece"; label: str
 
 const ALL_BLOCK_OPTIONS = [...BASIC_BLOCK_OPTIONS, ...PRACTICE_BLOCK_OPTIONS];
 
+/** Slash menu entry; entries with a templateId insert a segment from the library. */
+type SlashOption = { type: BlockType | "repertoire-piece"; label: string; icon: string; templateId?: string };
+
+function templateSlashOptions(templates: SegmentTemplate[]): SlashOption[] {
+  return templates.map((t) => ({
+    type: "segment",
+    label: stripMarkdownLinks(t.name) || "Untitled segment",
+    icon: "bookmark",
+    templateId: t.id,
+  }));
+}
+
 function formatCheckedDate(dateStr?: string): string {
   if (!dateStr) return "";
   try {
@@ -427,6 +453,16 @@ export function parseTextToPlanItems(text: string): PracticePlanItem[] {
   return rootNodes.map(convertNode);
 }
 
+/** Tempo goal fields as typed in the segment form. */
+function getTempoGoalDraft(progression?: TempoProgression) {
+  return {
+    start: progression ? String(progression.startTempo) : "",
+    target: progression ? String(progression.targetTempo) : "",
+    step: progression ? String(progression.step) : "",
+    runs: progression ? String(progression.runsPerStep) : "",
+  };
+}
+
 interface PlanItemProps {
   item: PracticePlanItem;
   depth: number;
@@ -454,8 +490,13 @@ interface PlanItemProps {
   onPasteMultiLineText: (targetId: string, rawText: string) => void;
   onUndo: () => void;
   onOpenAllocationDialog: (id: string, text: string, currentMinutes?: number, currentPeriod?: 'day' | 'week') => void;
-  onPlayPiece: (id: string, name: string, minutes: number, period: 'day' | 'week') => void;
-  onSaveSegment: (id: string, name: string, goal: string | undefined, allocatedTime: number | undefined, allocationPeriod: 'day' | 'week' | undefined, repertoirePieceId: string | undefined, videoUrl: string | undefined) => void;
+  onPlayPiece: (id: string, name: string, minutes: number, period: 'day' | 'week', tempo?: number) => void;
+  onSaveSegment: (id: string, name: string, goal: string | undefined, allocatedTime: number | undefined, allocationPeriod: 'day' | 'week' | undefined, repertoirePieceId: string | undefined, videoUrl: string | undefined, tempo: number | undefined, tempoProgression: TempoProgression | undefined) => void;
+  segmentTemplates: SegmentTemplate[];
+  onApplyTemplate: (id: string, templateId: string) => void;
+  onInsertTemplateBelow: (id: string, templateId: string) => void;
+  onSaveAsTemplate: (id: string) => void;
+  onUnlinkTemplate: (id: string) => void;
   repertoirePieces?: RepertoirePiece[];
   allowSegments?: boolean;
   onSelectAllBlocks: () => void;
@@ -491,6 +532,11 @@ function PlanItem({
   onOpenAllocationDialog,
   onPlayPiece,
   onSaveSegment,
+  segmentTemplates,
+  onApplyTemplate,
+  onInsertTemplateBelow,
+  onSaveAsTemplate,
+  onUnlinkTemplate,
   repertoirePieces,
   allowSegments = true,
   onSelectAllBlocks,
@@ -513,6 +559,7 @@ function PlanItem({
     if (!item.repertoirePieceId || !repertoirePieces) return null;
     return repertoirePieces.find((p) => p.id === item.repertoirePieceId) || null;
   }, [item.repertoirePieceId, repertoirePieces]);
+  const tempoProgress = getTempoProgress(item);
   const {
     attributes,
     listeners,
@@ -577,6 +624,8 @@ function PlanItem({
   const [segmentPeriodValue, setSegmentPeriodValue] = useState<'day' | 'week'>(item.allocationPeriod ?? 'day');
   const [segmentPieceId, setSegmentPieceId] = useState(item.repertoirePieceId ?? "");
   const [segmentVideoUrlValue, setSegmentVideoUrlValue] = useState(item.videoUrl ?? "");
+  const [segmentTempoValue, setSegmentTempoValue] = useState(item.tempo ? String(item.tempo) : "");
+  const [tempoGoalDraft, setTempoGoalDraft] = useState(() => getTempoGoalDraft(item.tempoProgression));
   // Guard: don't clobber in-progress edits while the segment form is open
   useEffect(() => { if (!editing) setSegmentGoalValue(item.segmentGoal ?? ""); }, [item.segmentGoal, editing]);
   useEffect(() => {
@@ -585,8 +634,10 @@ function PlanItem({
       setSegmentPeriodValue(item.allocationPeriod ?? 'day');
       setSegmentPieceId(item.repertoirePieceId ?? "");
       setSegmentVideoUrlValue(item.videoUrl ?? "");
+      setSegmentTempoValue(item.tempo ? String(item.tempo) : "");
+      setTempoGoalDraft(getTempoGoalDraft(item.tempoProgression));
     }
-  }, [item.allocatedTime, item.allocationPeriod, item.repertoirePieceId, item.videoUrl, editing]);
+  }, [item.allocatedTime, item.allocationPeriod, item.repertoirePieceId, item.videoUrl, item.tempo, item.tempoProgression, editing]);
 
   // Slash command state
   const [slashMenuOpen, setSlashMenuOpen] = useState(false);
@@ -628,8 +679,19 @@ function PlanItem({
     const mins = parseInt(segmentDurationValue, 10);
     const duration = isNaN(mins) || mins <= 0 ? undefined : mins;
     const videoUrl = segmentVideoUrlValue.trim() || undefined;
-    onSaveSegment(item.id, name, goal, duration, segmentPeriodValue, segmentPieceId || undefined, videoUrl);
-  }, [editValue, hasSegmentLink, segmentLinkUrl, segmentGoalValue, segmentDurationValue, segmentPeriodValue, segmentPieceId, segmentVideoUrlValue, item.id, onSaveSegment]);
+    const bpm = parseInt(segmentTempoValue, 10);
+    let tempo = isNaN(bpm) || bpm <= 0 ? undefined : clampTempo(bpm);
+    const progression = normalizeTempoProgression({
+      startTempo: parseInt(tempoGoalDraft.start, 10) || tempo,
+      targetTempo: parseInt(tempoGoalDraft.target, 10),
+      step: parseInt(tempoGoalDraft.step, 10),
+      runsPerStep: parseInt(tempoGoalDraft.runs, 10),
+      // Keep the runs counted so far unless the current tempo was changed by hand
+      runsAtTempo: tempo === item.tempo ? item.tempoProgression?.runsAtTempo : undefined,
+    }) ?? undefined;
+    if (progression && tempo === undefined) tempo = progression.startTempo;
+    onSaveSegment(item.id, name, goal, duration, segmentPeriodValue, segmentPieceId || undefined, videoUrl, tempo, progression);
+  }, [editValue, hasSegmentLink, segmentLinkUrl, segmentGoalValue, segmentDurationValue, segmentPeriodValue, segmentPieceId, segmentVideoUrlValue, segmentTempoValue, tempoGoalDraft, item.id, item.tempo, item.tempoProgression, onSaveSegment]);
 
   // closeSegment: saves data AND closes the form. Called by Enter, Done button,
   // and the form-container blur handler (when focus truly leaves the form).
@@ -678,12 +740,13 @@ function PlanItem({
 
   // Filtered slash command options based on current filter text
   const filteredSlashOptions = useMemo(() => {
-    if (!slashFilter) return ALL_BLOCK_OPTIONS;
+    const options: SlashOption[] = [...ALL_BLOCK_OPTIONS, ...templateSlashOptions(segmentTemplates)];
+    if (!slashFilter) return options;
     const f = slashFilter.toLowerCase();
-    return ALL_BLOCK_OPTIONS.filter(
+    return options.filter(
       (o) => o.label.toLowerCase().includes(f) || o.type.toLowerCase().includes(f)
     );
-  }, [slashFilter]);
+  }, [slashFilter, segmentTemplates]);
 
   // Auto-size goal textarea when the segment form first opens (existing multi-line content)
   useEffect(() => {
@@ -832,6 +895,24 @@ function PlanItem({
     }
   }, [item.id, onUpdateText, onUpdateType]);
 
+  const applySlashOption = useCallback((option: SlashOption) => {
+    if (!option.templateId) {
+      applySlashCommand(option.type);
+      return;
+    }
+    setSlashMenuOpen(false);
+    setSlashFilter('');
+    setSlashHighlight(0);
+    isSlashMenuOpenRef.current = false;
+    // Leave edit mode first so the pending text save can't overwrite the template's name
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+    setEditing(false);
+    onApplyTemplate(item.id, option.templateId);
+  }, [applySlashCommand, item.id, onApplyTemplate]);
+
   const applyFormat = useCallback(
     (action: "bold" | "italic" | "link", url?: string, opts?: { linkText?: string }) => {
       if (!toolbarSelection) return;
@@ -964,7 +1045,7 @@ function PlanItem({
         if (e.key === 'Enter') {
           e.preventDefault();
           if (filteredSlashOptions[slashHighlight]) {
-            applySlashCommand(filteredSlashOptions[slashHighlight].type);
+            applySlashOption(filteredSlashOptions[slashHighlight]);
           }
           return;
         }
@@ -1106,7 +1187,7 @@ function PlanItem({
         }
       }
     },
-    [item.id, blockType, depth, editValue, saveEdit, onUpdateType, onInsertBelow, onInsertBefore, onNavigate, onMergeWithPrevious, onIndent, onUnindent, slashMenuOpen, slashHighlight, filteredSlashOptions, applySlashCommand]
+    [item.id, blockType, depth, editValue, saveEdit, onUpdateType, onInsertBelow, onInsertBefore, onNavigate, onMergeWithPrevious, onIndent, onUnindent, slashMenuOpen, slashHighlight, filteredSlashOptions, applySlashOption]
   );
 
   const focusRow = useCallback(() => {
@@ -1292,6 +1373,24 @@ function PlanItem({
                   ))}
                 </>
               )}
+              {segmentTemplates.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-muted-foreground">Segment library</DropdownMenuLabel>
+                  {templateSlashOptions(segmentTemplates).map(({ templateId, label, icon }) => (
+                    <DropdownMenuItem
+                      key={templateId}
+                      onSelect={() => onInsertTemplateBelow(item.id, templateId!)}
+                      className="flex items-center gap-2 py-1.5 cursor-pointer"
+                    >
+                      <span className="w-6 text-center font-semibold text-muted-foreground flex items-center justify-center">
+                        <span className="material-icons text-base">{icon}</span>
+                      </span>
+                      <span className="truncate">{label}</span>
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
 
@@ -1300,7 +1399,26 @@ function PlanItem({
               <DropdownMenuTrigger asChild>
                 <div className="absolute inset-0 pointer-events-none w-7 h-7" />
               </DropdownMenuTrigger>
-              <DropdownMenuContent align="start" className="w-40" onCloseAutoFocus={(e) => e.preventDefault()}>
+              <DropdownMenuContent align="start" className="w-48" onCloseAutoFocus={(e) => e.preventDefault()}>
+                {blockType === "segment" && (
+                  item.segmentTemplateId ? (
+                    <DropdownMenuItem
+                      onSelect={() => onUnlinkTemplate(item.id)}
+                      className="flex items-center gap-2 cursor-pointer py-1.5"
+                    >
+                      <span className="material-icons text-base">link_off</span>
+                      Unlink from library
+                    </DropdownMenuItem>
+                  ) : (
+                    <DropdownMenuItem
+                      onSelect={() => onSaveAsTemplate(item.id)}
+                      className="flex items-center gap-2 cursor-pointer py-1.5"
+                    >
+                      <span className="material-icons text-base">bookmark_add</span>
+                      Save to library
+                    </DropdownMenuItem>
+                  )
+                )}
                 <DropdownMenuItem
                   onSelect={() => {
                     onDelete(item.id);
@@ -1425,6 +1543,8 @@ function PlanItem({
                         setSegmentPeriodValue(item.allocationPeriod ?? 'day');
                         setSegmentPieceId(item.repertoirePieceId ?? '');
                         setSegmentVideoUrlValue(item.videoUrl ?? '');
+                        setSegmentTempoValue(item.tempo ? String(item.tempo) : '');
+                        setTempoGoalDraft(getTempoGoalDraft(item.tempoProgression));
                         setEditing(false);
                         requestAnimationFrame(() => rowRef.current?.focus());
                       }
@@ -1548,6 +1668,46 @@ function PlanItem({
                     rows={1}
                     className="w-full text-sm bg-transparent border-none outline-none text-muted-foreground placeholder:text-muted-foreground/50 focus:outline-none resize-none overflow-hidden"
                   />
+                  <div className="flex items-center gap-2 flex-wrap" aria-label="Tempo goal">
+                    <span className="text-sm text-muted-foreground">Tempo goal</span>
+                    {(["start", "target"] as const).map((field) => (
+                      <Input
+                        key={field}
+                        type="number"
+                        min={MIN_TEMPO}
+                        max={MAX_TEMPO}
+                        value={tempoGoalDraft[field]}
+                        onChange={(e) => setTempoGoalDraft((d) => ({ ...d, [field]: e.target.value }))}
+                        onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); closeSegment(); } }}
+                        placeholder={field === "start" ? "From" : "To"}
+                        className="w-16 h-7 text-sm"
+                        aria-label={field === "start" ? "Start tempo" : "Target tempo"}
+                      />
+                    ))}
+                    <span className="text-sm text-muted-foreground">BPM, +</span>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={tempoGoalDraft.step}
+                      onChange={(e) => setTempoGoalDraft((d) => ({ ...d, step: e.target.value }))}
+                      onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); closeSegment(); } }}
+                      placeholder="4"
+                      className="w-14 h-7 text-sm"
+                      aria-label="Tempo step"
+                    />
+                    <span className="text-sm text-muted-foreground">every</span>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={tempoGoalDraft.runs}
+                      onChange={(e) => setTempoGoalDraft((d) => ({ ...d, runs: e.target.value }))}
+                      onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); closeSegment(); } }}
+                      placeholder="1"
+                      className="w-14 h-7 text-sm"
+                      aria-label="Runs per step"
+                    />
+                    <span className="text-sm text-muted-foreground">runs</span>
+                  </div>
                   <div className="flex items-center gap-2 flex-wrap">
                     <Input
                       type="number"
@@ -1560,6 +1720,19 @@ function PlanItem({
                       className="w-20 h-7 text-sm"
                     />
                     <span className="text-sm text-muted-foreground">min time box</span>
+                    <Input
+                      type="number"
+                      min={MIN_TEMPO}
+                      max={MAX_TEMPO}
+                      value={segmentTempoValue}
+                      onBlur={undefined}
+                      onChange={(e) => setSegmentTempoValue(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); closeSegment(); } }}
+                      placeholder="BPM"
+                      className="w-20 h-7 text-sm"
+                      aria-label="Metronome tempo"
+                    />
+                    <span className="text-sm text-muted-foreground">BPM</span>
                     {repertoirePieces && repertoirePieces.length > 0 && (
                       <select
                         value={segmentPieceId}
@@ -1645,6 +1818,22 @@ function PlanItem({
                           Time Box: {item.allocatedTime}m
                         </button>
                       )}
+                      {item.tempo != null && (
+                        <span
+                          className={cn(
+                            "inline-flex items-center h-[22px] px-2 text-xs font-mono font-medium rounded-full border shrink-0 select-none",
+                            tempoProgress?.reached
+                              ? "bg-emerald-500/15 border-emerald-500/35 text-emerald-700 dark:text-emerald-300"
+                              : "bg-muted/60 border-muted-foreground/20 text-muted-foreground"
+                          )}
+                          title={tempoProgress
+                            ? `Tempo goal ${tempoProgress.startTempo} → ${tempoProgress.targetTempo} BPM (${tempoProgress.percent}%)`
+                            : "Metronome tempo loaded when this segment starts"}
+                        >
+                          ♩ = {item.tempo}
+                          {tempoProgress && !tempoProgress.reached && ` → ${tempoProgress.targetTempo}`}
+                        </span>
+                      )}
                     </h4>
                   </div>
 
@@ -1723,7 +1912,7 @@ function PlanItem({
                               <Button
                                 variant="ghost" size="icon"
                                 className="h-7 w-7 rounded-full border border-primary/40 text-primary hover:text-primary-foreground hover:bg-primary transition-all duration-150"
-                                onClick={() => onPlayPiece(item.id, item.text, item.allocatedTime || 15, 'day')}
+                                onClick={() => onPlayPiece(item.id, item.text, item.allocatedTime || 15, 'day', item.tempo)}
                                 title="Start segment time box"
                               >
                                 <span className="material-icons text-base">play_arrow</span>
@@ -2003,7 +2192,7 @@ function PlanItem({
                   ) : (
                     filteredSlashOptions.map((opt, i) => (
                       <div
-                        key={opt.type}
+                        key={opt.templateId ?? opt.type}
                         className={cn(
                           "flex items-center gap-2 px-3 py-2 text-sm cursor-pointer",
                           i === slashHighlight ? "bg-accent text-accent-foreground" : "hover:bg-accent hover:text-accent-foreground"
@@ -2011,11 +2200,11 @@ function PlanItem({
                         onMouseDown={(e) => {
                           e.preventDefault(); // Prevent blur
                           e.stopPropagation();
-                          applySlashCommand(opt.type);
+                          applySlashOption(opt);
                         }}
                       >
                         <span className="w-6 text-center font-semibold text-muted-foreground flex items-center justify-center">
-                          {opt.icon === "timer" || opt.icon === "music_note" ? (
+                          {opt.icon === "timer" || opt.icon === "music_note" || opt.templateId ? (
                             <span className="material-icons text-base">{opt.icon}</span>
                           ) : (
                             opt.icon
@@ -2244,6 +2433,11 @@ function PlanItem({
                 onOpenAllocationDialog={onOpenAllocationDialog}
                 onPlayPiece={onPlayPiece}
                 onSaveSegment={onSaveSegment}
+                segmentTemplates={segmentTemplates}
+                onApplyTemplate={onApplyTemplate}
+                onInsertTemplateBelow={onInsertTemplateBelow}
+                onSaveAsTemplate={onSaveAsTemplate}
+                onUnlinkTemplate={onUnlinkTemplate}
                 repertoirePieces={repertoirePieces}
                 allowSegments={allowSegments}
                 onSelectAllBlocks={onSelectAllBlocks}
@@ -2448,7 +2642,7 @@ export function PlanEditorPane({
     setAllocationItemId(null);
   }, [allocationItemId, applyChange, planApi]);
 
-  const handlePlayPiece = useCallback(async (id: string, name: string, minutes: number, period: 'day' | 'week') => {
+  const handlePlayPiece = useCallback(async (id: string, name: string, minutes: number, period: 'day' | 'week', tempo?: number) => {
     try {
       await resumeAudioContext();
     } catch (e) {
@@ -2459,7 +2653,7 @@ export function PlanEditorPane({
     applyChange((prev) => planApi.uncheckItem(prev, id));
 
     const pieceName = name && name.trim() ? name : "Untitled segment";
-    selectPiece(id, pieceName, minutes || 15, period);
+    selectPiece(id, pieceName, minutes || 15, period, tempo);
 
     if (mode === 'break' || isPracticeComplete) {
       // If we are on break (work timer completed) or practice is complete, start piece overtime instead of main timer
@@ -2479,9 +2673,53 @@ export function PlanEditorPane({
     allocatedTime: number | undefined,
     allocationPeriod: 'day' | 'week' | undefined,
     repertoirePieceId: string | undefined,
-    videoUrl: string | undefined
+    videoUrl: string | undefined,
+    tempo: number | undefined,
+    tempoProgression: TempoProgression | undefined
   ) => {
-    applyChange((prev) => planApi.updateSegment(prev, id, name, goal, allocatedTime, allocationPeriod, repertoirePieceId, videoUrl));
+    applyChange((prev) => planApi.updateSegment(prev, id, name, goal, allocatedTime, allocationPeriod, repertoirePieceId, videoUrl, tempo, tempoProgression));
+  }, [applyChange, planApi]);
+
+  const [segmentTemplates, setSegmentTemplates] = useState<SegmentTemplate[]>(() => getSegmentLibrary());
+  const [segmentLibraryOpen, setSegmentLibraryOpen] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => setSegmentTemplates(getSegmentLibrary());
+    window.addEventListener(SEGMENT_LIBRARY_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(SEGMENT_LIBRARY_CHANGED_EVENT, refresh);
+  }, []);
+
+  // Turns the (empty) block the slash menu was opened on into a linked segment
+  const handleApplyTemplate = useCallback((id: string, templateId: string) => {
+    const template = segmentTemplates.find((t) => t.id === templateId);
+    if (!template) return;
+    applyChange((prev) => planApi.linkSegmentTemplate(prev, id, template));
+    setFocusRequest({ id, type: "row" });
+  }, [segmentTemplates, applyChange, planApi]);
+
+  const handleInsertTemplateBelow = useCallback((afterId: string, templateId: string) => {
+    const template = segmentTemplates.find((t) => t.id === templateId);
+    if (!template) return;
+    const newId = generateId();
+    applyChange((prev) =>
+      planApi.linkSegmentTemplate(planApi.insertBlockAfter(prev, afterId, "segment", template.name, newId), newId, template)
+    );
+    setFocusRequest({ id: newId, type: "row" });
+  }, [segmentTemplates, applyChange, planApi]);
+
+  const handleSaveAsTemplate = useCallback((id: string) => {
+    const flat = flattenItems(itemsRef.current).find((x) => x.id === id);
+    if (!flat) return;
+    const template = createSegmentTemplate(getTemplateFieldsFromItem(flat.item));
+    applyChange((prev) => planApi.linkSegmentTemplate(prev, id, template));
+    toast({
+      title: "Saved to segment library",
+      description: `Insert "${stripMarkdownLinks(template.name)}" from the "/" menu in any plan.`,
+    });
+  }, [applyChange, planApi, toast]);
+
+  const handleUnlinkTemplate = useCallback((id: string) => {
+    applyChange((prev) => planApi.linkSegmentTemplate(prev, id, null));
   }, [applyChange, planApi]);
 
   const sensors = useSensors(
@@ -2501,6 +2739,15 @@ export function PlanEditorPane({
     }
   }, [open, planApi]);
 
+  // Reload when the user switches to another plan in the plan library, or a
+  // teacher's assignment is added to the Lesson Plan
+  useEffect(() => {
+    const eventName = planType === "practice" ? PLAN_SWITCHED_EVENT : LESSON_PLAN_REPLACED_EVENT;
+    const handleReplaced = () => setItems(planApi.get());
+    window.addEventListener(eventName, handleReplaced);
+    return () => window.removeEventListener(eventName, handleReplaced);
+  }, [planType, planApi]);
+
   useEffect(() => {
     const handlePieceComplete = async (event: Event) => {
       const { id } = (event as CustomEvent).detail;
@@ -2516,7 +2763,7 @@ export function PlanEditorPane({
           if (volume <= 1) volume = volume * 100;
           volume = Math.min(100, Math.max(0, volume));
           if (volume > 0) {
-            await playSound('end', 1, volume, store.settings.soundType as any);
+            await playEventSound('segmentComplete', 1, volume, store.settings.soundType);
           }
         } catch (e) {
           console.error('Error playing piece completion sound:', e);
@@ -3104,6 +3351,7 @@ export function PlanEditorPane({
   }, [applyChange, planApi]);
 
   const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [backupDialogOpen, setBackupDialogOpen] = useState(false);
   const [importText, setImportText] = useState("");
 
   const handleExportPlan = useCallback(() => {
@@ -3286,6 +3534,14 @@ export function PlanEditorPane({
                   <span className="material-icons text-sm">content_copy</span>
                   Export {planTitle}
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setSegmentLibraryOpen(true)} className="focus:bg-white/5 cursor-pointer flex items-center gap-2">
+                  <span className="material-icons text-sm">bookmarks</span>
+                  Segment library
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setBackupDialogOpen(true)} className="focus:bg-white/5 cursor-pointer flex items-center gap-2">
+                  <span className="material-icons text-sm">backup</span>
+                  Backup &amp; restore all data
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -3380,6 +3636,11 @@ export function PlanEditorPane({
                   onOpenAllocationDialog={handleOpenAllocationDialog}
                   onPlayPiece={handlePlayPiece}
                   onSaveSegment={handleSaveSegment}
+                  segmentTemplates={segmentTemplates}
+                  onApplyTemplate={handleApplyTemplate}
+                  onInsertTemplateBelow={handleInsertTemplateBelow}
+                  onSaveAsTemplate={handleSaveAsTemplate}
+                  onUnlinkTemplate={handleUnlinkTemplate}
                   repertoirePieces={repertoirePieces}
                   allowSegments={allowSegments}
                   onSelectAllBlocks={handleSelectAllBlocks}
@@ -3393,6 +3654,19 @@ export function PlanEditorPane({
       {/* Link Popover Portal Target */}
       <div id="practice-sheet-content" className="relative" />
 
+      <SegmentLibraryDialog
+        open={segmentLibraryOpen}
+        onOpenChange={setSegmentLibraryOpen}
+        repertoirePieces={repertoirePieces}
+        onSegmentsUpdated={() => setItems(planApi.get())}
+      />
+
+      <DataBackupDialog
+        open={backupDialogOpen}
+        onOpenChange={setBackupDialogOpen}
+        onImported={() => setItems(planApi.get())}
+      />
+
       <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
         <DialogContent className="sm:max-w-lg">
           <DialogHeader>
@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TextWithLinks } from "@/components/TextWithLinks";
+import { cn } from "@/lib/utils";
+import type { PlanItem } from "@/lib/planTypes";
+import { formatDuration } from "@/lib/practiceLog";
+import { PLAN_HISTORY_CHANGED_EVENT, type PlanHistoryEntry, getPlanHistory } from "@/lib/planRollover";
+
+interface PlanHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  planId: string;
+  planName: string;
+}
+
+function formatDay(ymd: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(ymd + "T12:00:00").toLocaleDateString(undefined, options);
+}
+
+function formatPeriod(entry: PlanHistoryEntry): string {
+  if (entry.period === "day") return formatDay(entry.start, { weekday: "short", month: "short", day: "numeric" });
+  const short: Intl.DateTimeFormatOptions = { month: "short", day: "numeric" };
+  return `Week of ${formatDay(entry.start, short)} – ${formatDay(entry.end, short)}`;
+}
+
+function HistoryItems({ items, practiced }: { items: PlanItem[]; practiced: Record<string, number> }) {
+  return (
+    <ul className="space-y-1">
+      {items.map((item) => (
+        <li key={item.id}>
+          {item.isHeader ? (
+            <p className="text-sm font-semibold pt-2">
+              <TextWithLinks text={item.text} />
+            </p>
+          ) : (
+            <div className="flex items-center gap-2 text-sm">
+              <span
+                className={cn("material-icons text-base", item.checked ? "text-emerald-400" : "text-muted-foreground/50")}
+                aria-label={item.checked ? "Done" : "Not done"}
+              >
+                {item.checked ? "check_circle" : "radio_button_unchecked"}
+              </span>
+              <span className={cn("flex-1 min-w-0 truncate", !item.checked && "text-muted-foreground")}>
+                <TextWithLinks text={item.text} />
+              </span>
+              {item.blockType === "segment" && (
+                <span className="text-xs text-muted-foreground font-mono">
+                  {formatDuration(practiced[item.id] ?? 0)}
+                  {item.allocatedTime ? ` / ${item.allocatedTime} min${item.allocationPeriod === "week" ? "/wk" : ""}` : ""}
+                </span>
+              )}
+            </div>
+          )}
+          {item.children.length > 0 && (
+            <div className="pl-5">
+              <HistoryItems items={item.children} practiced={practiced} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Past days and weeks of a practice plan, as archived when each period rolled over. */
+export default function PlanHistoryDialog({ open, onOpenChange, planId, planName }: PlanHistoryDialogProps) {
+  const [history, setHistory] = useState<PlanHistoryEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const refresh = () => {
+      const entries = getPlanHistory(planId);
+      setHistory(entries);
+      setSelectedId((id) => (entries.some((e) => e.id === id) ? id : entries[0]?.id ?? null));
+    };
+    refresh();
+    window.addEventListener(PLAN_HISTORY_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(PLAN_HISTORY_CHANGED_EVENT, refresh);
+  }, [open, planId]);
+
+  const selected = history.find((entry) => entry.id === selectedId) ?? null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl bg-slate-900 border-white/10 text-foreground">
+        <DialogHeader>
+          <DialogTitle>History of {planName}</DialogTitle>
+          <DialogDescription>
+            The plan as it stood at the end of each week, and of recent days, before its checks were reset.
+          </DialogDescription>
+        </DialogHeader>
+
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            Nothing archived yet. The first entry appears when this day or week rolls over.
+          </p>
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="sm:w-52 shrink-0 space-y-1 max-h-80 overflow-y-auto">
+              {history.map((entry) => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => setSelectedId(entry.id)}
+                  className={cn(
+                    "w-full truncate rounded-md px-2 py-1.5 text-left text-sm hover:bg-white/5",
+                    entry.period === "day" && "text-muted-foreground",
+                    entry.id === selectedId && "bg-white/10 text-foreground"
+                  )}
+                >
+                  {formatPeriod(entry)}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 min-w-0 max-h-80 overflow-y-auto">
+              {selected && <HistoryItems items={selected.items} practiced={selected.practicedSeconds ?? {}} />}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { type PlanRolloverSettings, getPlanRolloverSettings, savePlanRolloverSettings } from "@/lib/planRollover";
+
+/** Plan rollover: whether checks reset by themselves when a day or week ends. */
+export default function PlanRolloverOptions() {
+  const [rollover, setRollover] = useState<PlanRolloverSettings>(() => getPlanRolloverSettings());
+
+  const update = (changes: Partial<PlanRolloverSettings>) => {
+    const next = { ...rollover, ...changes };
+    setRollover(next);
+    savePlanRolloverSettings(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <span className="material-icons text-muted-foreground mr-3">event_repeat</span>
+          <Label htmlFor="plan-rollover">Reset checks automatically</Label>
+        </div>
+        <Switch id="plan-rollover" checked={rollover.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Daily segments uncheck at midnight and weekly segments when a new week starts. Each finished week is
+        saved under Past weeks in the plan menu. Checks made before this first ran stay until the following
+        midnight or week.
+      </p>
+      <p className="text-xs text-muted-foreground">
+        Applies to plans in your plan library, not the Lesson Plan. Past weeks are kept on this device only; they
+        aren't synced to your account or included in backups.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import PlanHistoryDialog from "@/components/PlanHistoryDialog";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  PLAN_SWITCHED_EVENT,
+  type PlanLibrary,
+  getPlanLibrary,
+  createPlan,
+  renamePlan,
+  duplicatePlan,
+  archivePlan,
+  unarchivePlan,
+  switchActivePlan,
+} from "@/lib/planLibrary";
+
+interface PlanSwitcherProps {
+  /** Icon-only trigger for the collapsed sidebar. */
+  compact?: boolean;
+}
+
+type NameDialog = { kind: "create" } | { kind: "rename"; planId: string };
+
+export function PlanSwitcher({ compact = false }: PlanSwitcherProps) {
+  const { toast } = useToast();
+  const [library, setLibrary] = useState<PlanLibrary>(() => getPlanLibrary());
+  const [showArchived, setShowArchived] = useState(false);
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [nameInput, setNameInput] = useState("");
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  const refresh = () => setLibrary(getPlanLibrary());
+
+  // Switching can also happen through cloud sync
+  useEffect(() => {
+    window.addEventListener(PLAN_SWITCHED_EVENT, refresh);
+    return () => window.removeEventListener(PLAN_SWITCHED_EVENT, refresh);
+  }, []);
+
+  const activePlan = library.plans.find((p) => p.id === library.activePlanId) ?? library.plans[0];
+  const openPlans = library.plans.filter((p) => !p.archived);
+  const archivedPlans = library.plans.filter((p) => p.archived);
+
+  const handleSwitch = (planId: string) => {
+    switchActivePlan(planId);
+    refresh();
+  };
+
+  const handleDuplicate = () => {
+    const copy = duplicatePlan(activePlan.id);
+    if (copy) {
+      switchActivePlan(copy.id);
+      toast({ title: "Plan duplicated", description: `Now editing "${copy.name}".` });
+    }
+    refresh();
+  };
+
+  const handleArchive = (planId: string) => {
+    const plan = library.plans.find((p) => p.id === planId);
+    if (archivePlan(planId)) {
+      toast({ title: "Plan archived", description: `"${plan?.name}" is hidden from the switcher.` });
+    } else {
+      toast({
+        title: "Can't archive this plan",
+        description: "Switch to another plan first — at least one plan must stay open.",
+        variant: "destructive",
+      });
+    }
+    refresh();
+  };
+
+  const handleUnarchive = (planId: string) => {
+    unarchivePlan(planId);
+    refresh();
+  };
+
+  const openNameDialog = (dialog: NameDialog) => {
+    const current = dialog.kind === "rename" ? library.plans.find((p) => p.id === dialog.planId)?.name : "";
+    setNameInput(current ?? "");
+    setNameDialog(dialog);
+  };
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nameDialog || !nameInput.trim()) return;
+    if (nameDialog.kind === "create") {
+      const plan = createPlan(nameInput);
+      switchActivePlan(plan.id);
+    } else {
+      renamePlan(nameDialog.planId, nameInput);
+    }
+    setNameDialog(null);
+    refresh();
+  };
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={(open) => open && refresh()}>
+        <DropdownMenuTrigger asChild>
+          <button
+            className={cn(
+              "flex items-center gap-2 rounded-2xl text-sm text-muted-foreground hover:bg-black/5 dark:hover:bg-white/5 hover:text-foreground transition-all duration-200",
+              compact ? "h-12 w-12 justify-center" : "w-full px-3 py-2.5"
+            )}
+            aria-label="Switch practice plan"
+            title={activePlan.name}
+          >
+            <span className="material-icons text-xl">folder_open</span>
+            {!compact && (
+              <>
+                <span className="flex-1 truncate text-left">{activePlan.name}</span>
+                <span className="material-icons text-base">unfold_more</span>
+              </>
+            )}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64 bg-white dark:bg-slate-900 border border-black/5 dark:border-white/10 text-foreground">
+          <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">Practice plans</DropdownMenuLabel>
+          {openPlans.map((plan) => (
+            <DropdownMenuItem
+              key={plan.id}
+              onClick={() => handleSwitch(plan.id)}
+              className="focus:bg-white/5 focus:text-foreground cursor-pointer"
+            >
+              <span className={cn("material-icons text-sm mr-2", plan.id === activePlan.id ? "text-primary" : "invisible")}>
+                check
+              </span>
+              <span className="truncate">{plan.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator className="bg-white/10" />
+          <DropdownMenuItem onClick={() => openNameDialog({ kind: "create" })} className="focus:bg-white/5 focus:text-foreground cursor-pointer">
+            <span className="material-icons text-sm mr-2">add</span>
+            New plan
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => openNameDialog({ kind: "rename", planId: activePlan.id })}
+            className="focus:bg-white/5 focus:text-foreground cursor-pointer"
+          >
+            <span className="material-icons text-sm mr-2">edit</span>
+            Rename current plan
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleDuplicate} className="focus:bg-white/5 focus:text-foreground cursor-pointer">
+            <span className="material-icons text-sm mr-2">content_copy</span>
+            Duplicate current plan
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setHistoryOpen(true)} className="focus:bg-white/5 focus:text-foreground cursor-pointer">
+            <span className="material-icons text-sm mr-2">history</span>
+            Past weeks
+          </DropdownMenuItem>
+          {openPlans.length > 1 && (
+            <>
+              <DropdownMenuSeparator className="bg-white/10" />
+              <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">Archive</DropdownMenuLabel>
+              {openPlans
+                .filter((p) => p.id !== activePlan.id)
+                .map((plan) => (
+                  <DropdownMenuItem
+                    key={plan.id}
+                    onClick={() => handleArchive(plan.id)}
+                    className="focus:bg-white/5 focus:text-foreground cursor-pointer"
+                  >
+                    <span className="material-icons text-sm mr-2">archive</span>
+                    <span className="truncate">{plan.name}</span>
+                  </DropdownMenuItem>
+                ))}
+            </>
+          )}
+          {archivedPlans.length > 0 && (
+            <>
+              <DropdownMenuSeparator className="bg-white/10" />
+              <DropdownMenuItem
+                onSelect={(e) => {
+                  e.preventDefault();
+                  setShowArchived((v) => !v);
+                }}
+                className="focus:bg-white/5 focus:text-foreground cursor-pointer text-muted-foreground"
+              >
+                <span className="material-icons text-sm mr-2">{showArchived ? "expand_less" : "expand_more"}</span>
+                Archived plans ({archivedPlans.length})
+              </DropdownMenuItem>
+              {showArchived &&
+                archivedPlans.map((plan) => (
+                  <DropdownMenuItem
+                    key={plan.id}
+                    onClick={() => handleUnarchive(plan.id)}
+                    className="focus:bg-white/5 focus:text-foreground cursor-pointer"
+                    title="Restore plan"
+                  >
+                    <span className="material-icons text-sm mr-2">unarchive</span>
+                    <span className="truncate">{plan.name}</span>
+                  </DropdownMenuItem>
+                ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-sm bg-slate-900 border-white/10 text-foreground">
+          <form onSubmit={handleNameSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{nameDialog?.kind === "rename" ? "Rename plan" : "New practice plan"}</DialogTitle>
+            </DialogHeader>
+            <Input
+              autoFocus
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              placeholder="e.g. Recital prep"
+              maxLength={80}
+            />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!nameInput.trim()}>
+                {nameDialog?.kind === "rename" ? "Save" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <PlanHistoryDialog
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        planId={activePlan.id}
+        planName={activePlan.name}
+      />
+    </>
+  );
+}
@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { stripMarkdownLinks } from "@/lib/richText";
+import type { PlanItem } from "@/lib/planTypes";
+import { getPracticePlan } from "@/lib/practicePlan";
+import { scheduleUserDataPush } from "@/lib/userDataSync";
+import {
+  type DetailedLogEntry,
+  addManualPracticeTime,
+  formatDate,
+  formatDuration,
+  getDetailedPracticeLog,
+  getLocalYMD,
+  getUnattributedSeconds,
+  setManualPracticeTime,
+} from "@/lib/practiceLog";
+
+interface PracticeLogEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Date (YYYY-MM-DD) to open on; defaults to today. */
+  initialDate?: string;
+  /** Called after any edit so the page can re-read the logs. */
+  onLogChanged?: () => void;
+}
+
+// Sentinel for time that isn't tied to a plan item
+const OTHER_PRACTICE = "";
+
+function flattenSegments(items: PlanItem[]): PlanItem[] {
+  return items.flatMap((item) => [
+    ...(item.blockType === "segment" ? [item] : []),
+    ...flattenSegments(item.children ?? []),
+  ]);
+}
+
+function toMinutes(seconds: number): string {
+  return String(Math.round(seconds / 60));
+}
+
+/**
+ * Add, correct or remove logged practice time for one day. Edits go to both
+ * the overall and the detailed log and are marked as manual.
+ */
+export default function PracticeLogEditorDialog({
+  open,
+  onOpenChange,
+  initialDate,
+  onLogChanged,
+}: PracticeLogEditorDialogProps) {
+  const { toast } = useToast();
+  const today = getLocalYMD();
+  const [date, setDate] = useState(initialDate ?? today);
+  const [entries, setEntries] = useState<DetailedLogEntry[]>([]);
+  const [otherSeconds, setOtherSeconds] = useState(0);
+  // Minutes being edited per row, keyed by itemId (OTHER_PRACTICE for other practice)
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [segments, setSegments] = useState<PlanItem[]>([]);
+  const [newItemId, setNewItemId] = useState(OTHER_PRACTICE);
+  const [newMinutes, setNewMinutes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDay = (day: string) => {
+    const dayEntries = Object.values(getDetailedPracticeLog()[day] ?? {}).sort((a, b) => b.seconds - a.seconds);
+    const other = getUnattributedSeconds(day);
+    setEntries(dayEntries);
+    setOtherSeconds(other);
+    setDrafts({
+      ...Object.fromEntries(dayEntries.map((entry) => [entry.itemId, toMinutes(entry.seconds)])),
+      [OTHER_PRACTICE]: toMinutes(other),
+    });
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    const day = initialDate ?? getLocalYMD();
+    setDate(day);
+    setSegments(flattenSegments(getPracticePlan()));
+    setNewItemId(OTHER_PRACTICE);
+    setNewMinutes("");
+    setError(null);
+    loadDay(day);
+  }, [open, initialDate]);
+
+  const changeDate = (day: string) => {
+    setDate(day);
+    setError(null);
+    if (day) loadDay(day);
+  };
+
+  const applyResult = (result: string | null, successTitle: string) => {
+    if (result) {
+      setError(result);
+      return;
+    }
+    setError(null);
+    loadDay(date);
+    scheduleUserDataPush();
+    onLogChanged?.();
+    toast({ title: successTitle, description: formatDate(date) });
+  };
+
+  const itemFor = (itemId: string, fallbackName = "") => {
+    if (itemId === OTHER_PRACTICE) return null;
+    const segment = segments.find((s) => s.id === itemId);
+    return { itemId, itemName: segment?.text || fallbackName };
+  };
+
+  const parseMinutes = (value: string) => {
+    const mins = Number(value);
+    return Number.isFinite(mins) ? Math.round(mins * 60) : NaN;
+  };
+
+  const handleSaveRow = (itemId: string, fallbackName?: string) => {
+    const seconds = parseMinutes(drafts[itemId] ?? "");
+    applyResult(setManualPracticeTime(date, itemFor(itemId, fallbackName), seconds), "Practice time updated");
+  };
+
+  const handleDeleteRow = (itemId: string, fallbackName?: string) => {
+    applyResult(setManualPracticeTime(date, itemFor(itemId, fallbackName), 0), "Practice time removed");
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const seconds = parseMinutes(newMinutes);
+    const result = addManualPracticeTime(date, itemFor(newItemId), seconds);
+    if (!result) setNewMinutes("");
+    applyResult(result, "Practice time added");
+  };
+
+  const rows = [
+    ...entries.map((entry) => ({ itemId: entry.itemId, name: entry.itemName, seconds: entry.seconds, manual: !!entry.manualSeconds })),
+    ...(otherSeconds > 0 ? [{ itemId: OTHER_PRACTICE, name: "Other practice", seconds: otherSeconds, manual: false }] : []),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-slate-900 border-white/10 text-foreground">
+        <DialogHeader>
+          <DialogTitle>Edit practice log</DialogTitle>
+          <DialogDescription>
+            Add time you practiced away from the app or fix an entry. Edited time is marked as manual in reports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="practice-log-date">Date</Label>
+            <Input
+              id="practice-log-date"
+              type="date"
+              value={date}
+              max={today}
+              onChange={(e) => changeDate(e.target.value)}
+              className="w-44"
+            />
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No practice logged on this day.</p>
+          ) : (
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {rows.map((row) => {
+                const draft = drafts[row.itemId] ?? "";
+                const dirty = draft !== toMinutes(row.seconds);
+                return (
+                  <li
+                    key={row.itemId || "other"}
+                    className="flex items-center gap-2 rounded-md border border-white/10 px-3 py-2"
+                  >
+                    <span className="flex-1 min-w-0 truncate text-sm">
+                      {stripMarkdownLinks(row.name) || "Untitled segment"}
+                      {row.manual && (
+                        <span className="material-icons text-[14px] ml-1 align-middle text-muted-foreground" title="Includes manually entered time">
+                          edit_note
+                        </span>
+                      )}
+                    </span>
+                    <Input
+                      aria-label={`Minutes for ${stripMarkdownLinks(row.name)}`}
+                      type="number"
+                      min="0"
+                      value={draft}
+                      onChange={(e) => setDrafts((prev) => ({ ...prev, [row.itemId]: e.target.value }))}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && dirty) handleSaveRow(row.itemId, row.name);
+                      }}
+                      className="w-20 h-8"
+                    />
+                    <span className="text-xs text-muted-foreground">min</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Save"
+                      disabled={!dirty}
+                      onClick={() => handleSaveRow(row.itemId, row.name)}
+                    >
+                      <span className="material-icons text-base">check</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      aria-label="Delete"
+                      onClick={() => handleDeleteRow(row.itemId, row.name)}
+                    >
+                      <span className="material-icons text-base">delete</span>
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <form id="practice-log-add-form" onSubmit={handleAdd} className="flex items-center gap-2 flex-wrap">
+            <select
+              aria-label="Plan item"
+              value={newItemId}
+              onChange={(e) => setNewItemId(e.target.value)}
+              className="h-8 text-sm bg-background border border-input rounded px-1.5 flex-1 min-w-0 max-w-[240px] truncate focus:outline-none focus:ring-1 focus:ring-ring"
+            >
+              <option value={OTHER_PRACTICE}>No plan item</option>
+              {segments.map((segment) => (
+                <option key={segment.id} value={segment.id}>
+                  {stripMarkdownLinks(segment.text) || "Untitled segment"}
+                </option>
+              ))}
+            </select>
+            <Input
+              aria-label="Minutes to add"
+              type="number"
+              min="1"
+              value={newMinutes}
+              onChange={(e) => setNewMinutes(e.target.value)}
+              placeholder="Min"
+              className="w-20 h-8"
+            />
+            <Button type="submit" size="sm" disabled={!newMinutes || !date}>
+              <span className="material-icons text-base mr-1">add</span>
+              Add time
+            </Button>
+          </form>
+
+          {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+          {rows.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Total {formatDuration(rows.reduce((sum, row) => sum + row.seconds, 0))}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
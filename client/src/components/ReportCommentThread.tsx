@@ -0,0 +1,211 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { isSupabaseConfigured } from "@/lib/supabaseClient";
+import { reportCommentService } from "@/lib/reportCommentService";
+import type { ReportComment, ReportCommentTarget } from "@/lib/reportComment.types";
+import {
+  getCommentTargetKey,
+  getCommenterName,
+  groupCommentsByTarget,
+  saveCommenterName,
+} from "@/lib/reportComments";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSharedReport } from "@/contexts/SharedReportContext";
+import { useToast } from "@/hooks/use-toast";
+
+// Stable while loading, so every thread on the page groups the same array
+const NO_COMMENTS: ReportComment[] = [];
+
+interface ReportCommentThreadProps {
+  reportId: string;
+  targetType: ReportCommentTarget;
+  targetId?: string | null;
+  /** Shown as a heading above an always-open thread, instead of the toggle. */
+  title?: string;
+  className?: string;
+}
+
+/**
+ * Feedback thread on a published report, one of its segments, or a linked
+ * piece. All threads on a report share one query; the report's owner can hide
+ * or delete any comment.
+ */
+export default function ReportCommentThread({
+  reportId,
+  targetType,
+  targetId = null,
+  title,
+  className,
+}: ReportCommentThreadProps) {
+  const { user } = useAuth();
+  const { creatorName } = useSharedReport();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(!!title);
+  const [draft, setDraft] = useState("");
+  const [name, setName] = useState(() => getCommenterName());
+  const queryKey = ["report-comments", reportId];
+
+  const { data: comments = NO_COMMENTS, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => reportCommentService.getComments(reportId),
+    enabled: isSupabaseConfigured,
+  });
+  const { data: access } = useQuery({
+    queryKey: ["report-comment-access", reportId, user?.id ?? null],
+    queryFn: () => reportCommentService.getAccess(reportId),
+    enabled: isSupabaseConfigured,
+  });
+  const isOwner = !!access?.isOwner;
+  const thread = useMemo(
+    () => groupCommentsByTarget(comments).get(getCommentTargetKey(targetType, targetId)) ?? NO_COMMENTS,
+    [comments, targetType, targetId]
+  );
+
+  const addMutation = useMutation({
+    mutationFn: (body: string) =>
+      reportCommentService.addComment({
+        reportId,
+        targetType,
+        targetId,
+        authorName: isOwner ? creatorName || "Report owner" : name.trim(),
+        body,
+      }),
+    onSuccess: () => {
+      setDraft("");
+      if (!isOwner) saveCommenterName(name);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (e: Error) => toast({ title: "Comment not sent", description: e.message, variant: "destructive" }),
+  });
+
+  const hideMutation = useMutation({
+    mutationFn: ({ id, hidden }: { id: string; hidden: boolean }) => reportCommentService.setHidden(id, hidden),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => reportCommentService.deleteComment(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  if (!isSupabaseConfigured || !access?.open) return null;
+
+  const send = () => {
+    const body = draft.trim();
+    if (body) addMutation.mutate(body);
+  };
+
+  const label = thread.length > 0 ? `${thread.length} comment${thread.length === 1 ? "" : "s"}` : "Comment";
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {title ? (
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <span className="material-icons text-base text-primary select-none">forum</span>
+          {title}
+        </h2>
+      ) : (
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors select-none"
+          onClick={() => setOpen((v) => !v)}
+          aria-expanded={open}
+        >
+          <span className="material-icons text-[14px]">{thread.length > 0 ? "chat_bubble" : "chat_bubble_outline"}</span>
+          {label}
+        </button>
+      )}
+      {open && (
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-xs text-muted-foreground">Loading comments…</p>
+          ) : thread.length === 0 ? (
+            title && <p className="text-xs text-muted-foreground">No feedback yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {thread.map((comment) => {
+                const own = !!user && comment.author_id === user.id;
+                return (
+                  <li key={comment.id} className={cn("rounded-md bg-white/5 px-2 py-1.5", comment.hidden && "opacity-60")}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="flex items-center gap-1.5 min-w-0">
+                        <span className="text-xs font-semibold truncate">
+                          {own ? "You" : comment.author_name || "Anonymous"}
+                        </span>
+                        {comment.hidden && (
+                          <Badge variant="outline" className="h-4 px-1.5 text-[10px]">
+                            Hidden
+                          </Badge>
+                        )}
+                      </span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <span className="text-[11px] text-muted-foreground">
+                          {new Date(comment.created_at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+                        </span>
+                        {isOwner && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-5 w-5 p-0 text-muted-foreground hover:text-foreground"
+                            onClick={() => hideMutation.mutate({ id: comment.id, hidden: !comment.hidden })}
+                            aria-label={comment.hidden ? "Show comment" : "Hide comment"}
+                            title={comment.hidden ? "Show to viewers" : "Hide from viewers"}
+                          >
+                            <span className="material-icons text-sm">{comment.hidden ? "visibility" : "visibility_off"}</span>
+                          </Button>
+                        )}
+                        {(isOwner || own) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-5 w-5 p-0 text-muted-foreground hover:text-foreground"
+                            onClick={() => deleteMutation.mutate(comment.id)}
+                            aria-label="Delete comment"
+                          >
+                            <span className="material-icons text-sm">delete</span>
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {!isOwner && (
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Your name (e.g. Teacher, Mom)"
+              maxLength={80}
+              className="h-8 text-sm"
+            />
+          )}
+          <div className="flex items-end gap-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) send();
+              }}
+              placeholder={isOwner ? "Reply…" : "Leave feedback…"}
+              rows={2}
+              maxLength={2000}
+              className="min-h-0 text-sm"
+            />
+            <Button size="sm" onClick={send} disabled={!draft.trim() || addMutation.isPending}>
+              Send
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
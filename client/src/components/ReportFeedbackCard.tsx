@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { isSupabaseConfigured } from "@/lib/supabaseClient";
+import { reportCommentService } from "@/lib/reportCommentService";
+import type { ReportComment } from "@/lib/reportComment.types";
+import {
+  REPORT_FEEDBACK_SEEN_EVENT,
+  getFeedbackSeenAt,
+  getUnreadFeedback,
+  markFeedbackSeen,
+} from "@/lib/reportComments";
+import { useAuth } from "@/contexts/AuthContext";
+
+const LIST_LENGTH = 3;
+const NO_COMMENTS: ReportComment[] = [];
+
+const TARGET_LABELS: Record<ReportComment["target_type"], string> = {
+  report: "your report",
+  item: "a segment",
+  piece: "a piece",
+};
+
+interface ReportFeedbackCardProps {
+  className?: string;
+}
+
+/** New comments teachers or parents left on the user's shared reports. */
+export default function ReportFeedbackCard({ className }: ReportFeedbackCardProps) {
+  const { isLoggedIn } = useAuth();
+  const [seenAt, setSeenAt] = useState(() => getFeedbackSeenAt());
+  const { data: feedback = NO_COMMENTS } = useQuery({
+    queryKey: ["report-feedback"],
+    queryFn: reportCommentService.getFeedback,
+    enabled: isLoggedIn && isSupabaseConfigured,
+  });
+
+  useEffect(() => {
+    const refresh = () => setSeenAt(getFeedbackSeenAt());
+    window.addEventListener(REPORT_FEEDBACK_SEEN_EVENT, refresh);
+    return () => window.removeEventListener(REPORT_FEEDBACK_SEEN_EVENT, refresh);
+  }, []);
+
+  const unread = getUnreadFeedback(feedback, seenAt);
+  if (!isLoggedIn || unread.length === 0) return null;
+
+  return (
+    <div className={cn("rounded-lg bg-muted/40 border border-border/40 p-3 space-y-2", className)}>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-muted-foreground uppercase tracking-wider font-bold">
+          New feedback · {unread.length}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => markFeedbackSeen(unread[0].created_at)}
+        >
+          Mark read
+        </Button>
+      </div>
+      <ul className="space-y-1.5">
+        {unread.slice(0, LIST_LENGTH).map((comment) => (
+          <li key={comment.id}>
+            <Link to={`/r/${comment.report_id}`} className="block min-w-0">
+              <p className="text-[11px] text-muted-foreground truncate">
+                {comment.author_name || "Anonymous"} on {TARGET_LABELS[comment.target_type]}
+              </p>
+              <p className="text-sm line-clamp-2 break-words">{comment.body}</p>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
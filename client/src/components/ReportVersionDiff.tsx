@@ -0,0 +1,72 @@
+import type { ReactNode } from "react";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/practiceLog";
+import { type ReportDiff, type ReportDiffItem, isEmptyReportDiff } from "@/lib/reportDiff";
+
+function DiffSection({ icon, title, className, children }: { icon: string; title: string; className?: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <h3 className={cn("text-xs font-semibold uppercase tracking-wider flex items-center gap-1.5", className)}>
+        <span className="material-icons text-sm select-none">{icon}</span>
+        {title}
+      </h3>
+      <ul className="space-y-0.5 pl-5 text-sm">{children}</ul>
+    </div>
+  );
+}
+
+function ItemList({ items }: { items: ReportDiffItem[] }) {
+  return (
+    <>
+      {items.map((item) => (
+        <li key={item.key} className="flex items-center gap-2">
+          <span className="flex-1 min-w-0 truncate">{item.text || "Untitled"}</span>
+          {item.plan === "lesson" && <span className="text-[11px] text-muted-foreground shrink-0">Lesson plan</span>}
+        </li>
+      ))}
+    </>
+  );
+}
+
+interface ReportVersionDiffProps {
+  diff: ReportDiff;
+  /** Version number the diff compares against. */
+  previousVersion: number;
+}
+
+/** What changed in a report since the previous publish. */
+export default function ReportVersionDiff({ diff, previousVersion }: ReportVersionDiffProps) {
+  if (isEmptyReportDiff(diff)) {
+    return <p className="text-sm text-muted-foreground">Nothing changed since version {previousVersion}.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {diff.totalSecondsGained > 0 && (
+        <DiffSection icon="timer" title={`+${formatDuration(diff.totalSecondsGained)} practiced`} className="text-primary">
+          {diff.practiced.map((entry) => (
+            <li key={entry.itemId} className="flex items-center gap-2">
+              <span className="flex-1 min-w-0 truncate">{entry.name || "Untitled segment"}</span>
+              <span className="font-mono text-xs text-muted-foreground">+{formatDuration(entry.seconds)}</span>
+            </li>
+          ))}
+        </DiffSection>
+      )}
+      {diff.checked.length > 0 && (
+        <DiffSection icon="task_alt" title="Checked off" className="text-emerald-400">
+          <ItemList items={diff.checked} />
+        </DiffSection>
+      )}
+      {diff.newSegments.length > 0 && (
+        <DiffSection icon="add_circle_outline" title="New segments" className="text-foreground">
+          <ItemList items={diff.newSegments} />
+        </DiffSection>
+      )}
+      {diff.removedSegments.length > 0 && (
+        <DiffSection icon="remove_circle_outline" title="Removed segments" className="text-muted-foreground">
+          <ItemList items={diff.removedSegments} />
+        </DiffSection>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import ReviewRatingButtons from "@/components/ReviewRatingButtons";
+import { cn } from "@/lib/utils";
+import { repertoireService } from "@/lib/repertoireService";
+import type { RepertoirePiece } from "@/lib/repertoire.types";
+import { getPracticePlan } from "@/lib/practicePlan";
+import { PLAN_SWITCHED_EVENT } from "@/lib/planLibrary";
+import { findPlanItem } from "@/lib/tempoProgression";
+import { type DueReview, REVIEWS_CHANGED_EVENT, formatDueLabel, getDueReviews } from "@/lib/repertoireReview";
+import { useAuth } from "@/contexts/AuthContext";
+
+const QUEUE_LENGTH = 3;
+// Stable while signed out, so the refresh effect doesn't re-run every render
+const NO_PIECES: RepertoirePiece[] = [];
+
+interface ReviewQueueCardProps {
+  className?: string;
+}
+
+/**
+ * Maintained pieces due for review today, and a rating prompt after a run of
+ * a segment linked to one.
+ */
+export default function ReviewQueueCard({ className }: ReviewQueueCardProps) {
+  const { isLoggedIn } = useAuth();
+  const { data: pieces = NO_PIECES } = useQuery({
+    queryKey: ["repertoire"],
+    queryFn: repertoireService.getAll,
+    enabled: isLoggedIn,
+  });
+  const [due, setDue] = useState<DueReview[]>([]);
+  // The maintained piece whose segment just finished, waiting for a rating
+  const [justPlayed, setJustPlayed] = useState<RepertoirePiece | null>(null);
+
+  useEffect(() => {
+    const refresh = () => setDue(getDueReviews(pieces));
+    refresh();
+    const handlePieceComplete = (e: Event) => {
+      refresh();
+      const id = (e as CustomEvent<{ id?: string }>).detail?.id;
+      const pieceId = id ? findPlanItem(getPracticePlan(), id)?.repertoirePieceId : undefined;
+      const piece = pieces.find((p) => p.id === pieceId);
+      if (piece?.status === "maintaining") setJustPlayed(piece);
+    };
+    window.addEventListener(REVIEWS_CHANGED_EVENT, refresh);
+    window.addEventListener(PLAN_SWITCHED_EVENT, refresh);
+    window.addEventListener("piece-timer-complete", handlePieceComplete);
+    return () => {
+      window.removeEventListener(REVIEWS_CHANGED_EVENT, refresh);
+      window.removeEventListener(PLAN_SWITCHED_EVENT, refresh);
+      window.removeEventListener("piece-timer-complete", handlePieceComplete);
+    };
+  }, [pieces]);
+
+  if (!isLoggedIn || (due.length === 0 && !justPlayed)) return null;
+
+  return (
+    <div className={cn("rounded-lg bg-muted/40 border border-border/40 p-3 space-y-2", className)}>
+      {justPlayed && (
+        <div className="space-y-1.5 rounded-md bg-primary/10 px-2 py-1.5">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-semibold truncate">How did {justPlayed.title || "Untitled Piece"} go?</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+              onClick={() => setJustPlayed(null)}
+              aria-label="Skip rating"
+            >
+              <span className="material-icons text-sm">close</span>
+            </Button>
+          </div>
+          <ReviewRatingButtons pieceId={justPlayed.id} onRated={() => setJustPlayed(null)} />
+        </div>
+      )}
+
+      {due.length > 0 && (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-muted-foreground uppercase tracking-wider font-bold">Due for review</span>
+            <Link to="/repertoire" className="text-xs text-muted-foreground hover:text-foreground">
+              {due.length} piece{due.length === 1 ? "" : "s"}
+            </Link>
+          </div>
+          <ul className="space-y-1">
+            {due.slice(0, QUEUE_LENGTH).map((review) => (
+              <li key={review.piece.id} className="flex items-center gap-2">
+                <Link to={`/repertoire/${review.piece.id}`} className="min-w-0 flex-1">
+                  <p className="text-sm truncate">{review.piece.title || "Untitled Piece"}</p>
+                  {review.piece.composer && (
+                    <p className="text-[11px] text-muted-foreground truncate">{review.piece.composer}</p>
+                  )}
+                </Link>
+                <span
+                  className={cn(
+                    "text-xs font-mono",
+                    review.overdueDays > 0 ? "text-amber-400/80" : "text-muted-foreground"
+                  )}
+                >
+                  {formatDueLabel(review)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
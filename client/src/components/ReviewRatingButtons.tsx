@@ -0,0 +1,37 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { REVIEW_RATINGS, type ReviewRating, ratePieceReview } from "@/lib/repertoireReview";
+
+interface ReviewRatingButtonsProps {
+  pieceId: string;
+  onRated?: (rating: ReviewRating) => void;
+  className?: string;
+}
+
+/** Again / Hard / Good / Easy self-rating for a run of a maintained piece. */
+export default function ReviewRatingButtons({ pieceId, onRated, className }: ReviewRatingButtonsProps) {
+  const rate = (rating: ReviewRating) => {
+    ratePieceReview(pieceId, rating);
+    onRated?.(rating);
+  };
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      {REVIEW_RATINGS.map(({ value, label }) => (
+        <Button
+          key={value}
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={(e) => {
+            e.stopPropagation();
+            rate(value);
+          }}
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
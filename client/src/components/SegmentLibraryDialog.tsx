@@ -0,0 +1,274 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { stripMarkdownLinks } from "@/lib/richText";
+import type { RepertoirePiece } from "@/lib/repertoire.types";
+import {
+  SEGMENT_LIBRARY_CHANGED_EVENT,
+  type SegmentTemplate,
+  getSegmentLibrary,
+  createSegmentTemplate,
+  updateSegmentTemplate,
+  deleteSegmentTemplate,
+  getLinkedSegmentCount,
+  propagateSegmentTemplate,
+} from "@/lib/segmentLibrary";
+
+interface SegmentLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  repertoirePieces?: RepertoirePiece[];
+  /** Called after linked segments were rewritten so the open plan can reload. */
+  onSegmentsUpdated?: () => void;
+}
+
+interface TemplateDraft {
+  name: string;
+  segmentGoal: string;
+  minutes: string;
+  allocationPeriod: "day" | "week";
+  repertoirePieceId: string;
+  videoUrl: string;
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: "",
+  segmentGoal: "",
+  minutes: "",
+  allocationPeriod: "day",
+  repertoirePieceId: "",
+  videoUrl: "",
+};
+
+function toDraft(template: SegmentTemplate): TemplateDraft {
+  return {
+    name: template.name,
+    segmentGoal: template.segmentGoal ?? "",
+    minutes: template.allocatedTime ? String(template.allocatedTime) : "",
+    allocationPeriod: template.allocationPeriod ?? "day",
+    repertoirePieceId: template.repertoirePieceId ?? "",
+    videoUrl: template.videoUrl ?? "",
+  };
+}
+
+/**
+ * Manage the personal segment library. Saving a template can optionally
+ * rewrite every segment that was inserted from it.
+ */
+export default function SegmentLibraryDialog({
+  open,
+  onOpenChange,
+  repertoirePieces = [],
+  onSegmentsUpdated,
+}: SegmentLibraryDialogProps) {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<SegmentTemplate[]>(() => getSegmentLibrary());
+  // null = creating a new template
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [propagate, setPropagate] = useState(true);
+  const [linkedCount, setLinkedCount] = useState(0);
+
+  useEffect(() => {
+    const refresh = () => setTemplates(getSegmentLibrary());
+    window.addEventListener(SEGMENT_LIBRARY_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(SEGMENT_LIBRARY_CHANGED_EVENT, refresh);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const library = getSegmentLibrary();
+    setTemplates(library);
+    selectTemplate(library[0] ?? null);
+  }, [open]);
+
+  const selectTemplate = (template: SegmentTemplate | null) => {
+    setSelectedId(template?.id ?? null);
+    setDraft(template ? toDraft(template) : EMPTY_DRAFT);
+    setLinkedCount(template ? getLinkedSegmentCount(template.id) : 0);
+    setPropagate(true);
+  };
+
+  const update = (updates: Partial<TemplateDraft>) => setDraft((prev) => ({ ...prev, ...updates }));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    const mins = parseInt(draft.minutes, 10);
+    const fields = {
+      name: draft.name,
+      segmentGoal: draft.segmentGoal,
+      allocatedTime: isNaN(mins) || mins <= 0 ? undefined : mins,
+      allocationPeriod: draft.allocationPeriod,
+      repertoirePieceId: draft.repertoirePieceId || undefined,
+      videoUrl: draft.videoUrl,
+    };
+
+    if (selectedId === null) {
+      const created = createSegmentTemplate(fields);
+      selectTemplate(created);
+      toast({ title: "Segment saved", description: `"${stripMarkdownLinks(created.name)}" is in your library.` });
+      return;
+    }
+
+    const updated = updateSegmentTemplate(selectedId, fields);
+    if (!updated) return;
+    if (propagate && linkedCount > 0) {
+      const count = propagateSegmentTemplate(updated);
+      onSegmentsUpdated?.();
+      toast({
+        title: "Segment updated",
+        description: `Updated ${count} linked segment${count === 1 ? "" : "s"} in your plans.`,
+      });
+    } else {
+      toast({ title: "Segment updated" });
+    }
+    selectTemplate(updated);
+  };
+
+  const handleDelete = () => {
+    if (!selectedId) return;
+    deleteSegmentTemplate(selectedId);
+    const remaining = getSegmentLibrary();
+    selectTemplate(remaining[0] ?? null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl bg-slate-900 border-white/10 text-foreground">
+        <DialogHeader>
+          <DialogTitle>Segment library</DialogTitle>
+          <DialogDescription>
+            Reusable practice segments. Insert them from the "/" menu in any practice or lesson plan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="sm:w-48 shrink-0 space-y-1 max-h-72 overflow-y-auto">
+            {templates.map((template) => (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => selectTemplate(template)}
+                className={cn(
+                  "w-full truncate rounded-md px-2 py-1.5 text-left text-sm hover:bg-white/5",
+                  template.id === selectedId && "bg-white/10 text-foreground"
+                )}
+              >
+                {stripMarkdownLinks(template.name)}
+              </button>
+            ))}
+            <Button variant="ghost" size="sm" className="w-full justify-start" onClick={() => selectTemplate(null)}>
+              <span className="material-icons text-base mr-1">add</span>
+              New segment
+            </Button>
+          </div>
+
+          <form id="segment-template-form" onSubmit={handleSave} className="flex-1 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="segment-template-name">Name</Label>
+              <Input
+                id="segment-template-name"
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="e.g. Scales in thirds"
+                maxLength={120}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="segment-template-goal">Goal</Label>
+              <textarea
+                id="segment-template-goal"
+                value={draft.segmentGoal}
+                onChange={(e) => update({ segmentGoal: e.target.value })}
+                placeholder="What do you want to achieve?"
+                rows={2}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm resize-none focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+            </div>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Input
+                aria-label="Minutes"
+                type="number"
+                min="1"
+                value={draft.minutes}
+                onChange={(e) => update({ minutes: e.target.value })}
+                placeholder="Min"
+                className="w-20 h-8"
+              />
+              <span className="text-sm text-muted-foreground">min per</span>
+              <select
+                aria-label="Allocation period"
+                value={draft.allocationPeriod}
+                onChange={(e) => update({ allocationPeriod: e.target.value === "week" ? "week" : "day" })}
+                className="h-8 text-sm bg-background border border-input rounded px-1.5 focus:outline-none focus:ring-1 focus:ring-ring"
+              >
+                <option value="day">day</option>
+                <option value="week">week</option>
+              </select>
+              {repertoirePieces.length > 0 && (
+                <select
+                  aria-label="Linked piece"
+                  value={draft.repertoirePieceId}
+                  onChange={(e) => update({ repertoirePieceId: e.target.value })}
+                  className="h-8 text-sm bg-background border border-input rounded px-1.5 max-w-[200px] truncate focus:outline-none focus:ring-1 focus:ring-ring"
+                >
+                  <option value="">No linked piece</option>
+                  {repertoirePieces.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.title} {p.composer ? `(${p.composer})` : ""}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="segment-template-video">Video link</Label>
+              <Input
+                id="segment-template-video"
+                type="url"
+                value={draft.videoUrl}
+                onChange={(e) => update({ videoUrl: e.target.value })}
+                placeholder="https://"
+              />
+            </div>
+            {selectedId !== null && linkedCount > 0 && (
+              <div className="flex items-center justify-between gap-2 rounded-md border border-white/10 px-3 py-2">
+                <Label htmlFor="segment-template-propagate" className="text-sm font-normal">
+                  Also update {linkedCount} linked segment{linkedCount === 1 ? "" : "s"} in my plans
+                </Label>
+                <Switch id="segment-template-propagate" checked={propagate} onCheckedChange={setPropagate} />
+              </div>
+            )}
+          </form>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {selectedId !== null && (
+            <Button type="button" variant="ghost" className="text-destructive mr-auto" onClick={handleDelete}>
+              Delete
+            </Button>
+          )}
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button type="submit" form="segment-template-form" disabled={!draft.name.trim()}>
+            {selectedId === null ? "Add to library" : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
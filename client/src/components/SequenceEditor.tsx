@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import SoundSelect from "@/components/SoundSelect";
+import { cn } from "@/lib/utils";
+import {
+  IntervalSequence,
+  SequenceBlock,
+  TimerInterval,
+  MAX_BLOCK_REPEAT,
+  MAX_INTERVAL_MINUTES,
+  generateIntervalId,
+  expandSequence,
+  normalizeSequence,
+} from "@/lib/intervalSequence";
+
+interface SequenceEditorProps {
+  sequence: IntervalSequence;
+  onSave: (sequence: IntervalSequence) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_SOUND = "default";
+const LONG_BREAK = "long-break";
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Editor for a custom interval sequence. Edits are kept as a local draft and
+ * only applied to the timer when saved, so typing a name doesn't reset it.
+ */
+export default function SequenceEditor({ sequence, onSave, disabled = false }: SequenceEditorProps) {
+  const [draft, setDraft] = useState<IntervalSequence>(sequence);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    setDraft(sequence);
+    setIsDirty(false);
+  }, [sequence]);
+
+  const updateDraft = (blocks: SequenceBlock[]) => {
+    setDraft((prev) => ({ ...prev, blocks }));
+    setIsDirty(true);
+  };
+
+  const updateBlock = (blockId: string, updates: Partial<SequenceBlock>) => {
+    updateDraft(draft.blocks.map((b) => (b.id === blockId ? { ...b, ...updates } : b)));
+  };
+
+  const updateInterval = (blockId: string, intervalId: string, updates: Partial<TimerInterval>) => {
+    updateDraft(
+      draft.blocks.map((b) =>
+        b.id === blockId
+          ? { ...b, intervals: b.intervals.map((i) => (i.id === intervalId ? { ...i, ...updates } : i)) }
+          : b
+      )
+    );
+  };
+
+  const addInterval = (blockId: string) => {
+    const interval: TimerInterval = { id: generateIntervalId(), name: "Work", mode: "work", duration: 20 };
+    updateDraft(draft.blocks.map((b) => (b.id === blockId ? { ...b, intervals: [...b.intervals, interval] } : b)));
+  };
+
+  const removeInterval = (blockId: string, intervalId: string) => {
+    updateDraft(
+      draft.blocks
+        .map((b) => (b.id === blockId ? { ...b, intervals: b.intervals.filter((i) => i.id !== intervalId) } : b))
+        .filter((b) => b.intervals.length > 0)
+    );
+  };
+
+  const addBlock = () => {
+    updateDraft([
+      ...draft.blocks,
+      {
+        id: generateIntervalId(),
+        repeat: 1,
+        intervals: [{ id: generateIntervalId(), name: "Work", mode: "work", duration: 20 }],
+      },
+    ]);
+  };
+
+  const moveBlock = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.blocks.length) return;
+    const blocks = [...draft.blocks];
+    [blocks[index], blocks[target]] = [blocks[target], blocks[index]];
+    updateDraft(blocks);
+  };
+
+  const removeBlock = (blockId: string) => {
+    updateDraft(draft.blocks.filter((b) => b.id !== blockId));
+  };
+
+  const handleSave = () => {
+    const normalized = normalizeSequence(draft);
+    if (!normalized) return;
+    onSave(normalized);
+    setIsDirty(false);
+  };
+
+  const expanded = expandSequence(draft);
+  const totalMinutes = expanded.reduce((sum, i) => sum + i.duration, 0);
+  const workCount = expanded.filter((i) => i.mode === "work").length;
+
+  return (
+    <div className="space-y-4">
+      {draft.blocks.map((block, blockIndex) => (
+        <div key={block.id} className="rounded-lg border border-white/10 p-3 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Label htmlFor={`repeat-${block.id}`} className="text-sm text-muted-foreground">
+                Repeat
+              </Label>
+              <Input
+                id={`repeat-${block.id}`}
+                type="number"
+                min={1}
+                max={MAX_BLOCK_REPEAT}
+                value={block.repeat}
+                disabled={disabled}
+                onChange={(e) =>
+                  updateBlock(block.id, { repeat: clamp(parseInt(e.target.value, 10) || 1, 1, MAX_BLOCK_REPEAT) })
+                }
+                className="w-16 h-8"
+              />
+              <span className="text-sm text-muted-foreground">×</span>
+            </div>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Move block up"
+                disabled={disabled || blockIndex === 0}
+                onClick={() => moveBlock(blockIndex, -1)}
+              >
+                <span className="material-icons text-base">arrow_upward</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Move block down"
+                disabled={disabled || blockIndex === draft.blocks.length - 1}
+                onClick={() => moveBlock(blockIndex, 1)}
+              >
+                <span className="material-icons text-base">arrow_downward</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove block"
+                disabled={disabled || draft.blocks.length === 1}
+                onClick={() => removeBlock(block.id)}
+              >
+                <span className="material-icons text-base">delete</span>
+              </Button>
+            </div>
+          </div>
+
+          {block.intervals.map((interval) => (
+            <div key={interval.id} className="flex flex-wrap items-center gap-2">
+              <Input
+                aria-label="Interval name"
+                value={interval.name}
+                placeholder={interval.mode === "work" ? "Work" : "Break"}
+                disabled={disabled}
+                onChange={(e) => updateInterval(block.id, interval.id, { name: e.target.value })}
+                className="flex-1 min-w-[8rem] h-8"
+              />
+              <Select
+                value={interval.isLongBreak ? LONG_BREAK : interval.mode}
+                disabled={disabled}
+                onValueChange={(value) =>
+                  updateInterval(block.id, interval.id, {
+                    mode: value === "work" ? "work" : "break",
+                    isLongBreak: value === LONG_BREAK ? true : undefined,
+                  })
+                }
+              >
+                <SelectTrigger aria-label="Interval type" className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="work">Work</SelectItem>
+                  <SelectItem value="break">Break</SelectItem>
+                  <SelectItem value={LONG_BREAK}>Long break</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                aria-label="Duration in minutes"
+                type="number"
+                min={1}
+                max={MAX_INTERVAL_MINUTES}
+                value={interval.duration}
+                disabled={disabled}
+                onChange={(e) =>
+                  updateInterval(block.id, interval.id, {
+                    duration: clamp(parseInt(e.target.value, 10) || 1, 1, MAX_INTERVAL_MINUTES),
+                  })
+                }
+                className="w-16 h-8"
+              />
+              <span className="text-sm text-muted-foreground">min</span>
+              <SoundSelect
+                value={interval.soundType ?? DEFAULT_SOUND}
+                disabled={disabled}
+                onValueChange={(value) =>
+                  updateInterval(block.id, interval.id, { soundType: value === DEFAULT_SOUND ? undefined : value })
+                }
+                aria-label="End sound"
+                className="w-32 h-8"
+                extraOptions={[{ value: DEFAULT_SOUND, label: "Default sound" }]}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove interval"
+                disabled={disabled}
+                onClick={() => removeInterval(block.id, interval.id)}
+              >
+                <span className="material-icons text-base">close</span>
+              </Button>
+            </div>
+          ))}
+
+          <Button variant="outline" size="sm" disabled={disabled} onClick={() => addInterval(block.id)}>
+            <span className="material-icons text-base mr-1">add</span>
+            Add interval
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="outline" size="sm" disabled={disabled} onClick={addBlock}>
+          <span className="material-icons text-base mr-1">playlist_add</span>
+          Add block
+        </Button>
+        <Button
+          size="sm"
+          disabled={disabled || !isDirty || expanded.length === 0}
+          onClick={handleSave}
+          className={cn(!isDirty && "opacity-60")}
+        >
+          Save sequence
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {expanded.length} intervals • {workCount} work sessions • {totalMinutes} min total
+        {disabled && " — pause the timer to edit"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TextWithLinks } from "@/components/TextWithLinks";
+import { cn } from "@/lib/utils";
+import { stripMarkdownLinks } from "@/lib/richText";
+import { getPracticePlan } from "@/lib/practicePlan";
+import { getSettings } from "@/lib/localStorage";
+import { repertoireService } from "@/lib/repertoireService";
+import { SESSION_LENGTH_OPTIONS, type ScheduledSegment, buildDailySession } from "@/lib/dailyScheduler";
+import { useAuth } from "@/contexts/AuthContext";
+
+interface SessionPlannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Load the proposed session into the timer. */
+  onLoad: (segments: ScheduledSegment[]) => void;
+}
+
+/** Ask how long there is to practice today and propose a session from the plan. */
+export default function SessionPlannerDialog({ open, onOpenChange, onLoad }: SessionPlannerDialogProps) {
+  const { isLoggedIn } = useAuth();
+  const { data: repertoirePieces = [] } = useQuery({
+    queryKey: ["repertoire"],
+    queryFn: repertoireService.getAll,
+    enabled: isLoggedIn,
+  });
+  const [minutes, setMinutes] = useState(30);
+
+  const session = useMemo(() => {
+    if (!open) return null;
+    const weekStartsOn = getSettings()?.weekStartsOn ?? "monday";
+    return buildDailySession(getPracticePlan(), minutes, { pieces: repertoirePieces, weekStartsOn });
+  }, [open, minutes, repertoirePieces]);
+
+  const handleLoad = () => {
+    if (!session || session.segments.length === 0) return;
+    onLoad(session.segments);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-slate-900 border-white/10 text-foreground">
+        <DialogHeader>
+          <DialogTitle>Plan today's session</DialogTitle>
+          <DialogDescription>
+            Picks segments from your plan by what's left of their allocation, how long since you played them, and
+            your repertoire's status and target dates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">How long can you practice?</p>
+          <div className="flex flex-wrap gap-2">
+            {SESSION_LENGTH_OPTIONS.map((option) => (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={option === minutes ? "default" : "outline"}
+                onClick={() => setMinutes(option)}
+              >
+                {option} min
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {session && session.segments.length > 0 ? (
+          <ol className="space-y-2 max-h-80 overflow-y-auto">
+            {session.segments.map((segment, index) => (
+              <li key={segment.id} className="flex items-start gap-3 rounded-md border border-white/10 px-3 py-2">
+                <span className="text-xs text-muted-foreground font-mono pt-0.5">{index + 1}</span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate" title={stripMarkdownLinks(segment.name)}>
+                    <TextWithLinks text={segment.name} />
+                  </p>
+                  {segment.reasons.length > 0 && (
+                    <p className="text-[11px] text-muted-foreground">{segment.reasons.join(" · ")}</p>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground font-mono pt-0.5">{segment.minutes} min</span>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Nothing needs time right now: every segment has met its allocation or was already played today.
+          </p>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {session && session.segments.length > 0 && (
+            <span
+              className={cn(
+                "text-xs text-muted-foreground mr-auto self-center",
+                session.totalMinutes < minutes && "text-amber-400/80"
+              )}
+            >
+              {session.totalMinutes} of {minutes} min planned
+            </span>
+          )}
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button type="button" onClick={handleLoad} disabled={!session || session.segments.length === 0}>
+            Load into timer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { TextWithLinks } from "@/components/TextWithLinks";
+import { formatDate, formatDuration, getLocalYMD } from "@/lib/practiceLog";
+import { getJournalDates, getJournalForDate, type JournalEntry, type JournalOutcome } from "@/lib/sessionJournal";
+
+interface SessionTimelineProps {
+  /** Changes every tick while the timer runs so the open entries refresh. */
+  refreshKey?: unknown;
+}
+
+const OUTCOME_LABELS: Record<JournalOutcome, string> = {
+  "in-progress": "In progress",
+  completed: "Completed",
+  skipped: "Skipped",
+  reset: "Reset",
+  stopped: "Stopped",
+};
+
+const OUTCOME_CLASSES: Record<JournalOutcome, string> = {
+  "in-progress": "bg-primary/10 border-primary/25 text-primary",
+  completed: "bg-emerald-500/15 border-emerald-500/35 text-emerald-700 dark:text-emerald-300",
+  skipped: "bg-amber-500/15 border-amber-500/35 text-amber-700 dark:text-amber-300",
+  reset: "bg-muted/60 border-muted-foreground/20 text-muted-foreground",
+  stopped: "bg-muted/60 border-muted-foreground/20 text-muted-foreground",
+};
+
+function formatClock(ms: number): string {
+  return new Date(ms).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+function entryLabel(entry: JournalEntry): string {
+  if (entry.kind === "interval") return "Work session";
+  return entry.pieceName || "Untitled segment";
+}
+
+/** Position of an entry on a 24h strip, as percentages of the day. */
+function stripPosition(entry: JournalEntry): { left: number; width: number } {
+  const dayStart = new Date(entry.start);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayMs = 24 * 60 * 60 * 1000;
+  const left = ((entry.start - dayStart.getTime()) / dayMs) * 100;
+  const width = Math.max(0.4, ((entry.end - entry.start) / dayMs) * 100);
+  return { left, width: Math.min(width, 100 - left) };
+}
+
+/**
+ * Daily timeline of the session journal: when each work interval and
+ * segment run happened and how it ended.
+ */
+export default function SessionTimeline({ refreshKey }: SessionTimelineProps) {
+  const today = getLocalYMD();
+  const [selectedDate, setSelectedDate] = useState(today);
+
+  const [dates, setDates] = useState<string[]>([today]);
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+
+  useEffect(() => {
+    // Today is always selectable, even before anything was recorded
+    const journalDates = getJournalDates();
+    setDates(journalDates.includes(today) ? journalDates : [today, ...journalDates]);
+    setEntries(getJournalForDate(selectedDate));
+  }, [today, selectedDate, refreshKey]);
+
+  const dateIndex = dates.indexOf(selectedDate);
+  const segments = entries.filter((e) => e.kind === "segment");
+  const intervals = entries.filter((e) => e.kind === "interval");
+  const totalSeconds = intervals.reduce((sum, e) => sum + e.seconds, 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between rounded-xl border border-primary/20 bg-primary/5 px-2 py-1.5">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          aria-label="Previous day"
+          disabled={dateIndex < 0 || dateIndex >= dates.length - 1}
+          onClick={() => setSelectedDate(dates[dateIndex + 1])}
+        >
+          <span className="material-icons text-lg">chevron_left</span>
+        </Button>
+        <div className="text-center">
+          <p className="text-sm font-medium">{formatDate(selectedDate)}</p>
+          <p className="text-xs text-muted-foreground">
+            {intervals.length} work {intervals.length === 1 ? "session" : "sessions"} • {segments.length}{" "}
+            {segments.length === 1 ? "segment" : "segments"} • {formatDuration(totalSeconds)}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          aria-label="Next day"
+          disabled={dateIndex <= 0}
+          onClick={() => setSelectedDate(dates[dateIndex - 1])}
+        >
+          <span className="material-icons text-lg">chevron_right</span>
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="rounded-xl border border-primary/20 bg-primary/5 p-4">
+          <p className="text-sm text-muted-foreground">
+            No sessions recorded on this day. Start the timer to build your timeline.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="relative h-3 rounded-full bg-muted/60 overflow-hidden" aria-hidden="true">
+            {intervals.map((entry) => {
+              const { left, width } = stripPosition(entry);
+              return (
+                <div
+                  key={entry.id}
+                  className="absolute inset-y-0 bg-primary/70"
+                  style={{ left: `${left}%`, width: `${width}%` }}
+                />
+              );
+            })}
+          </div>
+          <div className="flex justify-between text-[10px] text-muted-foreground select-none" aria-hidden="true">
+            <span>0:00</span>
+            <span>6:00</span>
+            <span>12:00</span>
+            <span>18:00</span>
+            <span>24:00</span>
+          </div>
+          <ul className="space-y-2">
+            {entries.map((entry) => (
+              <li
+                key={entry.id}
+                className={cn(
+                  "flex items-center justify-between gap-2 rounded-xl border border-primary/20 bg-primary/5 px-4 py-3",
+                  entry.kind === "segment" && "ml-4"
+                )}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate flex items-center gap-1.5">
+                    <span className="material-icons text-[15px] text-muted-foreground" aria-hidden="true">
+                      {entry.kind === "interval" ? "timer" : "music_note"}
+                    </span>
+                    <TextWithLinks text={entryLabel(entry)} />
+                    {entry.kind === "segment" && entry.mode === "break" && (
+                      <span className="text-xs text-muted-foreground font-normal">(overtime)</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatClock(entry.start)} – {formatClock(entry.end)} • {formatDuration(entry.seconds)}
+                  </p>
+                </div>
+                <span
+                  className={cn(
+                    "inline-flex items-center h-[22px] px-2 rounded-full text-xs font-semibold shrink-0 select-none border",
+                    OUTCOME_CLASSES[entry.outcome]
+                  )}
+                >
+                  {OUTCOME_LABELS[entry.outcome]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { clearGlobalPermalinkId, getShortShareUrl } from "@/lib/reportShare";
+import { shareLinkService } from "@/lib/shareLinkService";
+import type { ShareLink, ShareLinkChanges, ShareLinkStatus } from "@/lib/shareLink.types";
+import { fromExpiryDateInput, getShareLinkState, toExpiryDateInput, type ShareLinkState } from "@/lib/shareLinks";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+// Stable while loading
+const NO_LINKS: ShareLink[] = [];
+
+const STATE_BADGES: Record<Exclude<ShareLinkState, "open">, string> = {
+  revoked: "Revoked",
+  disabled: "Disabled",
+  expired: "Expired",
+};
+
+interface SharedLinkRowProps {
+  link: ShareLink;
+  pending: boolean;
+  onChange: (changes: ShareLinkChanges) => void;
+  onRevoke: () => void;
+}
+
+function SharedLinkRow({ link, pending, onChange, onRevoke }: SharedLinkRowProps) {
+  const { toast } = useToast();
+  const [editingPassphrase, setEditingPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const url = getShortShareUrl(link.id);
+  const state = getShareLinkState(link);
+  const locked = link.revoked || pending;
+
+  const savePassphrase = () => {
+    const value = passphrase.trim();
+    if (!value) return;
+    onChange({ passphrase: value });
+    setPassphrase("");
+    setEditingPassphrase(false);
+  };
+
+  return (
+    <li className={cn("rounded-lg border border-white/10 p-3 space-y-3", link.revoked && "opacity-60")}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex items-center gap-1.5 flex-wrap">
+            <span className="text-sm font-medium truncate">{link.title || "Practice report"}</span>
+            {state !== "open" && (
+              <Badge variant={state === "revoked" ? "destructive" : "outline"} className="h-4 px-1.5 text-[10px]">
+                {STATE_BADGES[state]}
+              </Badge>
+            )}
+            {link.hasPassphrase && !link.revoked && (
+              <Badge variant="outline" className="h-4 px-1.5 text-[10px] gap-0.5">
+                <span className="material-icons text-[10px]">lock</span>
+                Passphrase
+              </Badge>
+            )}
+            {link.source === "device" && (
+              <Badge variant="secondary" className="h-4 px-1.5 text-[10px]">
+                This device
+              </Badge>
+            )}
+          </div>
+          <p className="text-[11px] text-muted-foreground font-mono truncate">{url}</p>
+          <p className="text-[11px] text-muted-foreground">
+            Published {new Date(link.createdAt).toLocaleDateString(undefined, { dateStyle: "medium" })}
+          </p>
+        </div>
+        <div className="flex items-center shrink-0">
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0"
+            onClick={() => {
+              navigator.clipboard.writeText(url);
+              toast({ title: "Copied!", duration: 1000 });
+            }}
+            title="Copy link"
+            disabled={link.revoked}
+          >
+            <span className="material-icons text-base">content_copy</span>
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0"
+            onClick={() => window.open(url, "_blank")}
+            title="Open link"
+          >
+            <span className="material-icons text-base">open_in_new</span>
+          </Button>
+        </div>
+      </div>
+
+      {!link.revoked && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <label className="text-[11px] text-muted-foreground" htmlFor={`link-status-${link.id}`}>
+              Visibility
+            </label>
+            <Select
+              value={link.status}
+              onValueChange={(value) => onChange({ status: value as ShareLinkStatus })}
+              disabled={locked}
+            >
+              <SelectTrigger id={`link-status-${link.id}`} className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {link.source === "account" && <SelectItem value="listed">Listed for my teachers</SelectItem>}
+                <SelectItem value="unlisted">Unlisted (link only)</SelectItem>
+                <SelectItem value="disabled">Disabled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-[11px] text-muted-foreground" htmlFor={`link-expiry-${link.id}`}>
+              Works until
+            </label>
+            <div className="flex items-center gap-1">
+              <Input
+                id={`link-expiry-${link.id}`}
+                type="date"
+                value={toExpiryDateInput(link.expiresAt)}
+                onChange={(e) => onChange({ expiresAt: fromExpiryDateInput(e.target.value) })}
+                disabled={locked}
+                className="h-8 text-xs"
+              />
+              {link.expiresAt && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0 shrink-0"
+                  onClick={() => onChange({ expiresAt: null })}
+                  disabled={locked}
+                  title="Never expire"
+                >
+                  <span className="material-icons text-base">event_busy</span>
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!link.revoked && (
+        <div className="flex items-center gap-2 flex-wrap">
+          {editingPassphrase ? (
+            <form
+              className="flex items-center gap-2 flex-1 min-w-[12rem]"
+              onSubmit={(e) => {
+                e.preventDefault();
+                savePassphrase();
+              }}
+            >
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="New passphrase"
+                aria-label="New passphrase"
+                maxLength={200}
+                autoFocus
+                className="h-8 text-xs"
+              />
+              <Button type="submit" size="sm" className="h-8" disabled={!passphrase.trim() || pending}>
+                Save
+              </Button>
+              <Button type="button" size="sm" variant="ghost" className="h-8" onClick={() => setEditingPassphrase(false)}>
+                Cancel
+              </Button>
+            </form>
+          ) : (
+            <>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="h-8 text-xs border-white/10"
+                onClick={() => setEditingPassphrase(true)}
+                disabled={locked}
+              >
+                {link.hasPassphrase ? "Change passphrase" : "Add passphrase"}
+              </Button>
+              {link.hasPassphrase && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 text-xs"
+                  onClick={() => onChange({ passphrase: null })}
+                  disabled={locked}
+                >
+                  Remove passphrase
+                </Button>
+              )}
+            </>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-8 text-xs text-destructive hover:text-destructive ml-auto"
+            onClick={onRevoke}
+            disabled={locked}
+          >
+            Revoke
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Every report link the user has published - from their account, or from
+ * this device without one - with its visibility, expiry, passphrase and
+ * revocation. Viewers see why a closed link doesn't open.
+ */
+export default function SharedLinksManager() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [revoking, setRevoking] = useState<ShareLink | null>(null);
+  const queryKey = ["share-links", user?.id ?? null];
+
+  const { data: links = NO_LINKS, isLoading, isError } = useQuery({
+    queryKey,
+    queryFn: () => shareLinkService.getLinks(),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ link, changes }: { link: ShareLink; changes: ShareLinkChanges }) =>
+      shareLinkService.updateLink(link, changes),
+    onSuccess: (_data, { link, changes }) => {
+      if (changes.revoke) {
+        clearGlobalPermalinkId(link.id);
+        toast({ title: "Link revoked", description: "It no longer opens for anyone." });
+      }
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (e: Error) => toast({ title: "Link not updated", description: e.message, variant: "destructive" }),
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading links…</p>;
+  }
+  if (isError) {
+    return <p className="text-xs text-destructive">Couldn't load your shared links.</p>;
+  }
+  if (links.length === 0) {
+    return <p className="text-xs text-muted-foreground">You haven't shared any reports yet.</p>;
+  }
+
+  return (
+    <>
+      <ul className="space-y-3">
+        {links.map((link) => (
+          <SharedLinkRow
+            key={`${link.source}:${link.id}`}
+            link={link}
+            pending={updateMutation.isPending && updateMutation.variables?.link.id === link.id}
+            onChange={(changes) => updateMutation.mutate({ link, changes })}
+            onRevoke={() => setRevoking(link)}
+          />
+        ))}
+      </ul>
+
+      <AlertDialog open={revoking !== null} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke this link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anyone who has it, including linked teachers, will no longer be able to open the report. This can't be
+              undone; publishing again creates a new link.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (revoking) updateMutation.mutate({ link: revoking, changes: { revoke: true } });
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Revoke link
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
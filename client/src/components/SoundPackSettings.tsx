@@ -0,0 +1,197 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import SoundSelect from "@/components/SoundSelect";
+import { useToast } from "@/hooks/use-toast";
+import { useUploadedSounds } from "@/hooks/useUploadedSounds";
+import { forgetSoundBuffer, loadSoundBuffer, playSound, unlockAudioContext } from "@/lib/soundEffects";
+import {
+  DEFAULT_SOUND_ID,
+  type EventSoundSettings,
+  NO_SOUND,
+  SAME_AS_END,
+  SOUND_EVENTS,
+  type SoundEvent,
+  forgetEventSound,
+  getEventSounds,
+  getUploadSoundId,
+  resolveEventSound,
+  saveEventSounds,
+} from "@/lib/soundPacks";
+import { addUploadedSound, deleteUploadedSound, getUploadProblem } from "@/lib/soundUploads";
+
+const EVENT_OPTIONS = [
+  { value: NO_SOUND, label: "No sound" },
+  { value: SAME_AS_END, label: "Same as interval end" },
+];
+
+interface SoundPackSettingsProps {
+  /** The interval-end sound (the timer's soundType setting). */
+  endSoundId: string;
+  volume: number;
+  onEndSoundChange: (soundId: string) => void;
+}
+
+/**
+ * Sound for each timer event, with previews, plus this device's uploaded
+ * sounds. Event choices other than the interval end are stored by soundPacks.
+ */
+export default function SoundPackSettings({ endSoundId, volume, onEndSoundChange }: SoundPackSettingsProps) {
+  const { toast } = useToast();
+  const uploads = useUploadedSounds();
+  const [eventSounds, setEventSounds] = useState<EventSoundSettings>(() => getEventSounds());
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const preview = (soundId: string | null, event: SoundEvent = "end") => {
+    if (!soundId) return;
+    // Called from a tap, so this also unlocks audio on iOS
+    unlockAudioContext();
+    const effect = event === "start" || event === "reset" || event === "skip" ? event : "end";
+    playSound(effect, 1, volume, soundId);
+  };
+
+  const changeEventSound = (event: Exclude<SoundEvent, "end">, choice: string) => {
+    const next = { ...eventSounds, [event]: choice };
+    setEventSounds(next);
+    saveEventSounds(next);
+    preview(resolveEventSound(event, next, endSoundId), event);
+  };
+
+  const handleUpload = async (file: File) => {
+    const problem = getUploadProblem(file);
+    if (problem) {
+      toast({ title: "Can't use that file", description: problem, variant: "destructive" });
+      return;
+    }
+    setUploading(true);
+    try {
+      const sound = await addUploadedSound(file);
+      const soundId = getUploadSoundId(sound.id);
+      // Decoding is the real test of the format; drop files the browser can't play
+      if (!(await loadSoundBuffer(soundId))) {
+        await deleteUploadedSound(sound.id);
+        forgetSoundBuffer(soundId);
+        toast({
+          title: "Can't use that file",
+          description: "This browser couldn't read it as audio. Try an MP3, WAV or M4A file.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({ title: "Sound added", description: `"${sound.name}" is ready to use.` });
+    } catch (e) {
+      console.error("Failed to upload sound:", e);
+      toast({ title: "Upload failed", description: "The sound couldn't be saved on this device.", variant: "destructive" });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (uploadId: string) => {
+    const soundId = getUploadSoundId(uploadId);
+    try {
+      await deleteUploadedSound(uploadId);
+    } catch (e) {
+      console.error("Failed to delete sound:", e);
+      return;
+    }
+    forgetSoundBuffer(soundId);
+    forgetEventSound(soundId);
+    setEventSounds(getEventSounds());
+    if (endSoundId === soundId) onEndSoundChange(DEFAULT_SOUND_ID);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {SOUND_EVENTS.map(({ event, label }) => {
+          const value = event === "end" ? endSoundId : eventSounds[event];
+          const playing = resolveEventSound(event, eventSounds, endSoundId);
+          return (
+            <div key={event} className="flex items-center justify-between gap-2">
+              <span className="text-sm">{label}</span>
+              <div className="flex items-center gap-1">
+                <SoundSelect
+                  value={value}
+                  aria-label={`${label} sound`}
+                  className="w-48 h-9"
+                  extraOptions={event === "end" ? [] : EVENT_OPTIONS}
+                  onValueChange={(choice) => {
+                    if (event === "end") {
+                      onEndSoundChange(choice);
+                      preview(choice);
+                    } else {
+                      changeEventSound(event, choice);
+                    }
+                  }}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9"
+                  disabled={!playing}
+                  onClick={() => preview(playing, event)}
+                  aria-label={`Preview ${label.toLowerCase()} sound`}
+                >
+                  <span className="material-icons text-base">play_arrow</span>
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium">My sounds</p>
+            <p className="text-xs text-muted-foreground">Audio files up to 1 MB, kept on this device only.</p>
+          </div>
+          <Button variant="outline" size="sm" disabled={uploading} onClick={() => fileInput.current?.click()}>
+            <span className="material-icons text-base mr-1">upload</span>
+            {uploading ? "Adding…" : "Upload"}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) handleUpload(file);
+            }}
+          />
+        </div>
+        {uploads.length > 0 && (
+          <ul className="space-y-1">
+            {uploads.map((upload) => (
+              <li key={upload.id} className="flex items-center gap-2 rounded-md border border-white/10 px-3 py-1.5">
+                <span className="text-sm truncate flex-1">{upload.name}</span>
+                <span className="text-xs text-muted-foreground font-mono">{Math.ceil(upload.size / 1024)} KB</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => preview(getUploadSoundId(upload.id))}
+                  aria-label={`Preview ${upload.name}`}
+                >
+                  <span className="material-icons text-base">play_arrow</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground"
+                  onClick={() => handleDelete(upload.id)}
+                  aria-label={`Delete ${upload.name}`}
+                >
+                  <span className="material-icons text-base">delete</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
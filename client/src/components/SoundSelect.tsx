@@ -0,0 +1,61 @@
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useUploadedSounds } from "@/hooks/useUploadedSounds";
+import { getSoundPacks } from "@/lib/soundPacks";
+
+interface SoundSelectProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  /** Choices listed above the packs, e.g. "Default sound" or "No sound". */
+  extraOptions?: { value: string; label: string }[];
+  disabled?: boolean;
+  className?: string;
+  id?: string;
+  "aria-label"?: string;
+}
+
+/** Picks a sound from every pack, including this device's uploads. */
+export default function SoundSelect({
+  value,
+  onValueChange,
+  extraOptions = [],
+  disabled,
+  className,
+  id,
+  "aria-label": ariaLabel,
+}: SoundSelectProps) {
+  const packs = getSoundPacks(useUploadedSounds());
+  const known =
+    extraOptions.some((option) => option.value === value) ||
+    packs.some((pack) => pack.sounds.some((sound) => sound.id === value));
+
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger id={id} aria-label={ariaLabel} className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {extraOptions.map((option) => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+        {/* An upload from another device, or one that was deleted, plays as the default beep */}
+        {!known && <SelectItem value={value}>Missing sound</SelectItem>}
+        {packs.map((pack) => (
+          <SelectGroup key={pack.id}>
+            <SelectLabel>{pack.name}</SelectLabel>
+            {pack.sounds.map((sound) => (
+              <SelectItem key={sound.id} value={sound.id}>{sound.name}</SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import AssignmentComments from "@/components/AssignmentComments";
+import { formatDuration } from "@/lib/practiceLog";
+import { getLessonPlan } from "@/lib/lessonPlan";
+import { prepareAssignmentItems } from "@/lib/lessonAssignments";
+import { teacherService } from "@/lib/teacherService";
+import type { AssignmentProgress, LessonAssignment, LinkedAccount } from "@/lib/teacher.types";
+import { stripMarkdownLinks } from "@/lib/richText";
+import { useToast } from "@/hooks/use-toast";
+
+interface StudentAssignmentsCardProps {
+  student: LinkedAccount;
+  /** The teacher's own user id, for removing the link. */
+  teacherId: string;
+}
+
+function defaultTitle(): string {
+  return `Lesson ${new Date().toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+}
+
+function ProgressSummary({ progress }: { progress: AssignmentProgress | undefined }) {
+  if (!progress) {
+    return <p className="text-xs text-muted-foreground">Not in the student's Lesson Plan yet.</p>;
+  }
+  const { summary } = progress;
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">
+        {formatDuration(summary.totalSeconds)} practiced · updated{" "}
+        {new Date(progress.updated_at).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+      </p>
+      <ul className="space-y-0.5">
+        {summary.items.map((item) => (
+          <li key={item.itemId} className="flex items-center gap-2 text-sm">
+            <span className={`material-icons text-sm ${item.checked ? "text-emerald-400" : "text-muted-foreground/50"}`}>
+              {item.checked ? "check_circle" : "radio_button_unchecked"}
+            </span>
+            <span className="flex-1 min-w-0 truncate">{stripMarkdownLinks(item.itemName)}</span>
+            <span className="text-xs text-muted-foreground font-mono shrink-0">
+              {item.seconds > 0
+                ? `${formatDuration(item.seconds)} · ${item.daysPracticed}d`
+                : "—"}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** One student on the Teaching page: send lessons, follow their practice, and comment. */
+export default function StudentAssignmentsCard({ student, teacherId }: StudentAssignmentsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState(false);
+  const [title, setTitle] = useState(defaultTitle);
+  const [openComments, setOpenComments] = useState<string | null>(null);
+  // The assignment waiting for delete confirmation, or "student" to remove the link
+  const [confirming, setConfirming] = useState<LessonAssignment | "student" | null>(null);
+
+  const { data: assignments = [] } = useQuery({
+    queryKey: ["lesson-assignments", student.userId],
+    queryFn: () => teacherService.getAssignments(student.userId),
+    enabled: expanded,
+  });
+  const { data: progress = [] } = useQuery({
+    queryKey: ["assignment-progress", student.userId, assignments.map((a) => a.id)],
+    queryFn: () => teacherService.getProgress(assignments.map((a) => a.id)),
+    enabled: expanded && assignments.length > 0,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: () => {
+      const items = prepareAssignmentItems(getLessonPlan());
+      if (items.length === 0) throw new Error("Your Lesson Plan is empty.");
+      return teacherService.createAssignment(student.userId, title.trim() || defaultTitle(), items);
+    },
+    onSuccess: () => {
+      setTitle(defaultTitle());
+      queryClient.invalidateQueries({ queryKey: ["lesson-assignments", student.userId] });
+      toast({ title: "Lesson sent", description: `${student.name} will find it in their Lesson Plan.` });
+    },
+    onError: (e: Error) => toast({ title: "Lesson not sent", description: e.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => teacherService.deleteAssignment(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["lesson-assignments", student.userId] }),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: () => teacherService.removeLink(teacherId, student.userId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["linked-accounts"] }),
+  });
+
+  const names = { [student.userId]: student.name };
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left"
+          aria-expanded={expanded}
+        >
+          <span className="material-icons text-muted-foreground">{expanded ? "expand_less" : "expand_more"}</span>
+          <span className="font-semibold truncate">{student.name}</span>
+          <span className="text-xs text-muted-foreground shrink-0">
+            since {new Date(student.linkedAt).toLocaleDateString(undefined, { month: "short", year: "numeric" })}
+          </span>
+        </button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-destructive"
+          onClick={() => setConfirming("student")}
+        >
+          Remove
+        </Button>
+      </div>
+
+      {expanded && (
+        <>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Lesson title" maxLength={120} />
+            <Button onClick={() => sendMutation.mutate()} disabled={sendMutation.isPending} className="shrink-0">
+              <span className="material-icons text-base mr-1.5">send</span>
+              Send my Lesson Plan
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Write the lesson in your own Lesson Plan, then send a copy. Segments keep their minutes and goals.
+          </p>
+
+          {assignments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No lessons sent yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {assignments.map((assignment) => (
+                <li key={assignment.id} className="rounded-lg border border-white/10 p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <p className="flex-1 min-w-0 text-sm font-semibold truncate">{assignment.title}</p>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {new Date(assignment.created_at).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-muted-foreground hover:text-foreground"
+                      onClick={() => setOpenComments((id) => (id === assignment.id ? null : assignment.id))}
+                      aria-label="Comments"
+                      aria-expanded={openComments === assignment.id}
+                    >
+                      <span className="material-icons text-base">chat_bubble_outline</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                      onClick={() => setConfirming(assignment)}
+                      aria-label="Delete lesson"
+                    >
+                      <span className="material-icons text-base">delete</span>
+                    </Button>
+                  </div>
+                  <ProgressSummary progress={progress.find((p) => p.assignment_id === assignment.id)} />
+                  {openComments === assignment.id && <AssignmentComments assignmentId={assignment.id} names={names} />}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming === "student" ? `Remove ${student.name}?` : `Delete "${confirming?.title}"?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming === "student"
+                ? "You will no longer be able to send them lessons or see their practice. They keep the lessons they already have."
+                : "The student keeps anything they already added to their Lesson Plan, but its comments and practice summary are deleted."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (confirming === "student") removeMutation.mutate();
+                else if (confirming) deleteMutation.mutate(confirming.id);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {confirming === "student" ? "Remove" : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { stripMarkdownLinks } from "@/lib/richText";
+import type { PlanItemFields } from "@/lib/planMerge";
+import type { TempoProgression } from "@/lib/planTypes";
+import {
+  SYNC_CONFLICTS_CHANGED_EVENT,
+  type SyncConflict,
+  type SyncConflictChoice,
+  getSyncConflicts,
+  resolveAllSyncConflicts,
+  resolveSyncConflict,
+} from "@/lib/syncConflicts";
+
+const FIELD_LABELS: Partial<Record<keyof PlanItemFields, string>> = {
+  text: "Text",
+  checked: "Done",
+  checkedDate: "Done on",
+  blockType: "Block type",
+  allocatedTime: "Minutes",
+  allocationPeriod: "Per",
+  segmentGoal: "Goal",
+  repertoirePieceId: "Linked piece",
+  videoUrl: "Video",
+  tempo: "Tempo",
+  tempoProgression: "Tempo goal",
+  segmentTemplateId: "Template",
+  assignmentId: "Assignment",
+};
+
+function formatValue(field: keyof PlanItemFields, value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (field === "checkedDate" && typeof value === "string") return new Date(value).toLocaleString();
+  if (field === "text" || field === "segmentGoal") return stripMarkdownLinks(String(value)) || "—";
+  if (field === "tempoProgression" && typeof value === "object") {
+    const { startTempo, targetTempo } = value as TempoProgression;
+    return `${startTempo} → ${targetTempo} BPM`;
+  }
+  return String(value);
+}
+
+function ConflictSide({
+  label,
+  fields,
+  version,
+}: {
+  label: string;
+  fields: (keyof PlanItemFields)[];
+  version: PlanItemFields | null;
+}) {
+  return (
+    <div className="flex-1 min-w-0 rounded-md border border-white/10 px-3 py-2">
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">{label}</p>
+      {!version ? (
+        <p className="text-sm italic text-muted-foreground">Deleted</p>
+      ) : fields.length === 0 ? (
+        <p className="text-sm truncate">{formatValue("text", version.text)}</p>
+      ) : (
+        <dl className="text-sm space-y-0.5">
+          {fields.map((field) => (
+            <div key={field} className="flex gap-2">
+              <dt className="text-muted-foreground shrink-0">{FIELD_LABELS[field] ?? field}:</dt>
+              <dd className="truncate">{formatValue(field, version[field])}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Lists plan items that changed on this device and another one since they
+ * last synced, and lets the user keep either version. Opens by itself when
+ * a sync finds new conflicts.
+ */
+export default function SyncConflictDialog() {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(() => getSyncConflicts());
+  const [open, setOpen] = useState(() => getSyncConflicts().length > 0);
+  const knownIds = useRef(new Set(conflicts.map((c) => c.id)));
+
+  useEffect(() => {
+    const refresh = () => {
+      const next = getSyncConflicts();
+      setConflicts(next);
+      if (next.some((c) => !knownIds.current.has(c.id))) setOpen(true);
+      knownIds.current = new Set(next.map((c) => c.id));
+      if (next.length === 0) setOpen(false);
+    };
+    window.addEventListener(SYNC_CONFLICTS_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(SYNC_CONFLICTS_CHANGED_EVENT, refresh);
+  }, []);
+
+  const resolve = (conflictId: string, choice: SyncConflictChoice) => resolveSyncConflict(conflictId, choice);
+
+  return (
+    <Dialog open={open && conflicts.length > 0} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-xl bg-slate-900 border-white/10 text-foreground">
+        <DialogHeader>
+          <DialogTitle>Sync conflicts</DialogTitle>
+          <DialogDescription>
+            {conflicts.length === 1 ? "This item was" : "These items were"} changed on this device and on another one.
+            Your version is kept until you choose.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {conflicts.map((conflict) => {
+            const version = conflict.local ?? conflict.remote;
+            return (
+              <li key={conflict.id} className="space-y-2">
+                <p className="text-sm font-medium truncate">
+                  {stripMarkdownLinks(version?.text ?? "") || "Untitled block"}
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">in {conflict.planName}</span>
+                </p>
+                <div className="flex gap-2">
+                  <ConflictSide label="This device" fields={conflict.fields} version={conflict.local} />
+                  <ConflictSide label="Other device" fields={conflict.fields} version={conflict.remote} />
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button variant="outline" size="sm" onClick={() => resolve(conflict.id, "local")}>
+                    Keep this device's
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => resolve(conflict.id, "remote")}>
+                    Use other device's
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
+            Decide later
+          </Button>
+          {conflicts.length > 1 && (
+            <>
+              <Button type="button" variant="outline" onClick={() => resolveAllSyncConflicts("remote")}>
+                Use all from other device
+              </Button>
+              <Button type="button" onClick={() => resolveAllSyncConflicts("local")}>
+                Keep all mine
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
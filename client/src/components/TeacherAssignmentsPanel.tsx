@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import AssignmentComments from "@/components/AssignmentComments";
+import { cn } from "@/lib/utils";
+import { isSupabaseConfigured } from "@/lib/supabaseClient";
+import { teacherService } from "@/lib/teacherService";
+import type { LessonAssignment } from "@/lib/teacher.types";
+import { LESSON_PLAN_REPLACED_EVENT, getLessonPlan } from "@/lib/lessonPlan";
+import {
+  type AssignmentStatus,
+  addAssignmentToLessonPlan,
+  getAssignmentStatus,
+  reportAssignmentProgress,
+} from "@/lib/lessonAssignments";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+// Stable while loading, so the progress effect doesn't re-run every render
+const NO_ASSIGNMENTS: LessonAssignment[] = [];
+
+const STATUS_LABELS: Record<AssignmentStatus, string> = {
+  new: "New",
+  updated: "Updated",
+  added: "In your plan",
+};
+
+interface TeacherAssignmentsPanelProps {
+  className?: string;
+}
+
+/**
+ * Lessons sent by the student's teachers: add them to the Lesson Plan, talk
+ * about them, and report time practiced on the assigned items back.
+ */
+export default function TeacherAssignmentsPanel({ className }: TeacherAssignmentsPanelProps) {
+  const { isLoggedIn } = useAuth();
+  const { toast } = useToast();
+  const enabled = isLoggedIn && isSupabaseConfigured;
+  const { data: assignments = NO_ASSIGNMENTS } = useQuery({
+    queryKey: ["lesson-assignments"],
+    queryFn: () => teacherService.getAssignments(),
+    enabled,
+  });
+  const { data: linked = [] } = useQuery({
+    queryKey: ["linked-accounts"],
+    queryFn: teacherService.getLinkedAccounts,
+    enabled,
+  });
+  const [plan, setPlan] = useState(() => getLessonPlan());
+  const [openComments, setOpenComments] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (assignments.length === 0) return;
+    const refresh = () => {
+      setPlan(getLessonPlan());
+      reportAssignmentProgress(assignments);
+    };
+    refresh();
+    window.addEventListener(LESSON_PLAN_REPLACED_EVENT, refresh);
+    window.addEventListener("piece-timer-complete", refresh);
+    return () => {
+      window.removeEventListener(LESSON_PLAN_REPLACED_EVENT, refresh);
+      window.removeEventListener("piece-timer-complete", refresh);
+    };
+  }, [assignments]);
+
+  if (!enabled || assignments.length === 0) return null;
+
+  const names = Object.fromEntries(linked.map((account) => [account.userId, account.name]));
+
+  const handleAdd = (assignment: LessonAssignment) => {
+    addAssignmentToLessonPlan(assignment);
+    toast({ title: "Added to Lesson Plan", description: assignment.title });
+  };
+
+  return (
+    <div className={cn("rounded-lg bg-muted/40 border border-border/40 p-3 space-y-2", className)}>
+      <span className="text-[10px] text-muted-foreground uppercase tracking-wider font-bold">From your teacher</span>
+      <ul className="space-y-2">
+        {assignments.map((assignment) => {
+          const status = getAssignmentStatus(assignment, plan);
+          return (
+            <li key={assignment.id} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-semibold truncate">{assignment.title}</p>
+                  <p className="text-[11px] text-muted-foreground truncate">
+                    {names[assignment.teacher_id] ?? "Teacher"} ·{" "}
+                    {new Date(assignment.updated_at).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+                  </p>
+                </div>
+                <Badge variant={status === "added" ? "secondary" : "default"} className="shrink-0">
+                  {STATUS_LABELS[status]}
+                </Badge>
+                {status !== "added" && (
+                  <Button size="sm" variant="outline" onClick={() => handleAdd(assignment)}>
+                    {status === "new" ? "Add to plan" : "Update"}
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-muted-foreground hover:text-foreground"
+                  onClick={() => setOpenComments((id) => (id === assignment.id ? null : assignment.id))}
+                  aria-label="Comments"
+                  aria-expanded={openComments === assignment.id}
+                >
+                  <span className="material-icons text-base">chat_bubble_outline</span>
+                </Button>
+              </div>
+              {openComments === assignment.id && <AssignmentComments assignmentId={assignment.id} names={names} />}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
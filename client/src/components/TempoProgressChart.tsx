@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { type ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { TextWithLinks } from "@/components/TextWithLinks";
+import { getPracticePlan } from "@/lib/practicePlan";
+import { getSegmentTempoLog } from "@/lib/practiceLog";
+import { stripMarkdownLinks } from "@/lib/richText";
+import { getTempoTrackedSegments } from "@/lib/tempoProgression";
+
+const tempoConfig = {
+  bpm: { label: "BPM", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+/**
+ * Tempo of each completed run over time, one segment at a time. Reads the
+ * logs on every render, so the parent's per-tick re-render keeps it current.
+ */
+export default function TempoProgressChart() {
+  const segments = getTempoTrackedSegments(getPracticePlan(), getSegmentTempoLog());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const segment = segments.find((s) => s.itemId === selectedId) ?? segments[0];
+
+  if (!segment) {
+    return (
+      <div className="rounded-xl border border-primary/20 bg-primary/5 p-4">
+        <p className="text-sm text-muted-foreground">
+          No tempo tracked yet. Give a segment a tempo goal in the plan, then complete runs with the metronome.
+        </p>
+      </div>
+    );
+  }
+
+  const rows = segment.history.map((entry) => ({
+    label: new Date(entry.ts).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+    bpm: entry.bpm,
+  }));
+  const progress = segment.progress;
+  // Keep the target line in view even before the runs get close to it
+  const tempos = [...rows.map((r) => r.bpm), ...(progress ? [progress.startTempo, progress.targetTempo] : [])];
+  const domain = [Math.max(0, Math.min(...tempos) - 4), Math.max(...tempos) + 4];
+
+  return (
+    <div className="rounded-xl border border-primary/20 bg-primary/5 p-4 space-y-3">
+      {segments.length > 1 ? (
+        <Select value={segment.itemId} onValueChange={setSelectedId}>
+          <SelectTrigger aria-label="Segment">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {segments.map((s) => (
+              <SelectItem key={s.itemId} value={s.itemId}>
+                {stripMarkdownLinks(s.itemName) || "Untitled segment"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <p className="text-sm font-semibold truncate">
+          <TextWithLinks text={segment.itemName || "Untitled segment"} />
+        </p>
+      )}
+
+      {progress && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-mono">{progress.startTempo}</span>
+          <Progress value={progress.percent} className="h-2 flex-1" aria-label={`Tempo goal ${progress.percent}%`} />
+          <span className="font-mono">{progress.targetTempo} BPM</span>
+          <span className="font-mono font-semibold text-foreground">now {progress.currentTempo}</span>
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No completed runs with a tempo yet.</p>
+      ) : (
+        <ChartContainer config={tempoConfig} className="aspect-auto h-48 w-full">
+          <LineChart data={rows}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+            <YAxis tickLine={false} axisLine={false} width={36} domain={domain} allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            {progress && (
+              <ReferenceLine y={progress.targetTempo} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+            )}
+            <Line dataKey="bpm" type="monotone" stroke="var(--color-bpm)" strokeWidth={2} dot={rows.length <= 30} />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
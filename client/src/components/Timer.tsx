@@ -8,9 +8,10 @@ interface TimerProps {
   mode: 'work' | 'break';
   isRunning: boolean;
   wakeLockActive?: boolean;
+  isLongBreak?: boolean;
 }
 
-export default function Timer({ timeRemaining, totalTime, mode, isRunning, wakeLockActive }: TimerProps) {
+export default function Timer({ timeRemaining, totalTime, mode, isRunning, wakeLockActive, isLongBreak = false }: TimerProps) {
   // Ensure we have valid numbers for the progress calculation
   const progress = Math.min(100, Math.max(0, totalTime > 0 ? ((totalTime - timeRemaining) / totalTime) * 100 : 0));
   const formattedTime = formatTime(timeRemaining || 0);
@@ -47,8 +48,10 @@ export default function Timer({ timeRemaining, totalTime, mode, isRunning, wakeL
           strokeWidth={strokeWidth}
           className={cn(
             "transition-all duration-300 ease-in-out fill-none",
-            mode === 'work' 
-              ? "stroke-red-500" 
+            mode === 'work'
+              ? "stroke-red-500"
+              : isLongBreak
+              ? "stroke-teal-400"
               : "stroke-green-500"
           )}
           strokeDasharray={circumference}
@@ -18,6 +18,11 @@ describe('TimerDisplay', () => {
         expect(screen.getByText('Break Time')).toBeInTheDocument();
     });
 
+    it('shows "Long Break" label during a long break', () => {
+        render(<TimerDisplay timeRemaining={900} totalTime={900} mode="break" isLongBreak />);
+        expect(screen.getByText('Long Break')).toBeInTheDocument();
+    });
+
     it('applies work mode color', () => {
         const { container } = render(
             <TimerDisplay timeRemaining={600} totalTime={1200} mode="work" />
@@ -5,6 +5,7 @@ interface TimerDisplayProps {
   timeRemaining: number;
   totalTime: number;
   mode: 'work' | 'break';
+  isLongBreak?: boolean;
   className?: string;
 }
 
@@ -12,8 +13,10 @@ export const TimerDisplay = memo(function TimerDisplay({
   timeRemaining,
   totalTime,
   mode,
+  isLongBreak = false,
   className
 }: TimerDisplayProps) {
+  const longBreak = mode === 'break' && isLongBreak;
   const minutes = Math.floor(timeRemaining / 60);
   const seconds = Math.floor(timeRemaining % 60);
   const progress = (timeRemaining / totalTime) * 100;
@@ -34,7 +37,7 @@ export const TimerDisplay = memo(function TimerDisplay({
           <circle
             className={cn(
               'transition-all duration-1000 ease-linear',
-              mode === 'work' ? 'text-blue-500' : 'text-green-500'
+              mode === 'work' ? 'text-blue-500' : longBreak ? 'text-teal-400' : 'text-green-500'
             )}
             strokeWidth="8"
             strokeDasharray={753.6}
@@ -55,7 +58,7 @@ export const TimerDisplay = memo(function TimerDisplay({
               {minutes.toString().padStart(2, '0')}:{seconds.toString().padStart(2, '0')}
             </div>
             <div className="text-lg font-medium text-gray-500 mt-2">
-              {mode === 'work' ? 'Work Time' : 'Break Time'}
+              {mode === 'work' ? 'Work Time' : longBreak ? 'Long Break' : 'Break Time'}
             </div>
           </div>
         </div>
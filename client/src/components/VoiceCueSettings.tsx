@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { playSound, unlockAudioContext } from "@/lib/soundEffects";
+import {
+  THRESHOLD_OPTIONS,
+  VOICE_CUE_EVENTS,
+  type VoiceCueEvent,
+  type VoiceCueSettings as VoiceCues,
+  formatTimeLeft,
+  getVoiceCues,
+  isSpeechAvailable,
+  saveVoiceCues,
+  speak,
+} from "@/lib/voiceCues";
+
+interface VoiceCueSettingsProps {
+  volume: number;
+  /** Sound played by the preview when speech is unavailable. */
+  soundId: string;
+}
+
+const shortThreshold = (seconds: number) => (seconds >= 60 ? `${seconds / 60} min` : `${seconds} s`);
+
+/** Spoken announcements per event, and the time-left thresholds that trigger them. */
+export default function VoiceCueSettings({ volume, soundId }: VoiceCueSettingsProps) {
+  const [cues, setCues] = useState<VoiceCues>(() => getVoiceCues());
+  const speechAvailable = isSpeechAvailable();
+
+  const update = (next: VoiceCues) => {
+    setCues(next);
+    saveVoiceCues(next);
+  };
+
+  const preview = (event: VoiceCueEvent, text: string) => {
+    unlockAudioContext();
+    speak(text, volume, event === "timeLeft" ? () => { playSound("start", 1, volume, soundId); } : undefined);
+  };
+
+  const toggleThreshold = (seconds: number) => {
+    const thresholds = cues.thresholds.includes(seconds)
+      ? cues.thresholds.filter((s) => s !== seconds)
+      : THRESHOLD_OPTIONS.filter((s) => s === seconds || cues.thresholds.includes(s));
+    update({ ...cues, thresholds });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <span className="material-icons text-muted-foreground mr-3">record_voice_over</span>
+          <Label htmlFor="voice-cues">Spoken cues</Label>
+        </div>
+        <Switch
+          id="voice-cues"
+          checked={cues.enabled}
+          onCheckedChange={(enabled) => update({ ...cues, enabled })}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {speechAvailable
+          ? "Announces time left and what's next, so you don't have to look at the screen."
+          : "This browser can't speak, so time-left cues play a short tone instead."}
+      </p>
+
+      {cues.enabled && (
+        <div className="space-y-3">
+          {VOICE_CUE_EVENTS.map(({ event, label, example }) => (
+            <div key={event} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <Label htmlFor={`voice-cue-${event}`} className="text-sm">{label}</Label>
+                  <p className="text-xs text-muted-foreground truncate">"{example}"</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-9 w-9"
+                    onClick={() => preview(event, example)}
+                    aria-label={`Preview ${label.toLowerCase()} cue`}
+                  >
+                    <span className="material-icons text-base">play_arrow</span>
+                  </Button>
+                  <Switch
+                    id={`voice-cue-${event}`}
+                    checked={cues.events[event]}
+                    onCheckedChange={(on) => update({ ...cues, events: { ...cues.events, [event]: on } })}
+                  />
+                </div>
+              </div>
+              {event === "timeLeft" && cues.events.timeLeft && (
+                <div className="flex items-center gap-1 flex-wrap">
+                  {THRESHOLD_OPTIONS.map((seconds) => {
+                    const selected = cues.thresholds.includes(seconds);
+                    return (
+                      <Button
+                        key={seconds}
+                        variant={selected ? "default" : "outline"}
+                        size="sm"
+                        className="h-8 px-2"
+                        aria-pressed={selected}
+                        aria-label={`${formatTimeLeft(seconds)} left`}
+                        onClick={() => toggleThreshold(seconds)}
+                      >
+                        {shortThreshold(seconds)}
+                      </Button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
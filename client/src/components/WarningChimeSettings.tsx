@@ -0,0 +1,120 @@
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import SoundSelect from "@/components/SoundSelect";
+import { playSound, unlockAudioContext } from "@/lib/soundEffects";
+import {
+  MAX_WARNINGS,
+  WARNING_TARGETS,
+  WARNING_TIME_OPTIONS,
+  type WarningChime,
+  type WarningTarget,
+  generateWarningId,
+} from "@/lib/warningChimes";
+
+interface WarningChimeSettingsProps {
+  warnings: WarningChime[];
+  volume: number;
+  onChange: (warnings: WarningChime[]) => void;
+}
+
+const timeLabel = (seconds: number) =>
+  seconds >= 60 ? `${seconds / 60} min before` : `${seconds} s before`;
+
+/** Chimes that play a set time before work, a break or a segment ends. */
+export default function WarningChimeSettings({ warnings, volume, onChange }: WarningChimeSettingsProps) {
+  const preview = (soundType: string) => {
+    // Called from a tap, so this also unlocks audio on iOS
+    unlockAudioContext();
+    playSound("end", 1, volume, soundType);
+  };
+
+  const updateWarning = (id: string, changes: Partial<WarningChime>) => {
+    onChange(warnings.map((w) => (w.id === id ? { ...w, ...changes } : w)));
+  };
+
+  const addWarning = () => {
+    const taken = warnings.filter((w) => w.target === "work").map((w) => w.secondsBefore);
+    const secondsBefore = [120, 30, ...WARNING_TIME_OPTIONS].find((s) => !taken.includes(s)) ?? 60;
+    onChange([...warnings, { id: generateWarningId(), target: "work", secondsBefore, soundType: "chime" }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {warnings.length === 0 && (
+        <p className="text-sm text-muted-foreground">No warnings. Only the end of each interval makes a sound.</p>
+      )}
+      {warnings.map((warning) => (
+        <div key={warning.id} className="flex flex-wrap items-center gap-2 rounded-md border border-white/10 p-2">
+          <Select
+            value={warning.target}
+            onValueChange={(target) => updateWarning(warning.id, { target: target as WarningTarget })}
+          >
+            <SelectTrigger className="w-44 h-9" aria-label="Warn before">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WARNING_TARGETS.map(({ target, label }) => (
+                <SelectItem key={target} value={target}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(warning.secondsBefore)}
+            onValueChange={(value) => updateWarning(warning.id, { secondsBefore: Number(value) })}
+          >
+            <SelectTrigger className="w-32 h-9" aria-label="Time before the end">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {!WARNING_TIME_OPTIONS.includes(warning.secondsBefore) && (
+                <SelectItem value={String(warning.secondsBefore)}>{timeLabel(warning.secondsBefore)}</SelectItem>
+              )}
+              {WARNING_TIME_OPTIONS.map((seconds) => (
+                <SelectItem key={seconds} value={String(seconds)}>{timeLabel(seconds)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <SoundSelect
+            value={warning.soundType}
+            aria-label="Warning sound"
+            className="w-40 h-9"
+            onValueChange={(soundType) => {
+              updateWarning(warning.id, { soundType });
+              preview(soundType);
+            }}
+          />
+          <div className="flex items-center ml-auto">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9"
+              onClick={() => preview(warning.soundType)}
+              aria-label="Preview warning sound"
+            >
+              <span className="material-icons text-base">play_arrow</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9 text-muted-foreground"
+              onClick={() => onChange(warnings.filter((w) => w.id !== warning.id))}
+              aria-label="Remove warning"
+            >
+              <span className="material-icons text-base">delete</span>
+            </Button>
+          </div>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" disabled={warnings.length >= MAX_WARNINGS} onClick={addWarning}>
+        <span className="material-icons text-base mr-1">add_alert</span>
+        Add warning
+      </Button>
+    </div>
+  );
+}
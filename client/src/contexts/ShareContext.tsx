@@ -11,6 +11,8 @@ import {
   getGlobalLastPublishedDate,
   saveGlobalLastPublishedDate,
   getShortShareUrl,
+  getReportVersions,
+  getVersionShareUrl,
 } from "@/lib/reportShare";
 import { supabase } from "@/lib/supabaseClient";
 
@@ -65,6 +67,10 @@ export function ShareProvider({ children }: { children: React.ReactNode }) {
     if (existingId) {
       setPermalinkId(existingId);
       setShareUrl(getShortShareUrl(existingId));
+    } else {
+      // Revoked from Settings > My Shared Links; the next publish makes a new permalink
+      setPermalinkId(null);
+      setShareUrl("");
     }
     setLastPublishedDate(getGlobalLastPublishedDate());
   }, [shareDialogOpen]);
@@ -84,6 +90,7 @@ export function ShareProvider({ children }: { children: React.ReactNode }) {
           .from("shared_reports")
           .select("id, created_at")
           .eq("user_id", user.id)
+          .is("revoked_at", null)
           .order("created_at", { ascending: false })
           .limit(1)
           .maybeSingle();
@@ -127,29 +134,32 @@ export function ShareProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  // Publishing to the permalink appends a new version; earlier ones stay viewable
+  const publishToPermalink = useCallback(async (): Promise<string> => {
+    const creatorName = user?.user_metadata?.full_name || user?.user_metadata?.name || undefined;
+    const snapshot = createGlobalReportSnapshot(repertoirePieces, creatorName);
+    const url = await shareReport(snapshot, permalinkId || undefined);
+
+    const nowStr = new Date().toISOString();
+    saveGlobalLastPublishedDate(nowStr);
+    setLastPublishedDate(nowStr);
+
+    const id = permalinkId || url.split("/").pop() || "";
+    if (!permalinkId) {
+      setPermalinkId(id);
+      saveGlobalPermalinkId(id);
+    }
+    setShareUrl(url);
+    return id;
+  }, [permalinkId, repertoirePieces, user]);
+
   const handlePublishUpdate = useCallback(async () => {
     setIsPublishing(true);
     try {
-      const creatorName = user?.user_metadata?.full_name || user?.user_metadata?.name || undefined;
-      const snapshot = createGlobalReportSnapshot(repertoirePieces, creatorName);
-      const url = await shareReport(snapshot, permalinkId || undefined);
-
-      const nowStr = new Date().toISOString();
-      saveGlobalLastPublishedDate(nowStr);
-      setLastPublishedDate(nowStr);
-
-      if (!permalinkId) {
-        const newId = url.split("/").pop() || "";
-        setPermalinkId(newId);
-        saveGlobalPermalinkId(newId);
-        setShareUrl(url);
-      } else {
-        setShareUrl(url);
-      }
-
+      await publishToPermalink();
       toast({
         title: "Link Updated",
-        description: "Your workspace report has been published to the permalink.",
+        description: "Your workspace report has been published to the permalink as a new version.",
       });
     } catch (e) {
       toast({
@@ -160,18 +170,27 @@ export function ShareProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setIsPublishing(false);
     }
-  }, [permalinkId, repertoirePieces, user, toast]);
+  }, [publishToPermalink, toast]);
 
+  // Publishes a version to the permalink and links to that version, which
+  // keeps showing after later updates. Without Supabase there is no version
+  // history, so this falls back to a report under a new id.
   const handleCreateVersion = useCallback(async () => {
     setIsSharing(true);
     try {
-      const creatorName = user?.user_metadata?.full_name || user?.user_metadata?.name || undefined;
-      const snapshot = createGlobalReportSnapshot(repertoirePieces, creatorName);
-      const url = await shareReport(snapshot);
-      setShareUrl(url);
+      if (!supabase) {
+        const creatorName = user?.user_metadata?.full_name || user?.user_metadata?.name || undefined;
+        setShareUrl(await shareReport(createGlobalReportSnapshot(repertoirePieces, creatorName)));
+        toast({ title: "Version Created", description: "A new snapshot link has been generated." });
+        return;
+      }
+      const id = await publishToPermalink();
+      const [latest] = await getReportVersions(id);
+      if (!latest) throw new Error("No version was recorded");
+      setShareUrl(getVersionShareUrl(id, latest.version));
       toast({
-        title: "Version Created",
-        description: "A new snapshot link has been generated.",
+        title: `Version ${latest.version} Published`,
+        description: "This link keeps showing this version after later updates.",
       });
     } catch (e) {
       toast({
@@ -182,7 +201,7 @@ export function ShareProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setIsSharing(false);
     }
-  }, [repertoirePieces, user, toast]);
+  }, [publishToPermalink, repertoirePieces, user, toast]);
 
   const handleCopyLink = useCallback(() => {
     if (!shareUrl) return;
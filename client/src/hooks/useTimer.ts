@@ -1,12 +1,13 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useNotification } from '@/hooks/useNotification';
 import { useToast } from '@/hooks/use-toast';
-import { resumeAudioContext, playSound } from '@/lib/soundEffects';
+import { resumeAudioContext, playEventSound, playSound } from '@/lib/soundEffects';
 import { useTimerStore } from '@/stores/timerStore';
 import { getSettings, saveTimerProgress, clearTimerProgress } from '@/lib/localStorage';
 import { getWakeLockFallback, cleanupWakeLockFallback } from '@/lib/wakeLockFallback';
 import { initializeIOSBackgroundTimer, getIOSBackgroundTimer, cleanupIOSBackgroundTimer } from '@/lib/iOSBackgroundTimer';
 import { getIOSWakeLock, cleanupIOSWakeLock } from '@/lib/iOSWakeLock';
+import { createTimerClock, startClock } from '@/lib/timerClock';
 
 interface WakeLock {
   released: boolean;
@@ -182,7 +183,8 @@ export function useTimer({ initialSettings, onComplete }: UseTimerProps) {
         type: 'START_BACKGROUND_TIMER',
         payload: {
           ...timerState,
-          duration: timerState.timeRemaining
+          duration: timerState.timeRemaining,
+          clock: startClock(createTimerClock(timerState.timeRemaining), Date.now())
         }
       });
     }
@@ -289,7 +291,7 @@ export function useTimer({ initialSettings, onComplete }: UseTimerProps) {
 
           // Only play if volume is greater than 0
           if (volume > 0) {
-            await playSound('end', store.settings.numberOfBeeps, volume, store.settings.soundType as any);
+            await playEventSound('practiceComplete', store.settings.numberOfBeeps, volume, store.settings.soundType);
             console.log('Completion sound finished playing');
           } else {
             console.log('Volume is 0, skipping completion sound');
@@ -312,6 +314,7 @@ export function useTimer({ initialSettings, onComplete }: UseTimerProps) {
         mode: store.mode,
         currentIteration: store.currentIteration,
         totalIterations: store.totalIterations,
+        intervalIndex: store.intervalIndex,
         isPracticeComplete: true,
       });
 
@@ -341,7 +344,7 @@ export function useTimer({ initialSettings, onComplete }: UseTimerProps) {
           }
           volume = Math.min(100, Math.max(0, volume));
           if (volume > 0) {
-            await playSound('end', 1, volume, store.settings.soundType as any);
+            await playEventSound('segmentComplete', 1, volume, store.settings.soundType);
           }
         }
       } catch (error) {
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { SOUND_UPLOADS_CHANGED_EVENT, type UploadedSound, listUploadedSounds } from '@/lib/soundUploads';
+
+/** Sounds uploaded on this device, kept current as uploads are added or removed. */
+export function useUploadedSounds(): UploadedSound[] {
+  const [uploads, setUploads] = useState<UploadedSound[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listUploadedSounds().then((next) => {
+        if (!cancelled) setUploads(next);
+      });
+    };
+    refresh();
+    window.addEventListener(SOUND_UPLOADS_CHANGED_EVENT, refresh);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(SOUND_UPLOADS_CHANGED_EVENT, refresh);
+    };
+  }, []);
+
+  return uploads;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { PlanItem } from './planTypes';
+import {
+    DEFAULT_AUTO_RUN,
+    getAutoRunSettings,
+    getNextSegment,
+    getPlanSegments,
+    getUpcomingSegments,
+    normalizeAutoRun,
+    saveAutoRunSettings,
+} from './autoRun';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const header = (id: string, text: string, children: PlanItem[] = []): PlanItem => ({
+    id, text, checked: false, children, isHeader: true, blockType: 'heading1',
+});
+const segment = (id: string, text: string, extra: Partial<PlanItem> = {}): PlanItem => ({
+    id, text, checked: false, children: [], blockType: 'segment', ...extra,
+});
+
+const plan: PlanItem[] = [
+    segment('loose', 'Long tones'),
+    header('warmup', 'Warm-up'),
+    segment('scales', 'Scales', { allocatedTime: 10, tempo: 80 }),
+    segment('arpeggios', 'Arpeggios', { checked: true }),
+    { id: 'note', text: 'Remember to breathe', checked: false, children: [] },
+    segment('etude', 'Etude'),
+    header('rep', 'Repertoire', [
+        segment('bach', 'Bach Prelude', { allocationPeriod: 'week' }),
+        segment('mozart', 'Mozart Sonata'),
+    ]),
+];
+
+describe('autoRun', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+    });
+
+    it('is off by default and keeps valid stored options', () => {
+        expect(getAutoRunSettings()).toEqual(DEFAULT_AUTO_RUN);
+        saveAutoRunSettings({ enabled: true, transitionSeconds: 30, crossSections: true });
+        expect(getAutoRunSettings()).toEqual({ enabled: true, transitionSeconds: 30, crossSections: true });
+        expect(normalizeAutoRun({ enabled: true, transitionSeconds: 7 })).toEqual({ ...DEFAULT_AUTO_RUN, enabled: true });
+    });
+
+    it('lists segments in plan order under their headers', () => {
+        const segments = getPlanSegments(plan);
+        expect(segments.map((s) => s.id)).toEqual(['loose', 'scales', 'arpeggios', 'etude', 'bach', 'mozart']);
+        expect(segments[0]).toMatchObject({ sectionId: null, sectionName: null, minutes: 15 });
+        expect(segments[1]).toMatchObject({ sectionName: 'Warm-up', minutes: 10, tempo: 80, period: 'day' });
+        expect(segments[4]).toMatchObject({ sectionId: 'rep', period: 'week' });
+    });
+
+    it('picks the next unchecked segment and stops at the end of the section', () => {
+        const options = { crossSections: false };
+        expect(getNextSegment(plan, 'scales', options)?.id).toBe('etude');
+        expect(getNextSegment(plan, 'etude', options)).toBeNull();
+        expect(getNextSegment(plan, 'bach', options)?.id).toBe('mozart');
+        expect(getNextSegment(plan, 'mozart', options)).toBeNull();
+    });
+
+    it('continues into the next section when asked to', () => {
+        expect(getNextSegment(plan, 'etude', { crossSections: true })?.id).toBe('bach');
+        expect(getUpcomingSegments(plan, 'scales', { crossSections: true }).map((s) => s.id))
+            .toEqual(['etude', 'bach', 'mozart']);
+    });
+
+    it('starts the queue at the first unchecked section when nothing is playing', () => {
+        const checkedLoose = plan.map((item) => (item.id === 'loose' ? { ...item, checked: true } : item));
+        expect(getUpcomingSegments(checkedLoose, null, { crossSections: false }).map((s) => s.id))
+            .toEqual(['scales', 'etude']);
+        expect(getUpcomingSegments(checkedLoose, 'not-in-plan', { crossSections: false }).map((s) => s.id))
+            .toEqual(['scales', 'etude']);
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * Auto-run plan - when a segment's time is up, the next unchecked segment in
+ * plan order starts by itself, optionally after a short transition pause
+ * (time to turn the page or pick up another instrument).
+ *
+ * Headers group the plan into sections. By default auto-run stays inside the
+ * section it started in and stops when that section is done, so a header
+ * works as "one session's worth" of segments.
+ */
+import type { PlanItem } from './planTypes';
+
+const AUTO_RUN_KEY = 'practice-timer-auto-run';
+
+export interface AutoRunSettings {
+  enabled: boolean;
+  /** Pause between segments, in seconds; 0 starts the next one at once. */
+  transitionSeconds: number;
+  /** Keep going into the next section instead of stopping at a header. */
+  crossSections: boolean;
+}
+
+export const TRANSITION_OPTIONS = [0, 10, 30, 60];
+
+export const DEFAULT_AUTO_RUN: AutoRunSettings = {
+  enabled: false,
+  transitionSeconds: 10,
+  crossSections: false,
+};
+
+export function normalizeAutoRun(value: unknown): AutoRunSettings {
+  const stored = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  return {
+    enabled: typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_AUTO_RUN.enabled,
+    transitionSeconds: TRANSITION_OPTIONS.includes(stored.transitionSeconds as number)
+      ? (stored.transitionSeconds as number)
+      : DEFAULT_AUTO_RUN.transitionSeconds,
+    crossSections: typeof stored.crossSections === 'boolean' ? stored.crossSections : DEFAULT_AUTO_RUN.crossSections,
+  };
+}
+
+export function getAutoRunSettings(): AutoRunSettings {
+  try {
+    const stored = localStorage.getItem(AUTO_RUN_KEY);
+    return normalizeAutoRun(stored ? JSON.parse(stored) : {});
+  } catch (e) {
+    console.error('Failed to load auto-run settings:', e);
+    return { ...DEFAULT_AUTO_RUN };
+  }
+}
+
+export function saveAutoRunSettings(settings: AutoRunSettings): void {
+  try {
+    localStorage.setItem(AUTO_RUN_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save auto-run settings:', e);
+  }
+}
+
+// --- Queue ---
+
+export interface QueuedSegment {
+  id: string;
+  name: string;
+  /** Allocated minutes, defaulting to 15 like the plan's play button. */
+  minutes: number;
+  /** The segment's own allocation, when it has one. */
+  allocatedTime?: number;
+  period: 'day' | 'week';
+  tempo?: number;
+  repertoirePieceId?: string;
+  checked: boolean;
+  /** The header the segment sits under, or null before the first header. */
+  sectionId: string | null;
+  sectionName: string | null;
+}
+
+/** Every segment in plan order, each tagged with the last header above it. */
+export function getPlanSegments(items: PlanItem[]): QueuedSegment[] {
+  const segments: QueuedSegment[] = [];
+  let section: PlanItem | null = null;
+  const walk = (list: PlanItem[]) => {
+    for (const item of list) {
+      if (item.isHeader) {
+        section = item;
+      } else if (item.blockType === 'segment') {
+        segments.push({
+          id: item.id,
+          name: item.text && item.text.trim() ? item.text : 'Untitled segment',
+          minutes: item.allocatedTime || 15,
+          allocatedTime: item.allocatedTime || undefined,
+          period: item.allocationPeriod ?? 'day',
+          tempo: item.tempo,
+          repertoirePieceId: item.repertoirePieceId,
+          checked: item.checked,
+          sectionId: section?.id ?? null,
+          sectionName: section?.text?.trim() || null,
+        });
+      }
+      walk(item.children ?? []);
+    }
+  };
+  walk(items);
+  return segments;
+}
+
+/**
+ * Unchecked segments still to come after `currentId`, in plan order. When
+ * `currentId` isn't a segment of the plan the queue starts at the top.
+ * Without `crossSections` the queue ends with the section it starts in.
+ */
+export function getUpcomingSegments(
+  items: PlanItem[],
+  currentId: string | null,
+  options: { crossSections: boolean }
+): QueuedSegment[] {
+  const segments = getPlanSegments(items);
+  const index = currentId ? segments.findIndex((s) => s.id === currentId) : -1;
+  const upcoming = segments.slice(index + 1).filter((s) => !s.checked && s.id !== currentId);
+  if (options.crossSections || upcoming.length === 0) return upcoming;
+  const sectionId = index === -1 ? upcoming[0].sectionId : segments[index].sectionId;
+  const end = upcoming.findIndex((s) => s.sectionId !== sectionId);
+  return end === -1 ? upcoming : upcoming.slice(0, end);
+}
+
+/** The segment auto-run should start after `currentId` finishes, if any. */
+export function getNextSegment(
+  items: PlanItem[],
+  currentId: string,
+  options: { crossSections: boolean }
+): QueuedSegment | null {
+  return getUpcomingSegments(items, currentId, options)[0] ?? null;
+}
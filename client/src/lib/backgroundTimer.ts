@@ -1,10 +1,19 @@
 // Background Timer Utility for iOS
 // This module provides background timer functionality that works around iOS limitations
+import {
+  type TimerClock,
+  createTimerClock,
+  getRemainingSeconds,
+  parseTimerClock,
+  pauseClock,
+  startClock
+} from './timerClock';
 
 export interface BackgroundTimerState {
   isRunning: boolean;
-  startTime: number | null;
-  duration: number;
+  /** Deadline clock the countdown is read from (see lib/timerClock). */
+  clock: TimerClock;
+  /** Last value read off the clock. */
   timeRemaining: number;
   mode: 'work' | 'break';
   currentIteration: number;
@@ -28,8 +37,7 @@ class BackgroundTimer {
   constructor(initialState: Partial<BackgroundTimerState>, callbacks: BackgroundTimerCallbacks = {}) {
     this.state = {
       isRunning: false,
-      startTime: null,
-      duration: 0,
+      clock: createTimerClock(0),
       timeRemaining: 0,
       mode: 'work',
       currentIteration: 1,
@@ -42,16 +50,16 @@ class BackgroundTimer {
 
   // Start the background timer
   start(duration: number, mode: 'work' | 'break', currentIteration: number, totalIterations: number): void {
+    const now = Date.now();
     this.state = {
       ...this.state,
       isRunning: true,
-      startTime: Date.now(),
-      duration,
+      clock: startClock(createTimerClock(duration), now),
       timeRemaining: duration,
       mode,
       currentIteration,
       totalIterations,
-      lastUpdateTime: Date.now()
+      lastUpdateTime: now
     };
 
     this.isActive = true;
@@ -65,6 +73,9 @@ class BackgroundTimer {
 
   // Pause the background timer
   pause(): void {
+    const now = Date.now();
+    this.state.clock = pauseClock(this.state.clock, now);
+    this.state.timeRemaining = getRemainingSeconds(this.state.clock, now);
     this.state.isRunning = false;
     this.isActive = false;
     
@@ -81,8 +92,10 @@ class BackgroundTimer {
 
   // Resume the background timer
   resume(): void {
-    if (!this.state.startTime) return;
-    
+    if (this.state.isRunning || this.state.timeRemaining <= 0) return;
+
+    // The clock picks up where pause() left it, so the paused time isn't counted
+    this.state.clock = startClock(this.state.clock, Date.now());
     this.state.isRunning = true;
     this.isActive = true;
     this.startInterval();
@@ -95,6 +108,7 @@ class BackgroundTimer {
 
   // Stop the background timer
   stop(): void {
+    this.state.clock = pauseClock(this.state.clock, Date.now());
     this.state.isRunning = false;
     this.isActive = false;
     
@@ -108,9 +122,15 @@ class BackgroundTimer {
     console.log('Background timer stopped');
   }
 
-  // Update timer state
-  update(newState: Partial<BackgroundTimerState>): void {
-    this.state = { ...this.state, ...newState };
+  // Update timer state. While running the clock owns the countdown, so a
+  // timeRemaining passed in is only taken when paused (it starts a new clock).
+  update(newState: Partial<Omit<BackgroundTimerState, 'clock'>>): void {
+    const { timeRemaining, ...rest } = newState;
+    this.state = { ...this.state, ...rest };
+    if (timeRemaining !== undefined && !this.state.isRunning) {
+      this.state.clock = createTimerClock(timeRemaining);
+      this.state.timeRemaining = timeRemaining;
+    }
     this.persistState();
   }
 
@@ -119,32 +139,25 @@ class BackgroundTimer {
     return { ...this.state };
   }
 
-  // Calculate accurate time remaining based on start time
+  // Time remaining read off the clock
   calculateTimeRemaining(): number {
-    if (!this.state.startTime || !this.state.isRunning) {
-      return this.state.timeRemaining;
-    }
-
-    const now = Date.now();
-    const elapsed = Math.floor((now - this.state.startTime) / 1000);
-    const remaining = Math.max(0, this.state.duration - elapsed);
-    
-    return remaining;
+    return getRemainingSeconds(this.state.clock, Date.now());
   }
 
-  // Sync with actual elapsed time (called when app becomes active)
+  // Read the clock and report it (called every second and when the app
+  // becomes active again, so time spent suspended is caught up at once)
   sync(): void {
-    if (this.state.isRunning && this.state.startTime) {
-      const actualTimeRemaining = this.calculateTimeRemaining();
-      this.state.timeRemaining = actualTimeRemaining;
-      this.state.lastUpdateTime = Date.now();
-      
-      // Check if timer should be complete
-      if (actualTimeRemaining <= 0) {
-        this.complete();
-      } else {
-        this.persistState();
-      }
+    if (!this.state.isRunning) return;
+
+    const timeRemaining = this.calculateTimeRemaining();
+    this.state.timeRemaining = timeRemaining;
+    this.state.lastUpdateTime = Date.now();
+    this.callbacks.onTick?.(timeRemaining);
+
+    if (timeRemaining <= 0) {
+      this.complete();
+    } else {
+      this.persistState();
     }
   }
 
@@ -155,29 +168,14 @@ class BackgroundTimer {
     }
 
     this.intervalId = window.setInterval(() => {
-      if (!this.isActive || !this.state.isRunning) return;
-
-      const now = Date.now();
-      const elapsed = Math.floor((now - this.state.startTime!) / 1000);
-      const newTimeRemaining = Math.max(0, this.state.duration - elapsed);
-      
-      this.state.timeRemaining = newTimeRemaining;
-      this.state.lastUpdateTime = now;
-      
-      // Call tick callback
-      this.callbacks.onTick?.(newTimeRemaining);
-      
-      // Check if timer is complete
-      if (newTimeRemaining <= 0) {
-        this.complete();
-      } else {
-        this.persistState();
-      }
+      if (!this.isActive) return;
+      this.sync();
     }, 1000);
   }
 
   // Complete the timer
   private complete(): void {
+    this.state.clock = pauseClock(this.state.clock, Date.now());
     this.state.isRunning = false;
     this.state.timeRemaining = 0;
     
@@ -207,7 +205,18 @@ class BackgroundTimer {
       const persisted = localStorage.getItem('backgroundTimerState');
       if (persisted) {
         const parsedState = JSON.parse(persisted);
-        this.state = { ...this.state, ...parsedState };
+        // State saved before the shared clock has no deadline to resume from
+        const clock = parseTimerClock(parsedState.clock);
+        if (!clock) {
+          this.clearPersistedState();
+          return false;
+        }
+        this.state = { ...this.state, ...parsedState, clock, isRunning: clock.startedAt !== null };
+        // A run that was going when the page closed carries on from its deadline
+        if (this.state.isRunning) {
+          this.isActive = true;
+          this.startInterval();
+        }
         return true;
       }
     } catch (error) {
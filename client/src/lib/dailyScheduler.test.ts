@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { PlanItem } from './planTypes';
+import type { QueuedSegment } from './autoRun';
+import {
+    type SchedulerCandidate,
+    type SegmentHistory,
+    buildDailySession,
+    getSchedulerContext,
+    planDailySession,
+    scoreCandidate,
+} from './dailyScheduler';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const context = { today: '2026-03-11', daysLeftInWeek: 5 };
+
+const fresh: SegmentHistory = {
+    practicedSeconds: 0,
+    daysSinceLastPlayed: 1,
+    playedInLast2Days: true,
+    completedToday: false,
+    completionsThisWeek: 1,
+};
+
+const candidate = (
+    id: string,
+    segment: Partial<QueuedSegment> = {},
+    history: Partial<SegmentHistory> = {},
+    piece: SchedulerCandidate['piece'] = null
+): SchedulerCandidate => ({
+    segment: {
+        id, name: id, minutes: segment.allocatedTime ?? 15, period: 'day', checked: false,
+        sectionId: null, sectionName: null, ...segment,
+    },
+    history: { ...fresh, ...history },
+    piece,
+});
+
+const piece = (status: 'learning' | 'maintaining' | 'archived', target_date: string | null = null) => ({
+    id: `piece-${status}`, title: status, status, target_date,
+});
+
+describe('dailyScheduler', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+    });
+
+    it('sizes slots from the remaining allocation', () => {
+        const daily = scoreCandidate(candidate('a', { allocatedTime: 20 }, { practicedSeconds: 300 }), context);
+        expect(daily).toMatchObject({ minutes: 15, reasons: ['15 min left today'] });
+
+        const weekly = scoreCandidate(candidate('b', { allocatedTime: 60, period: 'week' }), context);
+        expect(weekly?.minutes).toBe(12);
+
+        expect(scoreCandidate(candidate('c', { allocatedTime: 20 }, { practicedSeconds: 1200 }), context)).toBeNull();
+        expect(scoreCandidate(candidate('d'), context)?.minutes).toBe(10);
+    });
+
+    it('skips archived pieces and unallocated segments already played today', () => {
+        expect(scoreCandidate(candidate('a', {}, {}, piece('archived')), context)).toBeNull();
+        expect(scoreCandidate(candidate('b', {}, { completedToday: true }), context)).toBeNull();
+    });
+
+    it('ranks stale, learning and soon-due pieces higher', () => {
+        const base = scoreCandidate(candidate('a', {}, {}, piece('maintaining')), context)!;
+        const stale = scoreCandidate(candidate('a', {}, { daysSinceLastPlayed: 8, playedInLast2Days: false }, piece('maintaining')), context)!;
+        const learning = scoreCandidate(candidate('a', {}, {}, piece('learning')), context)!;
+        const due = scoreCandidate(candidate('a', {}, {}, piece('maintaining', '2026-03-18')), context)!;
+        const farOff = scoreCandidate(candidate('a', {}, {}, piece('maintaining', '2026-06-01')), context)!;
+
+        expect(stale.score).toBeGreaterThan(base.score);
+        expect(stale.reasons).toContain('Last played 8 days ago');
+        expect(learning.score).toBeGreaterThan(base.score);
+        expect(due.score).toBeGreaterThan(base.score);
+        expect(due.reasons).toContain('Target date in 7 days');
+        expect(farOff.score).toBe(base.score);
+    });
+
+    it('fills the budget by score and returns the picks in plan order', () => {
+        const candidates = [
+            candidate('warmup', { allocatedTime: 10 }, { practicedSeconds: 480 }),
+            candidate('etude', { allocatedTime: 15 }),
+            candidate('concerto', { allocatedTime: 20 }, { daysSinceLastPlayed: null, playedInLast2Days: false }, piece('learning', '2026-03-14')),
+        ];
+
+        const session = planDailySession(candidates, 30, context);
+        expect(session.segments.map((s) => [s.id, s.minutes])).toEqual([['etude', 10], ['concerto', 20]]);
+        expect(session.totalMinutes).toBe(30);
+
+        // Less than the minimum slot left over is not scheduled
+        expect(planDailySession(candidates, 23, context).segments.map((s) => s.id)).toEqual(['concerto']);
+    });
+
+    it('reads history from the practice log', () => {
+        const now = new Date('2026-03-11T18:00:00').getTime(); // a Wednesday
+        expect(getSchedulerContext('monday', now)).toEqual({ today: '2026-03-11', daysLeftInWeek: 5 });
+        expect(getSchedulerContext('sunday', now).daysLeftInWeek).toBe(4);
+
+        localStorage.setItem('practice-timer-detailed-log', JSON.stringify({
+            '2026-03-09': { scales: { itemId: 'scales', itemName: 'Scales', seconds: 600 } },
+            '2026-03-02': { bach: { itemId: 'bach', itemName: 'Bach', seconds: 900 } },
+        }));
+        localStorage.setItem('practice-timer-completions', JSON.stringify({
+            arpeggios: [new Date('2026-03-11T09:00:00').getTime()],
+        }));
+
+        const plan: PlanItem[] = [
+            { id: 'scales', text: 'Scales', checked: false, children: [], blockType: 'segment', allocatedTime: 30, allocationPeriod: 'week' },
+            { id: 'arpeggios', text: 'Arpeggios', checked: false, children: [], blockType: 'segment' },
+            { id: 'bach', text: 'Bach', checked: false, children: [], blockType: 'segment', repertoirePieceId: 'piece-learning' },
+        ];
+        const session = buildDailySession(plan, 60, { pieces: [piece('learning')], now });
+
+        expect(session.segments.map((s) => [s.id, s.minutes])).toEqual([['scales', 5], ['bach', 10]]);
+        expect(session.segments[0].reasons).toEqual(['20 min left this week', 'Last played 2 days ago']);
+        expect(session.segments[1].reasons).toEqual(['Last played 9 days ago', 'Still learning']);
+    });
+});
@@ -0,0 +1,272 @@
+/**
+ * Daily practice scheduler - given the minutes available today, proposes an
+ * ordered session from the plan's segments.
+ *
+ * Each segment gets a score from four things: how much of its allocation is
+ * still open (weighed against the days left in the week), how long since it
+ * was last played, the linked piece's status, and how close the piece's
+ * target date is. The highest scores fill the time budget first; the chosen
+ * segments then play in plan order, so warm-ups still come before repertoire.
+ */
+import type { PlanItem } from './planTypes';
+import type { RepertoirePiece } from './repertoire.types';
+import { type QueuedSegment, getPlanSegments } from './autoRun';
+import {
+  type WeekStartsOn,
+  daysBetween,
+  getDetailedPracticeLog,
+  getLastPlayedDate,
+  getLocalYMD,
+  getSegmentCompletionsForThisWeek,
+  getWeekStart,
+  hasCompletedSegmentToday,
+  hasPlayedSegmentInLast2Days,
+} from './practiceLog';
+
+export const SESSION_LENGTH_OPTIONS = [15, 20, 30, 45, 60, 90];
+
+/** Shortest slot worth scheduling. */
+export const MIN_SEGMENT_MINUTES = 5;
+/** Slot for segments without an allocation. */
+export const UNALLOCATED_MINUTES = 10;
+
+const WEIGHTS = {
+  need: 3,
+  staleness: 2,
+  status: 1.5,
+  urgency: 2,
+};
+
+const STATUS_SCORES: Record<RepertoirePiece['status'], number> = {
+  learning: 1,
+  'performance-ready': 0.6,
+  maintaining: 0.4,
+  archived: 0,
+};
+const UNLINKED_STATUS_SCORE = 0.5;
+
+/** Target dates further away than this don't add urgency. */
+const URGENCY_WINDOW_DAYS = 28;
+
+export type SchedulerPiece = Pick<RepertoirePiece, 'id' | 'title' | 'status' | 'target_date'>;
+
+/** What the practice log says about one segment. */
+export interface SegmentHistory {
+  /** Seconds practiced in the segment's allocation period (today or this week). */
+  practicedSeconds: number;
+  /** Whole days since it was last played, or null if never. */
+  daysSinceLastPlayed: number | null;
+  playedInLast2Days: boolean;
+  completedToday: boolean;
+  completionsThisWeek: number;
+}
+
+export interface SchedulerCandidate {
+  segment: QueuedSegment;
+  history: SegmentHistory;
+  piece: SchedulerPiece | null;
+}
+
+export interface SchedulerContext {
+  /** Days left in the week, counting today (1-7). */
+  daysLeftInWeek: number;
+  /** Today as YYYY-MM-DD. */
+  today: string;
+}
+
+export interface ScheduledSegment extends QueuedSegment {
+  score: number;
+  /** Short, human-readable reasons it was picked, most important first. */
+  reasons: string[];
+}
+
+export interface DailySession {
+  segments: ScheduledSegment[];
+  totalMinutes: number;
+}
+
+interface ScoredCandidate {
+  candidate: SchedulerCandidate;
+  score: number;
+  reasons: string[];
+  minutes: number;
+  order: number;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Score one candidate and size its slot. Returns null for segments that
+ * don't need time today: archived pieces, met allocations, and unallocated
+ * segments already played today.
+ */
+export function scoreCandidate(
+  { segment, history, piece }: SchedulerCandidate,
+  { daysLeftInWeek, today }: SchedulerContext
+): Omit<ScoredCandidate, 'candidate' | 'order'> | null {
+  if (piece?.status === 'archived') return null;
+
+  const reasons: { weight: number; text: string }[] = [];
+  let score = 0;
+  let minutes = UNALLOCATED_MINUTES;
+
+  // Remaining allocation: on pace scores 1, behind scores up to 2
+  let need: number;
+  if (segment.allocatedTime) {
+    const remaining = Math.max(0, Math.ceil(segment.allocatedTime - history.practicedSeconds / 60));
+    if (remaining === 0) return null;
+    const share = remaining / segment.allocatedTime;
+    if (segment.period === 'week') {
+      const days = Math.max(1, daysLeftInWeek);
+      need = Math.min(2, share / (days / 7));
+      minutes = Math.min(remaining, Math.max(MIN_SEGMENT_MINUTES, Math.ceil(remaining / days)));
+      reasons.push({ weight: need * WEIGHTS.need, text: `${remaining} min left this week` });
+    } else {
+      need = share;
+      minutes = remaining;
+      reasons.push({ weight: need * WEIGHTS.need, text: `${remaining} min left today` });
+    }
+  } else if (history.completedToday) {
+    return null;
+  } else {
+    // Without an allocation, fewer runs this week means more need
+    need = Math.max(0, 0.5 - 0.1 * history.completionsThisWeek);
+  }
+  score += need * WEIGHTS.need;
+
+  // Staleness: nothing for recent work, growing over a couple of weeks
+  let staleness = 0;
+  if (history.daysSinceLastPlayed === null) {
+    staleness = 1.5;
+    reasons.push({ weight: staleness * WEIGHTS.staleness, text: 'Not played yet' });
+  } else if (!history.playedInLast2Days) {
+    staleness = Math.min(2, history.daysSinceLastPlayed / 5);
+    reasons.push({
+      weight: staleness * WEIGHTS.staleness,
+      text: `Last played ${plural(history.daysSinceLastPlayed, 'day')} ago`,
+    });
+  }
+  score += staleness * WEIGHTS.staleness;
+
+  const status = piece ? STATUS_SCORES[piece.status] : UNLINKED_STATUS_SCORE;
+  score += status * WEIGHTS.status;
+  if (piece?.status === 'learning') {
+    reasons.push({ weight: status * WEIGHTS.status, text: 'Still learning' });
+  }
+
+  // Target date: ramps up over the last four weeks
+  if (piece?.target_date) {
+    const daysToTarget = daysBetween(today, piece.target_date.slice(0, 10));
+    if (daysToTarget >= 0 && daysToTarget <= URGENCY_WINDOW_DAYS) {
+      const urgency = 2 * (1 - daysToTarget / URGENCY_WINDOW_DAYS);
+      score += urgency * WEIGHTS.urgency;
+      reasons.push({
+        weight: urgency * WEIGHTS.urgency,
+        text: daysToTarget === 0 ? 'Target date is today' : `Target date in ${plural(daysToTarget, 'day')}`,
+      });
+    }
+  }
+
+  return {
+    score: Math.round(score * 100) / 100,
+    reasons: reasons.sort((a, b) => b.weight - a.weight).map((r) => r.text),
+    minutes,
+  };
+}
+
+/**
+ * Fill `availableMinutes` with the highest-scoring candidates, then return
+ * them in plan order. The last pick is shortened to fit when at least
+ * MIN_SEGMENT_MINUTES remain.
+ */
+export function planDailySession(
+  candidates: SchedulerCandidate[],
+  availableMinutes: number,
+  context: SchedulerContext
+): DailySession {
+  const scored: ScoredCandidate[] = [];
+  candidates.forEach((candidate, order) => {
+    const result = scoreCandidate(candidate, context);
+    if (result) scored.push({ ...result, candidate, order });
+  });
+  scored.sort((a, b) => b.score - a.score || a.order - b.order);
+
+  let budget = Math.max(0, Math.floor(availableMinutes));
+  const picked: ScoredCandidate[] = [];
+  for (const entry of scored) {
+    if (budget < MIN_SEGMENT_MINUTES) break;
+    const minutes = Math.min(entry.minutes, budget);
+    picked.push({ ...entry, minutes });
+    budget -= minutes;
+  }
+
+  const segments = picked
+    .sort((a, b) => a.order - b.order)
+    .map(({ candidate, score, reasons, minutes }) => ({
+      ...candidate.segment,
+      minutes,
+      score,
+      reasons,
+    }));
+  return { segments, totalMinutes: segments.reduce((sum, s) => sum + s.minutes, 0) };
+}
+
+// --- Reading the practice log ---
+
+function getPracticedSeconds(
+  itemId: string,
+  period: 'day' | 'week',
+  weekStartsOn: WeekStartsOn,
+  now: number
+): number {
+  const log = getDetailedPracticeLog();
+  const today = getLocalYMD(new Date(now));
+  if (period === 'day') return log[today]?.[itemId]?.seconds ?? 0;
+  const weekStart = getWeekStart(today, weekStartsOn);
+  let total = 0;
+  for (const [day, pieces] of Object.entries(log)) {
+    if (day >= weekStart && day <= today) total += pieces[itemId]?.seconds ?? 0;
+  }
+  return total;
+}
+
+export function getSegmentHistory(
+  segment: QueuedSegment,
+  weekStartsOn: WeekStartsOn,
+  now: number = Date.now()
+): SegmentHistory {
+  const today = getLocalYMD(new Date(now));
+  const lastPlayed = getLastPlayedDate([segment.id], today);
+  return {
+    practicedSeconds: getPracticedSeconds(segment.id, segment.period, weekStartsOn, now),
+    daysSinceLastPlayed: lastPlayed ? daysBetween(lastPlayed, today) : null,
+    playedInLast2Days: hasPlayedSegmentInLast2Days(segment.id, now),
+    completedToday: hasCompletedSegmentToday(segment.id, now),
+    completionsThisWeek: getSegmentCompletionsForThisWeek(segment.id, weekStartsOn, now),
+  };
+}
+
+export function getSchedulerContext(weekStartsOn: WeekStartsOn, now: number = Date.now()): SchedulerContext {
+  const today = getLocalYMD(new Date(now));
+  return {
+    today,
+    daysLeftInWeek: 7 - daysBetween(getWeekStart(today, weekStartsOn), today),
+  };
+}
+
+/** Propose a session of about `availableMinutes` from the plan's segments. */
+export function buildDailySession(
+  items: PlanItem[],
+  availableMinutes: number,
+  options: { pieces?: SchedulerPiece[]; weekStartsOn?: WeekStartsOn; now?: number } = {}
+): DailySession {
+  const { pieces = [], weekStartsOn = 'monday', now = Date.now() } = options;
+  const candidates = getPlanSegments(items).map((segment) => ({
+    segment,
+    history: getSegmentHistory(segment, weekStartsOn, now),
+    piece: pieces.find((p) => p.id === segment.repertoirePieceId) ?? null,
+  }));
+  return planDailySession(candidates, availableMinutes, getSchedulerContext(weekStartsOn, now));
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    createBackup,
+    createBackupZip,
+    buildBackupCsvFiles,
+    getBackupPreview,
+    importBackup,
+    parseBackupJson,
+    readBackupFile,
+    type PracticeBackup,
+} from './dataBackup';
+import { getPlanItems, getPlanLibrary } from './planLibrary';
+import { getDetailedPracticeLog, getPracticeLog, getSegmentCompletions } from './practiceLog';
+import { getSettings } from './localStorage';
+import { getSegmentLibrary } from './segmentLibrary';
+import { repertoireService } from './repertoireService';
+import { getReviewLog, type PieceReview } from './repertoireReview';
+import { readZip } from './zipArchive';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+vi.mock('./userDataSync', () => ({
+    scheduleUserDataPush: vi.fn(),
+}));
+
+vi.mock('./repertoireService', () => ({
+    repertoireService: {
+        getAll: vi.fn(),
+        create: vi.fn(),
+        update: vi.fn(),
+        delete: vi.fn(),
+    },
+}));
+
+const item = (id: string, text: string) => ({ id, text, checked: false, children: [], blockType: 'segment' as const });
+
+const seedLocalData = () => {
+    localStorageMock.setItem('practice-timer-plan', JSON.stringify([item('a', 'Scales')]));
+    localStorageMock.setItem('practice-timer-log', JSON.stringify({ '2025-03-10': 600 }));
+    localStorageMock.setItem('practice-timer-detailed-log', JSON.stringify({
+        '2025-03-10': { a: { itemId: 'a', itemName: 'Scales, "slow"', seconds: 600 } },
+    }));
+    localStorageMock.setItem('practice-timer-completions', JSON.stringify({ a: [1741600000000] }));
+    localStorageMock.setItem('practice-timer-settings', JSON.stringify({ dailyGoalMinutes: 20 }));
+};
+
+describe('dataBackup', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+        vi.clearAllMocks();
+    });
+
+    it('round-trips a backup through JSON and the zip archive', async () => {
+        seedLocalData();
+        const backup = await createBackup(new Date('2025-03-11T10:00:00Z'));
+
+        expect(backup.version).toBe(1);
+        expect(backup.repertoire).toBeUndefined();
+        expect(getBackupPreview(backup)).toMatchObject({ plans: 1, planItems: 1, loggedDays: 1, totalSeconds: 600, completions: 1 });
+
+        const fromJson = parseBackupJson(JSON.stringify(backup));
+        expect(fromJson).toEqual({ ok: true, backup });
+
+        const zip = createBackupZip(backup);
+        expect(readZip(zip).map((e) => e.name)).toContain('practice-log.csv');
+        const fromZip = await readBackupFile(new Blob([zip]));
+        expect(fromZip.ok && fromZip.backup.logs.overallLog).toEqual({ '2025-03-10': 600 });
+    });
+
+    it('round-trips piece review schedules, following pieces imported under new ids', async () => {
+        const review = (pieceId: string, dueDate: string): PieceReview => ({
+            pieceId, intervalDays: 6, ease: 2.5, reps: 2, lapses: 0,
+            lastReviewed: '2025-03-04', dueDate, updatedAt: '2025-03-04T10:00:00.000Z',
+        });
+        localStorageMock.setItem('practice-timer-repertoire-reviews', JSON.stringify({ p1: review('p1', '2025-03-10') }));
+        const backup = await createBackup();
+
+        expect(backup.repertoireReviews).toEqual({ p1: review('p1', '2025-03-10') });
+        expect(getBackupPreview(backup).pieceReviews).toBe(1);
+        expect(parseBackupJson(JSON.stringify(backup))).toEqual({ ok: true, backup });
+
+        localStorageMock.clear();
+        const piece = {
+            id: 'p1', user_id: 'u', title: 'Clair de lune', composer: 'Debussy', level: 'level-4',
+            type: 'repertoire' as const, status: 'learning' as const, start_date: null, target_date: null,
+            video_url: null, score_url: null, notes: [], created_at: '', updated_at: '',
+        };
+        vi.mocked(repertoireService.getAll).mockResolvedValue([]);
+        vi.mocked(repertoireService.create).mockResolvedValue({ ...piece, id: 'new-p1' });
+
+        await importBackup({ ...backup, repertoire: [piece] }, 'replace');
+
+        expect(getReviewLog()).toEqual({ 'new-p1': review('new-p1', '2025-03-10') });
+    });
+
+    it('escapes CSV fields', async () => {
+        seedLocalData();
+        const files = buildBackupCsvFiles(await createBackup());
+
+        expect(files['practice-log-by-item.csv']).toContain('2025-03-10,a,"Scales, ""slow""",600,0');
+        expect(files['repertoire.csv']).toBeUndefined();
+    });
+
+    it('rejects files that are not valid backups', () => {
+        expect(parseBackupJson('{')).toMatchObject({ ok: false, error: 'The file is not valid JSON.' });
+        expect(parseBackupJson('[]')).toMatchObject({ ok: false });
+        expect(parseBackupJson(JSON.stringify({ format: 'practice-mate-backup', version: 99 }))).toMatchObject({
+            ok: false,
+            error: expect.stringContaining('newer version'),
+        });
+        expect(parseBackupJson(JSON.stringify({ format: 'practice-mate-backup', version: 1 }))).toMatchObject({
+            ok: false,
+            error: expect.stringContaining('damaged'),
+        });
+    });
+
+    it('merges logs additively and appends missing plan blocks', async () => {
+        seedLocalData();
+        const backup: PracticeBackup = JSON.parse(JSON.stringify(await createBackup()));
+        backup.plans.plans[0].items.push(item('b', 'Etude'));
+        backup.logs.overallLog = { '2025-03-10': 300, '2025-03-12': 900 };
+        backup.segmentLibrary = [{ id: 't1', name: 'Long tones', createdAt: '', updatedAt: '' }];
+        backup.settings = { ...backup.settings, dailyGoalMinutes: 45 };
+
+        await importBackup(backup, 'merge');
+
+        expect(getPracticeLog()).toEqual({ '2025-03-10': 600, '2025-03-12': 900 });
+        expect(getPlanItems(getPlanLibrary().activePlanId).map((i) => i.id)).toEqual(['a', 'b']);
+        expect(getSegmentLibrary().map((t) => t.id)).toEqual(['t1']);
+        expect(getSettings().dailyGoalMinutes).toBe(20);
+    });
+
+    it('replaces local data and settings with the backup', async () => {
+        seedLocalData();
+        const backup: PracticeBackup = JSON.parse(JSON.stringify(await createBackup()));
+        backup.plans.plans[0].items = [item('z', 'Sonata')];
+        backup.logs.overallLog = { '2025-01-01': 120 };
+        backup.logs.detailedLog = {};
+        backup.completions = {};
+        backup.settings = { ...backup.settings, dailyGoalMinutes: 45 };
+
+        await importBackup(backup, 'replace');
+
+        expect(getPracticeLog()).toEqual({ '2025-01-01': 120 });
+        expect(getDetailedPracticeLog()).toEqual({});
+        expect(getSegmentCompletions()).toEqual({});
+        expect(getPlanItems(getPlanLibrary().activePlanId).map((i) => i.id)).toEqual(['z']);
+        expect(getSettings().dailyGoalMinutes).toBe(45);
+    });
+
+    it('imports repertoire pieces that are not already there', async () => {
+        const backup: PracticeBackup = JSON.parse(JSON.stringify(await createBackup()));
+        const piece = {
+            id: 'p1', user_id: 'u', title: 'Clair de lune', composer: 'Debussy', level: 'level-4',
+            type: 'repertoire' as const, status: 'learning' as const, start_date: null, target_date: null,
+            video_url: null, score_url: null, notes: [], created_at: '', updated_at: '',
+        };
+        backup.repertoire = [piece, { ...piece, id: 'p2', title: 'Arabesque No. 1' }];
+        vi.mocked(repertoireService.getAll).mockResolvedValue([{ ...piece, id: 'other', title: ' clair de LUNE ' }]);
+
+        const result = await importBackup(backup, 'merge');
+
+        expect(repertoireService.create).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(repertoireService.create).mock.calls[0][0]).toMatchObject({ title: 'Arabesque No. 1' });
+        expect(result).toMatchObject({ repertoireCreated: 1, repertoireDeleted: 0, warnings: [] });
+    });
+});
@@ -0,0 +1,589 @@
+/**
+ * Data backup - a versioned, portable archive of everything the app keeps
+ * for a user: plans (with snapshots), the lesson plan, logs, completions,
+ * the session journal, segment templates, settings, repertoire pieces and
+ * their review schedule.
+ *
+ * Backups are plain JSON (`backup.json`); the zip variant adds CSV copies of
+ * the logs and lists for spreadsheets. Importing validates the file, shows a
+ * preview, and then either merges into the local data (the same rules as
+ * cloud sync) or replaces it.
+ */
+import { z } from 'zod';
+import type { PlanItem, PlanSnapshot } from './planTypes';
+import type { RepertoirePiece, RepertoirePieceInsert } from './repertoire.types';
+import type { SettingsType } from './timerService';
+import { DEFAULT_SETTINGS } from './timerService';
+import { getSettings, saveSettings } from './localStorage';
+import { getLessonPlan, getLessonSnapshots, saveLessonPlan, saveLessonSnapshots } from './lessonPlan';
+import {
+  PLAN_SWITCHED_EVENT,
+  type PlanLibrarySyncState,
+  getActivePlanId,
+  getPlanLibraryStateForSync,
+  getPlanSnapshotKey,
+  getPlanStorageKey,
+  restorePlanLibraryFromSync,
+} from './planLibrary';
+import { getPlanSnapshots, savePlanSnapshots, savePlanToStorage } from './planStoreHelpers';
+import {
+  type DetailedPracticeLog,
+  type ManualLogEntry,
+  type SegmentCompletionLog,
+  type SegmentTempoLog,
+  getPracticeLogStateForSync,
+  isValidDetailedPracticeLog,
+  replacePracticeLogState,
+  restorePracticeLogStateFromSync,
+} from './practiceLog';
+import {
+  type JournalEntry,
+  getSessionJournal,
+  replaceSessionJournal,
+  restoreSessionJournalFromSync,
+} from './sessionJournal';
+import { type SegmentTemplate, getSegmentLibrary, replaceSegmentLibrary } from './segmentLibrary';
+import { repertoireService } from './repertoireService';
+import { type ReviewLog, getReviewLog, replaceReviewLog, restoreReviewLogFromSync } from './repertoireReview';
+import { supabase } from './supabaseClient';
+import { scheduleUserDataPush } from './userDataSync';
+import { createZip, readZip } from './zipArchive';
+
+export const BACKUP_FORMAT = 'practice-mate-backup';
+export const BACKUP_VERSION = 1;
+export const BACKUP_JSON_NAME = 'backup.json';
+
+export interface PracticeBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  plans: PlanLibrarySyncState;
+  /** Snapshot history per plan id. */
+  planSnapshots: Record<string, PlanSnapshot[]>;
+  lessonPlan: PlanItem[];
+  lessonSnapshots: PlanSnapshot[];
+  logs: {
+    overallLog: Record<string, number>;
+    detailedLog: DetailedPracticeLog;
+    manualEntries: ManualLogEntry[];
+    journal: JournalEntry[];
+    /** Absent in backups made before tempo tracking. */
+    tempoLog?: SegmentTempoLog;
+  };
+  completions: SegmentCompletionLog;
+  segmentLibrary: SegmentTemplate[];
+  settings: SettingsType;
+  /** Absent when the backup was made signed out, so importing leaves pieces alone. */
+  repertoire?: RepertoirePiece[];
+  /** Spaced-repetition state per piece id. Absent in backups made before review scheduling. */
+  repertoireReviews?: ReviewLog;
+}
+
+export type BackupImportMode = 'merge' | 'replace';
+
+export type BackupParseResult = { ok: true; backup: PracticeBackup } | { ok: false; error: string };
+
+export interface BackupPreview {
+  exportedAt: string;
+  plans: number;
+  planItems: number;
+  lessonItems: number;
+  snapshots: number;
+  loggedDays: number;
+  totalSeconds: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  completions: number;
+  manualEntries: number;
+  journalEntries: number;
+  segmentTemplates: number;
+  /** Null when the backup has no repertoire section. */
+  repertoirePieces: number | null;
+  pieceReviews: number;
+}
+
+export interface BackupImportResult {
+  repertoireCreated: number;
+  repertoireUpdated: number;
+  repertoireDeleted: number;
+  warnings: string[];
+}
+
+// --- Validation ---
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+type PlanItemInput = { id: string; text: string; checked: boolean; children: PlanItemInput[] };
+
+const planItemSchema: z.ZodType<PlanItemInput> = z.lazy(() =>
+  z
+    .object({
+      id: z.string(),
+      text: z.string(),
+      checked: z.boolean(),
+      children: z.array(planItemSchema),
+    })
+    .passthrough()
+);
+
+const snapshotSchema = z.object({ ts: z.number(), items: z.array(planItemSchema) });
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  plans: z.object({
+    activePlanId: z.string(),
+    plans: z
+      .array(
+        z
+          .object({ id: z.string(), name: z.string(), items: z.array(planItemSchema) })
+          .passthrough()
+      )
+      .min(1),
+  }),
+  planSnapshots: z.record(z.array(snapshotSchema)),
+  lessonPlan: z.array(planItemSchema),
+  lessonSnapshots: z.array(snapshotSchema),
+  logs: z.object({
+    overallLog: z.record(z.string().regex(YMD), z.number().nonnegative()),
+    detailedLog: z.custom<DetailedPracticeLog>(isValidDetailedPracticeLog, 'Invalid detailed log'),
+    manualEntries: z.array(
+      z
+        .object({ id: z.string(), date: z.string().regex(YMD), seconds: z.number(), createdAt: z.number() })
+        .passthrough()
+    ),
+    journal: z.array(z.object({ id: z.string(), start: z.number(), end: z.number() }).passthrough()),
+    tempoLog: z.record(z.array(z.object({ ts: z.number(), bpm: z.number() }))).optional(),
+  }),
+  completions: z.record(z.array(z.number())),
+  segmentLibrary: z.array(z.object({ id: z.string(), name: z.string() }).passthrough()),
+  settings: z.record(z.unknown()),
+  repertoire: z
+    .array(z.object({ id: z.string(), title: z.string(), composer: z.string() }).passthrough())
+    .optional(),
+  repertoireReviews: z
+    .record(
+      z
+        .object({
+          pieceId: z.string(),
+          intervalDays: z.number(),
+          ease: z.number(),
+          lastReviewed: z.string().regex(YMD),
+          dueDate: z.string().regex(YMD),
+          updatedAt: z.string(),
+        })
+        .passthrough()
+    )
+    .optional(),
+});
+
+/** Validate parsed JSON as a backup. Newer backup versions are refused rather than half-imported. */
+export function validateBackup(value: unknown): BackupParseResult {
+  if (!value || typeof value !== 'object' || (value as { format?: unknown }).format !== BACKUP_FORMAT) {
+    return { ok: false, error: 'This file is not a Practice Mate backup.' };
+  }
+  const version = (value as { version?: unknown }).version;
+  if (typeof version === 'number' && version > BACKUP_VERSION) {
+    return { ok: false, error: 'This backup was made by a newer version of the app. Update and try again.' };
+  }
+  const result = backupSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    return { ok: false, error: `The backup is damaged (${path ? `${path}: ` : ''}${issue.message}).` };
+  }
+  return { ok: true, backup: value as PracticeBackup };
+}
+
+export function parseBackupJson(text: string): BackupParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON.' };
+  }
+  return validateBackup(parsed);
+}
+
+/** Read a backup from a .json file or a backup zip. */
+export async function readBackupFile(file: Blob): Promise<BackupParseResult> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  // Zip archives start with "PK\x03\x04"
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    try {
+      const entry = readZip(bytes).find(
+        (e) => e.name === BACKUP_JSON_NAME || e.name.endsWith(`/${BACKUP_JSON_NAME}`)
+      );
+      if (!entry) return { ok: false, error: `The archive has no ${BACKUP_JSON_NAME}.` };
+      return parseBackupJson(new TextDecoder().decode(entry.data));
+    } catch (e) {
+      return { ok: false, error: e instanceof Error ? e.message : 'The archive could not be read.' };
+    }
+  }
+  return parseBackupJson(new TextDecoder().decode(bytes));
+}
+
+// --- Export ---
+
+/**
+ * Collect all local data into a backup. Repertoire pieces live in Supabase,
+ * so they are only included when signed in.
+ */
+export async function createBackup(now: Date = new Date()): Promise<PracticeBackup> {
+  const plans = getPlanLibraryStateForSync();
+  const { log, detailedLog, completions, manualEntries, tempoLog } = getPracticeLogStateForSync();
+  let repertoire: RepertoirePiece[] | undefined;
+  if (supabase) {
+    try {
+      const { data } = await supabase.auth.getSession();
+      if (data.session?.user) repertoire = await repertoireService.getAll();
+    } catch (e) {
+      console.error('Failed to load repertoire for backup:', e);
+    }
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    plans,
+    planSnapshots: Object.fromEntries(plans.plans.map((p) => [p.id, getPlanSnapshots(getPlanSnapshotKey(p.id))])),
+    lessonPlan: getLessonPlan(),
+    lessonSnapshots: getLessonSnapshots(),
+    logs: { overallLog: log, detailedLog, manualEntries, journal: getSessionJournal(), tempoLog },
+    completions,
+    segmentLibrary: getSegmentLibrary(),
+    settings: getSettings(),
+    ...(repertoire ? { repertoire } : {}),
+    repertoireReviews: getReviewLog(),
+  };
+}
+
+export function getBackupFileName(extension: 'json' | 'zip', now: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `practice-mate-backup-${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}.${extension}`;
+}
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number | boolean | null | undefined)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function flattenPlan(items: PlanItem[], section: string, rows: string[][], planName: string): void {
+  for (const item of items) {
+    const nextSection = item.isHeader ? item.text : section;
+    rows.push([
+      planName,
+      section,
+      item.text,
+      item.blockType ?? 'todo',
+      item.allocatedTime != null ? String(item.allocatedTime) : '',
+      item.allocatedTime != null ? item.allocationPeriod ?? 'day' : '',
+      item.segmentGoal ?? '',
+      item.checked ? 'yes' : 'no',
+    ]);
+    flattenPlan(item.children, nextSection, rows, planName);
+  }
+}
+
+/** Spreadsheet-friendly copies of the backup, keyed by file name. */
+export function buildBackupCsvFiles(backup: PracticeBackup): Record<string, string> {
+  const itemNames = new Map<string, string>();
+  for (const items of Object.values(backup.logs.detailedLog)) {
+    for (const entry of Object.values(items)) itemNames.set(entry.itemId, entry.itemName);
+  }
+
+  const planRows: string[][] = [];
+  for (const plan of backup.plans.plans) flattenPlan(plan.items, '', planRows, plan.name);
+  flattenPlan(backup.lessonPlan, '', planRows, 'Lesson plan');
+
+  const files: Record<string, string> = {
+    'practice-log.csv': toCsv(
+      ['date', 'seconds', 'minutes'],
+      Object.entries(backup.logs.overallLog)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, seconds]) => [date, seconds, Math.round(seconds / 60)])
+    ),
+    'practice-log-by-item.csv': toCsv(
+      ['date', 'item_id', 'item_name', 'seconds', 'manual_seconds'],
+      Object.entries(backup.logs.detailedLog)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .flatMap(([date, items]) =>
+          Object.values(items).map((e) => [date, e.itemId, e.itemName, e.seconds, e.manualSeconds ?? 0])
+        )
+    ),
+    'segment-completions.csv': toCsv(
+      ['item_id', 'item_name', 'completed_at'],
+      Object.entries(backup.completions).flatMap(([itemId, timestamps]) =>
+        timestamps.map((ts) => [itemId, itemNames.get(itemId) ?? '', new Date(ts).toISOString()])
+      )
+    ),
+    'segment-tempo.csv': toCsv(
+      ['item_id', 'item_name', 'completed_at', 'bpm'],
+      Object.entries(backup.logs.tempoLog ?? {}).flatMap(([itemId, entries]) =>
+        entries.map((e) => [itemId, itemNames.get(itemId) ?? '', new Date(e.ts).toISOString(), e.bpm])
+      )
+    ),
+    'manual-edits.csv': toCsv(
+      ['date', 'item_id', 'item_name', 'seconds_change', 'edited_at'],
+      backup.logs.manualEntries.map((e) => [e.date, e.itemId, e.itemName, e.seconds, new Date(e.createdAt).toISOString()])
+    ),
+    'session-journal.csv': toCsv(
+      ['start', 'end', 'kind', 'mode', 'piece', 'seconds', 'outcome'],
+      backup.logs.journal.map((e) => [
+        new Date(e.start).toISOString(),
+        new Date(e.end).toISOString(),
+        e.kind,
+        e.mode,
+        e.pieceName,
+        e.seconds,
+        e.outcome,
+      ])
+    ),
+    'plans.csv': toCsv(
+      ['plan', 'section', 'text', 'block_type', 'allocated_minutes', 'allocation_period', 'goal', 'checked'],
+      planRows
+    ),
+  };
+  if (backup.repertoire) {
+    files['repertoire.csv'] = toCsv(
+      ['title', 'composer', 'level', 'type', 'status', 'start_date', 'target_date', 'video_url', 'score_url'],
+      backup.repertoire.map((p) => [
+        p.title,
+        p.composer,
+        p.level,
+        p.type,
+        p.status,
+        p.start_date,
+        p.target_date,
+        p.video_url,
+        p.score_url,
+      ])
+    );
+  }
+  return files;
+}
+
+/** A zip with `backup.json` (used for restoring) plus the CSV files. */
+export function createBackupZip(backup: PracticeBackup): Uint8Array<ArrayBuffer> {
+  return createZip([
+    { name: BACKUP_JSON_NAME, data: JSON.stringify(backup, null, 2) },
+    ...Object.entries(buildBackupCsvFiles(backup)).map(([name, data]) => ({ name, data })),
+  ]);
+}
+
+// --- Import ---
+
+function countItems(items: PlanItem[]): number {
+  return items.reduce((sum, item) => sum + 1 + countItems(item.children), 0);
+}
+
+export function getBackupPreview(backup: PracticeBackup): BackupPreview {
+  const dates = Object.keys(backup.logs.overallLog).sort();
+  return {
+    exportedAt: backup.exportedAt,
+    plans: backup.plans.plans.length,
+    planItems: backup.plans.plans.reduce((sum, p) => sum + countItems(p.items), 0),
+    lessonItems: countItems(backup.lessonPlan),
+    snapshots:
+      Object.values(backup.planSnapshots).reduce((sum, list) => sum + list.length, 0) + backup.lessonSnapshots.length,
+    loggedDays: dates.filter((d) => backup.logs.overallLog[d] > 0).length,
+    totalSeconds: Object.values(backup.logs.overallLog).reduce((sum, s) => sum + s, 0),
+    firstDate: dates[0] ?? null,
+    lastDate: dates[dates.length - 1] ?? null,
+    completions: Object.values(backup.completions).reduce((sum, list) => sum + list.length, 0),
+    manualEntries: backup.logs.manualEntries.length,
+    journalEntries: backup.logs.journal.length,
+    segmentTemplates: backup.segmentLibrary.length,
+    repertoirePieces: backup.repertoire ? backup.repertoire.length : null,
+    pieceReviews: Object.keys(backup.repertoireReviews ?? {}).length,
+  };
+}
+
+function collectIds(items: PlanItem[], ids: Set<string> = new Set()): Set<string> {
+  for (const item of items) {
+    ids.add(item.id);
+    collectIds(item.children, ids);
+  }
+  return ids;
+}
+
+/** Keep every local item and append imported top-level blocks the plan doesn't have yet. */
+function mergeItemsById(local: PlanItem[], incoming: PlanItem[]): PlanItem[] {
+  const ids = collectIds(local);
+  return [...local, ...incoming.filter((item) => !ids.has(item.id))];
+}
+
+function mergeSnapshots(local: PlanSnapshot[], incoming: PlanSnapshot[]): PlanSnapshot[] {
+  const seen = new Set(local.map((s) => s.ts));
+  return [...local, ...incoming.filter((s) => !seen.has(s.ts))];
+}
+
+function importPlans(backup: PracticeBackup, mode: BackupImportMode): void {
+  if (mode === 'replace') {
+    for (const plan of backup.plans.plans) {
+      savePlanToStorage(getPlanStorageKey(plan.id), plan.items);
+      savePlanSnapshots(getPlanSnapshotKey(plan.id), backup.planSnapshots[plan.id] ?? []);
+    }
+    restorePlanLibraryFromSync(backup.plans);
+    saveLessonPlan(backup.lessonPlan);
+    saveLessonSnapshots(backup.lessonSnapshots);
+    return;
+  }
+
+  const local = getPlanLibraryStateForSync();
+  const plans = local.plans.map((plan) => {
+    const incoming = backup.plans.plans.find((p) => p.id === plan.id);
+    return incoming ? { ...plan, items: mergeItemsById(plan.items, incoming.items) } : plan;
+  });
+  for (const incoming of backup.plans.plans) {
+    if (!plans.some((p) => p.id === incoming.id)) plans.push(incoming);
+  }
+  for (const plan of plans) {
+    const key = getPlanSnapshotKey(plan.id);
+    savePlanSnapshots(key, mergeSnapshots(getPlanSnapshots(key), backup.planSnapshots[plan.id] ?? []));
+  }
+  restorePlanLibraryFromSync({ activePlanId: local.activePlanId, plans });
+  saveLessonPlan(mergeItemsById(getLessonPlan(), backup.lessonPlan));
+  saveLessonSnapshots(mergeSnapshots(getLessonSnapshots(), backup.lessonSnapshots));
+}
+
+function toPieceInsert(piece: RepertoirePiece): RepertoirePieceInsert {
+  return {
+    title: piece.title,
+    composer: piece.composer,
+    level: piece.level,
+    type: piece.type,
+    status: piece.status,
+    start_date: piece.start_date ?? null,
+    target_date: piece.target_date ?? null,
+    video_url: piece.video_url ?? null,
+    score_url: piece.score_url ?? null,
+    notes: Array.isArray(piece.notes) ? piece.notes : [],
+  };
+}
+
+function pieceKey(piece: Pick<RepertoirePiece, 'title' | 'composer'>): string {
+  return `${piece.title.trim().toLowerCase()}\u0000${piece.composer.trim().toLowerCase()}`;
+}
+
+/** Returns the local id of each imported piece by its id in the backup. */
+async function importRepertoire(
+  pieces: RepertoirePiece[],
+  mode: BackupImportMode,
+  result: BackupImportResult
+): Promise<Map<string, string>> {
+  const localIds = new Map<string, string>();
+  let existing: RepertoirePiece[];
+  try {
+    existing = await repertoireService.getAll();
+  } catch (e) {
+    console.error('Failed to load repertoire for import:', e);
+    result.warnings.push('Repertoire pieces were not imported. Sign in and import again to restore them.');
+    return localIds;
+  }
+
+  const byId = new Map(existing.map((p) => [p.id, p]));
+  const byKey = new Map(existing.map((p) => [pieceKey(p), p]));
+  const matched = new Set<string>();
+  let failed = 0;
+
+  for (const piece of pieces) {
+    const match = byId.get(piece.id) ?? byKey.get(pieceKey(piece));
+    try {
+      if (match) {
+        matched.add(match.id);
+        localIds.set(piece.id, match.id);
+        if (mode === 'replace') {
+          await repertoireService.update(match.id, toPieceInsert(piece));
+          result.repertoireUpdated++;
+        }
+      } else {
+        const created = await repertoireService.create(toPieceInsert(piece));
+        if (created?.id) localIds.set(piece.id, created.id);
+        result.repertoireCreated++;
+      }
+    } catch (e) {
+      console.error('Failed to import repertoire piece:', e);
+      failed++;
+    }
+  }
+
+  if (mode === 'replace') {
+    for (const piece of existing) {
+      if (matched.has(piece.id)) continue;
+      try {
+        await repertoireService.delete(piece.id);
+        result.repertoireDeleted++;
+      } catch (e) {
+        console.error('Failed to remove repertoire piece:', e);
+        failed++;
+      }
+    }
+  }
+  if (failed > 0) {
+    result.warnings.push(`${failed} repertoire ${failed === 1 ? 'change' : 'changes'} could not be saved.`);
+  }
+  return localIds;
+}
+
+/** Re-key reviews to the pieces they were imported as; pieces that kept their id keep their review. */
+function remapReviews(reviews: ReviewLog, localIds: Map<string, string>): ReviewLog {
+  const remapped: ReviewLog = {};
+  for (const [pieceId, review] of Object.entries(reviews)) {
+    const localId = localIds.get(pieceId) ?? pieceId;
+    remapped[localId] = { ...review, pieceId: localId };
+  }
+  return remapped;
+}
+
+/**
+ * Apply a validated backup. `merge` keeps local data and adds what the backup
+ * has on top (logs merge like cloud sync; plans gain missing blocks by id;
+ * settings stay as they are). `replace` makes the local data match the
+ * backup, including settings and, when signed in, the repertoire.
+ */
+export async function importBackup(backup: PracticeBackup, mode: BackupImportMode): Promise<BackupImportResult> {
+  const result: BackupImportResult = { repertoireCreated: 0, repertoireUpdated: 0, repertoireDeleted: 0, warnings: [] };
+
+  importPlans(backup, mode);
+
+  const logState = {
+    log: backup.logs.overallLog,
+    detailedLog: backup.logs.detailedLog,
+    completions: backup.completions,
+    manualEntries: backup.logs.manualEntries,
+    tempoLog: backup.logs.tempoLog,
+  };
+  if (mode === 'replace') {
+    replacePracticeLogState(logState);
+    replaceSessionJournal(backup.logs.journal);
+    replaceSegmentLibrary(backup.segmentLibrary);
+    saveSettings({ ...DEFAULT_SETTINGS, ...backup.settings });
+  } else {
+    restorePracticeLogStateFromSync(logState);
+    restoreSessionJournalFromSync(backup.logs.journal);
+    const templates = getSegmentLibrary();
+    const ids = new Set(templates.map((t) => t.id));
+    replaceSegmentLibrary([...templates, ...backup.segmentLibrary.filter((t) => !ids.has(t.id))]);
+  }
+
+  const localIds = backup.repertoire ? await importRepertoire(backup.repertoire, mode, result) : new Map<string, string>();
+  if (backup.repertoireReviews) {
+    const reviews = remapReviews(backup.repertoireReviews, localIds);
+    if (mode === 'replace') replaceReviewLog(reviews);
+    else restoreReviewLogFromSync(reviews);
+  }
+
+  // Open editors reload from storage on a plan switch, even to the same plan
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(PLAN_SWITCHED_EVENT, { detail: { planId: getActivePlanId() } }));
+  }
+  scheduleUserDataPush();
+  return result;
+}
@@ -1,17 +1,24 @@
 // iOS Background Timer Implementation
 // This module provides reliable background timer functionality specifically for iOS devices
+import {
+  type TimerClock,
+  createTimerClock,
+  getRemainingSeconds,
+  parseTimerClock,
+  pauseClock,
+  startClock
+} from './timerClock';
 
 export interface iOSBackgroundTimerState {
   isRunning: boolean;
-  startTime: number | null;
-  duration: number;
+  /** Deadline clock the countdown is read from (see lib/timerClock). */
+  clock: TimerClock;
+  /** Last value read off the clock. */
   timeRemaining: number;
   mode: 'work' | 'break';
   currentIteration: number;
   totalIterations: number;
   lastUpdateTime: number;
-  lastSyncTime: number;
-  driftCorrection: number;
 }
 
 export interface iOSBackgroundTimerCallbacks {
@@ -37,15 +44,12 @@ class iOSBackgroundTimer {
   constructor(initialState: Partial<iOSBackgroundTimerState>, callbacks: iOSBackgroundTimerCallbacks = {}) {
     this.state = {
       isRunning: false,
-      startTime: null,
-      duration: 0,
+      clock: createTimerClock(0),
       timeRemaining: 0,
       mode: 'work',
       currentIteration: 1,
       totalIterations: 4,
       lastUpdateTime: Date.now(),
-      lastSyncTime: Date.now(),
-      driftCorrection: 0,
       ...initialState
     };
     this.callbacks = callbacks;
@@ -154,18 +158,16 @@ class iOSBackgroundTimer {
 
   // Start the background timer
   start(duration: number, mode: 'work' | 'break', currentIteration: number, totalIterations: number): void {
+    const now = Date.now();
     this.state = {
       ...this.state,
       isRunning: true,
-      startTime: Date.now(),
-      duration,
+      clock: startClock(createTimerClock(duration), now),
       timeRemaining: duration,
       mode,
       currentIteration,
       totalIterations,
-      lastUpdateTime: Date.now(),
-      lastSyncTime: Date.now(),
-      driftCorrection: 0
+      lastUpdateTime: now
     };
 
     this.isActive = true;
@@ -179,6 +181,9 @@ class iOSBackgroundTimer {
 
   // Pause the background timer
   pause(): void {
+    const now = Date.now();
+    this.state.clock = pauseClock(this.state.clock, now);
+    this.state.timeRemaining = getRemainingSeconds(this.state.clock, now);
     this.state.isRunning = false;
     this.isActive = false;
     
@@ -193,8 +198,9 @@ class iOSBackgroundTimer {
 
   // Resume the background timer
   resume(): void {
-    if (!this.state.startTime) return;
-    
+    if (this.state.isRunning || this.state.timeRemaining <= 0) return;
+
+    this.state.clock = startClock(this.state.clock, Date.now());
     this.state.isRunning = true;
     this.isActive = true;
     this.startInterval();
@@ -207,6 +213,7 @@ class iOSBackgroundTimer {
 
   // Stop the background timer
   stop(): void {
+    this.state.clock = pauseClock(this.state.clock, Date.now());
     this.state.isRunning = false;
     this.isActive = false;
     
@@ -218,9 +225,15 @@ class iOSBackgroundTimer {
     console.log('iOS Background timer stopped');
   }
 
-  // Update timer state
-  update(newState: Partial<iOSBackgroundTimerState>): void {
-    this.state = { ...this.state, ...newState };
+  // Update timer state. While running the clock owns the countdown, so a
+  // timeRemaining passed in is only taken when paused (it starts a new clock).
+  update(newState: Partial<Omit<iOSBackgroundTimerState, 'clock'>>): void {
+    const { timeRemaining, ...rest } = newState;
+    this.state = { ...this.state, ...rest };
+    if (timeRemaining !== undefined && !this.state.isRunning) {
+      this.state.clock = createTimerClock(timeRemaining);
+      this.state.timeRemaining = timeRemaining;
+    }
     this.persistState();
   }
 
@@ -229,46 +242,25 @@ class iOSBackgroundTimer {
     return { ...this.state };
   }
 
-  // Calculate accurate time remaining based on start time
+  // Time remaining read off the clock
   calculateTimeRemaining(): number {
-    if (!this.state.startTime || !this.state.isRunning) {
-      return this.state.timeRemaining;
-    }
-
-    const now = Date.now();
-    const elapsed = Math.floor((now - this.state.startTime) / 1000);
-    const remaining = Math.max(0, this.state.duration - elapsed);
-    
-    return remaining;
+    return getRemainingSeconds(this.state.clock, Date.now());
   }
 
-  // Sync with actual elapsed time (called when app becomes active)
+  // Read the clock and report it (called every second and when the app
+  // becomes active again, so time spent suspended is caught up at once)
   syncWithRealTime(): void {
-    if (this.state.isRunning && this.state.startTime) {
-      const actualTimeRemaining = this.calculateTimeRemaining();
-      const previousTimeRemaining = this.state.timeRemaining;
-      
-      // Calculate drift correction
-      const drift = actualTimeRemaining - previousTimeRemaining;
-      this.state.driftCorrection += drift;
-      
-      this.state.timeRemaining = actualTimeRemaining;
-      this.state.lastUpdateTime = Date.now();
-      this.state.lastSyncTime = Date.now();
-      
-      console.log('Timer synced with real time:', {
-        actualTimeRemaining,
-        previousTimeRemaining,
-        drift,
-        totalDriftCorrection: this.state.driftCorrection
-      });
-      
-      // Check if timer should be complete
-      if (actualTimeRemaining <= 0) {
-        this.complete();
-      } else {
-        this.persistState();
-      }
+    if (!this.state.isRunning) return;
+
+    const timeRemaining = this.calculateTimeRemaining();
+    this.state.timeRemaining = timeRemaining;
+    this.state.lastUpdateTime = Date.now();
+    this.callbacks.onTick?.(timeRemaining);
+
+    if (timeRemaining <= 0) {
+      this.complete();
+    } else {
+      this.persistState();
     }
   }
 
@@ -277,54 +269,20 @@ class iOSBackgroundTimer {
     this.stopInterval();
 
     this.intervalId = window.setInterval(() => {
-      if (!this.isActive || !this.state.isRunning) return;
-
-      const now = Date.now();
-      const elapsed = Math.floor((now - this.state.startTime!) / 1000);
-      const newTimeRemaining = Math.max(0, this.state.duration - elapsed);
-      
-      this.state.timeRemaining = newTimeRemaining;
-      this.state.lastUpdateTime = now;
-      
-      // Call tick callback
-      this.callbacks.onTick?.(newTimeRemaining);
-      
-      // Check if timer is complete
-      if (newTimeRemaining <= 0) {
-        this.complete();
-      } else {
-        this.persistState();
-      }
+      if (!this.isActive) return;
+      this.syncWithRealTime();
     }, 1000);
   }
 
-  // Start background interval for more frequent updates when app is backgrounded
+  // Keep reading the clock while backgrounded, in case the foreground
+  // interval is throttled harder than this one
   private startBackgroundInterval(): void {
     this.stopBackgroundInterval();
 
-    // Use more frequent updates when backgrounded (every 1 second instead of 1 second)
     this.backgroundIntervalId = window.setInterval(() => {
-      if (!this.isActive || !this.state.isRunning) return;
-
-      // Use timestamp-based calculation for more accuracy in background
-      const now = Date.now();
-      const elapsed = Math.floor((now - this.state.startTime!) / 1000);
-      const newTimeRemaining = Math.max(0, this.state.duration - elapsed);
-      
-      // Apply drift correction
-      const correctedTimeRemaining = Math.max(0, newTimeRemaining - this.state.driftCorrection);
-      
-      this.state.timeRemaining = correctedTimeRemaining;
-      this.state.lastUpdateTime = now;
-      
-      // Call onTick callback
-      this.callbacks.onTick?.(correctedTimeRemaining);
-      
-      // Check if timer should be complete
-      if (correctedTimeRemaining <= 0) {
-        this.complete();
-      }
-    }, 1000); // Update every second when backgrounded
+      if (!this.isActive) return;
+      this.syncWithRealTime();
+    }, 1000);
   }
 
   // Stop the main interval
@@ -345,6 +303,7 @@ class iOSBackgroundTimer {
 
   // Complete the timer
   private complete(): void {
+    this.state.clock = pauseClock(this.state.clock, Date.now());
     this.state.isRunning = false;
     this.state.timeRemaining = 0;
     
@@ -377,13 +336,23 @@ class iOSBackgroundTimer {
       if (persisted) {
         const parsedState = JSON.parse(persisted);
         delete parsedState.persistedAt; // Remove timestamp
-        this.state = { ...this.state, ...parsedState };
-        
-        // Sync with real time if timer was running
-        if (this.state.isRunning) {
-          this.syncWithRealTime();
+        // State saved before the shared clock has no deadline to resume from
+        const clock = parseTimerClock(parsedState.clock);
+        if (!clock) {
+          this.clearPersistedState();
+          return false;
         }
-        
+        // The store always restores paused, so the restored clock is paused too
+        const now = Date.now();
+        const pausedClock = pauseClock(clock, now);
+        this.state = {
+          ...this.state,
+          ...parsedState,
+          clock: pausedClock,
+          timeRemaining: getRemainingSeconds(pausedClock, now),
+          isRunning: false
+        };
+
         return true;
       }
     } catch (error) {
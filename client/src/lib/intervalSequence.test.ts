@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildLegacyIntervals,
+    getSequenceIntervals,
+    countWorkIntervals,
+    getIterationForIndex,
+    resolveIntervalIndex,
+    createSequenceFromSettings,
+    normalizeSequence,
+    isLongBreakAt,
+    IntervalSequence,
+} from './intervalSequence';
+
+const legacy = { workDuration: 20, breakDuration: 5, iterations: 3 };
+
+const custom: IntervalSequence = {
+    name: 'Warm-up routine',
+    blocks: [
+        { id: 'b1', repeat: 1, intervals: [{ id: 'warm', name: 'Warm-up', mode: 'work', duration: 10 }] },
+        {
+            id: 'b2',
+            repeat: 2,
+            intervals: [
+                { id: 'rep', name: 'Repertoire', mode: 'work', duration: 25 },
+                { id: 'rest', name: 'Rest', mode: 'break', duration: 5, soundType: 'bell' },
+            ],
+        },
+    ],
+};
+
+describe('intervalSequence', () => {
+    it('expands legacy settings into work sessions separated by breaks', () => {
+        const intervals = buildLegacyIntervals(legacy);
+        expect(intervals.map((i) => i.mode)).toEqual(['work', 'break', 'work', 'break', 'work']);
+        expect(intervals[0].duration).toBe(20);
+        expect(intervals[1].duration).toBe(5);
+    });
+
+    it('inserts a long break after every longBreakInterval sessions', () => {
+        const intervals = buildLegacyIntervals({ ...legacy, iterations: 5, longBreakInterval: 2, longBreakDuration: 15 });
+        const breaks = intervals.filter((i) => i.mode === 'break');
+        expect(breaks.map((b) => b.duration)).toEqual([5, 15, 5, 15]);
+        expect(breaks.map((b) => !!b.isLongBreak)).toEqual([false, true, false, true]);
+    });
+
+    it('never ends the cycle on a long break', () => {
+        const intervals = buildLegacyIntervals({ ...legacy, iterations: 4, longBreakInterval: 4, longBreakDuration: 15 });
+        expect(intervals.some((i) => i.isLongBreak)).toBe(false);
+        expect(intervals[intervals.length - 1].mode).toBe('work');
+    });
+
+    it('prefers the interval matching the saved long-break flag', () => {
+        const sequence: IntervalSequence = {
+            name: 'Two breaks',
+            blocks: [{
+                id: 'b',
+                repeat: 1,
+                intervals: [
+                    { id: 'w', name: 'Work', mode: 'work', duration: 20 },
+                    { id: 's', name: 'Short', mode: 'break', duration: 5 },
+                    { id: 'l', name: 'Long', mode: 'break', duration: 15, isLongBreak: true },
+                ],
+            }],
+        };
+        const intervals = getSequenceIntervals({ ...legacy, sequence });
+        expect(resolveIntervalIndex(intervals, undefined, 'break', 1, true)).toBe(2);
+        expect(resolveIntervalIndex(intervals, undefined, 'break', 1, false)).toBe(1);
+        expect(isLongBreakAt(intervals, 2)).toBe(true);
+    });
+
+    it('uses the legacy cycle when no sequence is set', () => {
+        expect(getSequenceIntervals({ ...legacy, sequence: null })).toHaveLength(5);
+    });
+
+    it('flattens block repeats of a custom sequence', () => {
+        const intervals = getSequenceIntervals({ ...legacy, sequence: custom });
+        expect(intervals.map((i) => i.name)).toEqual(['Warm-up', 'Repertoire', 'Rest', 'Repertoire', 'Rest']);
+        expect(countWorkIntervals(intervals)).toBe(3);
+    });
+
+    it('numbers work sessions by position', () => {
+        const intervals = getSequenceIntervals({ ...legacy, sequence: custom });
+        expect(getIterationForIndex(intervals, 0)).toBe(1);
+        expect(getIterationForIndex(intervals, 2)).toBe(2);
+        expect(getIterationForIndex(intervals, 3)).toBe(3);
+    });
+
+    it('resolves the interval index from mode and iteration when the stored index is stale', () => {
+        const intervals = buildLegacyIntervals(legacy);
+        expect(resolveIntervalIndex(intervals, 3, 'break', 2)).toBe(3);
+        expect(resolveIntervalIndex(intervals, undefined, 'break', 2)).toBe(3);
+        expect(resolveIntervalIndex(intervals, 0, 'work', 3)).toBe(4);
+        expect(resolveIntervalIndex(intervals, 99, 'work', 1)).toBe(0);
+    });
+
+    it('creates a sequence equivalent to the current settings', () => {
+        const sequence = createSequenceFromSettings(legacy);
+        const intervals = getSequenceIntervals({ ...legacy, sequence });
+        expect(intervals.map((i) => [i.mode, i.duration])).toEqual(
+            buildLegacyIntervals(legacy).map((i) => [i.mode, i.duration])
+        );
+    });
+
+    it('normalizes stored sequences and drops invalid data', () => {
+        expect(normalizeSequence(null)).toBeNull();
+        expect(normalizeSequence({ name: 'x', blocks: [] })).toBeNull();
+
+        const normalized = normalizeSequence({
+            name: 'Stored',
+            blocks: [{ id: 'b', repeat: 500, intervals: [{ name: 'Long', mode: 'other', duration: 9999 }] }],
+        });
+        expect(normalized?.blocks[0].repeat).toBe(20);
+        expect(normalized?.blocks[0].intervals[0].mode).toBe('work');
+        expect(normalized?.blocks[0].intervals[0].duration).toBe(180);
+        expect(normalized?.blocks[0].intervals[0].id).toBeTruthy();
+    });
+});
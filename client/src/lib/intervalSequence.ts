@@ -0,0 +1,242 @@
+/**
+ * Interval sequences - an ordered list of named intervals that replaces the
+ * fixed work/break/iterations cycle.
+ *
+ * A sequence is made of blocks; each block repeats its intervals `repeat`
+ * times, so "10 min warm-up, 3×(20 work + 5 break), 15 min long break" is
+ * three blocks. Settings without a custom sequence are expanded from
+ * workDuration/breakDuration/iterations (plus the optional long break every
+ * longBreakInterval sessions) so the worker and store only ever deal with a
+ * flat interval list.
+ *
+ * This module is imported by the timer worker, so it must stay free of DOM
+ * and localStorage access.
+ */
+
+export type IntervalMode = 'work' | 'break';
+
+export interface TimerInterval {
+  id: string;
+  name: string;
+  mode: IntervalMode;
+  /** Duration in minutes. */
+  duration: number;
+  /** Sound played when this interval ends; falls back to settings.soundType. */
+  soundType?: string;
+  /** Break intervals only: shown as a long break. */
+  isLongBreak?: boolean;
+}
+
+export interface SequenceBlock {
+  id: string;
+  /** How many times the block's intervals run back to back. */
+  repeat: number;
+  intervals: TimerInterval[];
+}
+
+export interface IntervalSequence {
+  name: string;
+  blocks: SequenceBlock[];
+}
+
+/** The subset of settings needed to resolve the active interval list. */
+export interface SequenceSettings {
+  workDuration: number;
+  breakDuration: number;
+  iterations: number;
+  /** Minutes; used every `longBreakInterval` work sessions. */
+  longBreakDuration?: number;
+  /** Work sessions between long breaks; 0 disables long breaks. */
+  longBreakInterval?: number;
+  sequence?: IntervalSequence | null;
+}
+
+export const MAX_INTERVAL_MINUTES = 180;
+export const MAX_BLOCK_REPEAT = 20;
+
+export function generateIntervalId(): string {
+  return `interval-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const n = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+/** True when a long break follows work session `iteration` (1-based). */
+export function isLongBreakIteration(settings: SequenceSettings, iteration: number): boolean {
+  const every = settings.longBreakInterval ?? 0;
+  return every > 0 && (settings.longBreakDuration ?? 0) > 0 && iteration % every === 0;
+}
+
+/**
+ * Classic Pomodoro cycle: N work sessions separated by breaks (no trailing
+ * break), with a long break after every `longBreakInterval`-th session.
+ */
+export function buildLegacyIntervals(settings: SequenceSettings): TimerInterval[] {
+  const iterations = Math.max(1, settings.iterations || 1);
+  const intervals: TimerInterval[] = [];
+  for (let i = 1; i <= iterations; i++) {
+    intervals.push({ id: `work-${i}`, name: `Work session ${i}`, mode: 'work', duration: settings.workDuration });
+    if (i < iterations) {
+      if (isLongBreakIteration(settings, i)) {
+        intervals.push({
+          id: `long-break-${i}`,
+          name: 'Long break',
+          mode: 'break',
+          duration: settings.longBreakDuration as number,
+          isLongBreak: true,
+        });
+      } else {
+        intervals.push({ id: `break-${i}`, name: 'Break', mode: 'break', duration: settings.breakDuration });
+      }
+    }
+  }
+  return intervals;
+}
+
+/** Flatten a sequence's blocks (with repeats) into the list of intervals to run. */
+export function expandSequence(sequence: IntervalSequence): TimerInterval[] {
+  const result: TimerInterval[] = [];
+  for (const block of sequence.blocks) {
+    const repeat = Math.max(1, block.repeat || 1);
+    for (let r = 0; r < repeat; r++) {
+      for (const interval of block.intervals) {
+        if (interval.duration > 0) {
+          result.push(interval);
+        }
+      }
+    }
+  }
+  return result;
+}
+
+/** Intervals for the given settings — the custom sequence if set, else the legacy cycle. */
+export function getSequenceIntervals(settings: SequenceSettings): TimerInterval[] {
+  if (settings.sequence) {
+    const expanded = expandSequence(settings.sequence);
+    if (expanded.length > 0) return expanded;
+  }
+  return buildLegacyIntervals(settings);
+}
+
+/** Number of work intervals — what the UI calls "iterations". */
+export function countWorkIntervals(intervals: TimerInterval[]): number {
+  return Math.max(1, intervals.filter((i) => i.mode === 'work').length);
+}
+
+/** 1-based work-session number shown for the interval at `index`. */
+export function getIterationForIndex(intervals: TimerInterval[], index: number): number {
+  let count = 0;
+  for (let i = 0; i <= index && i < intervals.length; i++) {
+    if (intervals[i].mode === 'work') count++;
+  }
+  return Math.max(1, count);
+}
+
+export function isLongBreakAt(intervals: TimerInterval[], index: number): boolean {
+  const interval = intervals[index];
+  return !!interval && interval.mode === 'break' && !!interval.isLongBreak;
+}
+
+export function getIntervalSeconds(intervals: TimerInterval[], index: number): number {
+  const interval = intervals[index] ?? intervals[0];
+  return interval ? interval.duration * 60 : 0;
+}
+
+/**
+ * Find the interval the timer is on. `index` is trusted when it is in range
+ * and agrees with `mode`/`iteration` (and `isLongBreak` when given);
+ * otherwise (older saved progress, or a sequence edited mid-session) the
+ * closest matching interval is used.
+ */
+export function resolveIntervalIndex(
+  intervals: TimerInterval[],
+  index: number | undefined,
+  mode: IntervalMode,
+  iteration: number,
+  isLongBreak?: boolean
+): number {
+  if (intervals.length === 0) return 0;
+  const matchesPosition = (i: number) =>
+    intervals[i].mode === mode && getIterationForIndex(intervals, i) === iteration;
+  const matches = (i: number) =>
+    matchesPosition(i) &&
+    (isLongBreak === undefined || mode !== 'break' || isLongBreakAt(intervals, i) === isLongBreak);
+  if (index !== undefined && index >= 0 && index < intervals.length && matches(index)) {
+    return index;
+  }
+  const exact = intervals.findIndex((_, i) => matches(i));
+  if (exact !== -1) return exact;
+  const byIteration = intervals.findIndex((_, i) => matchesPosition(i));
+  if (byIteration !== -1) return byIteration;
+  const byMode = intervals.findIndex((interval) => interval.mode === mode);
+  return byMode !== -1 ? byMode : 0;
+}
+
+/** Starting point for the sequence editor, equivalent to the current three-number setup. */
+export function createSequenceFromSettings(settings: SequenceSettings): IntervalSequence {
+  const iterations = Math.max(1, settings.iterations || 1);
+  const legacy = buildLegacyIntervals(settings);
+  if (legacy.some((i) => i.isLongBreak)) {
+    // Long breaks break the simple repeat pattern; spell the cycle out instead
+    const intervals = legacy.map((i) => ({
+      ...i,
+      id: generateIntervalId(),
+      name: i.mode === 'work' ? 'Work' : i.name,
+    }));
+    return { name: 'My sequence', blocks: [{ id: generateIntervalId(), repeat: 1, intervals }] };
+  }
+  const work = (): TimerInterval => ({
+    id: generateIntervalId(),
+    name: 'Work',
+    mode: 'work',
+    duration: settings.workDuration,
+  });
+  const blocks: SequenceBlock[] = [];
+  if (iterations > 1) {
+    blocks.push({
+      id: generateIntervalId(),
+      repeat: iterations - 1,
+      intervals: [
+        work(),
+        { id: generateIntervalId(), name: 'Break', mode: 'break', duration: settings.breakDuration },
+      ],
+    });
+  }
+  blocks.push({ id: generateIntervalId(), repeat: 1, intervals: [work()] });
+  return { name: 'My sequence', blocks };
+}
+
+/**
+ * Validate a sequence read from storage. Returns null when nothing usable is
+ * left so callers fall back to the legacy cycle.
+ */
+export function normalizeSequence(raw: unknown): IntervalSequence | null {
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as IntervalSequence).blocks)) {
+    return null;
+  }
+  const source = raw as IntervalSequence;
+  const blocks: SequenceBlock[] = [];
+  for (const rawBlock of source.blocks) {
+    if (!rawBlock || !Array.isArray(rawBlock.intervals)) continue;
+    const intervals: TimerInterval[] = rawBlock.intervals
+      .filter((i) => i && typeof i === 'object')
+      .map((i) => ({
+        id: typeof i.id === 'string' && i.id ? i.id : generateIntervalId(),
+        name: typeof i.name === 'string' ? i.name : '',
+        mode: i.mode === 'break' ? 'break' : 'work',
+        duration: clampInt(i.duration, 1, MAX_INTERVAL_MINUTES, 1),
+        ...(typeof i.soundType === 'string' && i.soundType ? { soundType: i.soundType } : {}),
+        ...(i.mode === 'break' && i.isLongBreak === true ? { isLongBreak: true } : {}),
+      }));
+    if (intervals.length === 0) continue;
+    blocks.push({
+      id: typeof rawBlock.id === 'string' && rawBlock.id ? rawBlock.id : generateIntervalId(),
+      repeat: clampInt(rawBlock.repeat, 1, MAX_BLOCK_REPEAT, 1),
+      intervals,
+    });
+  }
+  if (blocks.length === 0) return null;
+  return { name: typeof source.name === 'string' ? source.name : 'My sequence', blocks };
+}
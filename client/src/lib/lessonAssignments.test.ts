@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { PlanItem } from './planTypes';
+import type { LessonAssignment } from './teacher.types';
+import { getLessonPlan, saveLessonPlan } from './lessonPlan';
+import {
+    addAssignmentToLessonPlan,
+    applyAssignment,
+    getAssignmentStatus,
+    prepareAssignmentItems,
+    summarizeAssignmentProgress,
+} from './lessonAssignments';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const item = (id: string, text: string, extra: Partial<PlanItem> = {}): PlanItem => ({
+    id, text, checked: false, children: [], blockType: 'segment', ...extra,
+});
+
+const assignment = (items: PlanItem[], updatedAt = '2026-03-02T10:00:00Z'): LessonAssignment => ({
+    id: 'a1', teacher_id: 't', student_id: 's', title: 'Lesson Mar 2', items,
+    created_at: '2026-03-02T10:00:00Z', updated_at: updatedAt,
+});
+
+describe('lessonAssignments', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+    });
+
+    it('copies items for sending with fresh ids and without checks or personal links', () => {
+        const source = [
+            item('s1', 'Scales', { checked: true, checkedDate: '2026-03-01T10:00:00Z', repertoirePieceId: 'p', segmentTemplateId: 't', allocatedTime: 10 }),
+            item('h', 'From my own teacher', { assignmentId: 'other', isHeader: true, blockType: 'heading1' }),
+        ];
+        const [copy, ...rest] = prepareAssignmentItems(source);
+        expect(rest).toEqual([]);
+        expect(copy.id).not.toBe('s1');
+        expect(copy).toMatchObject({ text: 'Scales', checked: false, allocatedTime: 10 });
+        expect(copy.repertoirePieceId).toBeUndefined();
+        expect(copy.segmentTemplateId).toBeUndefined();
+    });
+
+    it('adds an assignment as a section on top and updates it in place, keeping checks', () => {
+        const own = item('mine', 'My notes', { blockType: 'todo' });
+        const first = applyAssignment([own], assignment([item('s1', 'Scales'), item('s2', 'Etude')]));
+        expect(first.map((i) => i.text)).toEqual(['Lesson Mar 2', 'My notes']);
+        expect(first[0]).toMatchObject({ assignmentId: 'a1', isHeader: true });
+
+        const checked = first.map((i) =>
+            i.assignmentId ? { ...i, children: i.children.map((c) => (c.id === 's1' ? { ...c, checked: true, checkedDate: 'x' } : c)) } : i
+        );
+        const updated = applyAssignment(checked, assignment([item('s1', 'Scales in thirds'), item('s3', 'Sonata')]));
+        expect(updated).toHaveLength(2);
+        expect(updated[0].id).toBe(first[0].id);
+        expect(updated[0].children.map((c) => [c.text, c.checked])).toEqual([['Scales in thirds', true], ['Sonata', false]]);
+    });
+
+    it('reports an assignment as new, added, or updated since it was added', () => {
+        const sent = assignment([item('s1', 'Scales')]);
+        expect(getAssignmentStatus(sent, getLessonPlan())).toBe('new');
+
+        saveLessonPlan([]);
+        addAssignmentToLessonPlan(sent);
+        expect(getAssignmentStatus(sent, getLessonPlan())).toBe('added');
+        expect(getAssignmentStatus({ ...sent, updated_at: '2026-03-03T10:00:00Z' }, getLessonPlan())).toBe('updated');
+    });
+
+    it('summarizes time practiced and checks on the assigned items', () => {
+        const sent = assignment([item('s1', 'Scales'), item('s2', 'Etude'), item('h', 'Notes', { isHeader: true, blockType: 'heading2' })]);
+        const plan = applyAssignment([], sent).map((section) => ({
+            ...section,
+            children: section.children.map((c) => (c.id === 's2' ? { ...c, checked: true } : c)),
+        }));
+        const log = {
+            '2026-03-03': { s1: { itemId: 's1', itemName: 'Scales', seconds: 600 } },
+            '2026-03-05': { s1: { itemId: 's1', itemName: 'Scales', seconds: 300 }, other: { itemId: 'other', itemName: 'x', seconds: 999 } },
+        };
+
+        const summary = summarizeAssignmentProgress(sent, plan, log);
+        expect(summary.totalSeconds).toBe(900);
+        expect(summary.items).toEqual([
+            { itemId: 's1', itemName: 'Scales', seconds: 900, daysPracticed: 2, lastPracticed: '2026-03-05', checked: false },
+            { itemId: 's2', itemName: 'Etude', seconds: 0, daysPracticed: 0, lastPracticed: null, checked: true },
+        ]);
+    });
+});
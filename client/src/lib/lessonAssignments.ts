@@ -0,0 +1,173 @@
+/**
+ * Lesson assignments - Lesson Plan sections a teacher sends to a linked
+ * student. The student adds each assignment to their Lesson Plan as a heading
+ * tagged with `assignmentId`; adding it again after the teacher changed it
+ * replaces the section but keeps the student's checks. Time practiced on the
+ * assigned items is summarized from the practice log and reported back.
+ */
+import type { PlanItem } from './planTypes';
+import { generateId } from './planTypes';
+import { LESSON_PLAN_REPLACED_EVENT, getLessonPlan, saveLessonPlan } from './lessonPlan';
+import { type DetailedPracticeLog, getDetailedPracticeLog } from './practiceLog';
+import { scheduleUserDataPush } from './userDataSync';
+import { teacherService } from './teacherService';
+import type { AssignmentProgressSummary, LessonAssignment } from './teacher.types';
+
+const APPLIED_ASSIGNMENTS_KEY = 'practice-timer-applied-assignments';
+
+export type AssignmentStatus = 'new' | 'updated' | 'added';
+
+/**
+ * Copy plan items for sending: fresh ids (so the same lesson can be sent twice
+ * without clashing), no checks, and no links into the teacher's own
+ * repertoire or segment library.
+ */
+export function prepareAssignmentItems(items: PlanItem[]): PlanItem[] {
+  return items
+    .filter((item) => !item.assignmentId)
+    .map((item) => ({
+      ...item,
+      id: generateId(),
+      checked: false,
+      checkedDate: undefined,
+      repertoirePieceId: undefined,
+      segmentTemplateId: undefined,
+      children: prepareAssignmentItems(item.children ?? []),
+    }));
+}
+
+export function findAssignmentSection(plan: PlanItem[], assignmentId: string): PlanItem | undefined {
+  return plan.find((item) => item.assignmentId === assignmentId);
+}
+
+function collectChecks(items: PlanItem[], into: Map<string, PlanItem>): Map<string, PlanItem> {
+  for (const item of items) {
+    if (item.checked) into.set(item.id, item);
+    collectChecks(item.children ?? [], into);
+  }
+  return into;
+}
+
+function restoreChecks(items: PlanItem[], checks: Map<string, PlanItem>): PlanItem[] {
+  return items.map((item) => {
+    const previous = checks.get(item.id);
+    return {
+      ...item,
+      checked: !!previous,
+      checkedDate: previous?.checkedDate,
+      children: restoreChecks(item.children ?? [], checks),
+    };
+  });
+}
+
+/**
+ * Add an assignment to the top of the Lesson Plan, or replace the section it
+ * was added as before, keeping checks on items that are still there.
+ */
+export function applyAssignment(plan: PlanItem[], assignment: LessonAssignment): PlanItem[] {
+  const existing = findAssignmentSection(plan, assignment.id);
+  const section: PlanItem = {
+    id: existing?.id ?? generateId(),
+    text: assignment.title,
+    checked: false,
+    children: restoreChecks(assignment.items ?? [], collectChecks(existing?.children ?? [], new Map())),
+    blockType: 'heading1',
+    isHeader: true,
+    assignmentId: assignment.id,
+  };
+  return existing
+    ? plan.map((item) => (item === existing ? section : item))
+    : [section, ...plan];
+}
+
+/** Write an assignment into the stored Lesson Plan and tell an open editor to reload. */
+export function addAssignmentToLessonPlan(assignment: LessonAssignment): void {
+  saveLessonPlan(applyAssignment(getLessonPlan(), assignment));
+  markAssignmentApplied(assignment);
+  scheduleUserDataPush();
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(LESSON_PLAN_REPLACED_EVENT));
+  }
+}
+
+/** The assignment's `updated_at` as of when it was last added, per assignment. */
+export function getAppliedAssignments(): Record<string, string> {
+  try {
+    const stored = localStorage.getItem(APPLIED_ASSIGNMENTS_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.error('Failed to load applied assignments:', e);
+    return {};
+  }
+}
+
+export function markAssignmentApplied(assignment: LessonAssignment): void {
+  try {
+    const applied = { ...getAppliedAssignments(), [assignment.id]: assignment.updated_at };
+    localStorage.setItem(APPLIED_ASSIGNMENTS_KEY, JSON.stringify(applied));
+  } catch (e) {
+    console.error('Failed to save applied assignments:', e);
+  }
+}
+
+/**
+ * New until the assignment is in the Lesson Plan; updated when the teacher
+ * changed it after it was added on this device.
+ */
+export function getAssignmentStatus(
+  assignment: LessonAssignment,
+  plan: PlanItem[],
+  applied: Record<string, string> = getAppliedAssignments()
+): AssignmentStatus {
+  if (!findAssignmentSection(plan, assignment.id)) return 'new';
+  const appliedAt = applied[assignment.id];
+  return appliedAt && appliedAt < assignment.updated_at ? 'updated' : 'added';
+}
+
+/**
+ * Time practiced on each assigned item (from the practice log, by item id)
+ * and whether the student checked it off in their Lesson Plan.
+ */
+export function summarizeAssignmentProgress(
+  assignment: LessonAssignment,
+  plan: PlanItem[],
+  log: DetailedPracticeLog
+): AssignmentProgressSummary {
+  const checks = collectChecks(findAssignmentSection(plan, assignment.id)?.children ?? [], new Map());
+  const items: AssignmentProgressSummary['items'] = [];
+  const walk = (list: PlanItem[]) => {
+    for (const item of list) {
+      if (!item.isHeader && item.blockType !== 'divider' && item.text.trim()) {
+        let seconds = 0;
+        let daysPracticed = 0;
+        let lastPracticed: string | null = null;
+        for (const [day, entries] of Object.entries(log)) {
+          const entry = entries[item.id];
+          if (!entry || entry.seconds <= 0) continue;
+          seconds += entry.seconds;
+          daysPracticed += 1;
+          if (!lastPracticed || day > lastPracticed) lastPracticed = day;
+        }
+        items.push({ itemId: item.id, itemName: item.text, seconds, daysPracticed, lastPracticed, checked: checks.has(item.id) });
+      }
+      walk(item.children ?? []);
+    }
+  };
+  walk(assignment.items ?? []);
+  return { totalSeconds: items.reduce((sum, item) => sum + item.seconds, 0), items };
+}
+
+/** Report practice on every assignment that is in the Lesson Plan to the teacher who sent it. */
+export async function reportAssignmentProgress(assignments: LessonAssignment[]): Promise<void> {
+  const plan = getLessonPlan();
+  const log = getDetailedPracticeLog();
+  for (const assignment of assignments) {
+    if (!findAssignmentSection(plan, assignment.id)) continue;
+    try {
+      await teacherService.reportProgress(assignment.id, summarizeAssignmentProgress(assignment, plan, log));
+    } catch (e) {
+      console.error('Failed to report assignment progress:', e);
+    }
+  }
+}
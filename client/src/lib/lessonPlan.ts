@@ -8,6 +8,7 @@ import {
   getPlanFromStorage,
   savePlanToStorage,
   savePlanSnapshot,
+  savePlanSnapshots,
   getPlanSnapshots,
   resetPlanChecks,
 } from "./planStoreHelpers";
@@ -17,6 +18,9 @@ const PERMANENT_SHARE_ID_KEY = "practice-timer-share-id";
 const LAST_PUBLISHED_DATE_KEY = "practice-timer-last-published-date";
 const SNAPSHOT_KEY = "practice-timer-lesson-plan-history";
 
+/** Fired on window when the Lesson Plan is rewritten outside the editor, so an open editor reloads. */
+export const LESSON_PLAN_REPLACED_EVENT = "lesson-plan-replaced";
+
 export type { BlockType, PlanItem as LessonPlanItem, PlanSnapshot as LessonPlanSnapshot } from "./planTypes";
 
 function generateDefaultLessonPlan(): PlanItem[] {
@@ -63,6 +67,10 @@ export function getLessonSnapshots(): PlanSnapshot[] {
   return getPlanSnapshots(SNAPSHOT_KEY);
 }
 
+export function saveLessonSnapshots(snapshots: PlanSnapshot[]): void {
+  savePlanSnapshots(SNAPSHOT_KEY, snapshots);
+}
+
 export function resetLessonPlanChecks(items: PlanItem[]): PlanItem[] {
   return resetPlanChecks(items);
 }
@@ -1,4 +1,7 @@
 import { SettingsType, DEFAULT_SETTINGS } from './timerService';
+import { normalizeSequence } from './intervalSequence';
+import { DEFAULT_SOUND_ID, isSoundId } from './soundPacks';
+import { normalizeWarnings } from './warningChimes';
 
 const SETTINGS_KEY = 'practice-timer-settings';
 const TIMER_PROGRESS_KEY = 'practice-timer-progress';
@@ -10,6 +13,10 @@ export interface TimerProgress {
   currentIteration: number;
   totalIterations: number;
   isPracticeComplete: boolean;
+  /** Position in the flattened interval sequence; absent in progress saved by older versions. */
+  intervalIndex?: number;
+  /** Whether the saved break is a long break, so restore picks the matching interval. */
+  isLongBreak?: boolean;
   // isRunning is intentionally omitted — we always restore as paused
 }
 
@@ -50,9 +57,11 @@ export function getSettings(): SettingsType {
         ...DEFAULT_SETTINGS,
         ...parsedSettings,
       };
-      if (!['beep', 'bell', 'chime', 'digital', 'woodpecker'].includes(result.soundType)) {
-        result.soundType = 'beep';
+      if (!isSoundId(result.soundType)) {
+        result.soundType = DEFAULT_SOUND_ID;
       }
+      result.sequence = normalizeSequence(result.sequence);
+      result.warnings = normalizeWarnings(result.warnings);
       return result;
     }
     return DEFAULT_SETTINGS;
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+    collectTicks,
+    getTapTempo,
+    getTickInterval,
+    getTickLevel,
+    normalizeMetronomeSettings,
+} from './metronome';
+
+describe('metronome', () => {
+    it('normalizes settings and resizes the accent pattern to the bar', () => {
+        const settings = normalizeMetronomeSettings({ tempo: 1000, beatsPerBar: 3, accents: ['normal', 'mute'] });
+        expect(settings.tempo).toBe(300);
+        expect(settings.accents).toEqual(['normal', 'mute', 'normal']);
+        expect(normalizeMetronomeSettings({ beatsPerBar: 2 }).accents).toEqual(['accent', 'normal']);
+    });
+
+    it('spaces ticks by tempo and subdivision', () => {
+        expect(getTickInterval(normalizeMetronomeSettings({ tempo: 120 }))).toBeCloseTo(0.5);
+        expect(getTickInterval(normalizeMetronomeSettings({ tempo: 120, subdivision: 4 }))).toBeCloseTo(0.125);
+    });
+
+    it('accents beat one, plays subdivisions softer and silences muted beats', () => {
+        const settings = normalizeMetronomeSettings({
+            beatsPerBar: 3,
+            accents: ['accent', 'mute', 'normal'],
+            subdivision: 2,
+        });
+        const levels = Array.from({ length: 8 }, (_, tick) => getTickLevel(tick, settings));
+        expect(levels).toEqual(['accent', 'subdivision', 'mute', 'mute', 'normal', 'subdivision', 'accent', 'subdivision']);
+    });
+
+    it('collects the ticks due in a scheduling window and continues from there', () => {
+        const settings = normalizeMetronomeSettings({ tempo: 60, beatsPerBar: 2 });
+        const first = collectTicks(0, 10, 11.5, settings);
+        expect(first.ticks.map((t) => [t.tick, t.time, t.level])).toEqual([
+            [0, 10, 'accent'],
+            [1, 11, 'normal'],
+        ]);
+
+        const second = collectTicks(first.nextTick, first.nextTime, 12.5, settings);
+        expect(second.ticks).toEqual([{ tick: 2, time: 12, level: 'accent' }]);
+        expect(collectTicks(second.nextTick, second.nextTime, 12.9, settings).ticks).toEqual([]);
+    });
+
+    it('derives tap tempo from the recent taps', () => {
+        expect(getTapTempo([1000])).toBeNull();
+        expect(getTapTempo([0, 500, 1000, 1500])).toBe(120);
+        // Only the last five taps count
+        expect(getTapTempo([0, 2000, 2750, 3500, 4250, 5000])).toBe(80);
+    });
+});
@@ -0,0 +1,263 @@
+/**
+ * Metronome - Web Audio click track on the shared AudioContext.
+ *
+ * Clicks are scheduled ahead of time on the audio clock (a short lookahead
+ * timer tops up the next ~100ms of ticks), so timing stays sample-accurate
+ * even when the main thread is busy. A "tick" is one subdivision; with
+ * subdivision 1 every tick is a beat.
+ */
+import { getAudioContext, getNormalizedVolume, unlockAudioContext } from './soundEffects';
+
+const METRONOME_SETTINGS_KEY = 'practice-timer-metronome';
+
+export const MIN_TEMPO = 20;
+export const MAX_TEMPO = 300;
+
+/** How often the scheduler wakes up, and how far ahead it schedules. */
+const LOOKAHEAD_MS = 25;
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+const CLICK_SECONDS = 0.03;
+
+export type BeatAccent = 'accent' | 'normal' | 'mute';
+export type MetronomeSubdivision = 1 | 2 | 3 | 4;
+export type TickLevel = BeatAccent | 'subdivision';
+
+export interface MetronomeSettings {
+  /** Beats per minute. */
+  tempo: number;
+  beatsPerBar: number;
+  /** Note value of one beat, only used to display the meter (e.g. 6/8). */
+  beatUnit: 2 | 4 | 8;
+  /** One entry per beat of the bar. */
+  accents: BeatAccent[];
+  subdivision: MetronomeSubdivision;
+  volume: number; // 0-100
+}
+
+export interface MetronomeStatus {
+  running: boolean;
+  settings: MetronomeSettings;
+  /** Beat of the bar (0-based) that is sounding now; -1 when stopped. */
+  beat: number;
+}
+
+export interface ScheduledTick {
+  tick: number;
+  time: number;
+  level: TickLevel;
+}
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  tempo: 80,
+  beatsPerBar: 4,
+  beatUnit: 4,
+  accents: ['accent', 'normal', 'normal', 'normal'],
+  subdivision: 1,
+  volume: 60,
+};
+
+export function clampTempo(tempo: number): number {
+  if (!Number.isFinite(tempo)) return DEFAULT_METRONOME_SETTINGS.tempo;
+  return Math.min(MAX_TEMPO, Math.max(MIN_TEMPO, Math.round(tempo)));
+}
+
+/** Fill in defaults and keep the accent pattern as long as the bar. */
+export function normalizeMetronomeSettings(settings: Partial<MetronomeSettings>): MetronomeSettings {
+  const beatsPerBar = Math.min(16, Math.max(1, Math.round(settings.beatsPerBar ?? DEFAULT_METRONOME_SETTINGS.beatsPerBar)));
+  const accents = Array.from({ length: beatsPerBar }, (_, i): BeatAccent => {
+    const accent = settings.accents?.[i];
+    if (accent === 'accent' || accent === 'normal' || accent === 'mute') return accent;
+    return i === 0 ? 'accent' : 'normal';
+  });
+  const subdivision = ([1, 2, 3, 4] as const).find((s) => s === settings.subdivision) ?? 1;
+  const beatUnit = ([2, 4, 8] as const).find((u) => u === settings.beatUnit) ?? 4;
+  return {
+    tempo: clampTempo(settings.tempo ?? DEFAULT_METRONOME_SETTINGS.tempo),
+    beatsPerBar,
+    beatUnit,
+    accents,
+    subdivision,
+    volume: Math.min(100, Math.max(0, settings.volume ?? DEFAULT_METRONOME_SETTINGS.volume)),
+  };
+}
+
+export function getMetronomeSettings(): MetronomeSettings {
+  try {
+    const stored = localStorage.getItem(METRONOME_SETTINGS_KEY);
+    return normalizeMetronomeSettings(stored ? JSON.parse(stored) : {});
+  } catch (e) {
+    console.error('Failed to load metronome settings:', e);
+    return normalizeMetronomeSettings({});
+  }
+}
+
+function saveMetronomeSettings(settings: MetronomeSettings): void {
+  try {
+    localStorage.setItem(METRONOME_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save metronome settings:', e);
+  }
+}
+
+/** Seconds between two ticks (subdivisions). */
+export function getTickInterval(settings: MetronomeSettings): number {
+  return 60 / settings.tempo / settings.subdivision;
+}
+
+export function getTickLevel(tick: number, settings: MetronomeSettings): TickLevel {
+  const beat = Math.floor(tick / settings.subdivision) % settings.beatsPerBar;
+  const accent = settings.accents[beat] ?? 'normal';
+  if (accent === 'mute') return 'mute';
+  return tick % settings.subdivision === 0 ? accent : 'subdivision';
+}
+
+/**
+ * Ticks due before `until`, starting with tick number `tick` at `time`.
+ * Returns them with the tick and time the next call should continue from.
+ */
+export function collectTicks(
+  tick: number,
+  time: number,
+  until: number,
+  settings: MetronomeSettings
+): { ticks: ScheduledTick[]; nextTick: number; nextTime: number } {
+  const ticks: ScheduledTick[] = [];
+  const interval = getTickInterval(settings);
+  while (time < until) {
+    ticks.push({ tick, time, level: getTickLevel(tick, settings) });
+    tick += 1;
+    time += interval;
+  }
+  return { ticks, nextTick: tick, nextTime: time };
+}
+
+/** Tempo from tapped timestamps (ms); uses the last few taps. */
+export function getTapTempo(taps: number[]): number | null {
+  const recent = taps.slice(-5);
+  if (recent.length < 2) return null;
+  const span = recent[recent.length - 1] - recent[0];
+  if (span <= 0) return null;
+  return clampTempo((60000 * (recent.length - 1)) / span);
+}
+
+// --- Engine ---
+
+let settings: MetronomeSettings = getMetronomeSettings();
+let schedulerId: ReturnType<typeof setInterval> | null = null;
+let nextTick = 0;
+let nextTickTime = 0;
+let currentBeat = -1;
+const beatTimeouts = new Set<ReturnType<typeof setTimeout>>();
+const listeners = new Set<(status: MetronomeStatus) => void>();
+
+export function getMetronomeStatus(): MetronomeStatus {
+  return { running: schedulerId !== null, settings, beat: currentBeat };
+}
+
+function notify(): void {
+  const status = getMetronomeStatus();
+  listeners.forEach((listener) => listener(status));
+}
+
+/** Listen for start/stop, settings and beat changes. Returns the unsubscribe function. */
+export function subscribeMetronome(listener: (status: MetronomeStatus) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function scheduleClick(ctx: AudioContext, time: number, level: TickLevel): void {
+  if (level === 'mute') return;
+  const frequency = level === 'accent' ? 1760 : level === 'normal' ? 1320 : 880;
+  const peak = getNormalizedVolume(settings.volume) * (level === 'subdivision' ? 0.5 : 1);
+  if (peak <= 0) return;
+
+  const oscillator = ctx.createOscillator();
+  const gainNode = ctx.createGain();
+  oscillator.type = level === 'accent' ? 'square' : 'sine';
+  oscillator.frequency.setValueAtTime(frequency, time);
+  gainNode.gain.setValueAtTime(0.0001, time);
+  gainNode.gain.exponentialRampToValueAtTime(Math.max(0.0002, peak), time + 0.002);
+  gainNode.gain.exponentialRampToValueAtTime(0.0001, time + CLICK_SECONDS);
+
+  oscillator.connect(gainNode);
+  gainNode.connect(ctx.destination);
+  oscillator.start(time);
+  oscillator.stop(time + CLICK_SECONDS + 0.01);
+}
+
+/** Update the beat indicator when a scheduled beat actually sounds. */
+function scheduleBeatNotice(ctx: AudioContext, tick: number, time: number): void {
+  if (tick % settings.subdivision !== 0) return;
+  const beat = Math.floor(tick / settings.subdivision) % settings.beatsPerBar;
+  const timeoutId = setTimeout(() => {
+    beatTimeouts.delete(timeoutId);
+    currentBeat = beat;
+    notify();
+  }, Math.max(0, (time - ctx.currentTime) * 1000));
+  beatTimeouts.add(timeoutId);
+}
+
+function runScheduler(): void {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+  // After a stall (e.g. a suspended context) restart from now instead of bursting
+  if (nextTickTime < ctx.currentTime - SCHEDULE_AHEAD_SECONDS) {
+    nextTickTime = ctx.currentTime + 0.05;
+  }
+  const result = collectTicks(nextTick, nextTickTime, ctx.currentTime + SCHEDULE_AHEAD_SECONDS, settings);
+  result.ticks.forEach(({ tick, time, level }) => {
+    scheduleClick(ctx, time, level);
+    scheduleBeatNotice(ctx, tick, time);
+  });
+  nextTick = result.nextTick;
+  nextTickTime = result.nextTime;
+}
+
+export function startMetronome(): boolean {
+  if (schedulerId !== null) return true;
+  // Called from a click handler, so this also unlocks audio on iOS
+  unlockAudioContext();
+  const ctx = getAudioContext();
+  if (!ctx) return false;
+
+  nextTick = 0;
+  nextTickTime = ctx.currentTime + 0.05;
+  runScheduler();
+  schedulerId = setInterval(runScheduler, LOOKAHEAD_MS);
+  notify();
+  return true;
+}
+
+export function stopMetronome(): void {
+  if (schedulerId === null) return;
+  clearInterval(schedulerId);
+  schedulerId = null;
+  beatTimeouts.forEach((id) => clearTimeout(id));
+  beatTimeouts.clear();
+  currentBeat = -1;
+  notify();
+}
+
+export function toggleMetronome(): boolean {
+  if (schedulerId !== null) {
+    stopMetronome();
+    return false;
+  }
+  return startMetronome();
+}
+
+/**
+ * Change settings, live if running. A new meter or subdivision restarts
+ * the bar on the next tick so the accent lands on beat one.
+ */
+export function setMetronomeSettings(update: Partial<MetronomeSettings>): MetronomeSettings {
+  const next = normalizeMetronomeSettings({ ...settings, ...update });
+  const barChanged = next.beatsPerBar !== settings.beatsPerBar || next.subdivision !== settings.subdivision;
+  settings = next;
+  if (barChanged) nextTick = 0;
+  saveMetronomeSettings(next);
+  notify();
+  return next;
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    DEFAULT_PLAN_ID,
+    getPlanLibrary,
+    createPlan,
+    renamePlan,
+    duplicatePlan,
+    archivePlan,
+    unarchivePlan,
+    switchActivePlan,
+    getPlanItems,
+    getPlanLibraryStateForSync,
+    restorePlanLibraryFromSync,
+} from './planLibrary';
+import { getPracticePlan, practicePlanApi } from './practicePlan';
+import type { PlanItem } from './planTypes';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+vi.mock('./userDataSync', () => ({
+    scheduleUserDataPush: vi.fn(),
+}));
+
+const item = (id: string, text: string, checked = false): PlanItem => ({
+    id, text, checked, children: [], blockType: 'todo', isHeader: false,
+});
+
+describe('planLibrary', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+        vi.clearAllMocks();
+    });
+
+    it('starts with the legacy plan as the active default plan', () => {
+        localStorageMock.setItem('practice-timer-plan', JSON.stringify([item('a', 'Scales')]));
+        const library = getPlanLibrary();
+        expect(library.activePlanId).toBe(DEFAULT_PLAN_ID);
+        expect(library.plans).toHaveLength(1);
+        expect(getPracticePlan().map((i) => i.text)).toEqual(['Scales']);
+    });
+
+    it('keeps each plan in its own storage slot and follows the active plan', () => {
+        practicePlanApi.save([item('a', 'Scales')]);
+        const recital = createPlan('Recital prep', [item('b', 'Sonata')]);
+
+        expect(switchActivePlan(recital.id)).toBe(true);
+        expect(getPracticePlan().map((i) => i.text)).toEqual(['Sonata']);
+
+        practicePlanApi.save([item('b', 'Sonata, mvt 2')]);
+        expect(getPlanItems(recital.id)[0].text).toBe('Sonata, mvt 2');
+        expect(getPlanItems(DEFAULT_PLAN_ID)[0].text).toBe('Scales');
+    });
+
+    it('renames and duplicates plans with fresh ids and cleared checks', () => {
+        practicePlanApi.save([item('a', 'Scales', true)]);
+        renamePlan(DEFAULT_PLAN_ID, 'Daily');
+        const copy = duplicatePlan(DEFAULT_PLAN_ID);
+
+        expect(copy?.name).toBe('Daily (copy)');
+        const copied = getPlanItems(copy!.id);
+        expect(copied[0].text).toBe('Scales');
+        expect(copied[0].id).not.toBe('a');
+        expect(copied[0].checked).toBe(false);
+    });
+
+    it('refuses to archive the active plan', () => {
+        const other = createPlan('Other');
+        expect(archivePlan(DEFAULT_PLAN_ID)).toBe(false);
+        expect(archivePlan(other.id)).toBe(true);
+        expect(switchActivePlan(other.id)).toBe(false);
+
+        unarchivePlan(other.id);
+        expect(switchActivePlan(other.id)).toBe(true);
+    });
+
+    it('round-trips the library through the sync shape', () => {
+        practicePlanApi.save([item('a', 'Scales')]);
+        const etudes = createPlan('Etudes', [item('e', 'Op. 10')]);
+        switchActivePlan(etudes.id);
+        const synced = getPlanLibraryStateForSync();
+
+        localStorageMock.clear();
+        restorePlanLibraryFromSync(synced);
+
+        expect(getPlanLibrary().activePlanId).toBe(etudes.id);
+        expect(getPracticePlan()[0].text).toBe('Op. 10');
+        expect(getPlanItems(DEFAULT_PLAN_ID)[0].text).toBe('Scales');
+    });
+});
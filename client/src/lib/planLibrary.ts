@@ -0,0 +1,235 @@
+/**
+ * Plan library - multiple named practice plans, stored in localStorage.
+ *
+ * The original single plan keeps living under `practice-timer-plan` as the
+ * "default" plan, so existing data needs no migration. Every other plan gets
+ * its own keyed slot (`practice-timer-plan:<id>`). `practicePlanApi` always
+ * reads and writes the active plan's slot.
+ */
+
+import { PlanItem, generateId } from "./planTypes";
+import { getPlanFromStorage, savePlanToStorage, normalizeItem } from "./planStoreHelpers";
+import { scheduleUserDataPush } from "./userDataSync";
+
+const PLAN_LIBRARY_KEY = "practice-timer-plan-library";
+const LEGACY_PLAN_KEY = "practice-timer-plan";
+const LEGACY_SNAPSHOT_KEY = "practice-timer-plan-history";
+
+export const DEFAULT_PLAN_ID = "default";
+export const DEFAULT_PLAN_NAME = "My Practice Plan";
+
+/** Fired on window after the active plan changes so open editors can reload. */
+export const PLAN_SWITCHED_EVENT = "practice-plan-switched";
+
+export interface PlanLibraryEntry {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  archived?: boolean;
+}
+
+export interface PlanLibrary {
+  activePlanId: string;
+  plans: PlanLibraryEntry[];
+}
+
+/** Library shape stored in `user_practice_data.plans_data`; items are inlined per plan. */
+export interface PlanLibrarySyncState {
+  activePlanId: string;
+  plans: (PlanLibraryEntry & { items: PlanItem[] })[];
+}
+
+function createDefaultLibrary(): PlanLibrary {
+  const now = new Date().toISOString();
+  return {
+    activePlanId: DEFAULT_PLAN_ID,
+    plans: [{ id: DEFAULT_PLAN_ID, name: DEFAULT_PLAN_NAME, createdAt: now, updatedAt: now }],
+  };
+}
+
+export function getPlanStorageKey(planId: string): string {
+  return planId === DEFAULT_PLAN_ID ? LEGACY_PLAN_KEY : `${LEGACY_PLAN_KEY}:${planId}`;
+}
+
+export function getPlanSnapshotKey(planId: string): string {
+  return planId === DEFAULT_PLAN_ID ? LEGACY_SNAPSHOT_KEY : `${LEGACY_SNAPSHOT_KEY}:${planId}`;
+}
+
+function isValidEntry(entry: unknown): entry is PlanLibraryEntry {
+  return (
+    !!entry &&
+    typeof entry === "object" &&
+    typeof (entry as PlanLibraryEntry).id === "string" &&
+    typeof (entry as PlanLibraryEntry).name === "string"
+  );
+}
+
+export function getPlanLibrary(): PlanLibrary {
+  try {
+    const raw = localStorage.getItem(PLAN_LIBRARY_KEY);
+    if (!raw) return createDefaultLibrary();
+    const parsed = JSON.parse(raw) as Partial<PlanLibrary>;
+    const plans = Array.isArray(parsed.plans) ? parsed.plans.filter(isValidEntry) : [];
+    if (plans.length === 0) return createDefaultLibrary();
+    const active = plans.find((p) => p.id === parsed.activePlanId && !p.archived)
+      ?? plans.find((p) => !p.archived)
+      ?? plans[0];
+    return { activePlanId: active.id, plans };
+  } catch (e) {
+    console.error("[planLibrary] Failed to load plan library:", e);
+    return createDefaultLibrary();
+  }
+}
+
+function savePlanLibrary(library: PlanLibrary): void {
+  try {
+    localStorage.setItem(PLAN_LIBRARY_KEY, JSON.stringify(library));
+  } catch (e) {
+    console.error("[planLibrary] Failed to save plan library:", e);
+  }
+  scheduleUserDataPush();
+}
+
+export function getActivePlanId(): string {
+  return getPlanLibrary().activePlanId;
+}
+
+export function getActivePlanEntry(): PlanLibraryEntry {
+  const library = getPlanLibrary();
+  return library.plans.find((p) => p.id === library.activePlanId) ?? library.plans[0];
+}
+
+export function getActivePlanStorageKey(): string {
+  return getPlanStorageKey(getActivePlanId());
+}
+
+export function getActivePlanSnapshotKey(): string {
+  return getPlanSnapshotKey(getActivePlanId());
+}
+
+/** Items of any plan in the library; an unsaved plan reads as empty. */
+export function getPlanItems(planId: string): PlanItem[] {
+  return getPlanFromStorage(getPlanStorageKey(planId), () => []);
+}
+
+function touchPlan(library: PlanLibrary, planId: string): PlanLibrary {
+  const now = new Date().toISOString();
+  return {
+    ...library,
+    plans: library.plans.map((p) => (p.id === planId ? { ...p, updatedAt: now } : p)),
+  };
+}
+
+function notifyPlanSwitched(planId: string): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(PLAN_SWITCHED_EVENT, { detail: { planId } }));
+  }
+}
+
+export function createPlan(name: string, items: PlanItem[] = []): PlanLibraryEntry {
+  const library = getPlanLibrary();
+  const now = new Date().toISOString();
+  const entry: PlanLibraryEntry = {
+    id: generateId(),
+    name: name.trim() || "Untitled plan",
+    createdAt: now,
+    updatedAt: now,
+  };
+  savePlanToStorage(getPlanStorageKey(entry.id), items);
+  savePlanLibrary({ ...library, plans: [...library.plans, entry] });
+  return entry;
+}
+
+export function renamePlan(planId: string, name: string): void {
+  const trimmed = name.trim();
+  if (!trimmed) return;
+  const library = touchPlan(getPlanLibrary(), planId);
+  savePlanLibrary({
+    ...library,
+    plans: library.plans.map((p) => (p.id === planId ? { ...p, name: trimmed } : p)),
+  });
+}
+
+/** Copy a plan's items (with fresh ids, checks cleared) into a new plan. */
+export function duplicatePlan(planId: string): PlanLibraryEntry | null {
+  const library = getPlanLibrary();
+  const source = library.plans.find((p) => p.id === planId);
+  if (!source) return null;
+  const copyItems = (items: PlanItem[]): PlanItem[] =>
+    items.map((item) => ({
+      ...item,
+      id: generateId(),
+      checked: false,
+      checkedDate: undefined,
+      children: copyItems(item.children),
+    }));
+  return createPlan(`${source.name} (copy)`, copyItems(getPlanItems(planId)));
+}
+
+export function switchActivePlan(planId: string): boolean {
+  const library = getPlanLibrary();
+  const target = library.plans.find((p) => p.id === planId);
+  if (!target || target.archived) return false;
+  if (library.activePlanId === planId) return true;
+  savePlanLibrary({ ...library, activePlanId: planId });
+  notifyPlanSwitched(planId);
+  return true;
+}
+
+/**
+ * Archive hides a plan from the switcher without deleting it. The active
+ * plan can't be archived until another plan is active, and the last
+ * unarchived plan can't be archived at all.
+ */
+export function archivePlan(planId: string): boolean {
+  const library = getPlanLibrary();
+  if (library.activePlanId === planId) return false;
+  if (library.plans.filter((p) => !p.archived && p.id !== planId).length === 0) return false;
+  savePlanLibrary({
+    ...library,
+    plans: library.plans.map((p) => (p.id === planId ? { ...p, archived: true } : p)),
+  });
+  return true;
+}
+
+export function unarchivePlan(planId: string): void {
+  const library = getPlanLibrary();
+  savePlanLibrary({
+    ...library,
+    plans: library.plans.map((p) => (p.id === planId ? { ...p, archived: false } : p)),
+  });
+}
+
+export function getPlanLibraryStateForSync(): PlanLibrarySyncState {
+  const library = getPlanLibrary();
+  return {
+    activePlanId: library.activePlanId,
+    plans: library.plans.map((p) => ({ ...p, items: getPlanItems(p.id) })),
+  };
+}
+
+/** Replace the local library with the cloud copy (cloud wins, as for the single plan). */
+export function restorePlanLibraryFromSync(state: PlanLibrarySyncState | null | undefined): void {
+  if (!state || !Array.isArray(state.plans) || state.plans.length === 0) return;
+  const plans: PlanLibraryEntry[] = [];
+  for (const plan of state.plans) {
+    if (!isValidEntry(plan)) continue;
+    const { items, ...entry } = plan;
+    if (Array.isArray(items) && items.length > 0) {
+      savePlanToStorage(getPlanStorageKey(entry.id), items.map(normalizeItem));
+    }
+    plans.push(entry);
+  }
+  if (plans.length === 0) return;
+  const previousActive = getActivePlanId();
+  const activePlanId = plans.some((p) => p.id === state.activePlanId) ? state.activePlanId : plans[0].id;
+  try {
+    localStorage.setItem(PLAN_LIBRARY_KEY, JSON.stringify({ activePlanId, plans }));
+  } catch (e) {
+    console.error("[planLibrary] Failed to restore plan library:", e);
+  }
+  if (previousActive !== activePlanId) {
+    notifyPlanSwitched(activePlanId);
+  }
+}
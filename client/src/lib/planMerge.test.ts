@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { mergePlanLibraries, mergePlanTrees } from './planMerge';
+import type { PlanItem } from './planTypes';
+
+const item = (id: string, text: string, children: PlanItem[] = [], extra: Partial<PlanItem> = {}): PlanItem => ({
+    id, text, checked: false, children, ...extra,
+});
+
+const ids = (items: PlanItem[]): unknown[] => items.map((i) => (i.children.length ? [i.id, ids(i.children)] : i.id));
+
+describe('planMerge', () => {
+    it('combines edits to different fields of the same item', () => {
+        const base = [item('a', 'Scales')];
+        const local = [item('a', 'Scales', [], { checked: true })];
+        const remote = [item('a', 'Scales in thirds')];
+
+        const { items, conflicts } = mergePlanTrees(base, local, remote);
+        expect(items[0]).toMatchObject({ text: 'Scales in thirds', checked: true });
+        expect(conflicts).toEqual([]);
+    });
+
+    it('reports a field changed differently on both sides and keeps the local value', () => {
+        const { items, conflicts } = mergePlanTrees([item('a', 'Scales')], [item('a', 'Mine')], [item('a', 'Theirs')]);
+
+        expect(items[0].text).toBe('Mine');
+        expect(conflicts).toMatchObject([{ itemId: 'a', fields: ['text'], local: { text: 'Mine' }, remote: { text: 'Theirs' } }]);
+    });
+
+    it('drops items deleted on one side unless the other side edited them', () => {
+        const base = [item('a', 'Scales'), item('b', 'Etude')];
+        const local = [item('a', 'Scales'), item('b', 'Etude, slower')];
+        const remote: PlanItem[] = [];
+
+        const { items, conflicts } = mergePlanTrees(base, local, remote);
+        expect(ids(items)).toEqual(['b']);
+        expect(conflicts).toMatchObject([{ itemId: 'b', fields: [], remote: null }]);
+    });
+
+    it('keeps additions from both sides in place and follows the side that reordered', () => {
+        const base = [item('h', 'Warm-up', [item('a', 'Scales'), item('b', 'Arpeggios')]), item('c', 'Pieces')];
+        // Local adds a child under the header; remote swaps the top-level blocks and adds one at the end
+        const local = [item('h', 'Warm-up', [item('a', 'Scales'), item('x', 'Long tones'), item('b', 'Arpeggios')]), item('c', 'Pieces')];
+        const remote = [item('c', 'Pieces'), item('h', 'Warm-up', [item('a', 'Scales'), item('b', 'Arpeggios')]), item('y', 'Sight-reading')];
+
+        const { items } = mergePlanTrees(base, local, remote);
+        expect(ids(items)).toEqual(['c', ['h', ['a', 'x', 'b']], 'y']);
+    });
+
+    it('moves an item to where the moving side put it', () => {
+        const base = [item('h1', 'One', [item('a', 'Scales')]), item('h2', 'Two')];
+        const local = base;
+        const remote = [item('h1', 'One'), item('h2', 'Two', [item('a', 'Scales')])];
+
+        expect(ids(mergePlanTrees(base, local, remote).items)).toEqual(['h1', ['h2', ['a']]]);
+    });
+
+    it('merges plan libraries plan by plan and keeps the local active plan', () => {
+        const entry = (id: string, name: string) => ({ id, name, createdAt: '', updatedAt: '' });
+        const base = { activePlanId: 'p1', plans: [{ ...entry('p1', 'Weekday'), items: [item('a', 'Scales')] }] };
+        const local = { activePlanId: 'p1', plans: [{ ...entry('p1', 'Weekday'), items: [item('a', 'Scales'), item('b', 'Etude')] }] };
+        const remote = {
+            activePlanId: 'p2',
+            plans: [{ ...entry('p1', 'Weekdays'), items: [item('a', 'Scales')] }, { ...entry('p2', 'Weekend'), items: [] }],
+        };
+
+        const { state, conflicts } = mergePlanLibraries(base, local, remote);
+        expect(state.activePlanId).toBe('p1');
+        expect(state.plans.map((p) => [p.name, ids(p.items)])).toEqual([['Weekdays', ['a', 'b']], ['Weekend', []]]);
+        expect(conflicts).toEqual([]);
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * Three-way merge of plan trees for cloud sync. `base` is the copy both
+ * devices last agreed on; `local` and `remote` are the two edited versions.
+ *
+ * Items are matched by id and merged field by field, so checking an item on
+ * one device and renaming it on another combine cleanly. A field changed to
+ * different values on both sides, or an item edited on one side and deleted
+ * on the other, is reported as a conflict; the merged tree keeps the local
+ * value (or the surviving item) until the user picks a side.
+ */
+import type { PlanItem } from "./planTypes";
+import type { PlanLibraryEntry, PlanLibrarySyncState } from "./planLibrary";
+
+export type PlanItemFields = Omit<PlanItem, "children">;
+
+export interface PlanItemConflict {
+  itemId: string;
+  base: PlanItemFields | null;
+  /** Null when the item was deleted on this device. */
+  local: PlanItemFields | null;
+  /** Null when the item was deleted on the other device. */
+  remote: PlanItemFields | null;
+  /** Fields changed differently on both sides; empty for edit-versus-delete conflicts. */
+  fields: (keyof PlanItemFields)[];
+}
+
+export interface PlanMergeResult {
+  items: PlanItem[];
+  conflicts: PlanItemConflict[];
+}
+
+interface FlatItem {
+  fields: PlanItemFields;
+  parentId: string | null;
+}
+
+interface FlatTree {
+  items: Map<string, FlatItem>;
+  children: Map<string | null, string[]>;
+}
+
+function flattenTree(items: PlanItem[]): FlatTree {
+  const tree: FlatTree = { items: new Map(), children: new Map() };
+  const visit = (list: PlanItem[], parentId: string | null) => {
+    tree.children.set(parentId, list.map((item) => item.id));
+    for (const { children, ...fields } of list) {
+      tree.items.set(fields.id, { fields, parentId });
+      visit(children ?? [], fields.id);
+    }
+  };
+  visit(items, null);
+  return tree;
+}
+
+function valueEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function fieldsEqual<T extends object>(a: T, b: T): boolean {
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])) as (keyof T)[];
+  return keys.every((key) => valueEqual(a[key], b[key]));
+}
+
+function mergeFields<T extends object>(base: T | null, local: T, remote: T): { fields: T; conflicts: (keyof T)[] } {
+  const keys = Array.from(new Set([...Object.keys(local), ...Object.keys(remote)])) as (keyof T)[];
+  const merged: Partial<T> = {};
+  const conflicts: (keyof T)[] = [];
+  for (const key of keys) {
+    const l = local[key];
+    const r = remote[key];
+    let value: unknown = l;
+    if (!valueEqual(l, r)) {
+      if (base && valueEqual(l, base[key])) {
+        value = r;
+      } else if (!base || !valueEqual(r, base[key])) {
+        conflicts.push(key);
+      }
+    }
+    if (value !== undefined) merged[key] = value as T[keyof T];
+  }
+  return { fields: merged as T, conflicts };
+}
+
+function sameOrder(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+/**
+ * Sibling order: the side that reordered wins, and items only the other side
+ * has are slotted in after their nearest preceding sibling.
+ */
+function mergeOrder(base: string[], local: string[], remote: string[], members: Set<string>): string[] {
+  const localUnchanged = sameOrder(local, base);
+  const primary = localUnchanged ? remote : local;
+  const secondary = localUnchanged ? local : remote;
+  const result = primary.filter((id) => members.has(id));
+  const placed = new Set(result);
+  secondary.forEach((id, i) => {
+    if (!members.has(id) || placed.has(id)) return;
+    let at = 0;
+    for (let j = i - 1; j >= 0; j--) {
+      const k = result.indexOf(secondary[j]);
+      if (k >= 0) {
+        at = k + 1;
+        break;
+      }
+    }
+    result.splice(at, 0, id);
+    placed.add(id);
+  });
+  members.forEach((id) => {
+    if (!placed.has(id)) result.push(id);
+  });
+  return result;
+}
+
+export function mergePlanTrees(base: PlanItem[], local: PlanItem[], remote: PlanItem[]): PlanMergeResult {
+  const B = flattenTree(base);
+  const L = flattenTree(local);
+  const R = flattenTree(remote);
+  const merged = new Map<string, FlatItem>();
+  const conflicts: PlanItemConflict[] = [];
+
+  // Items only in the base were deleted on both sides
+  const ids = Array.from(new Set([...Array.from(L.items.keys()), ...Array.from(R.items.keys())]));
+  for (const id of ids) {
+    const b = B.items.get(id);
+    const l = L.items.get(id);
+    const r = R.items.get(id);
+    if (l && r) {
+      const { fields, conflicts: fieldConflicts } = mergeFields(b?.fields ?? null, l.fields, r.fields);
+      if (fieldConflicts.length > 0) {
+        conflicts.push({ itemId: id, base: b?.fields ?? null, local: l.fields, remote: r.fields, fields: fieldConflicts });
+      }
+      const parentId = b && l.parentId === b.parentId ? r.parentId : l.parentId;
+      merged.set(id, { fields, parentId });
+      continue;
+    }
+    const present = (l ?? r) as FlatItem;
+    if (!b) {
+      merged.set(id, present);
+    } else if (!fieldsEqual(b.fields, present.fields)) {
+      // Edited on one side, deleted on the other: keep it until the user decides
+      conflicts.push({ itemId: id, base: b.fields, local: l?.fields ?? null, remote: r?.fields ?? null, fields: [] });
+      merged.set(id, present);
+    }
+  }
+
+  const members = new Map<string | null, Set<string>>();
+  merged.forEach((item, id) => {
+    // Children of a deleted parent move to the top level
+    const parentId = item.parentId !== null && merged.has(item.parentId) ? item.parentId : null;
+    if (!members.has(parentId)) members.set(parentId, new Set());
+    members.get(parentId)!.add(id);
+  });
+
+  const emitted = new Set<string>();
+  const build = (parentId: string | null): PlanItem[] => {
+    const group = members.get(parentId);
+    if (!group) return [];
+    const order = mergeOrder(
+      B.children.get(parentId) ?? [],
+      L.children.get(parentId) ?? [],
+      R.children.get(parentId) ?? [],
+      group
+    );
+    return order.map((id) => {
+      emitted.add(id);
+      return { ...merged.get(id)!.fields, children: build(id) };
+    });
+  };
+  const items = build(null);
+
+  // Items moved under each other on the two devices form a cycle no root reaches
+  merged.forEach((item, id) => {
+    if (!emitted.has(id)) {
+      emitted.add(id);
+      items.push({ ...item.fields, children: [] });
+    }
+  });
+  return { items, conflicts };
+}
+
+type SyncedPlan = PlanLibrarySyncState["plans"][number];
+
+function getEntry(plan: SyncedPlan): PlanLibraryEntry {
+  const entry: Partial<SyncedPlan> = { ...plan };
+  delete entry.items;
+  return entry as PlanLibraryEntry;
+}
+
+/**
+ * Merge two plan libraries plan by plan. Plan names and flags follow the
+ * same field rules as items, with the local value kept on a clash; the
+ * active plan always stays the local one.
+ */
+export function mergePlanLibraries(
+  base: PlanLibrarySyncState,
+  local: PlanLibrarySyncState,
+  remote: PlanLibrarySyncState
+): { state: PlanLibrarySyncState; conflicts: (PlanItemConflict & { planId: string })[] } {
+  const plans: SyncedPlan[] = [];
+  const conflicts: (PlanItemConflict & { planId: string })[] = [];
+  const ids = [...local.plans.map((p) => p.id), ...remote.plans.map((p) => p.id)];
+
+  for (const id of Array.from(new Set(ids))) {
+    const b = base.plans.find((p) => p.id === id);
+    const l = local.plans.find((p) => p.id === id);
+    const r = remote.plans.find((p) => p.id === id);
+    if (l && r) {
+      const entry = mergeFields(b ? getEntry(b) : null, getEntry(l), getEntry(r)).fields;
+      const result = mergePlanTrees(b?.items ?? [], l.items, r.items);
+      plans.push({ ...entry, updatedAt: l.updatedAt > r.updatedAt ? l.updatedAt : r.updatedAt, items: result.items });
+      conflicts.push(...result.conflicts.map((c) => ({ ...c, planId: id })));
+      continue;
+    }
+    const present = (l ?? r) as SyncedPlan;
+    // A plan removed on one device stays when the other device changed it
+    if (!b || !valueEqual(b, present)) plans.push(present);
+  }
+
+  const activePlanId = plans.some((p) => p.id === local.activePlanId)
+    ? local.activePlanId
+    : plans[0]?.id ?? local.activePlanId;
+  return { state: { activePlanId, plans }, conflicts };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { PlanItem } from './planTypes';
+import { getPracticePlan, savePracticePlan } from './practicePlan';
+import {
+    applyPlanRollover,
+    getPlanRolloverSettings,
+    getPlanHistory,
+    resetExpiredChecks,
+    rolloverPlan,
+    savePlanRolloverSettings,
+} from './planRollover';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const checkedOn = (day: string) => new Date(`${day}T10:00:00`).toISOString();
+
+const segment = (id: string, day: string | null, allocationPeriod: 'day' | 'week' = 'day'): PlanItem => ({
+    id, text: id, checked: !!day, checkedDate: day ? checkedOn(day) : undefined,
+    children: [], blockType: 'segment', allocatedTime: 15, allocationPeriod,
+});
+
+// 2026-03-02 is a Monday
+const at = (day: string) => new Date(`${day}T09:00:00`).getTime();
+
+describe('planRollover', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+    });
+
+    it('is on by default but leaves a plan it sees for the first time as it is', () => {
+        expect(getPlanRolloverSettings().enabled).toBe(true);
+        savePracticePlan([segment('scales', '2026-03-05')]);
+
+        expect(applyPlanRollover(at('2026-03-10'))).toBe(false);
+        expect(getPracticePlan()[0].checked).toBe(true);
+        expect(getPlanHistory('default')).toHaveLength(0);
+
+        // From then on it rolls over at the next day
+        expect(applyPlanRollover(at('2026-03-11'))).toBe(true);
+        expect(getPracticePlan()[0].checked).toBe(false);
+    });
+
+    it('unchecks daily segments from earlier days and weekly segments from earlier weeks', () => {
+        const items = [
+            segment('daily-yesterday', '2026-03-04'),
+            segment('daily-today', '2026-03-05'),
+            segment('weekly-this-week', '2026-03-02', 'week'),
+            segment('weekly-last-week', '2026-02-27', 'week'),
+        ];
+        const result = resetExpiredChecks(items, {
+            today: '2026-03-05', weekStart: '2026-03-02', dayChanged: true, weekChanged: false,
+        });
+        expect(result.changed).toBe(true);
+        expect(result.items.map((i) => [i.id, i.checked])).toEqual([
+            ['daily-yesterday', false],
+            ['daily-today', true],
+            ['weekly-this-week', true],
+            ['weekly-last-week', false],
+        ]);
+        expect(result.items[0].checkedDate).toBeUndefined();
+    });
+
+    it('archives the previous week when a new week starts, and the previous day otherwise', () => {
+        const items = [segment('scales', '2026-03-06'), segment('etude', '2026-03-04', 'week')];
+
+        const sameWeek = rolloverPlan(items, { day: '2026-03-06', weekStart: '2026-03-02' }, 'monday', at('2026-03-07'));
+        expect(sameWeek.archive).toEqual([{ period: 'day', start: '2026-03-06', end: '2026-03-06', items }]);
+        expect(sameWeek.items.map((i) => i.checked)).toEqual([false, true]);
+
+        const nextWeek = rolloverPlan(items, null, 'monday', at('2026-03-09'));
+        expect(nextWeek.archive).toEqual([{ period: 'week', start: '2026-03-02', end: '2026-03-08', items }]);
+        expect(nextWeek.items.map((i) => i.checked)).toEqual([false, false]);
+        expect(nextWeek.marker).toEqual({ day: '2026-03-09', weekStart: '2026-03-09' });
+    });
+
+    it('catches up on the next open after the app was closed over a week boundary', () => {
+        savePracticePlan([segment('scales', '2026-03-05'), segment('etude', '2026-03-05', 'week')]);
+        localStorage.setItem('practice-timer-detailed-log', JSON.stringify({
+            '2026-03-05': { scales: { itemId: 'scales', itemName: 'scales', seconds: 900 } },
+            '2026-03-10': { scales: { itemId: 'scales', itemName: 'scales', seconds: 300 } },
+        }));
+
+        applyPlanRollover(at('2026-03-05'));
+        expect(applyPlanRollover(at('2026-03-10'))).toBe(true);
+
+        expect(getPracticePlan().every((i) => !i.checked)).toBe(true);
+        const history = getPlanHistory('default');
+        expect(history).toHaveLength(1);
+        expect(history[0]).toMatchObject({ period: 'week', start: '2026-03-02', practicedSeconds: { scales: 900 } });
+        expect(history[0].items.every((i) => i.checked)).toBe(true);
+
+        // Running again in the same period changes nothing
+        expect(applyPlanRollover(at('2026-03-10'))).toBe(false);
+        expect(getPlanHistory('default')).toHaveLength(1);
+    });
+
+    it('keeps every week but only the last two weeks of days', () => {
+        savePracticePlan([segment('scales', '2026-03-02')]);
+        applyPlanRollover(at('2026-03-03'));
+        savePracticePlan([segment('scales', '2026-03-03')]);
+        applyPlanRollover(at('2026-03-09'));
+        savePracticePlan([segment('scales', '2026-03-24')]);
+        applyPlanRollover(at('2026-03-25'));
+
+        expect(getPlanHistory('default').map((e) => `${e.period}:${e.start}`)).toEqual([
+            'day:2026-03-24',
+            'week:2026-03-02',
+        ]);
+    });
+
+    it('leaves checks alone when turned off', () => {
+        savePlanRolloverSettings({ enabled: false });
+        savePracticePlan([segment('scales', '2026-03-05')]);
+        expect(applyPlanRollover(at('2026-03-10'))).toBe(false);
+        expect(getPracticePlan()[0].checked).toBe(true);
+    });
+});
@@ -0,0 +1,340 @@
+/**
+ * Plan rollover - unchecks daily segments at local midnight and weekly
+ * segments when a new week starts (per `weekStartsOn`), archiving the plan
+ * as it stood at the end of the period first.
+ *
+ * A check is stale when its `checkedDate` falls before the current day or
+ * week, so the reset is idempotent: it catches up on the next open after the
+ * app was closed, and a plan synced from a device that hasn't rolled over
+ * yet is reset the same way. A per-plan marker records the period the plan
+ * was last seen in, which is what gets archived when the period changes. A
+ * plan without a marker yet only gets one, so the checks it already has are
+ * left alone until the next midnight or week boundary.
+ *
+ * Archived weeks are kept indefinitely; archived days only for two weeks.
+ * Only plans in the plan library roll over, not the Lesson Plan, and the
+ * history stays on this device: it isn't synced or included in backups.
+ */
+import type { PlanItem } from './planTypes';
+import { savePlanToStorage } from './planStoreHelpers';
+import {
+  PLAN_SWITCHED_EVENT,
+  getActivePlanId,
+  getPlanItems,
+  getPlanLibrary,
+  getPlanStorageKey,
+} from './planLibrary';
+import { type WeekStartsOn, addDays, getDetailedPracticeLog, getLocalYMD, getWeekStart } from './practiceLog';
+import { getSettings } from './localStorage';
+import { scheduleUserDataPush } from './userDataSync';
+
+const ROLLOVER_SETTINGS_KEY = 'practice-timer-plan-rollover';
+const ROLLOVER_STATE_KEY = 'practice-timer-plan-rollover-state';
+const PLAN_HISTORY_KEY = 'practice-timer-plan-history';
+
+/** Fired on window whenever a period is archived so open history views can refresh. */
+export const PLAN_HISTORY_CHANGED_EVENT = 'plan-history-changed';
+
+const DAY_HISTORY_DAYS = 14;
+
+export interface PlanRolloverSettings {
+  enabled: boolean;
+}
+
+export const DEFAULT_PLAN_ROLLOVER: PlanRolloverSettings = { enabled: true };
+
+/** The period a plan was last seen in. */
+export interface RolloverMarker {
+  day: string;
+  weekStart: string;
+}
+
+export interface PlanHistoryEntry {
+  id: string;
+  planId: string;
+  planName: string;
+  period: 'day' | 'week';
+  /** First and last day of the period, YYYY-MM-DD. */
+  start: string;
+  end: string;
+  archivedAt: number;
+  /** The plan as it stood when the period ended. */
+  items: PlanItem[];
+  /** Seconds practiced per segment during the period. */
+  practicedSeconds: Record<string, number>;
+}
+
+export interface RolloverResult {
+  items: PlanItem[];
+  /** True when any check was reset. */
+  changed: boolean;
+  /** Periods to archive, without `practicedSeconds`. */
+  archive: Omit<PlanHistoryEntry, 'id' | 'planId' | 'planName' | 'archivedAt' | 'practicedSeconds'>[];
+  marker: RolloverMarker;
+}
+
+export function normalizePlanRollover(value: unknown): PlanRolloverSettings {
+  const stored = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  return {
+    enabled: typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_PLAN_ROLLOVER.enabled,
+  };
+}
+
+export function getPlanRolloverSettings(): PlanRolloverSettings {
+  try {
+    const stored = localStorage.getItem(ROLLOVER_SETTINGS_KEY);
+    return normalizePlanRollover(stored ? JSON.parse(stored) : {});
+  } catch (e) {
+    console.error('Failed to load plan rollover settings:', e);
+    return { ...DEFAULT_PLAN_ROLLOVER };
+  }
+}
+
+export function savePlanRolloverSettings(settings: PlanRolloverSettings): void {
+  try {
+    localStorage.setItem(ROLLOVER_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save plan rollover settings:', e);
+  }
+}
+
+function hasSegments(items: PlanItem[]): boolean {
+  return items.some((item) => item.blockType === 'segment' || hasSegments(item.children ?? []));
+}
+
+/** The latest day any item in the tree was checked, if any. */
+function getLatestCheckedDay(items: PlanItem[]): string | null {
+  let latest: string | null = null;
+  const walk = (list: PlanItem[]) => {
+    for (const item of list) {
+      if (item.checked && item.checkedDate) {
+        const day = getLocalYMD(new Date(item.checkedDate));
+        if (!latest || day > latest) latest = day;
+      }
+      walk(item.children ?? []);
+    }
+  };
+  walk(items);
+  return latest;
+}
+
+/**
+ * Uncheck segments whose check belongs to an earlier day (daily segments) or
+ * week (weekly segments). Checks without a date are reset when the marker
+ * says the period changed.
+ */
+export function resetExpiredChecks(
+  items: PlanItem[],
+  period: { today: string; weekStart: string; dayChanged: boolean; weekChanged: boolean }
+): { items: PlanItem[]; changed: boolean } {
+  let changed = false;
+  const walk = (list: PlanItem[]): PlanItem[] =>
+    list.map((item) => {
+      let next: PlanItem = { ...item, children: walk(item.children ?? []) };
+      if (item.checked && item.blockType === 'segment') {
+        const weekly = item.allocationPeriod === 'week';
+        const stale = item.checkedDate
+          ? getLocalYMD(new Date(item.checkedDate)) < (weekly ? period.weekStart : period.today)
+          : weekly ? period.weekChanged : period.dayChanged;
+        if (stale) {
+          changed = true;
+          next = { ...next, checked: false, checkedDate: undefined };
+        }
+      }
+      return next;
+    });
+  const next = walk(items);
+  return { items: changed ? next : items, changed };
+}
+
+/**
+ * Roll one plan over to the period containing `now`. The period that ended is
+ * the one of the marker or of the latest check, whichever is later, so checks
+ * synced in from another device are archived with the week they were made in.
+ */
+export function rolloverPlan(
+  items: PlanItem[],
+  marker: RolloverMarker | null,
+  weekStartsOn: WeekStartsOn,
+  now: number = Date.now()
+): RolloverResult {
+  const today = getLocalYMD(new Date(now));
+  const weekStart = getWeekStart(today, weekStartsOn);
+  const current: RolloverMarker = { day: today, weekStart };
+  const seen = [marker?.day, getLatestCheckedDay(items)].filter((day): day is string => !!day);
+  const lastDay = seen.sort().pop() ?? today;
+  const previous: RolloverMarker = { day: lastDay, weekStart: getWeekStart(lastDay, weekStartsOn) };
+
+  const dayChanged = previous.day < today;
+  const weekChanged = previous.weekStart < weekStart;
+  const reset = resetExpiredChecks(items, { today, weekStart, dayChanged, weekChanged });
+
+  const archive: RolloverResult['archive'] = [];
+  if (weekChanged && hasSegments(items)) {
+    archive.push({ period: 'week', start: previous.weekStart, end: addDays(previous.weekStart, 6), items });
+  } else if (dayChanged && reset.changed) {
+    archive.push({ period: 'day', start: previous.day, end: previous.day, items });
+  }
+
+  return { items: reset.items, changed: reset.changed, archive, marker: current };
+}
+
+// --- History ---
+
+function getAllPlanHistory(): PlanHistoryEntry[] {
+  try {
+    const stored = localStorage.getItem(PLAN_HISTORY_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Failed to load plan history:', e);
+    return [];
+  }
+}
+
+function saveAllPlanHistory(entries: PlanHistoryEntry[]): void {
+  try {
+    localStorage.setItem(PLAN_HISTORY_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.error('Failed to save plan history:', e);
+  }
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(PLAN_HISTORY_CHANGED_EVENT));
+  }
+}
+
+/** Archived periods of one plan, newest first. */
+export function getPlanHistory(planId: string): PlanHistoryEntry[] {
+  return getAllPlanHistory()
+    .filter((entry) => entry.planId === planId)
+    .sort((a, b) => b.start.localeCompare(a.start) || (a.period === 'week' ? -1 : 1));
+}
+
+function getPracticedSeconds(start: string, end: string): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const [day, entries] of Object.entries(getDetailedPracticeLog())) {
+    if (day < start || day > end) continue;
+    for (const [itemId, entry] of Object.entries(entries)) {
+      totals[itemId] = (totals[itemId] ?? 0) + (entry.seconds ?? 0);
+    }
+  }
+  return totals;
+}
+
+function getRolloverState(): Record<string, RolloverMarker> {
+  try {
+    const stored = localStorage.getItem(ROLLOVER_STATE_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveRolloverState(state: Record<string, RolloverMarker>): void {
+  try {
+    localStorage.setItem(ROLLOVER_STATE_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.error('Failed to save plan rollover state:', e);
+  }
+}
+
+/**
+ * Roll every open plan over to the current period, archiving what ended.
+ * Returns true when any plan's checks were reset.
+ */
+export function applyPlanRollover(now: number = Date.now()): boolean {
+  if (!getPlanRolloverSettings().enabled) return false;
+  const weekStartsOn = getSettings()?.weekStartsOn ?? 'monday';
+  const state = getRolloverState();
+  const newEntries: PlanHistoryEntry[] = [];
+  let changed = false;
+
+  for (const plan of getPlanLibrary().plans) {
+    if (plan.archived) continue;
+    if (!state[plan.id]) {
+      const today = getLocalYMD(new Date(now));
+      state[plan.id] = { day: today, weekStart: getWeekStart(today, weekStartsOn) };
+      continue;
+    }
+    const result = rolloverPlan(getPlanItems(plan.id), state[plan.id], weekStartsOn, now);
+    for (const period of result.archive) {
+      newEntries.push({
+        ...period,
+        id: `${plan.id}:${period.period}:${period.start}`,
+        planId: plan.id,
+        planName: plan.name,
+        archivedAt: now,
+        practicedSeconds: getPracticedSeconds(period.start, period.end),
+      });
+    }
+    if (result.changed) {
+      savePlanToStorage(getPlanStorageKey(plan.id), result.items);
+      changed = true;
+    }
+    state[plan.id] = result.marker;
+  }
+  saveRolloverState(state);
+
+  if (newEntries.length > 0) {
+    const cutoff = addDays(getLocalYMD(new Date(now)), -DAY_HISTORY_DAYS);
+    const ids = new Set(newEntries.map((entry) => entry.id));
+    const kept = getAllPlanHistory().filter(
+      (entry) => !ids.has(entry.id) && (entry.period === 'week' || entry.start >= cutoff)
+    );
+    saveAllPlanHistory([...kept, ...newEntries]);
+  }
+  if (changed) {
+    scheduleUserDataPush();
+    if (typeof window !== 'undefined') {
+      // Open editors reload from storage on a plan switch, even to the same plan
+      window.dispatchEvent(new CustomEvent(PLAN_SWITCHED_EVENT, { detail: { planId: getActivePlanId() } }));
+    }
+  }
+  return changed;
+}
+
+function msUntilNextMidnight(now: number = Date.now()): number {
+  const next = new Date(now);
+  next.setHours(24, 0, 1, 0);
+  return next.getTime() - now;
+}
+
+/**
+ * Roll over now, at every local midnight while the app stays open, when it
+ * comes back to the foreground, and after synced plans land. Returns a
+ * cleanup function.
+ */
+export function initPlanRollover(): () => void {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let applying = false;
+
+  const run = () => {
+    if (applying) return;
+    applying = true;
+    try {
+      applyPlanRollover();
+    } finally {
+      applying = false;
+    }
+  };
+  const schedule = () => {
+    timeout = setTimeout(() => {
+      run();
+      schedule();
+    }, msUntilNextMidnight());
+  };
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') run();
+  };
+
+  run();
+  schedule();
+  document.addEventListener('visibilitychange', handleVisibility);
+  window.addEventListener(PLAN_SWITCHED_EVENT, run);
+  return () => {
+    if (timeout) clearTimeout(timeout);
+    document.removeEventListener('visibilitychange', handleVisibility);
+    window.removeEventListener(PLAN_SWITCHED_EVENT, run);
+  };
+}
@@ -1,6 +1,8 @@
-import { BlockType, PlanItem, PlanSnapshot, generateId } from "./planTypes";
+import { BlockType, PlanItem, PlanSnapshot, TempoProgression, generateId } from "./planTypes";
 import { logSegmentCompletion, removeSegmentCompletionToday } from "./practiceLog";
 import { scheduleUserDataPush } from "./userDataSync";
+import type { SegmentTemplate } from "./segmentLibrary";
+import { applyTempoRun, findPlanItem } from "./tempoProgression";
 
 const MAX_SNAPSHOTS = 5;
 
@@ -98,6 +100,16 @@ export function getPlanSnapshots(snapshotKey: string): PlanSnapshot[] {
   }
 }
 
+/** Write a full snapshot list, oldest first, keeping the most recent ones. */
+export function savePlanSnapshots(snapshotKey: string, snapshots: PlanSnapshot[]): void {
+  try {
+    const sorted = [...snapshots].sort((a, b) => a.ts - b.ts).slice(-MAX_SNAPSHOTS);
+    localStorage.setItem(snapshotKey, JSON.stringify(sorted));
+  } catch (e) {
+    console.error(`Failed to save plan snapshots to ${snapshotKey}:`, e);
+  }
+}
+
 export function resetPlanChecks(items: PlanItem[]): PlanItem[] {
   return items.map((item) => ({
     ...item,
@@ -182,6 +194,22 @@ export function createBlock(blockType: BlockType, initialText?: string, id?: str
   };
 }
 
+/** Turn an item into a segment carrying the template's fields and link. */
+export function applySegmentTemplateFields(item: PlanItem, template: SegmentTemplate): PlanItem {
+  return {
+    ...item,
+    blockType: "segment",
+    isHeader: false,
+    text: template.name,
+    segmentGoal: template.segmentGoal,
+    allocatedTime: template.allocatedTime,
+    allocationPeriod: template.allocationPeriod,
+    repertoirePieceId: template.repertoirePieceId,
+    videoUrl: template.videoUrl,
+    segmentTemplateId: template.id,
+  };
+}
+
 export function findPathToId(
   items: PlanItem[],
   id: string,
@@ -348,21 +376,32 @@ export interface PlanStoreApi {
     allocatedTime: number | undefined,
     allocationPeriod: "day" | "week" | undefined,
     repertoirePieceId: string | undefined,
-    videoUrl: string | undefined
+    videoUrl: string | undefined,
+    tempo?: number,
+    tempoProgression?: TempoProgression
   ) => PlanItem[];
+  /** Count a completed run towards the item's tempo goal (see tempoProgression). */
+  recordTempoRun: (items: PlanItem[], id: string, usedTempo: number) => PlanItem[];
   updateBlockType: (items: PlanItem[], id: string, blockType: BlockType) => PlanItem[];
+  /** Link an item to a segment template (copying its fields), or unlink it with null. */
+  linkSegmentTemplate: (items: PlanItem[], id: string, template: SegmentTemplate | null) => PlanItem[];
   reorder: (items: PlanItem[], activeId: string, overId: string) => PlanItem[];
 }
 
+/**
+ * `storageKey` may be a function so the API can follow whichever plan is
+ * currently active (see planLibrary).
+ */
 export function createPlanStoreApi(
-  storageKey: string,
+  storageKey: string | (() => string),
   permalinkKey: string,
   lastPublishedKey: string,
   defaultGenerator: () => PlanItem[]
 ): PlanStoreApi {
-  const get = () => getPlanFromStorage(storageKey, defaultGenerator);
+  const resolveKey = typeof storageKey === "function" ? storageKey : () => storageKey;
+  const get = () => getPlanFromStorage(resolveKey(), defaultGenerator);
   const save = (items: PlanItem[]) => {
-    savePlanToStorage(storageKey, items);
+    savePlanToStorage(resolveKey(), items);
     scheduleUserDataPush();
   };
 
@@ -588,7 +627,9 @@ export function createPlanStoreApi(
       allocatedTime,
       allocationPeriod,
       repertoirePieceId,
-      videoUrl
+      videoUrl,
+      tempo,
+      tempoProgression
     ) => {
       const next = updateItemInTree(items, id, (item) => ({
         ...item,
@@ -598,10 +639,19 @@ export function createPlanStoreApi(
         allocationPeriod,
         repertoirePieceId,
         videoUrl,
+        tempo,
+        tempoProgression,
       }));
       save(next);
       return next;
     },
+    recordTempoRun: (items, id, usedTempo) => {
+      const item = findPlanItem(items, id);
+      if (!item?.tempoProgression) return items;
+      const next = updateItemInTree(items, id, (current) => applyTempoRun(current, usedTempo));
+      save(next);
+      return next;
+    },
     updateBlockType: (items, id, blockType) => {
       const next = updateItemInTree(items, id, (item) => {
         const isHeader =
@@ -611,6 +661,13 @@ export function createPlanStoreApi(
       save(next);
       return next;
     },
+    linkSegmentTemplate: (items, id, template) => {
+      const next = updateItemInTree(items, id, (item) =>
+        template ? applySegmentTemplateFields(item, template) : { ...item, segmentTemplateId: undefined }
+      );
+      save(next);
+      return next;
+    },
     reorder: (items, activeId, overId) => {
       const activePath = findPathToId(items, activeId);
       const overPath = findPathToId(items, overId);
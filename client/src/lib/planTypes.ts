@@ -9,6 +9,20 @@ export type BlockType =
   | "todo"
   | "segment";
 
+/**
+ * Tempo goal for a segment, e.g. "bring this passage from 60 to 96 bpm".
+ * The current tempo is the item's `tempo`; it moves up by `step` once
+ * `runsPerStep` completed runs were played at it.
+ */
+export interface TempoProgression {
+  startTempo: number;
+  targetTempo: number;
+  step: number;
+  runsPerStep: number;
+  /** Completed runs at the current tempo since the last step. */
+  runsAtTempo?: number;
+}
+
 export interface PlanItem {
   id: string;
   text: string;
@@ -28,6 +42,13 @@ export interface PlanItem {
   repertoirePieceId?: string;
   /** Practice video recording link (e.g. YouTube, Vimeo). */
   videoUrl?: string;
+  /** Default metronome tempo (BPM) for practice segment blocks; the current tempo of a tempo goal. */
+  tempo?: number;
+  tempoProgression?: TempoProgression;
+  /** ID of the segment library template this segment was inserted from. */
+  segmentTemplateId?: string;
+  /** ID of the teacher assignment this Lesson Plan section was added from. */
+  assignmentId?: string;
 }
 
 export interface PlanSnapshot {
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    getAnalyticsRange,
+    getHeatmapWeeks,
+    getMonthlyTotals,
+    getWeeklyTotals,
+    getPieceTrends,
+    getTimeOfDayDistribution,
+    getRangeTotalSeconds,
+} from './practiceAnalytics';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const setLogs = (log: Record<string, number>, detailed: Record<string, Record<string, number>> = {}) => {
+    localStorageMock.setItem('practice-timer-log', JSON.stringify(log));
+    localStorageMock.setItem('practice-timer-detailed-log', JSON.stringify(
+        Object.fromEntries(Object.entries(detailed).map(([date, items]) => [
+            date,
+            Object.fromEntries(Object.entries(items).map(([itemId, seconds]) => [itemId, { itemId, itemName: itemId, seconds }])),
+        ]))
+    ));
+};
+
+describe('practiceAnalytics', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+        vi.clearAllMocks();
+    });
+
+    it('builds ranges from presets in local dates', () => {
+        expect(getAnalyticsRange('30d', '2025-03-10')).toEqual({ start: '2025-02-09', end: '2025-03-10' });
+        expect(getAnalyticsRange('year', '2025-03-10')).toEqual({ start: '2025-01-01', end: '2025-03-10' });
+        expect(getAnalyticsRange('12m', '2025-03-10')).toEqual({ start: '2024-03-11', end: '2025-03-10' });
+    });
+
+    it('lays out the heatmap in full weeks from the week start', () => {
+        setLogs({ '2025-03-05': 20 * 60, '2025-03-10': 90 * 60 });
+        // Wed 2025-03-05 to Mon 2025-03-10, weeks starting Monday
+        const weeks = getHeatmapWeeks({ start: '2025-03-05', end: '2025-03-10' }, 'monday');
+
+        expect(weeks).toHaveLength(2);
+        expect(weeks[0][0]).toMatchObject({ date: '2025-03-03', inRange: false, level: 0 });
+        expect(weeks[0][2]).toMatchObject({ date: '2025-03-05', inRange: true, level: 2 });
+        expect(weeks[1][0]).toMatchObject({ date: '2025-03-10', level: 4 });
+    });
+
+    it('totals months and weeks inside the range only', () => {
+        setLogs({ '2025-01-31': 600, '2025-02-01': 300, '2025-02-03': 120, '2025-03-01': 999 });
+        const range = { start: '2025-01-15', end: '2025-02-28' };
+
+        expect(getRangeTotalSeconds(range)).toBe(1020);
+        expect(getMonthlyTotals(range).map((m) => [m.key, m.seconds])).toEqual([['2025-01', 600], ['2025-02', 420]]);
+        const weekly = getWeeklyTotals(range, 'monday');
+        expect(weekly.find((w) => w.key === '2025-01-27')?.seconds).toBe(900);
+        expect(weekly.find((w) => w.key === '2025-02-03')?.seconds).toBe(120);
+    });
+
+    it('tracks the most practiced pieces week by week', () => {
+        setLogs({}, {
+            '2025-03-10': { scales: 600, etude: 1200 },
+            '2025-03-17': { etude: 300, sonata: 60 },
+        });
+
+        const { pieces, rows } = getPieceTrends({ start: '2025-03-10', end: '2025-03-23' }, 'monday', 2);
+        expect(pieces.map((p) => p.itemId)).toEqual(['etude', 'scales']);
+        expect(rows.map((r) => r.minutes)).toEqual([{ etude: 20, scales: 10 }, { etude: 5, scales: 0 }]);
+    });
+
+    it('names each piece after its most recent day, whatever order the days are stored in', () => {
+        localStorageMock.setItem('practice-timer-detailed-log', JSON.stringify({
+            '2025-03-17': { scales: { itemId: 'scales', itemName: 'Scales (new name)', seconds: 300 } },
+            '2025-03-10': { scales: { itemId: 'scales', itemName: 'Scales', seconds: 600 } },
+        }));
+
+        const { pieces } = getPieceTrends({ start: '2025-03-10', end: '2025-03-23' }, 'monday');
+        expect(pieces).toEqual([{ itemId: 'scales', itemName: 'Scales (new name)', seconds: 900 }]);
+    });
+
+    it('splits timed intervals across the hours they span', () => {
+        const start = new Date(2025, 2, 10, 9, 30).getTime();
+        localStorageMock.setItem('practice-timer-session-journal', JSON.stringify([
+            { id: 'j1', kind: 'interval', mode: 'work', start, end: start + 60 * 60 * 1000, seconds: 3600, outcome: 'completed' },
+            { id: 'j2', kind: 'segment', mode: 'work', start, end: start + 1000, seconds: 1, outcome: 'completed' },
+        ]));
+
+        const hours = getTimeOfDayDistribution({ start: '2025-03-10', end: '2025-03-10' });
+        expect(hours[9]).toBe(1800);
+        expect(hours[10]).toBe(1800);
+        expect(hours.reduce((a, b) => a + b, 0)).toBe(3600);
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * Practice analytics - long-range aggregations over the practice logs for
+ * the Analytics page. All dates are local YYYY-MM-DD strings (see
+ * getLocalYMD) and ranges are inclusive on both ends.
+ */
+import {
+  type WeekStartsOn,
+  addDays,
+  getDetailedPracticeLog,
+  getLocalYMD,
+  getPracticeLog,
+  getWeekStart,
+} from './practiceLog';
+import { getSessionJournal } from './sessionJournal';
+
+export type AnalyticsRangePreset = '30d' | '90d' | '12m' | 'year';
+
+export interface DateRange {
+  start: string; // YYYY-MM-DD
+  end: string;   // YYYY-MM-DD
+}
+
+export interface HeatmapDay {
+  date: string;
+  seconds: number;
+  /** 0 = no practice, 1-4 = increasing practice time. */
+  level: 0 | 1 | 2 | 3 | 4;
+  /** False for padding days outside the range that fill the first and last week. */
+  inRange: boolean;
+}
+
+export interface PeriodTotal {
+  key: string; // YYYY-MM for months, week start YYYY-MM-DD for weeks
+  label: string;
+  seconds: number;
+}
+
+export interface PieceTrend {
+  itemId: string;
+  itemName: string;
+  seconds: number;
+}
+
+export interface PieceTrendRow {
+  weekStart: string;
+  label: string;
+  /** Minutes per piece, keyed by itemId. */
+  minutes: Record<string, number>;
+}
+
+/** Minutes at which a heatmap day moves up a level. */
+const HEATMAP_LEVEL_MINUTES = [15, 30, 60];
+
+export function getAnalyticsRange(preset: AnalyticsRangePreset, today: string = getLocalYMD()): DateRange {
+  switch (preset) {
+    case '30d':
+      return { start: addDays(today, -29), end: today };
+    case '90d':
+      return { start: addDays(today, -89), end: today };
+    case 'year':
+      return { start: `${today.slice(0, 4)}-01-01`, end: today };
+    case '12m':
+    default: {
+      const d = new Date(today + 'T12:00:00');
+      d.setFullYear(d.getFullYear() - 1);
+      return { start: addDays(getLocalYMD(d), 1), end: today };
+    }
+  }
+}
+
+function inRange(date: string, range: DateRange): boolean {
+  return date >= range.start && date <= range.end;
+}
+
+function formatShortDate(dateStr: string): string {
+  return new Date(dateStr + 'T12:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function getRangeTotalSeconds(range: DateRange): number {
+  return Object.entries(getPracticeLog()).reduce(
+    (sum, [date, seconds]) => (inRange(date, range) ? sum + seconds : sum),
+    0
+  );
+}
+
+function heatmapLevel(seconds: number): HeatmapDay['level'] {
+  if (seconds <= 0) return 0;
+  const minutes = seconds / 60;
+  const level = HEATMAP_LEVEL_MINUTES.filter((threshold) => minutes >= threshold).length + 1;
+  return level as HeatmapDay['level'];
+}
+
+/**
+ * Calendar heatmap for the range as week columns of seven days, starting on
+ * the configured week start. The first and last week are padded with days
+ * outside the range so every column is complete.
+ */
+export function getHeatmapWeeks(range: DateRange, weekStartsOn: WeekStartsOn = 'monday'): HeatmapDay[][] {
+  const log = getPracticeLog();
+  const weeks: HeatmapDay[][] = [];
+  for (let week = getWeekStart(range.start, weekStartsOn); week <= range.end; week = addDays(week, 7)) {
+    const days: HeatmapDay[] = [];
+    for (let i = 0; i < 7; i++) {
+      const date = addDays(week, i);
+      const isInRange = inRange(date, range);
+      const seconds = isInRange ? log[date] ?? 0 : 0;
+      days.push({ date, seconds, level: heatmapLevel(seconds), inRange: isInRange });
+    }
+    weeks.push(days);
+  }
+  return weeks;
+}
+
+export function getMonthlyTotals(range: DateRange): PeriodTotal[] {
+  const log = getPracticeLog();
+  const totals: PeriodTotal[] = [];
+  const cursor = new Date(range.start.slice(0, 7) + '-01T12:00:00');
+  const lastMonth = range.end.slice(0, 7);
+  for (let month = range.start.slice(0, 7); month <= lastMonth; month = getLocalYMD(cursor).slice(0, 7)) {
+    totals.push({
+      key: month,
+      label: cursor.toLocaleDateString(undefined, { month: 'short', year: '2-digit' }),
+      seconds: 0,
+    });
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  for (const [date, seconds] of Object.entries(log)) {
+    if (!inRange(date, range)) continue;
+    const total = totals.find((t) => t.key === date.slice(0, 7));
+    if (total) total.seconds += seconds;
+  }
+  return totals;
+}
+
+export function getWeeklyTotals(range: DateRange, weekStartsOn: WeekStartsOn = 'monday'): PeriodTotal[] {
+  const log = getPracticeLog();
+  const totals = new Map<string, PeriodTotal>();
+  for (let week = getWeekStart(range.start, weekStartsOn); week <= range.end; week = addDays(week, 7)) {
+    totals.set(week, { key: week, label: formatShortDate(week), seconds: 0 });
+  }
+  for (const [date, seconds] of Object.entries(log)) {
+    if (!inRange(date, range)) continue;
+    const total = totals.get(getWeekStart(date, weekStartsOn));
+    if (total) total.seconds += seconds;
+  }
+  return Array.from(totals.values());
+}
+
+/**
+ * Weekly minutes for the pieces practiced most in the range. Returns the
+ * pieces (most practiced first) and one row per week for charting.
+ */
+export function getPieceTrends(
+  range: DateRange,
+  weekStartsOn: WeekStartsOn = 'monday',
+  limit: number = 5
+): { pieces: PieceTrend[]; rows: PieceTrendRow[] } {
+  const detailed = getDetailedPracticeLog();
+  const totals = new Map<string, PieceTrend>();
+  // Oldest day first, so later names overwrite earlier ones
+  const days = Object.keys(detailed).filter((date) => inRange(date, range)).sort();
+  for (const date of days) {
+    for (const entry of Object.values(detailed[date])) {
+      const trend = totals.get(entry.itemId) ?? { itemId: entry.itemId, itemName: entry.itemName, seconds: 0 };
+      trend.seconds += entry.seconds;
+      // Names can change; the most recent day with time wins
+      if (entry.seconds > 0 && entry.itemName) trend.itemName = entry.itemName;
+      totals.set(entry.itemId, trend);
+    }
+  }
+  const pieces = Array.from(totals.values())
+    .filter((p) => p.seconds > 0)
+    .sort((a, b) => b.seconds - a.seconds)
+    .slice(0, limit);
+
+  const rows: PieceTrendRow[] = [];
+  for (let week = getWeekStart(range.start, weekStartsOn); week <= range.end; week = addDays(week, 7)) {
+    const minutes: Record<string, number> = {};
+    for (const piece of pieces) {
+      let seconds = 0;
+      for (let i = 0; i < 7; i++) {
+        const date = addDays(week, i);
+        if (inRange(date, range)) seconds += detailed[date]?.[piece.itemId]?.seconds ?? 0;
+      }
+      minutes[piece.itemId] = Math.round(seconds / 60);
+    }
+    rows.push({ weekStart: week, label: formatShortDate(week), minutes });
+  }
+  return { pieces, rows };
+}
+
+/**
+ * Practice seconds per local hour of day (index 0-23), from the work
+ * intervals in the session journal. An interval spanning several hours is
+ * split in proportion to its wall-clock time in each.
+ */
+export function getTimeOfDayDistribution(range: DateRange): number[] {
+  const hours = new Array<number>(24).fill(0);
+  for (const entry of getSessionJournal()) {
+    if (entry.kind !== 'interval' || entry.seconds <= 0) continue;
+    if (!inRange(getLocalYMD(new Date(entry.start)), range)) continue;
+    const span = entry.end - entry.start;
+    if (span <= 0) {
+      hours[new Date(entry.start).getHours()] += entry.seconds;
+      continue;
+    }
+    let cursor = entry.start;
+    while (cursor < entry.end) {
+      const hourEnd = new Date(cursor);
+      hourEnd.setMinutes(60, 0, 0);
+      const sliceEnd = Math.min(hourEnd.getTime(), entry.end);
+      hours[new Date(cursor).getHours()] += (entry.seconds * (sliceEnd - cursor)) / span;
+      cursor = sliceEnd;
+    }
+  }
+  return hours.map((seconds) => Math.round(seconds));
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    getDailyGoalProgress,
+    getWeeklyGoalProgress,
+    getPieceTargets,
+    getStreaks,
+    getOrderedWeekdays,
+    type GoalSettings,
+} from './practiceGoals';
+import { getLocalYMD } from './practiceLog';
+import type { PlanItem } from './planTypes';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const baseSettings: GoalSettings = {
+    dailyGoalMinutes: 0,
+    weeklyGoalMinutes: 0,
+    restDays: [],
+    streakGraceDays: 0,
+    weekStartsOn: 'monday',
+};
+
+const setLog = (log: Record<string, number>) => {
+    localStorageMock.setItem('practice-timer-log', JSON.stringify(log));
+};
+
+// 2025-03-10 is a Monday
+const MON = '2025-03-10';
+const TUE = '2025-03-11';
+const WED = '2025-03-12';
+const THU = '2025-03-13';
+const FRI = '2025-03-14';
+
+describe('practiceGoals', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+        vi.clearAllMocks();
+    });
+
+    it('reports no goal progress when goals are off', () => {
+        expect(getDailyGoalProgress(baseSettings)).toBeNull();
+        expect(getWeeklyGoalProgress(baseSettings)).toBeNull();
+    });
+
+    it('measures daily and weekly goals against the log', () => {
+        setLog({ [MON]: 1200, [WED]: 2400 });
+        const settings = { ...baseSettings, dailyGoalMinutes: 30, weeklyGoalMinutes: 60 };
+
+        expect(getDailyGoalProgress(settings, WED)).toEqual({ targetSeconds: 1800, practicedSeconds: 2400, met: true });
+        expect(getDailyGoalProgress(settings, MON)?.met).toBe(false);
+        expect(getWeeklyGoalProgress(settings, FRI)).toEqual({ targetSeconds: 3600, practicedSeconds: 3600, met: true });
+    });
+
+    it('derives per-piece targets from plan allocations', () => {
+        const today = getLocalYMD();
+        localStorageMock.setItem('practice-timer-detailed-log', JSON.stringify({
+            [today]: { a: { itemId: 'a', itemName: 'Scales', seconds: 600 } },
+        }));
+        const items: PlanItem[] = [
+            { id: 'h', text: 'Warm-up', checked: false, blockType: 'heading1', isHeader: true, children: [
+                { id: 'a', text: 'Scales', checked: false, blockType: 'segment', children: [], allocatedTime: 10 },
+            ] },
+            { id: 'b', text: 'Etude', checked: false, blockType: 'segment', children: [], allocatedTime: 60, allocationPeriod: 'week' },
+            { id: 'c', text: 'Notes', checked: false, blockType: 'text', children: [], allocatedTime: 5 },
+        ];
+
+        const targets = getPieceTargets(items);
+        expect(targets.map((t) => [t.itemId, t.period, t.met])).toEqual([['a', 'day', true], ['b', 'week', false]]);
+    });
+
+    it('counts consecutive days and keeps the streak alive until today is over', () => {
+        setLog({ [MON]: 600, [TUE]: 600, [WED]: 600 });
+
+        expect(getStreaks(baseSettings, WED)).toMatchObject({ currentDays: 3, longestDays: 3, todayPending: false });
+        expect(getStreaks(baseSettings, THU)).toMatchObject({ currentDays: 3, todayPending: true });
+        expect(getStreaks(baseSettings, FRI)).toMatchObject({ currentDays: 0, longestDays: 3 });
+    });
+
+    it('requires the daily goal for a day to count', () => {
+        setLog({ [MON]: 600, [TUE]: 3600 });
+        expect(getStreaks({ ...baseSettings, dailyGoalMinutes: 30 }, TUE).currentDays).toBe(1);
+    });
+
+    it('skips rest days and forgives grace days within a week', () => {
+        setLog({ [MON]: 600, [WED]: 600, [FRI]: 600 });
+        const tuesday = new Date(TUE + 'T12:00:00').getDay();
+
+        expect(getStreaks({ ...baseSettings, restDays: [tuesday] }, THU).currentDays).toBe(2);
+        expect(getStreaks({ ...baseSettings, restDays: [tuesday] }, FRI).currentDays).toBe(1);
+        expect(getStreaks({ ...baseSettings, streakGraceDays: 2 }, FRI).currentDays).toBe(3);
+        expect(getStreaks({ ...baseSettings, streakGraceDays: 1 }, FRI).currentDays).toBe(1);
+    });
+
+    it('counts weekly streaks on weekStartsOn boundaries', () => {
+        // Sat 2025-03-15 and Sun 2025-03-16: one Monday-start week, two Sunday-start weeks
+        setLog({ '2025-03-15': 600, '2025-03-16': 600 });
+
+        expect(getStreaks(baseSettings, '2025-03-16').currentWeeks).toBe(1);
+        expect(getStreaks({ ...baseSettings, weekStartsOn: 'sunday' }, '2025-03-16').currentWeeks).toBe(2);
+    });
+
+    it('orders weekdays from the configured week start', () => {
+        expect(getOrderedWeekdays('monday').map((d) => d.day)).toEqual([1, 2, 3, 4, 5, 6, 0]);
+        expect(getOrderedWeekdays('sunday')[0].day).toBe(0);
+    });
+});
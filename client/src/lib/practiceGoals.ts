@@ -0,0 +1,160 @@
+/**
+ * Practice goals - daily/weekly minute targets, per-piece targets from plan
+ * allocations, and practice streaks. Everything is derived from the practice
+ * logs in practiceLog.ts; only the targets themselves live in settings.
+ */
+import type { PlanItem } from './planTypes';
+import type { SettingsType } from './timerService';
+import {
+  type WeekStartsOn,
+  addDays,
+  getLocalYMD,
+  getPiecePracticedSeconds,
+  getPracticeLog,
+  getWeekStart,
+} from './practiceLog';
+
+/** A day counts towards a streak from one minute of practice when no daily goal is set. */
+const MIN_STREAK_SECONDS = 60;
+
+export type GoalSettings = Pick<
+  SettingsType,
+  'dailyGoalMinutes' | 'weeklyGoalMinutes' | 'restDays' | 'streakGraceDays' | 'weekStartsOn'
+>;
+
+export interface GoalProgress {
+  targetSeconds: number;
+  practicedSeconds: number;
+  met: boolean;
+}
+
+export interface PieceTarget extends GoalProgress {
+  itemId: string;
+  itemName: string;
+  period: 'day' | 'week';
+}
+
+export interface StreakSummary {
+  /** Qualifying days in the current run; today only counts once it qualifies. */
+  currentDays: number;
+  longestDays: number;
+  /** Consecutive weeks (by weekStartsOn) that met the weekly goal, or had practice without one. */
+  currentWeeks: number;
+  longestWeeks: number;
+  /** True when today hasn't qualified yet but the streak is still alive. */
+  todayPending: boolean;
+}
+
+function progress(targetSeconds: number, practicedSeconds: number): GoalProgress {
+  return { targetSeconds, practicedSeconds, met: practicedSeconds >= targetSeconds };
+}
+
+/** Weekdays in display order for the given week start, with short and full labels. */
+export function getOrderedWeekdays(weekStartsOn: WeekStartsOn = 'monday'): Array<{ day: number; label: string; name: string }> {
+  const first = weekStartsOn === 'monday' ? 1 : 0;
+  return Array.from({ length: 7 }, (_, i) => {
+    const day = (first + i) % 7;
+    // 2023-01-01 was a Sunday
+    const date = new Date(2023, 0, 1 + day, 12);
+    return {
+      day,
+      label: date.toLocaleDateString(undefined, { weekday: 'narrow' }),
+      name: date.toLocaleDateString(undefined, { weekday: 'long' }),
+    };
+  });
+}
+
+/** Progress towards the daily goal for `date` (default today), or null when it is off. */
+export function getDailyGoalProgress(settings: GoalSettings, date: string = getLocalYMD()): GoalProgress | null {
+  if (!settings.dailyGoalMinutes) return null;
+  return progress(settings.dailyGoalMinutes * 60, getPracticeLog()[date] ?? 0);
+}
+
+/** Progress towards the weekly goal for the week containing `date`, or null when it is off. */
+export function getWeeklyGoalProgress(settings: GoalSettings, date: string = getLocalYMD()): GoalProgress | null {
+  if (!settings.weeklyGoalMinutes) return null;
+  const weekStart = getWeekStart(date, settings.weekStartsOn);
+  return progress(settings.weeklyGoalMinutes * 60, getWeekSeconds(getPracticeLog(), weekStart));
+}
+
+function getWeekSeconds(log: Record<string, number>, weekStart: string): number {
+  let total = 0;
+  for (let i = 0; i < 7; i++) total += log[addDays(weekStart, i)] ?? 0;
+  return total;
+}
+
+/** Targets for plan segments that have a time allocation, with today's or this week's progress. */
+export function getPieceTargets(planItems: PlanItem[], weekStartsOn: WeekStartsOn = 'monday'): PieceTarget[] {
+  const targets: PieceTarget[] = [];
+  const visit = (items: PlanItem[]) => {
+    for (const item of items) {
+      if (item.blockType === 'segment' && item.allocatedTime) {
+        const period = item.allocationPeriod ?? 'day';
+        targets.push({
+          itemId: item.id,
+          itemName: item.text,
+          period,
+          ...progress(item.allocatedTime * 60, getPiecePracticedSeconds(item.id, period, weekStartsOn)),
+        });
+      }
+      if (item.children?.length) visit(item.children);
+    }
+  };
+  visit(planItems);
+  return targets;
+}
+
+/**
+ * Current and longest streaks. A day qualifies when it meets the daily goal
+ * (or has a minute of practice without one). Missing a rest day never breaks
+ * a streak, and up to `streakGraceDays` other misses per week are forgiven.
+ * Today never breaks a streak; it just hasn't counted yet.
+ */
+export function getStreaks(settings: GoalSettings, today: string = getLocalYMD()): StreakSummary {
+  const log = getPracticeLog();
+  const dates = Object.keys(log).filter((date) => date <= today).sort();
+  const summary: StreakSummary = { currentDays: 0, longestDays: 0, currentWeeks: 0, longestWeeks: 0, todayPending: false };
+  if (dates.length === 0) return summary;
+
+  const dayTarget = settings.dailyGoalMinutes ? settings.dailyGoalMinutes * 60 : MIN_STREAK_SECONDS;
+  const restDays = new Set(settings.restDays ?? []);
+  const graceDays = settings.streakGraceDays ?? 0;
+  const graceUsed = new Map<string, number>();
+
+  let run = 0;
+  for (let date = dates[0]; date <= today; date = addDays(date, 1)) {
+    if ((log[date] ?? 0) >= dayTarget) {
+      run++;
+      summary.longestDays = Math.max(summary.longestDays, run);
+      continue;
+    }
+    if (date === today) {
+      summary.todayPending = run > 0;
+      continue;
+    }
+    if (restDays.has(new Date(date + 'T12:00:00').getDay())) continue;
+    const weekStart = getWeekStart(date, settings.weekStartsOn);
+    const used = graceUsed.get(weekStart) ?? 0;
+    if (used < graceDays) {
+      graceUsed.set(weekStart, used + 1);
+      continue;
+    }
+    run = 0;
+  }
+  summary.currentDays = run;
+
+  const weekTarget = settings.weeklyGoalMinutes ? settings.weeklyGoalMinutes * 60 : MIN_STREAK_SECONDS;
+  const currentWeek = getWeekStart(today, settings.weekStartsOn);
+  let weekRun = 0;
+  for (let week = getWeekStart(dates[0], settings.weekStartsOn); week <= currentWeek; week = addDays(week, 7)) {
+    if (getWeekSeconds(log, week) >= weekTarget) {
+      weekRun++;
+      summary.longestWeeks = Math.max(summary.longestWeeks, weekRun);
+    } else if (week !== currentWeek) {
+      weekRun = 0;
+    }
+  }
+  summary.currentWeeks = weekRun;
+
+  return summary;
+}
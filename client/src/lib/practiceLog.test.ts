@@ -20,6 +20,13 @@ import {
     getCompletionPillColorClass,
     getPracticeLogStateForSync,
     restorePracticeLogStateFromSync,
+    setManualPracticeTime,
+    addManualPracticeTime,
+    getManualLogEntries,
+    getUnattributedSeconds,
+    getReportSummaryForRange,
+    isValidDetailedPracticeLog,
+    getSegmentTempoLog,
 } from './practiceLog';
 
 // Mock localStorage
@@ -255,5 +262,112 @@ describe('practiceLog', () => {
             restorePracticeLogStateFromSync(snapshot);
             expect(getSegmentCompletions()['seg-1']).toEqual([1234567]);
         });
+
+        it('logs the run tempo alongside the completion and merges it on sync', () => {
+            logSegmentCompletion('seg-1', 1000, 72);
+            logSegmentCompletion('seg-1', 5000, 76); // within 15s of the last run: ignored
+            logSegmentCompletion('seg-2', 1000);
+            expect(getSegmentTempoLog()).toEqual({ 'seg-1': [{ ts: 1000, bpm: 72 }] });
+
+            restorePracticeLogStateFromSync({
+                tempoLog: { 'seg-1': [{ ts: 1000, bpm: 72 }, { ts: 90000, bpm: 80 }] },
+            });
+            expect(getSegmentTempoLog()['seg-1']).toEqual([{ ts: 1000, bpm: 72 }, { ts: 90000, bpm: 80 }]);
+        });
+    });
+
+    describe('manual entries', () => {
+        const date = '2025-01-15';
+        const scales = { itemId: 'seg-1', itemName: 'Scales' };
+
+        it('adds time to both logs and marks it as manual', () => {
+            expect(addManualPracticeTime(date, scales, 900)).toBeNull();
+            expect(addManualPracticeTime(date, null, 300)).toBeNull();
+
+            expect(getPracticeLog()[date]).toBe(1200);
+            expect(getDetailedPracticeLog()[date]['seg-1']).toEqual({ ...scales, seconds: 900, manualSeconds: 900 });
+            expect(getUnattributedSeconds(date)).toBe(300);
+            expect(getManualLogEntries().map((e) => e.seconds)).toEqual([900, 300]);
+        });
+
+        it('corrects and deletes timed entries while keeping totals consistent', () => {
+            localStorageMock.setItem('practice-timer-log', JSON.stringify({ [date]: 4000 }));
+            localStorageMock.setItem('practice-timer-detailed-log', JSON.stringify({
+                [date]: { 'seg-1': { ...scales, seconds: 3600 } },
+            }));
+
+            expect(setManualPracticeTime(date, scales, 600)).toBeNull();
+            expect(getPracticeLog()[date]).toBe(1000);
+            expect(getDetailedPracticeLog()[date]['seg-1'].manualSeconds).toBe(-3000);
+
+            expect(setManualPracticeTime(date, scales, 0)).toBeNull();
+            expect(getDetailedPracticeLog()[date]).toBeUndefined();
+            expect(getPracticeLog()[date]).toBe(400);
+
+            expect(setManualPracticeTime(date, null, 0)).toBeNull();
+            expect(getPracticeLog()[date]).toBeUndefined();
+        });
+
+        it('rejects invalid edits without touching the logs', () => {
+            expect(setManualPracticeTime('2025-02-30', scales, 60)).toMatch(/valid date/);
+            expect(setManualPracticeTime('2999-01-01', scales, 60)).toMatch(/future/);
+            expect(setManualPracticeTime(date, scales, -60)).not.toBeNull();
+            expect(setManualPracticeTime(date, scales, 25 * 3600)).not.toBeNull();
+            expect(getPracticeLog()).toEqual({});
+            expect(getManualLogEntries()).toEqual([]);
+        });
+
+        it('validates the detailed log shape', () => {
+            expect(isValidDetailedPracticeLog({ [date]: { 'seg-1': { ...scales, seconds: 60 } } })).toBe(true);
+            expect(isValidDetailedPracticeLog({ [date]: { 'seg-2': { ...scales, seconds: 60 } } })).toBe(false);
+            expect(isValidDetailedPracticeLog({ [date]: { 'seg-1': { ...scales, seconds: -1 } } })).toBe(false);
+            expect(isValidDetailedPracticeLog({ 'Jan 15': {} })).toBe(false);
+        });
+
+        it('reports manual time separately from timed time', () => {
+            localStorageMock.setItem('practice-timer-log', JSON.stringify({ [date]: 600 }));
+            localStorageMock.setItem('practice-timer-detailed-log', JSON.stringify({
+                [date]: { 'seg-1': { ...scales, seconds: 600 } },
+            }));
+            addManualPracticeTime(date, scales, 300);
+
+            const summary = getReportSummaryForRange(date, date, []);
+            expect(summary.totalSeconds).toBe(900);
+            expect(summary.manualSeconds).toBe(300);
+            expect(summary.pieces[0]).toMatchObject({ seconds: 900, manualSeconds: 300 });
+        });
+
+        it('applies corrections made on another device', () => {
+            localStorageMock.setItem('practice-timer-log', JSON.stringify({ [date]: 3600, '2025-01-16': 600 }));
+            restorePracticeLogStateFromSync({
+                log: { [date]: 600, '2025-01-16': 300 },
+                manualEntries: [{ id: 'manual-1', date, seconds: -3000, createdAt: 1 }],
+            });
+
+            expect(getPracticeLog()).toEqual({ [date]: 600, '2025-01-16': 600 });
+            expect(getManualLogEntries()).toHaveLength(1);
+        });
+
+        it('keeps un-pushed timed practice when another device edited the same day', () => {
+            // Both devices synced 3600s of Scales; this one then practiced 900s more
+            localStorageMock.setItem('practice-timer-log', JSON.stringify({ [date]: 4500 }));
+            localStorageMock.setItem('practice-timer-detailed-log', JSON.stringify({
+                [date]: { 'seg-1': { ...scales, seconds: 4500 } },
+            }));
+            // ...while the other device corrected Scales down to 600s
+            restorePracticeLogStateFromSync({
+                log: { [date]: 600 },
+                detailedLog: { [date]: { 'seg-1': { ...scales, seconds: 600, manualSeconds: -3000 } } },
+                manualEntries: [{ id: 'manual-1', date, ...scales, seconds: -3000, createdAt: 1 }],
+            });
+
+            expect(getPracticeLog()[date]).toBe(1500);
+            expect(getDetailedPracticeLog()[date]['seg-1']).toEqual({ ...scales, seconds: 1500, manualSeconds: -3000 });
+
+            // Syncing the same state again changes nothing
+            restorePracticeLogStateFromSync(getPracticeLogStateForSync());
+            expect(getPracticeLog()[date]).toBe(1500);
+            expect(getDetailedPracticeLog()[date]['seg-1'].seconds).toBe(1500);
+        });
     });
 });
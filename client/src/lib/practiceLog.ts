@@ -23,7 +23,7 @@ export interface WeekGroup {
  * Helper to get local date string YYYY-MM-DD
  * This avoids the UTC shift from toISOString()
  */
-function getLocalYMD(date: Date = new Date()): string {
+export function getLocalYMD(date: Date = new Date()): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
   const day = String(date.getDate()).padStart(2, '0');
@@ -61,7 +61,7 @@ export function getDailyBreakdown(): DailyLog[] {
 }
 
 /** Get the week start date (YYYY-MM-DD) for a given date based on weekStartsOn */
-function getWeekStart(dateStr: string, weekStartsOn: WeekStartsOn): string {
+export function getWeekStart(dateStr: string, weekStartsOn: WeekStartsOn): string {
   // Parse as local noon to avoid midnight offsets
   const d = new Date(dateStr + 'T12:00:00');
   const day = d.getDay(); // 0=Sun, 1=Mon, ..., 6=Sat
@@ -75,6 +75,20 @@ function getWeekStart(dateStr: string, weekStartsOn: WeekStartsOn): string {
   return getLocalYMD(weekStart);
 }
 
+/** The YYYY-MM-DD `days` after (or before, when negative) `ymd`. */
+export function addDays(ymd: string, days: number): string {
+  const d = new Date(ymd + 'T12:00:00');
+  d.setDate(d.getDate() + days);
+  return getLocalYMD(d);
+}
+
+/** Whole days from one YYYY-MM-DD to another; negative when `toYMD` is earlier. */
+export function daysBetween(fromYMD: string, toYMD: string): number {
+  const from = new Date(fromYMD + 'T12:00:00').getTime();
+  const to = new Date(toYMD + 'T12:00:00').getTime();
+  return Math.round((to - from) / (24 * 60 * 60 * 1000));
+}
+
 /** Format week start date for display, e.g. "Week of Mon Jan 6" */
 function formatWeekLabel(weekStartStr: string): string {
   const d = new Date(weekStartStr + 'T12:00:00');
@@ -186,6 +200,8 @@ export interface DetailedLogEntry {
   itemId: string;
   itemName: string;
   seconds: number;
+  /** Net seconds added (or removed, if negative) by manual edits; the rest is timed. */
+  manualSeconds?: number;
 }
 
 export type DetailedPracticeLog = Record<string, Record<string, DetailedLogEntry>>;
@@ -226,6 +242,174 @@ export function addDetailedPracticeTime(itemId: string, itemName: string, second
   saveDetailedPracticeLog(log);
 }
 
+// --- Manual entries ---------------------------------------------------------
+// Time practiced away from the app, and corrections to bogus timed entries.
+// Every edit is applied to both logs and recorded as a signed change in the
+// manual entry ledger, so reports can tell manual time from timed time.
+
+const MANUAL_ENTRIES_KEY = 'practice-timer-manual-entries';
+const YMD_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SECONDS_PER_DAY = 24 * 60 * 60;
+
+/** Type guard for a detailed log read from storage, sync or a manual edit. */
+export function isValidDetailedPracticeLog(value: unknown): value is DetailedPracticeLog {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value as Record<string, unknown>).every(([date, items]) => {
+    if (!YMD_PATTERN.test(date) || !items || typeof items !== 'object' || Array.isArray(items)) return false;
+    return Object.entries(items as Record<string, unknown>).every(([itemId, entry]) => {
+      const e = entry as DetailedLogEntry;
+      return (
+        !!e &&
+        typeof e === 'object' &&
+        e.itemId === itemId &&
+        typeof e.itemName === 'string' &&
+        Number.isFinite(e.seconds) &&
+        e.seconds >= 0 &&
+        (e.manualSeconds === undefined || Number.isFinite(e.manualSeconds))
+      );
+    });
+  });
+}
+
+export interface ManualLogEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  itemId?: string; // Absent for time not tied to a plan item
+  itemName?: string;
+  seconds: number; // Signed change applied to the logs
+  createdAt: number; // Unix ms
+}
+
+export function getManualLogEntries(): ManualLogEntry[] {
+  try {
+    const stored = localStorage.getItem(MANUAL_ENTRIES_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveManualLogEntries(entries: ManualLogEntry[]): void {
+  try {
+    localStorage.setItem(MANUAL_ENTRIES_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.error('Failed to save manual log entries:', e);
+  }
+}
+
+/** Returns an error message for an invalid manual edit, or null when it is fine. */
+export function validateManualLogEdit(date: string, seconds: number): string | null {
+  if (!YMD_PATTERN.test(date) || getLocalYMD(new Date(date + 'T12:00:00')) !== date) {
+    return 'Choose a valid date.';
+  }
+  if (date > getLocalYMD()) return "You can't log time for a future date.";
+  if (!Number.isInteger(seconds) || seconds < 0) return 'Enter a whole number of minutes, 0 or more.';
+  if (seconds > MAX_SECONDS_PER_DAY) return 'A day only has 24 hours.';
+  return null;
+}
+
+/** Seconds logged on a date that aren't attributed to any plan item. */
+export function getUnattributedSeconds(date: string): number {
+  const detailedTotal = Object.values(getDetailedPracticeLog()[date] ?? {}).reduce(
+    (sum, entry) => sum + entry.seconds,
+    0
+  );
+  return Math.max(0, (getPracticeLog()[date] ?? 0) - detailedTotal);
+}
+
+/**
+ * Set the time logged on `date` for a plan item (or, with a null item, the
+ * time not tied to any plan item) to `seconds`. The overall log moves by the
+ * same amount so it never drops below the sum of the detailed entries.
+ * Returns an error message, or null once the edit is saved.
+ */
+export function setManualPracticeTime(
+  date: string,
+  item: { itemId: string; itemName: string } | null,
+  seconds: number,
+  now: number = Date.now()
+): string | null {
+  const error = validateManualLogEdit(date, seconds);
+  if (error) return error;
+
+  const detailed = getDetailedPracticeLog();
+  const dayItems = { ...(detailed[date] ?? {}) };
+  let delta: number;
+
+  if (item) {
+    const existing = dayItems[item.itemId];
+    delta = seconds - (existing?.seconds ?? 0);
+    if (seconds === 0) {
+      delete dayItems[item.itemId];
+    } else {
+      dayItems[item.itemId] = {
+        itemId: item.itemId,
+        itemName: item.itemName || existing?.itemName || '',
+        seconds,
+        manualSeconds: (existing?.manualSeconds ?? 0) + delta,
+      };
+    }
+  } else {
+    delta = seconds - getUnattributedSeconds(date);
+  }
+  if (delta === 0) return null;
+
+  const nextDetailed = { ...detailed, [date]: dayItems };
+  if (Object.keys(dayItems).length === 0) delete nextDetailed[date];
+  // Only the edited day is checked so an odd legacy day elsewhere can't block edits
+  if (!isValidDetailedPracticeLog({ [date]: dayItems })) return 'The practice log could not be updated.';
+
+  const log = getPracticeLog();
+  const detailedTotal = Object.values(dayItems).reduce((sum, entry) => sum + entry.seconds, 0);
+  const total = Math.max(detailedTotal, (log[date] ?? 0) + delta);
+  if (total > MAX_SECONDS_PER_DAY) return 'A day only has 24 hours.';
+  if (total > 0) {
+    log[date] = total;
+  } else {
+    delete log[date];
+  }
+
+  try {
+    localStorage.setItem(PRACTICE_LOG_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error('Failed to save practice log:', e);
+    return 'The practice log could not be saved.';
+  }
+  saveDetailedPracticeLog(nextDetailed);
+  saveManualLogEntries([
+    ...getManualLogEntries(),
+    {
+      id: `manual-${now}-${Math.random().toString(36).slice(2, 9)}`,
+      date,
+      ...(item ? { itemId: item.itemId, itemName: item.itemName } : {}),
+      seconds: delta,
+      createdAt: now,
+    },
+  ]);
+  return null;
+}
+
+/** Add `seconds` on top of what is already logged for the date and item. */
+export function addManualPracticeTime(
+  date: string,
+  item: { itemId: string; itemName: string } | null,
+  seconds: number,
+  now: number = Date.now()
+): string | null {
+  if (!Number.isInteger(seconds) || seconds <= 0) return 'Enter a whole number of minutes, more than 0.';
+  const current = item ? getDetailedPracticeLog()[date]?.[item.itemId]?.seconds ?? 0 : getUnattributedSeconds(date);
+  return setManualPracticeTime(date, item, current + seconds, now);
+}
+
+/** Net manually added seconds for dates in [startDate, endDate], never below 0. */
+export function getManualSecondsForRange(startDate: string, endDate: string): number {
+  const net = getManualLogEntries()
+    .filter((entry) => entry.date >= startDate && entry.date <= endDate)
+    .reduce((sum, entry) => sum + entry.seconds, 0);
+  return Math.max(0, net);
+}
+
 export interface PieceTimeSummary {
   itemId: string;
   itemName: string;
@@ -357,7 +541,9 @@ export interface Last7DaysSummary {
   startDate: string; // YYYY-MM-DD
   endDate: string;   // YYYY-MM-DD
   totalSeconds: number;
-  pieces: Array<{ itemId: string; itemName: string; seconds: number; completionsCount?: number }>;
+  /** Part of totalSeconds that was entered manually rather than timed. */
+  manualSeconds?: number;
+  pieces: Array<{ itemId: string; itemName: string; seconds: number; manualSeconds?: number; completionsCount?: number }>;
 }
 
 export function getReportSummaryForRange(
@@ -365,7 +551,7 @@ export function getReportSummaryForRange(
   endDate: string,
   planItems: PracticePlanItem[]
 ): Last7DaysSummary {
-  const pieceMap: Record<string, { itemName: string; seconds: number }> = {};
+  const pieceMap: Record<string, { itemName: string; seconds: number; manualSeconds: number }> = {};
   const log = getDetailedPracticeLog();
   const overallLog = getPracticeLog();
 
@@ -382,8 +568,9 @@ export function getReportSummaryForRange(
     const d = new Date(dateStr + 'T12:00:00');
     if (d >= start && d <= end) {
       for (const [itemId, entry] of Object.entries(pieces)) {
-        if (!pieceMap[itemId]) pieceMap[itemId] = { itemName: entry.itemName, seconds: 0 };
+        if (!pieceMap[itemId]) pieceMap[itemId] = { itemName: entry.itemName, seconds: 0, manualSeconds: 0 };
         pieceMap[itemId].seconds += entry.seconds;
+        pieceMap[itemId].manualSeconds += entry.manualSeconds ?? 0;
       }
     }
   }
@@ -403,12 +590,12 @@ export function getReportSummaryForRange(
     if (count > 0 && !pieceMap[itemId]) {
       const flat = flattenPlan(planItems);
       const planItem = flat.find((p) => p.id === itemId);
-      pieceMap[itemId] = { itemName: planItem?.text || 'Segment', seconds: 0 };
+      pieceMap[itemId] = { itemName: planItem?.text || 'Segment', seconds: 0, manualSeconds: 0 };
     }
   }
 
   const pieces = Object.entries(pieceMap)
-    .map(([itemId, { itemName, seconds }]) => {
+    .map(([itemId, { itemName, seconds, manualSeconds }]) => {
       const rawTimestamps = completions[itemId] || [];
       const itemTimestamps = deduplicateTimestamps(rawTimestamps);
       const explicitCount = itemTimestamps.filter((ts) => ts >= startMs && ts <= endMs).length;
@@ -425,12 +612,14 @@ export function getReportSummaryForRange(
         itemId,
         itemName,
         seconds,
+        ...(manualSeconds > 0 ? { manualSeconds: Math.min(manualSeconds, seconds) } : {}),
         completionsCount: Math.max(explicitCount, legacyCount),
       };
     })
     .sort((a, b) => b.seconds - a.seconds);
 
-  return { startDate, endDate, totalSeconds, pieces };
+  const manualSeconds = Math.min(getManualSecondsForRange(startDate, endDate), totalSeconds);
+  return { startDate, endDate, totalSeconds, ...(manualSeconds > 0 ? { manualSeconds } : {}), pieces };
 }
 
 export function getThisWeekSummary(
@@ -511,7 +700,8 @@ export function getSegmentCompletions(): SegmentCompletionLog {
   }
 }
 
-export function logSegmentCompletion(itemId: string, timestamp: number = Date.now()): void {
+/** `tempo` is the metronome tempo the run was played at, for segments that track one. */
+export function logSegmentCompletion(itemId: string, timestamp: number = Date.now(), tempo?: number): void {
   if (!itemId) return;
   const completions = getSegmentCompletions();
   if (!completions[itemId]) {
@@ -523,6 +713,40 @@ export function logSegmentCompletion(itemId: string, timestamp: number = Date.no
   }
   completions[itemId].push(timestamp);
   saveSegmentCompletions(completions);
+  if (tempo) {
+    const tempoLog = getSegmentTempoLog();
+    tempoLog[itemId] = [...(tempoLog[itemId] ?? []), { ts: timestamp, bpm: tempo }];
+    saveSegmentTempoLog(tempoLog);
+  }
+}
+
+const SEGMENT_TEMPO_LOG_KEY = 'practice-timer-tempo-log';
+
+export interface TempoLogEntry {
+  ts: number; // Unix ms, same as the completion timestamp
+  bpm: number;
+}
+
+/** Tempo of each completed run, by segment id. */
+export type SegmentTempoLog = Record<string, TempoLogEntry[]>;
+
+export function getSegmentTempoLog(): SegmentTempoLog {
+  try {
+    const stored = localStorage.getItem(SEGMENT_TEMPO_LOG_KEY);
+    if (!stored) return {};
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveSegmentTempoLog(log: SegmentTempoLog): void {
+  try {
+    localStorage.setItem(SEGMENT_TEMPO_LOG_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error('Failed to save segment tempo log:', e);
+  }
 }
 
 export function removeSegmentCompletionToday(itemId: string, now: number = Date.now()): void {
@@ -661,6 +885,26 @@ export function hasPlayedSegmentInLast2Days(
   return false;
 }
 
+/**
+ * The last day on or before `today` that any of `itemIds` was completed or
+ * played for at least a minute; time logged without a completion (stopped
+ * early, or older logs) still counts.
+ */
+export function getLastPlayedDate(itemIds: string[], today: string = getLocalYMD()): string | null {
+  let last: string | null = null;
+  const consider = (day: string) => {
+    if (day <= today && (!last || day > last)) last = day;
+  };
+  const completions = getSegmentCompletions();
+  for (const id of itemIds) {
+    for (const ts of completions[id] ?? []) consider(getLocalYMD(new Date(ts)));
+  }
+  for (const [day, entries] of Object.entries(getDetailedPracticeLog())) {
+    if (itemIds.some((id) => (entries[id]?.seconds ?? 0) >= 60)) consider(day);
+  }
+  return last;
+}
+
 export function getCompletionPillColorClass(
   completionsCount: number,
   playedInLast2Days: boolean
@@ -702,11 +946,15 @@ export function getPracticeLogStateForSync(): {
   log: Record<string, number>;
   detailedLog: DetailedPracticeLog;
   completions: SegmentCompletionLog;
+  manualEntries: ManualLogEntry[];
+  tempoLog: SegmentTempoLog;
 } {
   return {
     log: getPracticeLog(),
     detailedLog: getDetailedPracticeLog(),
     completions: getSegmentCompletions(),
+    manualEntries: getManualLogEntries(),
+    tempoLog: getSegmentTempoLog(),
   };
 }
 
@@ -714,12 +962,64 @@ export function restorePracticeLogStateFromSync(data: {
   log?: Record<string, number>;
   detailedLog?: DetailedPracticeLog;
   completions?: SegmentCompletionLog;
+  manualEntries?: ManualLogEntry[];
+  tempoLog?: SegmentTempoLog;
 }): void {
+  // Manual edits are kept as signed deltas on top of timed practice. Each side's
+  // timed seconds are its logged seconds minus the edits it knows about; those
+  // merge by max (so un-pushed practice survives) and all edits apply on top
+  // (so corrections that removed time aren't undone).
+  const localEntries = getManualLogEntries();
+  const remoteEntries = Array.isArray(data.manualEntries)
+    ? data.manualEntries.filter((entry) => entry && typeof entry.id === 'string' && YMD_PATTERN.test(entry.date))
+    : [];
+  const knownIds = new Set(localEntries.map((entry) => entry.id));
+  const incoming = remoteEntries.filter((entry) => !knownIds.has(entry.id));
+  const mergedEntries = [...localEntries, ...incoming].sort((a, b) => a.createdAt - b.createdAt);
+  if (incoming.length > 0) saveManualLogEntries(mergedEntries);
+
+  const manualSeconds = (entries: ManualLogEntry[], date: string, itemId?: string) =>
+    entries
+      .filter((entry) => entry.date === date && (itemId === undefined || entry.itemId === itemId))
+      .reduce((sum, entry) => sum + entry.seconds, 0);
+
+  const currentDetailed = getDetailedPracticeLog();
+  let mergedDetailed = currentDetailed;
+  if (data.detailedLog) {
+    const remoteDetailed = data.detailedLog;
+    mergedDetailed = {};
+    for (const date of Array.from(new Set([...Object.keys(currentDetailed), ...Object.keys(remoteDetailed)]))) {
+      const local = currentDetailed[date] ?? {};
+      const remote = remoteDetailed[date] ?? {};
+      const day: Record<string, DetailedLogEntry> = {};
+      for (const itemId of Array.from(new Set([...Object.keys(local), ...Object.keys(remote)]))) {
+        const localTimed = (local[itemId]?.seconds ?? 0) - manualSeconds(localEntries, date, itemId);
+        const remoteTimed = (remote[itemId]?.seconds ?? 0) - manualSeconds(remoteEntries, date, itemId);
+        const manual = manualSeconds(mergedEntries, date, itemId);
+        const seconds = Math.max(0, Math.max(localTimed, remoteTimed) + manual);
+        if (seconds === 0) continue;
+        day[itemId] = {
+          itemId,
+          itemName: local[itemId]?.itemName || remote[itemId]?.itemName || '',
+          seconds,
+          ...(manual !== 0 ? { manualSeconds: manual } : {}),
+        };
+      }
+      if (Object.keys(day).length > 0) mergedDetailed[date] = day;
+    }
+    saveDetailedPracticeLog(mergedDetailed);
+  }
+
   if (data.log) {
     const currentLog = getPracticeLog();
-    const mergedLog = { ...data.log };
-    for (const [date, secs] of Object.entries(currentLog)) {
-      mergedLog[date] = Math.max(mergedLog[date] ?? 0, secs);
+    const remoteLog = data.log;
+    const mergedLog: Record<string, number> = {};
+    for (const date of Array.from(new Set([...Object.keys(currentLog), ...Object.keys(remoteLog)]))) {
+      const localTimed = (currentLog[date] ?? 0) - manualSeconds(localEntries, date);
+      const remoteTimed = (remoteLog[date] ?? 0) - manualSeconds(remoteEntries, date);
+      const detailedTotal = Object.values(mergedDetailed[date] ?? {}).reduce((sum, entry) => sum + entry.seconds, 0);
+      const seconds = Math.max(detailedTotal, Math.max(localTimed, remoteTimed) + manualSeconds(mergedEntries, date));
+      if (seconds > 0) mergedLog[date] = seconds;
     }
     try {
       localStorage.setItem(PRACTICE_LOG_KEY, JSON.stringify(mergedLog));
@@ -727,29 +1027,6 @@ export function restorePracticeLogStateFromSync(data: {
       console.error('Failed to restore practice log:', e);
     }
   }
-  if (data.detailedLog) {
-    const currentDetailed = getDetailedPracticeLog();
-    const mergedDetailed = { ...data.detailedLog };
-    for (const [date, items] of Object.entries(currentDetailed)) {
-      if (!mergedDetailed[date]) {
-        mergedDetailed[date] = items;
-      } else {
-        mergedDetailed[date] = { ...mergedDetailed[date] };
-        for (const [itemId, entry] of Object.entries(items)) {
-          if (!mergedDetailed[date][itemId]) {
-            mergedDetailed[date][itemId] = entry;
-          } else {
-            mergedDetailed[date][itemId] = {
-              ...mergedDetailed[date][itemId],
-              seconds: Math.max(mergedDetailed[date][itemId].seconds, entry.seconds),
-              itemName: entry.itemName || mergedDetailed[date][itemId].itemName,
-            };
-          }
-        }
-      }
-    }
-    saveDetailedPracticeLog(mergedDetailed);
-  }
   if (data.completions) {
     const currentCompletions = getSegmentCompletions();
     const mergedCompletions = { ...data.completions };
@@ -763,6 +1040,38 @@ export function restorePracticeLogStateFromSync(data: {
     }
     saveSegmentCompletions(mergedCompletions);
   }
+  if (data.tempoLog && typeof data.tempoLog === 'object') {
+    const mergedTempo = getSegmentTempoLog();
+    for (const [itemId, entries] of Object.entries(data.tempoLog)) {
+      if (!Array.isArray(entries)) continue;
+      const known = new Set((mergedTempo[itemId] ?? []).map((entry) => entry.ts));
+      const incoming = entries.filter((entry) => entry && typeof entry.bpm === 'number' && !known.has(entry.ts));
+      if (incoming.length > 0) {
+        mergedTempo[itemId] = [...(mergedTempo[itemId] ?? []), ...incoming].sort((a, b) => a.ts - b.ts);
+      }
+    }
+    saveSegmentTempoLog(mergedTempo);
+  }
 }
 
-
+/**
+ * Overwrite the local logs with an imported copy. Unlike the sync restore
+ * nothing is merged; callers validate the data first.
+ */
+export function replacePracticeLogState(data: {
+  log: Record<string, number>;
+  detailedLog: DetailedPracticeLog;
+  completions: SegmentCompletionLog;
+  manualEntries: ManualLogEntry[];
+  tempoLog?: SegmentTempoLog;
+}): void {
+  try {
+    localStorage.setItem(PRACTICE_LOG_KEY, JSON.stringify(data.log));
+  } catch (e) {
+    console.error('Failed to replace practice log:', e);
+  }
+  saveDetailedPracticeLog(data.detailedLog);
+  saveSegmentCompletions(data.completions);
+  saveManualLogEntries(data.manualEntries);
+  saveSegmentTempoLog(data.tempoLog ?? {});
+}
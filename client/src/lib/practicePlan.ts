@@ -1,5 +1,6 @@
 /**
- * Practice plan - nested todo list, stored in localStorage
+ * Practice plan - nested todo list, stored in localStorage.
+ * Reads and writes go to the active plan of the plan library.
  */
 
 import { BlockType, PlanItem, PlanSnapshot, generateId } from "./planTypes";
@@ -12,18 +13,18 @@ import {
   resetPlanChecks,
 } from "./planStoreHelpers";
 import { getSettings } from "./localStorage";
+import { getSequenceIntervals, countWorkIntervals } from "./intervalSequence";
+import { getActivePlanStorageKey, getActivePlanSnapshotKey } from "./planLibrary";
 
-const PRACTICE_PLAN_KEY = "practice-timer-plan";
 const PERMANENT_SHARE_ID_KEY = "practice-timer-share-id";
 const LAST_PUBLISHED_DATE_KEY = "practice-timer-last-published-date";
-const SNAPSHOT_KEY = "practice-timer-plan-history";
 
 export type { BlockType, PlanItem as PracticePlanItem, PlanSnapshot } from "./planTypes";
 export { generateId };
 
 function generateDefaultPracticePlan(): PlanItem[] {
   const settings = getSettings();
-  const iterations = settings.iterations;
+  const iterations = countWorkIntervals(getSequenceIntervals(settings));
 
   return Array.from({ length: iterations }, (_, i) => ({
     id: generateId(),
@@ -36,19 +37,19 @@ function generateDefaultPracticePlan(): PlanItem[] {
 }
 
 export function getPracticePlan(): PlanItem[] {
-  return getPlanFromStorage(PRACTICE_PLAN_KEY, generateDefaultPracticePlan);
+  return getPlanFromStorage(getActivePlanStorageKey(), generateDefaultPracticePlan);
 }
 
 export function savePracticePlan(items: PlanItem[]): void {
-  savePlanToStorage(PRACTICE_PLAN_KEY, items);
+  savePlanToStorage(getActivePlanStorageKey(), items);
 }
 
 export function saveSnapshot(items: PlanItem[]): void {
-  savePlanSnapshot(SNAPSHOT_KEY, items);
+  savePlanSnapshot(getActivePlanSnapshotKey(), items);
 }
 
 export function getSnapshots(): PlanSnapshot[] {
-  return getPlanSnapshots(SNAPSHOT_KEY);
+  return getPlanSnapshots(getActivePlanSnapshotKey());
 }
 
 export function resetPracticePlanChecks(items: PlanItem[]): PlanItem[] {
@@ -56,7 +57,7 @@ export function resetPracticePlanChecks(items: PlanItem[]): PlanItem[] {
 }
 
 export const practicePlanApi = createPlanStoreApi(
-  PRACTICE_PLAN_KEY,
+  getActivePlanStorageKey,
   PERMANENT_SHARE_ID_KEY,
   LAST_PUBLISHED_DATE_KEY,
   generateDefaultPracticePlan
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { RepertoirePiece } from './repertoire.types';
+import { savePracticePlan } from './practicePlan';
+import {
+    type PieceReview,
+    applyReview,
+    getDueReviews,
+    getReviewDueDate,
+    getReviewLog,
+    mergeReviewLogs,
+    ratePieceReview,
+} from './repertoireReview';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const piece = (id: string, status: RepertoirePiece['status'] = 'maintaining'): RepertoirePiece => ({
+    id, user_id: 'u', title: id, composer: '', level: '', type: 'repertoire', status,
+    start_date: null, target_date: null, video_url: null, score_url: null, notes: [],
+    created_at: '', updated_at: '',
+});
+
+describe('repertoireReview', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+    });
+
+    it('grows the interval on good runs and resets it on a lapse', () => {
+        const first = applyReview(undefined, 'bach', 'good', '2026-03-01');
+        expect(first).toMatchObject({ intervalDays: 1, reps: 1, dueDate: '2026-03-02' });
+        const second = applyReview(first, 'bach', 'good', '2026-03-02');
+        expect(second).toMatchObject({ intervalDays: 3, dueDate: '2026-03-05' });
+        const third = applyReview(second, 'bach', 'good', '2026-03-05');
+        expect(third).toMatchObject({ intervalDays: 8, dueDate: '2026-03-13' });
+
+        const lapse = applyReview(third, 'bach', 'again', '2026-03-13');
+        expect(lapse).toMatchObject({ intervalDays: 1, reps: 0, lapses: 1, ease: 2.3 });
+        expect(applyReview(third, 'bach', 'easy', '2026-03-13').intervalDays).toBeGreaterThan(third.intervalDays);
+    });
+
+    it('counts unrated runs after the last review as good', () => {
+        const review = applyReview(undefined, 'bach', 'good', '2026-03-01');
+        expect(getReviewDueDate(review, '2026-03-01', '2026-03-10')).toBe('2026-03-02');
+        expect(getReviewDueDate(review, '2026-03-04', '2026-03-10')).toBe('2026-03-07');
+        expect(getReviewDueDate(undefined, null, '2026-03-10')).toBe('2026-03-10');
+    });
+
+    it('replaces a rating given earlier the same day', () => {
+        const now = new Date('2026-03-10T18:00:00').getTime();
+        ratePieceReview('bach', 'good', now - 86_400_000 * 3);
+        ratePieceReview('bach', 'again', now);
+        const rerated = ratePieceReview('bach', 'good', now);
+        expect(rerated).toMatchObject({ reps: 2, lapses: 0, intervalDays: 3, dueDate: '2026-03-13' });
+        expect(getReviewLog().bach.previous?.lastReviewed).toBe('2026-03-07');
+    });
+
+    it('merges devices by keeping the newer entry per piece', () => {
+        const older = applyReview(undefined, 'bach', 'good', '2026-03-01', '2026-03-01T10:00:00Z');
+        const newer = applyReview(older, 'bach', 'hard', '2026-03-02', '2026-03-02T10:00:00Z');
+        const other: PieceReview = applyReview(undefined, 'mozart', 'easy', '2026-03-02', '2026-03-02T11:00:00Z');
+        expect(mergeReviewLogs({ bach: newer }, { bach: older, mozart: other })).toEqual({ bach: newer, mozart: other });
+        expect(mergeReviewLogs({ bach: older }, { bach: newer }).bach).toEqual(newer);
+    });
+
+    it('lists maintained pieces that are due, from linked segments in the plan', () => {
+        const now = new Date('2026-03-10T18:00:00').getTime();
+        savePracticePlan([
+            { id: 'seg-bach', text: 'Bach', checked: false, children: [], blockType: 'segment', repertoirePieceId: 'bach' },
+            { id: 'seg-mozart', text: 'Mozart', checked: false, children: [], blockType: 'segment', repertoirePieceId: 'mozart' },
+        ]);
+        localStorage.setItem('practice-timer-detailed-log', JSON.stringify({
+            '2026-03-05': { 'seg-bach': { itemId: 'seg-bach', itemName: 'Bach', seconds: 600 } },
+            '2026-03-10': { 'seg-mozart': { itemId: 'seg-mozart', itemName: 'Mozart', seconds: 600 } },
+        }));
+
+        const due = getDueReviews([piece('bach'), piece('mozart'), piece('chopin'), piece('liszt', 'learning')], now);
+        expect(due.map((r) => [r.piece.id, r.overdueDays])).toEqual([['bach', 4], ['chopin', 0]]);
+        expect(due[0].lastPlayed).toBe('2026-03-05');
+    });
+});
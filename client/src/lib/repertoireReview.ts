@@ -0,0 +1,258 @@
+/**
+ * Spaced-repetition reviews for maintained repertoire.
+ *
+ * Each `maintaining` piece has a review interval that grows while runs go
+ * well and shrinks when they don't (an SM-2 style ease factor). A run is any
+ * practice of a plan segment linked to the piece through `repertoirePieceId`;
+ * after a run the player can rate it, and an unrated run counts as "good".
+ * The review state is stored per piece with an `updatedAt`, so devices merge
+ * by keeping the newer entry for each piece.
+ */
+import type { PlanItem } from './planTypes';
+import type { RepertoirePiece } from './repertoire.types';
+import { getPlanItems, getPlanLibrary } from './planLibrary';
+import { lessonPlanApi } from './lessonPlan';
+import { addDays, daysBetween, getLastPlayedDate, getLocalYMD } from './practiceLog';
+import { scheduleUserDataPush } from './userDataSync';
+
+const REVIEWS_KEY = 'practice-timer-repertoire-reviews';
+
+/** Fired on window whenever review state changes so due lists can refresh. */
+export const REVIEWS_CHANGED_EVENT = 'repertoire-reviews-changed';
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_RATINGS: { value: ReviewRating; label: string }[] = [
+  { value: 'again', label: 'Again' },
+  { value: 'hard', label: 'Hard' },
+  { value: 'good', label: 'Good' },
+  { value: 'easy', label: 'Easy' },
+];
+
+export interface PieceReview {
+  pieceId: string;
+  /** Days from the last review to the next one. */
+  intervalDays: number;
+  ease: number;
+  /** Successful reviews in a row; "again" starts over. */
+  reps: number;
+  lapses: number;
+  /** YYYY-MM-DD of the last run counted as a review. */
+  lastReviewed: string;
+  dueDate: string;
+  updatedAt: string;
+  /** The state before the last rating, so re-rating the same day replaces it. */
+  previous?: Omit<PieceReview, 'previous'>;
+}
+
+export type ReviewLog = Record<string, PieceReview>;
+
+export interface DueReview {
+  piece: RepertoirePiece;
+  dueDate: string;
+  /** Days past the due date; 0 when due today. */
+  overdueDays: number;
+  lastPlayed: string | null;
+}
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 180;
+
+function isValidReview(value: unknown): value is PieceReview {
+  const review = value as PieceReview;
+  return (
+    !!review &&
+    typeof review === 'object' &&
+    typeof review.pieceId === 'string' &&
+    typeof review.intervalDays === 'number' &&
+    typeof review.ease === 'number' &&
+    typeof review.dueDate === 'string' &&
+    typeof review.lastReviewed === 'string' &&
+    typeof review.updatedAt === 'string'
+  );
+}
+
+/**
+ * The review state after a run on `date` rated `rating`. `previous` is the
+ * piece's state before the run, if it has been reviewed before.
+ */
+export function applyReview(
+  previous: PieceReview | undefined,
+  pieceId: string,
+  rating: ReviewRating,
+  date: string,
+  updatedAt: string = new Date().toISOString()
+): PieceReview {
+  let ease = previous?.ease ?? INITIAL_EASE;
+  let reps = previous?.reps ?? 0;
+  let lapses = previous?.lapses ?? 0;
+  const lastInterval = previous?.intervalDays ?? 0;
+  let intervalDays: number;
+
+  switch (rating) {
+    case 'again':
+      reps = 0;
+      lapses += 1;
+      ease = Math.max(MIN_EASE, ease - 0.2);
+      intervalDays = 1;
+      break;
+    case 'hard':
+      ease = Math.max(MIN_EASE, ease - 0.15);
+      intervalDays = Math.max(1, Math.round(lastInterval * 1.2));
+      reps += 1;
+      break;
+    case 'good':
+      intervalDays = reps === 0 ? 1 : reps === 1 ? 3 : Math.round(lastInterval * ease);
+      reps += 1;
+      break;
+    case 'easy':
+      ease += 0.15;
+      intervalDays = reps === 0 ? 4 : Math.round(Math.max(lastInterval, 1) * ease * 1.3);
+      reps += 1;
+      break;
+  }
+  intervalDays = Math.min(MAX_INTERVAL_DAYS, Math.max(1, intervalDays));
+
+  return {
+    pieceId,
+    intervalDays,
+    ease: Math.round(ease * 100) / 100,
+    reps,
+    lapses,
+    lastReviewed: date,
+    dueDate: addDays(date, intervalDays),
+    updatedAt,
+  };
+}
+
+/**
+ * When a piece is next due. Runs after the last rated review count as
+ * "good"; a piece never played is due straight away.
+ */
+export function getReviewDueDate(
+  review: PieceReview | undefined,
+  lastPlayed: string | null,
+  today: string
+): string {
+  if (lastPlayed && (!review || lastPlayed > review.lastReviewed)) {
+    return applyReview(review, review?.pieceId ?? '', 'good', lastPlayed).dueDate;
+  }
+  return review?.dueDate ?? today;
+}
+
+// --- Storage ---
+
+export function getReviewLog(): ReviewLog {
+  try {
+    const stored = localStorage.getItem(REVIEWS_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    const log: ReviewLog = {};
+    if (parsed && typeof parsed === 'object') {
+      for (const [pieceId, review] of Object.entries(parsed)) {
+        if (isValidReview(review)) log[pieceId] = review;
+      }
+    }
+    return log;
+  } catch (e) {
+    console.error('Failed to load repertoire reviews:', e);
+    return {};
+  }
+}
+
+function writeReviewLog(log: ReviewLog): void {
+  try {
+    localStorage.setItem(REVIEWS_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error('Failed to save repertoire reviews:', e);
+  }
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(REVIEWS_CHANGED_EVENT));
+  }
+}
+
+/** Record a self-rated run of `pieceId`, played today. Rating again the same day replaces the rating. */
+export function ratePieceReview(pieceId: string, rating: ReviewRating, now: number = Date.now()): PieceReview {
+  const log = getReviewLog();
+  const date = getLocalYMD(new Date(now));
+  const current = log[pieceId];
+  let base: Omit<PieceReview, 'previous'> | undefined;
+  if (current && current.lastReviewed === date) {
+    base = current.previous;
+  } else if (current) {
+    base = { ...current };
+    delete (base as PieceReview).previous;
+  }
+  const review: PieceReview = {
+    ...applyReview(base, pieceId, rating, date, new Date(now).toISOString()),
+    ...(base ? { previous: base } : {}),
+  };
+  writeReviewLog({ ...log, [pieceId]: review });
+  scheduleUserDataPush();
+  return review;
+}
+
+/** Keep the newer entry for each piece. */
+export function mergeReviewLogs(local: ReviewLog, remote: ReviewLog): ReviewLog {
+  const merged: ReviewLog = { ...local };
+  for (const [pieceId, review] of Object.entries(remote)) {
+    if (!isValidReview(review)) continue;
+    const existing = merged[pieceId];
+    if (!existing || review.updatedAt > existing.updatedAt) merged[pieceId] = review;
+  }
+  return merged;
+}
+
+export function restoreReviewLogFromSync(remote: unknown): void {
+  if (!remote || typeof remote !== 'object' || Array.isArray(remote)) return;
+  const local = getReviewLog();
+  const merged = mergeReviewLogs(local, remote as ReviewLog);
+  if (JSON.stringify(merged) !== JSON.stringify(local)) writeReviewLog(merged);
+}
+
+/** Overwrite the review log, e.g. when replacing local data with a backup. */
+export function replaceReviewLog(log: ReviewLog): void {
+  writeReviewLog(mergeReviewLogs({}, log));
+}
+
+// --- Practice history ---
+
+/** Segment ids linked to each repertoire piece, across every saved plan and the lesson plan. */
+export function getLinkedSegmentIds(): Record<string, string[]> {
+  const linked: Record<string, string[]> = {};
+  const walk = (items: PlanItem[]) => {
+    for (const item of items) {
+      if (item.blockType === 'segment' && item.repertoirePieceId) {
+        const ids = linked[item.repertoirePieceId] ?? (linked[item.repertoirePieceId] = []);
+        if (!ids.includes(item.id)) ids.push(item.id);
+      }
+      walk(item.children ?? []);
+    }
+  };
+  for (const plan of getPlanLibrary().plans) {
+    walk(getPlanItems(plan.id));
+  }
+  walk(lessonPlanApi.get());
+  return linked;
+}
+
+/** Maintained pieces due for review on or before today, most overdue first. */
+export function getDueReviews(pieces: RepertoirePiece[], now: number = Date.now()): DueReview[] {
+  const today = getLocalYMD(new Date(now));
+  const log = getReviewLog();
+  const linked = getLinkedSegmentIds();
+  const due: DueReview[] = [];
+  for (const piece of pieces) {
+    if (piece.status !== 'maintaining') continue;
+    const lastPlayed = getLastPlayedDate(linked[piece.id] ?? [], today);
+    const dueDate = getReviewDueDate(log[piece.id], lastPlayed, today);
+    if (dueDate > today) continue;
+    due.push({ piece, dueDate, overdueDays: daysBetween(dueDate, today), lastPlayed });
+  }
+  return due.sort((a, b) => b.overdueDays - a.overdueDays || a.piece.title.localeCompare(b.piece.title));
+}
+
+export function formatDueLabel(review: Pick<DueReview, 'overdueDays'>): string {
+  if (review.overdueDays <= 0) return 'Due today';
+  return `${review.overdueDays} day${review.overdueDays === 1 ? '' : 's'} overdue`;
+}
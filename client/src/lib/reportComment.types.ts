@@ -0,0 +1,31 @@
+/** What a comment on a shared report is about. */
+export type ReportCommentTarget = 'report' | 'item' | 'piece';
+
+export interface ReportComment {
+    id: string;
+    report_id: string;
+    target_type: ReportCommentTarget;
+    /** Plan item or repertoire piece id; null for the whole report. */
+    target_id: string | null;
+    /** Null when posted without signing in. */
+    author_id: string | null;
+    author_name: string;
+    body: string;
+    /** Hidden by the report's owner; only the owner still sees it. */
+    hidden: boolean;
+    created_at: string;
+}
+
+export interface NewReportComment {
+    reportId: string;
+    targetType: ReportCommentTarget;
+    targetId: string | null;
+    authorName: string;
+    body: string;
+}
+
+export interface ReportCommentAccess {
+    /** Only reports published from an account, on an open link without a passphrase, take comments. */
+    open: boolean;
+    isOwner: boolean;
+}
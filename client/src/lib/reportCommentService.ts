@@ -0,0 +1,95 @@
+import { supabase } from './supabaseClient';
+import type { NewReportComment, ReportComment, ReportCommentAccess } from './reportComment.types';
+
+// The IP hash used for rate limiting isn't readable, so columns are listed
+const COLUMNS = 'id, report_id, target_type, target_id, author_id, author_name, body, hidden, created_at';
+const FEEDBACK_LIMIT = 50;
+
+async function getUserId(): Promise<string | null> {
+    if (!supabase) return null;
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user?.id ?? null;
+}
+
+export const reportCommentService = {
+    /** Comments on a report; hidden ones are only returned to the report's owner. */
+    async getComments(reportId: string): Promise<ReportComment[]> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { data, error } = await supabase
+            .from('report_comments')
+            .select(COLUMNS)
+            .eq('report_id', reportId)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return (data || []) as ReportComment[];
+    },
+
+    /**
+     * Whether the report takes comments (only reports that belong to an
+     * account do) and whether the signed-in user is its owner and moderator.
+     */
+    async getAccess(reportId: string): Promise<ReportCommentAccess> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        // Closed and passphrase-protected links don't take comments (migration 015)
+        const { data, error } = await supabase.rpc('get_report_comment_access', { share_id: reportId });
+
+        if (error) throw error;
+        return { open: !!data?.open, isOwner: !!data?.is_owner };
+    },
+
+    async addComment(comment: NewReportComment): Promise<ReportComment> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { data, error } = await supabase
+            .from('report_comments')
+            .insert({
+                report_id: comment.reportId,
+                target_type: comment.targetType,
+                target_id: comment.targetType === 'report' ? null : comment.targetId,
+                author_name: comment.authorName,
+                body: comment.body,
+            })
+            .select(COLUMNS)
+            .single();
+
+        if (error) throw error;
+        return data as ReportComment;
+    },
+
+    async setHidden(id: string, hidden: boolean): Promise<void> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { error } = await supabase.from('report_comments').update({ hidden }).eq('id', id);
+        if (error) throw error;
+    },
+
+    async deleteComment(id: string): Promise<void> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { error } = await supabase.from('report_comments').delete().eq('id', id);
+        if (error) throw error;
+    },
+
+    /** The latest comments others left on the signed-in user's reports, newest first. */
+    async getFeedback(): Promise<ReportComment[]> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const userId = await getUserId();
+        if (!userId) return [];
+        const { data: reports, error: reportsError } = await supabase
+            .from('shared_reports')
+            .select('id')
+            .eq('user_id', userId);
+
+        if (reportsError) throw reportsError;
+        const reportIds = (reports || []).map((r) => r.id as string);
+        if (reportIds.length === 0) return [];
+
+        const { data, error } = await supabase
+            .from('report_comments')
+            .select(COLUMNS)
+            .in('report_id', reportIds)
+            .order('created_at', { ascending: false })
+            .limit(FEEDBACK_LIMIT);
+
+        if (error) throw error;
+        return ((data || []) as ReportComment[]).filter((c) => c.author_id !== userId);
+    },
+};
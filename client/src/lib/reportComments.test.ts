@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ReportComment } from './reportComment.types';
+import {
+    getCommentTargetKey,
+    getFeedbackSeenAt,
+    getUnreadFeedback,
+    groupCommentsByTarget,
+    markFeedbackSeen,
+} from './reportComments';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const comment = (id: string, createdAt: string, extra: Partial<ReportComment> = {}): ReportComment => ({
+    id, report_id: 'r1', target_type: 'report', target_id: null, author_id: null,
+    author_name: 'Parent', body: 'Nice work', hidden: false, created_at: createdAt, ...extra,
+});
+
+describe('reportComments', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+    });
+
+    it('groups comments into threads by target, oldest first', () => {
+        const groups = groupCommentsByTarget([
+            comment('c3', '2026-03-03T10:00:00Z', { target_type: 'item', target_id: 's1' }),
+            comment('c1', '2026-03-01T10:00:00Z'),
+            comment('c2', '2026-03-02T10:00:00Z', { target_type: 'item', target_id: 's1' }),
+            comment('c4', '2026-03-02T11:00:00Z', { target_type: 'piece', target_id: 'p1' }),
+        ]);
+        expect(groups.get('report')?.map((c) => c.id)).toEqual(['c1']);
+        expect(groups.get(getCommentTargetKey('item', 's1'))?.map((c) => c.id)).toEqual(['c2', 'c3']);
+        expect(groups.get(getCommentTargetKey('piece', 'p1'))?.map((c) => c.id)).toEqual(['c4']);
+        expect(groups.has(getCommentTargetKey('item', 'p1'))).toBe(false);
+    });
+
+    it('counts feedback newer than the last time it was marked read', () => {
+        const comments = [
+            comment('old', '2026-03-01T10:00:00Z'),
+            comment('new', '2026-03-05T10:00:00Z'),
+            comment('newer', '2026-03-06T10:00:00Z'),
+        ];
+        expect(getUnreadFeedback(comments, null).map((c) => c.id)).toEqual(['newer', 'new', 'old']);
+
+        markFeedbackSeen('2026-03-04T00:00:00Z');
+        expect(getUnreadFeedback(comments, getFeedbackSeenAt()).map((c) => c.id)).toEqual(['newer', 'new']);
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * Feedback on shared reports - the per-device bits: the name a visitor
+ * comments under, which comments the report's owner has already seen, and
+ * grouping a report's comments by what they are about.
+ */
+import type { ReportComment, ReportCommentTarget } from './reportComment.types';
+
+const COMMENTER_NAME_KEY = 'practice-timer-commenter-name';
+const FEEDBACK_SEEN_KEY = 'practice-timer-report-feedback-seen';
+
+export const REPORT_FEEDBACK_SEEN_EVENT = 'report-feedback-seen';
+
+export function getCommentTargetKey(type: ReportCommentTarget, id?: string | null): string {
+  return type === 'report' ? 'report' : `${type}:${id ?? ''}`;
+}
+
+/** A report's comments by target key, each thread oldest first. */
+export function groupCommentsByTarget(comments: ReportComment[]): Map<string, ReportComment[]> {
+  const groups = new Map<string, ReportComment[]>();
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  for (const comment of sorted) {
+    const key = getCommentTargetKey(comment.target_type, comment.target_id);
+    const thread = groups.get(key);
+    if (thread) thread.push(comment);
+    else groups.set(key, [comment]);
+  }
+  return groups;
+}
+
+export function getCommenterName(): string {
+  try {
+    return localStorage.getItem(COMMENTER_NAME_KEY) ?? '';
+  } catch (e) {
+    console.error('Failed to load commenter name:', e);
+    return '';
+  }
+}
+
+export function saveCommenterName(name: string): void {
+  try {
+    localStorage.setItem(COMMENTER_NAME_KEY, name.trim());
+  } catch (e) {
+    console.error('Failed to save commenter name:', e);
+  }
+}
+
+/** When the owner last marked their report feedback as read; null if never. */
+export function getFeedbackSeenAt(): string | null {
+  try {
+    return localStorage.getItem(FEEDBACK_SEEN_KEY);
+  } catch (e) {
+    console.error('Failed to load report feedback state:', e);
+    return null;
+  }
+}
+
+export function markFeedbackSeen(at: string = new Date().toISOString()): void {
+  try {
+    localStorage.setItem(FEEDBACK_SEEN_KEY, at);
+    window.dispatchEvent(new CustomEvent(REPORT_FEEDBACK_SEEN_EVENT));
+  } catch (e) {
+    console.error('Failed to save report feedback state:', e);
+  }
+}
+
+/** Comments posted after the owner last marked feedback as read, newest first. */
+export function getUnreadFeedback(comments: ReportComment[], seenAt: string | null): ReportComment[] {
+  return comments
+    .filter((c) => !seenAt || c.created_at > seenAt)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
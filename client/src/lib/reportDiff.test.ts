@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import type { ReportLogSummary, ReportSnapshot, ReportSnapshotItem } from './reportShare';
+import { diffReportSnapshots, isEmptyReportDiff } from './reportDiff';
+
+const segment = (id: string, text: string, extra: Partial<ReportSnapshotItem> = {}): ReportSnapshotItem => ({
+    id, text, checked: false, children: [], blockType: 'segment', ...extra,
+});
+
+const todo = (text: string, checked = false, children: ReportSnapshotItem[] = []): ReportSnapshotItem => ({
+    text, checked, children, blockType: 'todo',
+});
+
+const week = (startDate: string, pieces: Record<string, number>): ReportLogSummary => ({
+    startDate,
+    endDate: startDate.replace(/\d\d$/, (d) => String(Number(d) + 6).padStart(2, '0')),
+    totalSeconds: Object.values(pieces).reduce((a, b) => a + b, 0),
+    pieces: Object.entries(pieces).map(([itemId, seconds]) => ({ itemId, itemName: itemId.toUpperCase(), seconds })),
+});
+
+const report = (extra: Partial<ReportSnapshot>): ReportSnapshot => ({
+    v: 1, date: '2026-03-04T10:00:00Z', items: [], ...extra,
+});
+
+describe('reportDiff', () => {
+    it('lists items checked off and segments added or removed', () => {
+        const previous = report({
+            items: [segment('s1', 'Scales'), segment('s2', 'Etude')],
+            lessonPlanItems: [todo('Lesson 1', false, [todo('Slow practice'), todo('Metronome', true)])],
+        });
+        const next = report({
+            items: [segment('s1', 'Scales **renamed**'), segment('s3', 'Sonata')],
+            lessonPlanItems: [todo('Lesson 1', false, [todo('Slow practice', true), todo('Metronome', true)]), todo('New', true)],
+        });
+
+        const diff = diffReportSnapshots(previous, next);
+        expect(diff.checked.map((i) => i.text)).toEqual(['Slow practice', 'New']);
+        expect(diff.newSegments.map((i) => i.text)).toEqual(['Sonata']);
+        expect(diff.removedSegments.map((i) => i.text)).toEqual(['Etude']);
+    });
+
+    it('counts time practiced since the previous publish within one week', () => {
+        const previous = report({ logSummary: week('2026-03-02', { s1: 600, s2: 300 }) });
+        const next = report({ logSummary: week('2026-03-02', { s1: 1500, s2: 300, s3: 120 }) });
+
+        const diff = diffReportSnapshots(previous, next);
+        expect(diff.totalSecondsGained).toBe(1020);
+        expect(diff.practiced).toEqual([
+            { itemId: 's1', name: 'S1', seconds: 900 },
+            { itemId: 's3', name: 'S3', seconds: 120 },
+        ]);
+    });
+
+    it('adds the rest of the previous week when a new week started in between', () => {
+        const previous = report({ logSummary: week('2026-03-02', { s1: 600 }) });
+        const next = report({
+            logSummary: week('2026-03-09', { s1: 300 }),
+            lastWeekLogSummary: week('2026-03-02', { s1: 1200 }),
+        });
+
+        const diff = diffReportSnapshots(previous, next);
+        expect(diff.totalSecondsGained).toBe(900);
+        expect(diff.practiced).toEqual([{ itemId: 's1', name: 'S1', seconds: 900 }]);
+        expect(isEmptyReportDiff(diffReportSnapshots(next, next))).toBe(true);
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * What changed between two published versions of a report: items checked
+ * off, segments added or removed, and time practiced in between.
+ *
+ * Only segments carry ids in a snapshot, so other items are matched by their
+ * text and the text of their parents. Practice time comes from the weekly log
+ * summaries; when a new week started between the two publishes, the newer
+ * report's "last week" summary covers the rest of the older one's week.
+ */
+import type { ReportLogSummary, ReportSnapshot, ReportSnapshotItem } from './reportShare';
+import { stripMarkdown } from './richText';
+
+export type ReportPlanType = 'practice' | 'lesson';
+
+export interface ReportDiffItem {
+  key: string;
+  text: string;
+  plan: ReportPlanType;
+}
+
+export interface ReportDiffPractice {
+  itemId: string;
+  name: string;
+  seconds: number;
+}
+
+export interface ReportDiff {
+  checked: ReportDiffItem[];
+  newSegments: ReportDiffItem[];
+  removedSegments: ReportDiffItem[];
+  /** Per segment, most practiced first. */
+  practiced: ReportDiffPractice[];
+  totalSecondsGained: number;
+}
+
+interface FlatItem extends ReportDiffItem {
+  checked: boolean;
+  isSegment: boolean;
+}
+
+function flatten(
+  items: ReportSnapshotItem[] | undefined,
+  plan: ReportPlanType,
+  into: Map<string, FlatItem>,
+  parentKey: string = plan
+): Map<string, FlatItem> {
+  for (const item of items ?? []) {
+    const text = stripMarkdown(item.text ?? '').trim();
+    const isSegment = item.blockType === 'segment';
+    let key = isSegment && item.id ? `${plan}#${item.id}` : `${parentKey}/${text}`;
+    // Repeated text under one parent: number the later ones
+    for (let n = 2; into.has(key); n++) key = `${parentKey}/${text}~${n}`;
+    into.set(key, { key, text, plan, checked: !!item.checked, isSegment });
+    flatten(item.children, plan, into, key);
+  }
+  return into;
+}
+
+function flattenReport(snapshot: ReportSnapshot): Map<string, FlatItem> {
+  const items = flatten(snapshot.items, 'practice', new Map());
+  return flatten(snapshot.lessonPlanItems, 'lesson', items);
+}
+
+function secondsFor(summary: ReportLogSummary | undefined, itemId?: string): number {
+  if (!summary) return 0;
+  if (itemId === undefined) return summary.totalSeconds ?? 0;
+  return summary.pieces.find((p) => p.itemId === itemId)?.seconds ?? 0;
+}
+
+/** Time logged after `previous` was published and up to `next`, overall or for one item. */
+function secondsBetween(previous: ReportSnapshot, next: ReportSnapshot, itemId?: string): number {
+  const before = previous.logSummary;
+  const after = next.logSummary;
+  if (!after) return 0;
+  let seconds: number;
+  if (before && before.startDate === after.startDate) {
+    seconds = secondsFor(after, itemId) - secondsFor(before, itemId);
+  } else if (before && next.lastWeekLogSummary?.startDate === before.startDate) {
+    seconds = secondsFor(next.lastWeekLogSummary, itemId) - secondsFor(before, itemId) + secondsFor(after, itemId);
+  } else {
+    // The older report's week isn't covered by the newer one; count this week
+    seconds = secondsFor(after, itemId);
+  }
+  return Math.max(0, seconds);
+}
+
+export function diffReportSnapshots(previous: ReportSnapshot, next: ReportSnapshot): ReportDiff {
+  const before = flattenReport(previous);
+  const after = flattenReport(next);
+  const strip = ({ key, text, plan }: FlatItem): ReportDiffItem => ({ key, text, plan });
+
+  const checked = Array.from(after.values()).filter((item) => item.checked && !before.get(item.key)?.checked).map(strip);
+  const newSegments = Array.from(after.values()).filter((item) => item.isSegment && !before.has(item.key)).map(strip);
+  const removedSegments = Array.from(before.values()).filter((item) => item.isSegment && !after.has(item.key)).map(strip);
+
+  const names = new Map<string, string>();
+  for (const summary of [next.lastWeekLogSummary, next.logSummary]) {
+    for (const piece of summary?.pieces ?? []) names.set(piece.itemId, stripMarkdown(piece.itemName));
+  }
+  const practiced = Array.from(names.entries())
+    .map(([itemId, name]) => ({ itemId, name, seconds: secondsBetween(previous, next, itemId) }))
+    .filter((entry) => entry.seconds > 0)
+    .sort((a, b) => b.seconds - a.seconds);
+
+  return {
+    checked,
+    newSegments,
+    removedSegments,
+    practiced,
+    totalSecondsGained: secondsBetween(previous, next),
+  };
+}
+
+export function isEmptyReportDiff(diff: ReportDiff): boolean {
+  return (
+    diff.checked.length === 0 &&
+    diff.newSegments.length === 0 &&
+    diff.removedSegments.length === 0 &&
+    diff.totalSecondsGained === 0
+  );
+}
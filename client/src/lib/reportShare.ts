@@ -3,7 +3,7 @@
  * Report page uses noindex, nofollow; only people with the link can view.
  */
 
-import type { PlanItem } from "./planTypes";
+import type { PlanItem, TempoProgression } from "./planTypes";
 import { getLessonPlan } from "./lessonPlan";
 import { generateId } from "./practicePlan";
 import type { RepertoirePiece } from "./repertoire.types";
@@ -22,12 +22,17 @@ export interface ReportSnapshotItem {
   allocationPeriod?: 'day' | 'week';
   repertoirePieceId?: string;
   videoUrl?: string;
+  /** Current tempo; with tempoProgression it shows progress towards the target. */
+  tempo?: number;
+  tempoProgression?: TempoProgression;
 }
 
 export interface ReportLogEntry {
   itemId: string;
   itemName: string;
   seconds: number;
+  /** Part of seconds entered manually in the Practice Log rather than timed. */
+  manualSeconds?: number;
   completionsCount?: number;
 }
 
@@ -35,6 +40,7 @@ export interface ReportLogSummary {
   startDate: string; // YYYY-MM-DD
   endDate: string;   // YYYY-MM-DD
   totalSeconds: number;
+  manualSeconds?: number;
   pieces: ReportLogEntry[];
 }
 
@@ -64,6 +70,8 @@ function itemToSnapshot(item: PlanItem): ReportSnapshotItem {
       allocatedTime: item.allocatedTime,
       allocationPeriod: item.allocationPeriod,
       videoUrl: item.videoUrl,
+      tempo: item.tempo,
+      tempoProgression: item.tempoProgression,
     } : {}),
   };
 }
@@ -136,6 +144,14 @@ export function saveGlobalPermalinkId(id: string): void {
   localStorage.setItem(GLOBAL_PERMANENT_SHARE_ID_KEY, id);
 }
 
+/** Stop publishing updates to the global permalink, e.g. after it was revoked. */
+export function clearGlobalPermalinkId(id: string): void {
+  if (typeof window === "undefined" || getGlobalPermalinkId() !== id) return;
+  for (const key of [GLOBAL_PERMANENT_SHARE_ID_KEY, "practice-timer-lesson-share-id", GLOBAL_LAST_PUBLISHED_DATE_KEY, "practice-timer-lesson-last-published-date"]) {
+    localStorage.removeItem(key);
+  }
+}
+
 export function getGlobalLastPublishedDate(): string | null {
   if (typeof window === "undefined") return null;
   return (
@@ -264,6 +280,9 @@ export async function shareReport(snapshot: ReportSnapshot, id?: string): Promis
 
       if (response.ok) {
         const data = await response.json();
+        if (data.manageToken) {
+          saveDeviceShareLink({ id: data.id, manageToken: data.manageToken, createdAt: new Date().toISOString(), title: snapshot.title ?? null });
+        }
         return getShortShareUrl(data.id);
       }
 
@@ -283,6 +302,194 @@ export async function shareReport(snapshot: ReportSnapshot, id?: string): Promis
   return getReportShareUrl(snapshot);
 }
 
+/**
+ * A link published to the legacy store from this device. Its manage token,
+ * returned only once, is what lets this device change or revoke the link.
+ */
+export interface DeviceShareLink {
+  id: string;
+  manageToken: string;
+  createdAt: string;
+  title: string | null;
+}
+
+const DEVICE_SHARE_LINKS_KEY = "practice-timer-share-manage-tokens";
+
+export function getDeviceShareLinks(): DeviceShareLink[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DEVICE_SHARE_LINKS_KEY) || "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveDeviceShareLink(link: DeviceShareLink): void {
+  try {
+    const links = getDeviceShareLinks().filter((l) => l.id !== link.id);
+    localStorage.setItem(DEVICE_SHARE_LINKS_KEY, JSON.stringify([link, ...links]));
+  } catch (e) {
+    console.warn("[shareReport] Failed to save manage token:", e);
+  }
+}
+
+/** Why a report link did or didn't open; see get_shared_report() in migration 015. */
+export type SharedReportStatus =
+  | "ok"
+  | "not_found"
+  | "revoked"
+  | "disabled"
+  | "expired"
+  | "passphrase_required"
+  | "wrong_passphrase";
+
+export interface ReportVersion {
+  version: number;
+  /** ISO time the version was published. */
+  createdAt: string;
+}
+
+export interface SharedReportResult {
+  status: SharedReportStatus;
+  snapshot: ReportSnapshot | null;
+  /** Published versions, newest first; empty for legacy reports. */
+  versions: ReportVersion[];
+}
+
+const PASSPHRASES_KEY = "practice-timer-report-passphrases";
+
+/** Passphrase this tab last opened the report with, so piece pages and versions don't ask again. */
+export function getSavedReportPassphrase(id: string): string | null {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(PASSPHRASES_KEY) || "{}");
+    return typeof saved[id] === "string" ? saved[id] : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveReportPassphrase(id: string, passphrase: string): void {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(PASSPHRASES_KEY) || "{}");
+    sessionStorage.setItem(PASSPHRASES_KEY, JSON.stringify({ ...saved, [id]: passphrase }));
+  } catch (e) {
+    console.warn("[saveReportPassphrase] Failed to write to sessionStorage:", e);
+  }
+}
+
+const NOT_FOUND: SharedReportResult = { status: "not_found", snapshot: null, versions: [] };
+const LEGACY_STATUSES: Record<number, SharedReportStatus> = { 401: "passphrase_required", 403: "wrong_passphrase" };
+
+/** The legacy Netlify Blobs store, which enforces its own link settings. */
+async function fetchLegacyReport(id: string, passphrase?: string | null): Promise<SharedReportResult> {
+  const res = await fetch(`/.netlify/functions/share-report?id=${encodeURIComponent(id)}`, {
+    cache: "no-store",
+    headers: { Accept: "application/json", ...(passphrase ? { "X-Report-Passphrase": passphrase } : {}) },
+  });
+  if (res.status === 410) {
+    const body = await res.json().catch(() => ({}));
+    const status: SharedReportStatus = ["revoked", "disabled", "expired"].includes(body?.error) ? body.error : "disabled";
+    return { status, snapshot: null, versions: [] };
+  }
+  if (LEGACY_STATUSES[res.status]) return { status: LEGACY_STATUSES[res.status], snapshot: null, versions: [] };
+  if (!res.ok) throw new Error("Failed to fetch from Netlify function");
+
+  const data = (await res.json()) as ReportSnapshot;
+
+  // Asynchronously migrate the legacy report to Supabase for future visits,
+  // unless it has link settings, which wouldn't carry over
+  if (supabase && !res.headers.get("X-Report-Managed")) {
+    supabase
+      .from("shared_reports")
+      .insert({ id, data })
+      .then(
+        ({ error }) => {
+          if (error) {
+            console.warn("[fetchSharedReport] Auto-migration to Supabase failed:", error);
+          } else {
+            console.log("[fetchSharedReport] Auto-migrated legacy report to Supabase successfully.");
+          }
+        },
+        (err: unknown) => {
+          console.warn("[fetchSharedReport] Error auto-migrating to Supabase:", err);
+        }
+      );
+  }
+  return { status: "ok", snapshot: data, versions: [] };
+}
+
+/**
+ * Open a report published under a short id: through Supabase, which applies
+ * the link's expiry, revocation and passphrase, then the legacy Netlify Blobs
+ * function (outside dev) when Supabase doesn't know the id. `version` picks a
+ * past version of a permalink; the latest by default.
+ */
+export async function fetchSharedReport(
+  id: string,
+  options: { passphrase?: string | null; version?: number | null } = {}
+): Promise<SharedReportResult> {
+  if (supabase) {
+    try {
+      const { data, error } = await supabase.rpc("get_shared_report", {
+        share_id: id,
+        passphrase: options.passphrase || null,
+        version_number: options.version ?? null,
+      });
+      if (error) throw error;
+      if (data?.status === "ok") {
+        const versions = (data.versions || []) as { version: number; created_at: string }[];
+        return {
+          status: "ok",
+          snapshot: data.data as ReportSnapshot,
+          versions: versions.map((v) => ({ version: v.version, createdAt: v.created_at })),
+        };
+      }
+      if (data?.status && data.status !== "not_found") return { status: data.status, snapshot: null, versions: [] };
+      // Legacy reports have no versions
+      if (options.version) return NOT_FOUND;
+    } catch (e) {
+      console.warn("[fetchSharedReport] Failed to load from Supabase, trying fallback:", e);
+    }
+  }
+
+  // In dev, if Supabase failed or wasn't configured, Netlify functions are unavailable - stop here
+  if (import.meta.env.DEV) return NOT_FOUND;
+
+  try {
+    return await fetchLegacyReport(id, options.passphrase);
+  } catch (err) {
+    console.warn("[fetchSharedReport] Failed to load report from fallback:", err);
+    return NOT_FOUND;
+  }
+}
+
+/** The latest version of a report, if it opens with no passphrase or the one saved in this tab. */
+export async function loadSharedReport(id: string): Promise<ReportSnapshot | null> {
+  return (await fetchSharedReport(id, { passphrase: getSavedReportPassphrase(id) })).snapshot;
+}
+
+/**
+ * Published versions of a permalink report, newest first. Each publish to the
+ * permalink appends one (see migration 014). Empty when the report only lives
+ * in the legacy store or Supabase isn't configured.
+ */
+export async function getReportVersions(id: string): Promise<ReportVersion[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("shared_report_versions")
+    .select("version, created_at")
+    .eq("report_id", id)
+    .order("version", { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map((row) => ({ version: row.version as number, createdAt: row.created_at as string }));
+}
+
+/** Link to one version of a permalink report; it keeps showing that version after later publishes. */
+export function getVersionShareUrl(id: string, version: number): string {
+  return `${getShortShareUrl(id)}?v=${version}`;
+}
+
 export function getShortShareUrl(id: string): string {
   return `${typeof window !== "undefined" ? window.location.origin : ""}/r/${id}`;
 }
@@ -344,6 +551,8 @@ export function restorePlanFromSnapshot(snapshot: ReportSnapshot): PlanItem[] {
       ...(item.segmentGoal ? { segmentGoal: item.segmentGoal } : {}),
       ...(item.repertoirePieceId ? { repertoirePieceId: item.repertoirePieceId } : {}),
       ...(item.videoUrl ? { videoUrl: item.videoUrl } : {}),
+      ...(item.tempo ? { tempo: item.tempo } : {}),
+      ...(item.tempoProgression ? { tempoProgression: item.tempoProgression } : {}),
     };
   }
 
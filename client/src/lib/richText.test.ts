@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { applyTextFormat } from './richText';
+import { applyTextFormat, stripMarkdown } from './richText';
 
 describe('applyTextFormat', () => {
     const text = 'Hello world example text';
@@ -46,3 +46,9 @@ describe('applyTextFormat', () => {
         });
     });
 });
+
+describe('stripMarkdown', () => {
+    it('keeps link labels and drops bold and italic markers', () => {
+        expect(stripMarkdown('**Bach** [Prelude](https://example.com/score) in *C*')).toBe('Bach Prelude in C');
+    });
+});
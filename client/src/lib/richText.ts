@@ -47,3 +47,11 @@ export function stripMarkdownLinks(str: string | null | undefined): string {
   if (!str) return "";
   return str.replace(/\[([^\]\(\)]+)\]?\((https?:\/\/[^\s\)]*)\)?/g, "$1");
 }
+
+/** Strip markdown link syntax [text](url) → text. Also strips **bold** and *italic* markers. */
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/\*(.+?)\*/g, "$1");
+}
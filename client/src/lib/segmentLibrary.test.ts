@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    getSegmentLibrary,
+    createSegmentTemplate,
+    updateSegmentTemplate,
+    deleteSegmentTemplate,
+    applyTemplateToItems,
+    getLinkedSegmentCount,
+    propagateSegmentTemplate,
+    restoreSegmentLibraryFromSync,
+} from './segmentLibrary';
+import { practicePlanApi } from './practicePlan';
+import { lessonPlanApi } from './lessonPlan';
+import { createPlan, getPlanItems } from './planLibrary';
+import type { PlanItem } from './planTypes';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+vi.mock('./userDataSync', () => ({
+    scheduleUserDataPush: vi.fn(),
+}));
+
+const segment = (id: string, text: string, templateId?: string, checked = false): PlanItem => ({
+    id, text, checked, children: [], blockType: 'segment', isHeader: false, segmentTemplateId: templateId,
+});
+
+describe('segmentLibrary', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+        vi.clearAllMocks();
+    });
+
+    it('creates templates with cleaned fields', () => {
+        const template = createSegmentTemplate({ name: '  Scales  ', segmentGoal: ' ', allocatedTime: 10 });
+        expect(template.name).toBe('Scales');
+        expect(template.segmentGoal).toBeUndefined();
+        expect(template.allocationPeriod).toBe('day');
+        expect(getSegmentLibrary()).toHaveLength(1);
+    });
+
+    it('links a block to a template and copies its fields', () => {
+        const template = createSegmentTemplate({ name: 'Arpeggios', allocatedTime: 15, allocationPeriod: 'week' });
+        const items = practicePlanApi.linkSegmentTemplate([{ ...segment('a', ''), blockType: 'text' }], 'a', template);
+        expect(items[0]).toMatchObject({
+            blockType: 'segment',
+            text: 'Arpeggios',
+            allocatedTime: 15,
+            allocationPeriod: 'week',
+            segmentTemplateId: template.id,
+        });
+
+        const unlinked = practicePlanApi.linkSegmentTemplate(items, 'a', null);
+        expect(unlinked[0].segmentTemplateId).toBeUndefined();
+        expect(unlinked[0].text).toBe('Arpeggios');
+    });
+
+    it('applies template edits to linked segments only, keeping check state', () => {
+        const template = createSegmentTemplate({ name: 'Etude' });
+        const items: PlanItem[] = [
+            { ...segment('h', 'Warm-up'), blockType: 'heading1', isHeader: true, children: [segment('a', 'Etude', template.id, true)] },
+            segment('b', 'Etude (own)'),
+        ];
+        const updated = updateSegmentTemplate(template.id, { name: 'Etude No. 3', allocatedTime: 20 })!;
+        const next = applyTemplateToItems(items, updated);
+
+        expect(next[0].children[0].text).toBe('Etude No. 3');
+        expect(next[0].children[0].allocatedTime).toBe(20);
+        expect(next[0].children[0].checked).toBe(true);
+        expect(next[1].text).toBe('Etude (own)');
+        expect(applyTemplateToItems([segment('c', 'x')], updated)).toHaveLength(1);
+    });
+
+    it('propagates template edits across every plan and the lesson plan', () => {
+        const template = createSegmentTemplate({ name: 'Sight-reading' });
+        practicePlanApi.save([segment('a', 'Sight-reading', template.id)]);
+        const other = createPlan('Recital', [segment('b', 'Sight-reading', template.id)]);
+        lessonPlanApi.save([segment('c', 'Sight-reading', template.id)]);
+        expect(getLinkedSegmentCount(template.id)).toBe(3);
+
+        const updated = updateSegmentTemplate(template.id, { name: 'Sight-reading (hymns)' })!;
+        expect(propagateSegmentTemplate(updated)).toBe(3);
+        expect(practicePlanApi.get()[0].text).toBe('Sight-reading (hymns)');
+        expect(getPlanItems(other.id)[0].text).toBe('Sight-reading (hymns)');
+        expect(lessonPlanApi.get()[0].text).toBe('Sight-reading (hymns)');
+    });
+
+    it('keeps instances when a template is deleted', () => {
+        const template = createSegmentTemplate({ name: 'Long tones' });
+        practicePlanApi.save([segment('a', 'Long tones', template.id)]);
+        deleteSegmentTemplate(template.id);
+        expect(getSegmentLibrary()).toHaveLength(0);
+        expect(practicePlanApi.get()[0].text).toBe('Long tones');
+    });
+
+    it('restores the library from sync only when the cloud has templates', () => {
+        createSegmentTemplate({ name: 'Local' });
+        restoreSegmentLibraryFromSync([]);
+        expect(getSegmentLibrary()[0].name).toBe('Local');
+
+        restoreSegmentLibraryFromSync([{ id: 't1', name: 'Cloud', createdAt: '', updatedAt: '' }, { bogus: true }]);
+        expect(getSegmentLibrary().map((t) => t.name)).toEqual(['Cloud']);
+    });
+});
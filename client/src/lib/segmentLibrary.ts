@@ -0,0 +1,199 @@
+/**
+ * Segment library - reusable practice segment templates, stored in localStorage.
+ *
+ * A template carries the same fields as a segment block. Inserting it into a
+ * plan creates an ordinary segment linked back through `segmentTemplateId`,
+ * so later template edits can optionally be pushed to every linked instance
+ * across the plan library and the lesson plan.
+ */
+
+import { PlanItem, generateId } from "./planTypes";
+import { applySegmentTemplateFields, savePlanToStorage } from "./planStoreHelpers";
+import { getPlanLibrary, getPlanItems, getPlanStorageKey } from "./planLibrary";
+import { lessonPlanApi } from "./lessonPlan";
+import { scheduleUserDataPush } from "./userDataSync";
+
+const SEGMENT_LIBRARY_KEY = "practice-timer-segment-library";
+
+/** Fired on window whenever the library changes so open menus can refresh. */
+export const SEGMENT_LIBRARY_CHANGED_EVENT = "segment-library-changed";
+
+export interface SegmentTemplate {
+  id: string;
+  /** Segment name; may contain a markdown link like block text. */
+  name: string;
+  segmentGoal?: string;
+  allocatedTime?: number;
+  allocationPeriod?: "day" | "week";
+  repertoirePieceId?: string;
+  videoUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SegmentTemplateFields = Pick<
+  SegmentTemplate,
+  "name" | "segmentGoal" | "allocatedTime" | "allocationPeriod" | "repertoirePieceId" | "videoUrl"
+>;
+
+function isValidTemplate(value: unknown): value is SegmentTemplate {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as SegmentTemplate).id === "string" &&
+    typeof (value as SegmentTemplate).name === "string"
+  );
+}
+
+function cleanFields(fields: SegmentTemplateFields): SegmentTemplateFields {
+  const minutes = fields.allocatedTime && fields.allocatedTime > 0 ? Math.round(fields.allocatedTime) : undefined;
+  return {
+    name: fields.name.trim() || "Untitled segment",
+    segmentGoal: fields.segmentGoal?.trim() || undefined,
+    allocatedTime: minutes,
+    allocationPeriod: minutes ? fields.allocationPeriod ?? "day" : undefined,
+    repertoirePieceId: fields.repertoirePieceId || undefined,
+    videoUrl: fields.videoUrl?.trim() || undefined,
+  };
+}
+
+export function getSegmentLibrary(): SegmentTemplate[] {
+  try {
+    const raw = localStorage.getItem(SEGMENT_LIBRARY_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isValidTemplate) : [];
+  } catch (e) {
+    console.error("[segmentLibrary] Failed to load segment library:", e);
+    return [];
+  }
+}
+
+function writeSegmentLibrary(templates: SegmentTemplate[]): void {
+  try {
+    localStorage.setItem(SEGMENT_LIBRARY_KEY, JSON.stringify(templates));
+  } catch (e) {
+    console.error("[segmentLibrary] Failed to save segment library:", e);
+  }
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(SEGMENT_LIBRARY_CHANGED_EVENT));
+  }
+}
+
+function saveSegmentLibrary(templates: SegmentTemplate[]): void {
+  writeSegmentLibrary(templates);
+  scheduleUserDataPush();
+}
+
+export function getSegmentTemplate(id: string): SegmentTemplate | undefined {
+  return getSegmentLibrary().find((t) => t.id === id);
+}
+
+export function createSegmentTemplate(fields: SegmentTemplateFields): SegmentTemplate {
+  const now = new Date().toISOString();
+  const template: SegmentTemplate = { id: generateId(), ...cleanFields(fields), createdAt: now, updatedAt: now };
+  saveSegmentLibrary([...getSegmentLibrary(), template]);
+  return template;
+}
+
+/** Template fields taken from an existing segment block. */
+export function getTemplateFieldsFromItem(item: PlanItem): SegmentTemplateFields {
+  return {
+    name: item.text,
+    segmentGoal: item.segmentGoal,
+    allocatedTime: item.allocatedTime,
+    allocationPeriod: item.allocationPeriod,
+    repertoirePieceId: item.repertoirePieceId,
+    videoUrl: item.videoUrl,
+  };
+}
+
+export function updateSegmentTemplate(id: string, fields: SegmentTemplateFields): SegmentTemplate | null {
+  const library = getSegmentLibrary();
+  const existing = library.find((t) => t.id === id);
+  if (!existing) return null;
+  const updated: SegmentTemplate = { ...existing, ...cleanFields(fields), updatedAt: new Date().toISOString() };
+  saveSegmentLibrary(library.map((t) => (t.id === id ? updated : t)));
+  return updated;
+}
+
+/** Deleting a template leaves its instances in place as plain segments. */
+export function deleteSegmentTemplate(id: string): void {
+  saveSegmentLibrary(getSegmentLibrary().filter((t) => t.id !== id));
+}
+
+/**
+ * Copy the template's fields onto every linked segment in the tree. Check
+ * state is left alone. Returns the same array when nothing is linked.
+ */
+export function applyTemplateToItems(items: PlanItem[], template: SegmentTemplate): PlanItem[] {
+  let changed = false;
+  const walk = (list: PlanItem[]): PlanItem[] =>
+    list.map((item) => {
+      const children = walk(item.children);
+      if (item.blockType === "segment" && item.segmentTemplateId === template.id) {
+        changed = true;
+        return { ...applySegmentTemplateFields(item, template), children };
+      }
+      return children === item.children ? item : { ...item, children };
+    });
+  const next = walk(items);
+  return changed ? next : items;
+}
+
+export function countLinkedSegments(items: PlanItem[], templateId: string): number {
+  return items.reduce(
+    (sum, item) =>
+      sum +
+      (item.blockType === "segment" && item.segmentTemplateId === templateId ? 1 : 0) +
+      countLinkedSegments(item.children, templateId),
+    0
+  );
+}
+
+/** Linked segments across every saved practice plan and the lesson plan. */
+export function getLinkedSegmentCount(templateId: string): number {
+  const planCount = getPlanLibrary().plans.reduce(
+    (sum, plan) => sum + countLinkedSegments(getPlanItems(plan.id), templateId),
+    0
+  );
+  return planCount + countLinkedSegments(lessonPlanApi.get(), templateId);
+}
+
+/**
+ * Push a template's current fields into linked segments of every saved
+ * practice plan and the lesson plan. Returns how many segments were updated.
+ */
+export function propagateSegmentTemplate(template: SegmentTemplate): number {
+  let updated = 0;
+  for (const plan of getPlanLibrary().plans) {
+    const items = getPlanItems(plan.id);
+    const next = applyTemplateToItems(items, template);
+    if (next !== items) {
+      updated += countLinkedSegments(next, template.id);
+      savePlanToStorage(getPlanStorageKey(plan.id), next);
+    }
+  }
+  const lessonItems = lessonPlanApi.get();
+  const nextLesson = applyTemplateToItems(lessonItems, template);
+  if (nextLesson !== lessonItems) {
+    updated += countLinkedSegments(nextLesson, template.id);
+    lessonPlanApi.save(nextLesson);
+  }
+  if (updated > 0) scheduleUserDataPush();
+  return updated;
+}
+
+/** Replace the local library with the cloud copy when the cloud has templates. */
+export function restoreSegmentLibraryFromSync(templates: unknown): void {
+  if (!Array.isArray(templates) || templates.length === 0) return;
+  const valid = templates.filter(isValidTemplate);
+  if (valid.length === 0) return;
+  writeSegmentLibrary(valid);
+}
+
+/** Replace the local library with an imported one, even when it is empty. */
+export function replaceSegmentLibrary(templates: unknown): void {
+  if (!Array.isArray(templates)) return;
+  writeSegmentLibrary(templates.filter(isValidTemplate));
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    recordJournalTime,
+    closeJournalEntry,
+    getSessionJournal,
+    getJournalForDate,
+    getJournalDates,
+    restoreSessionJournalFromSync,
+    type JournalEntry,
+} from './sessionJournal';
+import { getLocalYMD } from './practiceLog';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+// Local 10:00 on a fixed day so entries never straddle midnight
+const T0 = new Date(2025, 2, 14, 10, 0, 0).getTime();
+
+describe('sessionJournal', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+        vi.clearAllMocks();
+    });
+
+    it('accumulates ticks into one open work interval and closes it', () => {
+        recordJournalTime('interval', 1, { mode: 'work' }, T0);
+        recordJournalTime('interval', 1, { mode: 'work' }, T0 + 1000);
+        recordJournalTime('interval', 1, { mode: 'work' }, T0 + 2000);
+
+        let [entry] = getSessionJournal();
+        expect(entry.outcome).toBe('in-progress');
+        expect(entry.seconds).toBe(3);
+        expect(entry.start).toBe(T0 - 1000);
+
+        closeJournalEntry('interval', 'completed', T0 + 2500);
+        [entry] = getSessionJournal();
+        expect(entry.outcome).toBe('completed');
+        expect(entry.end).toBe(T0 + 2500);
+    });
+
+    it('starts a new segment run when the piece changes', () => {
+        recordJournalTime('segment', 30, { mode: 'work', pieceId: 'a', pieceName: 'Scales' }, T0);
+        recordJournalTime('segment', 10, { mode: 'work', pieceId: 'b', pieceName: 'Etude' }, T0 + 40_000);
+
+        const entries = getSessionJournal();
+        expect(entries.map((e) => [e.pieceId, e.outcome])).toEqual([['a', 'stopped'], ['b', 'in-progress']]);
+    });
+
+    it('keeps intervals and segments open independently', () => {
+        recordJournalTime('interval', 5, { mode: 'work' }, T0);
+        recordJournalTime('segment', 5, { mode: 'work', pieceId: 'a' }, T0);
+        closeJournalEntry('segment', 'completed', T0 + 1000);
+        closeJournalEntry('interval', 'skipped', T0 + 2000);
+
+        const outcomes = getSessionJournal().map((e) => `${e.kind}:${e.outcome}`).sort();
+        expect(outcomes).toEqual(['interval:skipped', 'segment:completed']);
+    });
+
+    it('closes an entry left open from an earlier sitting as stopped', () => {
+        recordJournalTime('interval', 60, { mode: 'work' }, T0);
+        closeJournalEntry('interval', 'reset', T0 + 2 * 60 * 60 * 1000);
+
+        const [entry] = getSessionJournal();
+        expect(entry.outcome).toBe('stopped');
+        expect(entry.end).toBe(T0);
+    });
+
+    it('groups entries by the local day they started on', () => {
+        recordJournalTime('interval', 60, { mode: 'work' }, T0);
+        closeJournalEntry('interval', 'completed', T0);
+        const dayBefore = T0 - 24 * 60 * 60 * 1000;
+        recordJournalTime('interval', 60, { mode: 'work' }, dayBefore);
+        closeJournalEntry('interval', 'completed', dayBefore);
+
+        const today = getLocalYMD(new Date(T0));
+        expect(getJournalDates()[0]).toBe(today);
+        expect(getJournalDates()).toHaveLength(2);
+        expect(getJournalForDate(today)).toHaveLength(1);
+    });
+
+    it('merges synced entries by id without duplicating', () => {
+        recordJournalTime('interval', 60, { mode: 'work' }, T0);
+        closeJournalEntry('interval', 'completed', T0);
+        const [local] = getSessionJournal();
+
+        const remote: JournalEntry = {
+            id: 'journal-remote',
+            kind: 'segment',
+            mode: 'work',
+            pieceId: 'a',
+            start: T0 + 60_000,
+            end: T0 + 120_000,
+            seconds: 60,
+            outcome: 'completed',
+        };
+        restoreSessionJournalFromSync([{ ...local, seconds: 30 }, remote, { bogus: true }]);
+
+        const entries = getSessionJournal();
+        expect(entries).toHaveLength(2);
+        expect(entries.find((e) => e.id === local.id)?.seconds).toBe(60);
+    });
+});
@@ -0,0 +1,208 @@
+/**
+ * Session journal - one entry per work interval and per segment run, with
+ * start/end timestamps and how it ended. Complements the aggregated
+ * per-day logs in practiceLog.ts, which can't say when practice happened.
+ * Closed entries are stored in localStorage as a flat array, oldest first;
+ * the (at most two) open entries are kept under a separate key.
+ */
+import { getLocalYMD } from './practiceLog';
+
+const SESSION_JOURNAL_KEY = 'practice-timer-session-journal';
+const OPEN_ENTRIES_KEY = 'practice-timer-session-journal-open';
+const MAX_JOURNAL_ENTRIES = 5000;
+/** An open entry that hasn't been touched for this long is closed as stopped. */
+const STALE_ENTRY_MS = 60 * 60 * 1000;
+
+export type JournalEntryKind = 'interval' | 'segment';
+
+export type JournalOutcome = 'in-progress' | 'completed' | 'skipped' | 'reset' | 'stopped';
+
+type OpenEntries = Partial<Record<JournalEntryKind, JournalEntry>>;
+
+export interface JournalEntry {
+  id: string;
+  kind: JournalEntryKind;
+  /** Timer mode when the entry started; segment runs in break mode are overtime. */
+  mode: 'work' | 'break';
+  pieceId?: string;
+  pieceName?: string;
+  start: number; // Unix ms
+  end: number; // Unix ms of the last recorded second
+  seconds: number; // Practice seconds attributed to this entry
+  outcome: JournalOutcome;
+}
+
+function generateEntryId(): string {
+  return `journal-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function isValidEntry(entry: unknown): entry is JournalEntry {
+  return (
+    !!entry &&
+    typeof entry === 'object' &&
+    typeof (entry as JournalEntry).id === 'string' &&
+    ((entry as JournalEntry).kind === 'interval' || (entry as JournalEntry).kind === 'segment') &&
+    typeof (entry as JournalEntry).start === 'number' &&
+    typeof (entry as JournalEntry).end === 'number'
+  );
+}
+
+function readClosedEntries(): JournalEntry[] {
+  try {
+    const stored = localStorage.getItem(SESSION_JOURNAL_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isValidEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveClosedEntries(entries: JournalEntry[]): void {
+  const trimmed = entries.length > MAX_JOURNAL_ENTRIES ? entries.slice(-MAX_JOURNAL_ENTRIES) : entries;
+  try {
+    localStorage.setItem(SESSION_JOURNAL_KEY, JSON.stringify(trimmed));
+  } catch (e) {
+    console.error('Failed to save session journal:', e);
+  }
+}
+
+function appendClosedEntry(entry: JournalEntry): void {
+  saveClosedEntries([...readClosedEntries(), entry]);
+}
+
+// Open entries are written on every tick, so they live in their own small key
+function readOpenEntries(): OpenEntries {
+  try {
+    const stored = localStorage.getItem(OPEN_ENTRIES_KEY);
+    if (!stored) return {};
+    const parsed = JSON.parse(stored) as OpenEntries;
+    return {
+      interval: isValidEntry(parsed?.interval) ? parsed.interval : undefined,
+      segment: isValidEntry(parsed?.segment) ? parsed.segment : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+function saveOpenEntries(open: OpenEntries): void {
+  try {
+    localStorage.setItem(OPEN_ENTRIES_KEY, JSON.stringify(open));
+  } catch (e) {
+    console.error('Failed to save open journal entries:', e);
+  }
+}
+
+/** All entries, closed and in progress, oldest first. */
+export function getSessionJournal(): JournalEntry[] {
+  const open = readOpenEntries();
+  const inProgress = [open.interval, open.segment].filter((e): e is JournalEntry => !!e);
+  return [...readClosedEntries(), ...inProgress].sort((a, b) => a.start - b.start);
+}
+
+function isStale(entry: JournalEntry, now: number): boolean {
+  return now - entry.end > STALE_ENTRY_MS || getLocalYMD(new Date(entry.end)) !== getLocalYMD(new Date(now));
+}
+
+/**
+ * Add `seconds` of practice to the open entry of `kind`, opening a new one
+ * when there is none. A segment entry for a different piece, or an entry
+ * left open from an earlier sitting, is closed as stopped first.
+ */
+export function recordJournalTime(
+  kind: JournalEntryKind,
+  seconds: number,
+  details: { mode: 'work' | 'break'; pieceId?: string; pieceName?: string },
+  now: number = Date.now()
+): void {
+  if (seconds <= 0) return;
+  const openEntries = readOpenEntries();
+  const open = openEntries[kind];
+
+  if (open && !isStale(open, now) && (kind === 'interval' || open.pieceId === details.pieceId)) {
+    openEntries[kind] = {
+      ...open,
+      end: now,
+      seconds: open.seconds + seconds,
+      pieceName: details.pieceName ?? open.pieceName,
+    };
+  } else {
+    if (open) appendClosedEntry({ ...open, outcome: 'stopped' });
+    openEntries[kind] = {
+      id: generateEntryId(),
+      kind,
+      mode: details.mode,
+      pieceId: details.pieceId,
+      pieceName: details.pieceName,
+      start: now - seconds * 1000,
+      end: now,
+      seconds,
+      outcome: 'in-progress',
+    };
+  }
+  saveOpenEntries(openEntries);
+}
+
+/** Close the open entry of `kind`, if any. */
+export function closeJournalEntry(
+  kind: JournalEntryKind,
+  outcome: Exclude<JournalOutcome, 'in-progress'>,
+  now: number = Date.now()
+): void {
+  const openEntries = readOpenEntries();
+  const open = openEntries[kind];
+  if (!open) return;
+  // A stale entry ended when it was last touched, not now
+  appendClosedEntry(isStale(open, now) ? { ...open, outcome: 'stopped' } : { ...open, outcome, end: Math.max(open.end, now) });
+  saveOpenEntries({ ...openEntries, [kind]: undefined });
+}
+
+/** Entries that started on the given local date (YYYY-MM-DD), in start order. */
+export function getJournalForDate(dateStr: string): JournalEntry[] {
+  return getSessionJournal()
+    .filter((entry) => getLocalYMD(new Date(entry.start)) === dateStr)
+    .sort((a, b) => a.start - b.start);
+}
+
+/** Local dates (YYYY-MM-DD) with at least one entry, newest first. */
+export function getJournalDates(): string[] {
+  const dates = new Set(getSessionJournal().map((entry) => getLocalYMD(new Date(entry.start))));
+  return Array.from(dates).sort((a, b) => b.localeCompare(a));
+}
+
+/**
+ * Merge cloud entries into the local journal by id. For an entry present on
+ * both sides the longer record wins, and a closed outcome beats in-progress.
+ */
+export function restoreSessionJournalFromSync(entries: unknown): void {
+  if (!Array.isArray(entries) || entries.length === 0) return;
+  const open = readOpenEntries();
+  const openIds = new Set([open.interval?.id, open.segment?.id]);
+  const merged = new Map<string, JournalEntry>();
+  for (const entry of readClosedEntries()) merged.set(entry.id, entry);
+  for (const entry of entries) {
+    // Entries still open on this device keep being written locally
+    if (!isValidEntry(entry) || openIds.has(entry.id)) continue;
+    const local = merged.get(entry.id);
+    if (!local) {
+      // Left open on another device and not touched since
+      merged.set(entry.id, entry.outcome === 'in-progress' && isStale(entry, Date.now()) ? { ...entry, outcome: 'stopped' } : entry);
+      continue;
+    }
+    const longer = entry.seconds > local.seconds ? entry : local;
+    const outcome = local.outcome === 'in-progress' ? entry.outcome : local.outcome;
+    merged.set(entry.id, { ...longer, end: Math.max(local.end, entry.end), outcome });
+  }
+  saveClosedEntries(Array.from(merged.values()).sort((a, b) => a.start - b.start));
+}
+
+/** Replace the closed entries with an imported list; entries open on this device are kept. */
+export function replaceSessionJournal(entries: unknown): void {
+  if (!Array.isArray(entries)) return;
+  const open = readOpenEntries();
+  const openIds = new Set([open.interval?.id, open.segment?.id]);
+  saveClosedEntries(
+    entries.filter((entry): entry is JournalEntry => isValidEntry(entry) && !openIds.has(entry.id)).sort((a, b) => a.start - b.start)
+  );
+}
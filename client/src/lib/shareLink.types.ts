@@ -0,0 +1,31 @@
+/**
+ * 'listed' links show on linked teachers' dashboards, 'unlisted' ones only
+ * open for people with the link, and 'disabled' ones don't open until
+ * switched back. Links published from a device (without an account) are
+ * never listed.
+ */
+export type ShareLinkStatus = 'listed' | 'unlisted' | 'disabled';
+
+/** Where a link is managed: the signed-in account, or a token saved on this device. */
+export type ShareLinkSource = 'account' | 'device';
+
+export interface ShareLink {
+    id: string;
+    title: string | null;
+    createdAt: string;
+    source: ShareLinkSource;
+    status: ShareLinkStatus;
+    /** ISO timestamp; null for links that don't expire. */
+    expiresAt: string | null;
+    /** Revoked links never open again and can't be changed. */
+    revoked: boolean;
+    hasPassphrase: boolean;
+}
+
+export interface ShareLinkChanges {
+    status?: ShareLinkStatus;
+    expiresAt?: string | null;
+    /** A new passphrase, or null to remove it. */
+    passphrase?: string | null;
+    revoke?: true;
+}
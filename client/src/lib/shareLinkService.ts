@@ -0,0 +1,113 @@
+import { supabase } from './supabaseClient';
+import { getDeviceShareLinks, type DeviceShareLink } from './reportShare';
+import type { ShareLink, ShareLinkChanges, ShareLinkStatus } from './shareLink.types';
+
+const SHARE_FUNCTION_URL = '/.netlify/functions/share-report';
+
+interface ShareLinkRow {
+    id: string;
+    created_at: string;
+    link_status: ShareLinkStatus;
+    expires_at: string | null;
+    revoked_at: string | null;
+    passphrase_hash: string | null;
+    title: string | null;
+}
+
+interface DeviceLinkSettings {
+    status: ShareLinkStatus;
+    expiresAt: string | null;
+    revoked: boolean;
+    hasPassphrase: boolean;
+}
+
+async function getUserId(): Promise<string | null> {
+    if (!supabase) return null;
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user?.id ?? null;
+}
+
+/** Read (empty `changes`) or change a device link's settings in the legacy store. */
+async function patchDeviceLink(link: DeviceShareLink, changes: ShareLinkChanges): Promise<DeviceLinkSettings> {
+    const res = await fetch(SHARE_FUNCTION_URL, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', 'X-Manage-Token': link.manageToken },
+        body: JSON.stringify({ id: link.id, changes }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body?.error || 'Failed to update link');
+    return body as DeviceLinkSettings;
+}
+
+async function getAccountLinks(): Promise<ShareLink[]> {
+    const userId = await getUserId();
+    if (!supabase || !userId) return [];
+    const { data, error } = await supabase
+        .from('shared_reports')
+        .select('id, created_at, link_status, expires_at, revoked_at, passphrase_hash, title:data->>title')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return ((data || []) as unknown as ShareLinkRow[]).map((row) => ({
+        id: row.id,
+        title: row.title,
+        createdAt: row.created_at,
+        source: 'account',
+        status: row.link_status,
+        expiresAt: row.expires_at,
+        revoked: !!row.revoked_at,
+        hasPassphrase: !!row.passphrase_hash,
+    }));
+}
+
+async function getDeviceLinks(): Promise<ShareLink[]> {
+    if (import.meta.env.DEV) return [];
+    const links = await Promise.all(
+        getDeviceShareLinks().map(async (link): Promise<ShareLink | null> => {
+            try {
+                const settings = await patchDeviceLink(link, {});
+                return { id: link.id, title: link.title, createdAt: link.createdAt, source: 'device', ...settings };
+            } catch (e) {
+                console.warn('[shareLinkService] Failed to load device link:', link.id, e);
+                return null;
+            }
+        })
+    );
+    return links.filter((link): link is ShareLink => link !== null);
+}
+
+export const shareLinkService = {
+    /** Every report link the user can manage: their account's, then this device's. */
+    async getLinks(): Promise<ShareLink[]> {
+        const [account, device] = await Promise.all([getAccountLinks(), getDeviceLinks()]);
+        return [...account, ...device];
+    },
+
+    async updateLink(link: ShareLink, changes: ShareLinkChanges): Promise<void> {
+        if (link.source === 'device') {
+            const deviceLink = getDeviceShareLinks().find((l) => l.id === link.id);
+            if (!deviceLink) throw new Error('This link is managed from another device');
+            await patchDeviceLink(deviceLink, changes);
+            return;
+        }
+
+        if (!supabase) throw new Error('Supabase is not configured');
+        const updates: Record<string, unknown> = {};
+        if (changes.status !== undefined) updates.link_status = changes.status;
+        if (changes.expiresAt !== undefined) updates.expires_at = changes.expiresAt;
+        if (changes.revoke) updates.revoked_at = new Date().toISOString();
+        if (Object.keys(updates).length > 0) {
+            const { error } = await supabase.from('shared_reports').update(updates).eq('id', link.id);
+            if (error) throw error;
+        }
+        if (changes.passphrase !== undefined) {
+            // Hashed in the database; see set_report_passphrase() in migration 015
+            const { error } = await supabase.rpc('set_report_passphrase', {
+                share_id: link.id,
+                passphrase: changes.passphrase ?? '',
+            });
+            if (error) throw error;
+        }
+    },
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import type { ShareLink } from './shareLink.types';
+import { fromExpiryDateInput, getShareLinkState, isShareLinkExpired, toExpiryDateInput } from './shareLinks';
+
+const link = (extra: Partial<ShareLink> = {}): ShareLink => ({
+    id: 'abc123',
+    title: null,
+    createdAt: '2026-03-01T10:00:00Z',
+    source: 'account',
+    status: 'listed',
+    expiresAt: null,
+    revoked: false,
+    hasPassphrase: false,
+    ...extra,
+});
+
+describe('shareLinks', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    it('reports why a link does not open, revocation first', () => {
+        expect(getShareLinkState(link(), now)).toBe('open');
+        expect(getShareLinkState(link({ status: 'unlisted', hasPassphrase: true }), now)).toBe('open');
+        expect(getShareLinkState(link({ expiresAt: '2026-03-10T11:59:59Z' }), now)).toBe('expired');
+        expect(getShareLinkState(link({ status: 'disabled', expiresAt: '2026-03-01T00:00:00Z' }), now)).toBe('disabled');
+        expect(getShareLinkState(link({ revoked: true, status: 'disabled' }), now)).toBe('revoked');
+    });
+
+    it('treats a link as expired from its expiry time on', () => {
+        expect(isShareLinkExpired(link({ expiresAt: now.toISOString() }), now)).toBe(true);
+        expect(isShareLinkExpired(link({ expiresAt: '2026-03-11T00:00:00Z' }), now)).toBe(false);
+        expect(isShareLinkExpired(link(), now)).toBe(false);
+    });
+
+    it('keeps a link open through the end of its expiry date', () => {
+        const expiresAt = fromExpiryDateInput('2026-03-15');
+        expect(expiresAt).toBe(new Date(2026, 2, 16).toISOString());
+        expect(isShareLinkExpired(link({ expiresAt }), new Date(2026, 2, 15, 23, 59))).toBe(false);
+        expect(toExpiryDateInput(expiresAt)).toBe('2026-03-15');
+        expect(toExpiryDateInput(new Date(2026, 2, 15, 18).toISOString())).toBe('2026-03-15');
+        expect(fromExpiryDateInput('')).toBeNull();
+        expect(toExpiryDateInput(null)).toBe('');
+    });
+});
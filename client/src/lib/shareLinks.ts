@@ -0,0 +1,35 @@
+/**
+ * Shared report links as listed in Settings: whether each one currently
+ * opens, and the date-only expiry the list edits.
+ */
+import type { ShareLink } from './shareLink.types';
+
+export type ShareLinkState = 'open' | 'revoked' | 'expired' | 'disabled';
+
+export function isShareLinkExpired(link: Pick<ShareLink, 'expiresAt'>, now: Date = new Date()): boolean {
+  return !!link.expiresAt && new Date(link.expiresAt).getTime() <= now.getTime();
+}
+
+/** Why a link doesn't open for viewers, in the order the server checks. */
+export function getShareLinkState(link: ShareLink, now: Date = new Date()): ShareLinkState {
+  if (link.revoked) return 'revoked';
+  if (link.status === 'disabled') return 'disabled';
+  if (isShareLinkExpired(link, now)) return 'expired';
+  return 'open';
+}
+
+/** The last local day (YYYY-MM-DD) a link works, for a date input. */
+export function toExpiryDateInput(expiresAt: string | null): string {
+  if (!expiresAt) return '';
+  const d = new Date(new Date(expiresAt).getTime() - 1);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** A link set to expire on a date keeps working through the end of that local day. */
+export function fromExpiryDateInput(value: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const end = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + 1);
+  return end.toISOString();
+}
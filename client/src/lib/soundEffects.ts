@@ -1,12 +1,23 @@
 // Sound effects for the timer application
+import {
+  DEFAULT_SOUND_ID,
+  type SoundEvent,
+  type SynthPreset,
+  getEventSounds,
+  getSoundSource,
+  resolveEventSound,
+} from './soundPacks';
+import { getUploadedSoundData } from './soundUploads';
+
 export type SoundEffect = 'start' | 'end' | 'reset' | 'skip';
-export type SoundType = 'beep' | 'bell' | 'chime' | 'digital' | 'woodpecker';
+export type SoundType = SynthPreset;
 
 export interface SoundEffectParams {
   effect: SoundEffect;
   numberOfBeeps: number;
   volume: number;
-  soundType: SoundType;
+  /** Any sound id from the registry (see soundPacks). */
+  soundType: string;
 }
 
 let masterVolume = 0.5;
@@ -153,12 +164,126 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
   });
 }
 
-// Web Audio oscillator sound playback with smooth decay
+// Oscillator presets. `decay` is used for interval-end beeps, `shortDecay`
+// for one-off cues (start, reset, skip).
+const SYNTH_TONES: Record<SynthPreset, { frequency: number; decay: number; shortDecay: number }> = {
+  beep: { frequency: 880, decay: 1.2, shortDecay: 0.4 },
+  bell: { frequency: 440, decay: 1.5, shortDecay: 0.8 },
+  chime: { frequency: 523.25, decay: 1.3, shortDecay: 0.7 },
+  digital: { frequency: 880, decay: 0.8, shortDecay: 0.4 },
+  woodpecker: { frequency: 300, decay: 0.2, shortDecay: 0.2 },
+};
+
+/** Gap between repeated interval-end sounds. */
+const REPEAT_GAP_MS = 1200;
+
+// Decoded samples by sound id, so each file is fetched and decoded once
+const sampleBuffers = new Map<string, Promise<AudioBuffer | null>>();
+
+const decodeAudio = (context: AudioContext, data: ArrayBuffer): Promise<AudioBuffer> =>
+  new Promise((resolve, reject) => {
+    // Older Safari only supports the callback form
+    const result = context.decodeAudioData(data, resolve, reject);
+    if (result && typeof result.then === 'function') {
+      result.then(resolve, reject);
+    }
+  });
+
+/**
+ * Decoded audio for a sample or uploaded sound; null for synth presets and
+ * for sounds that can't be loaded.
+ */
+export const loadSoundBuffer = (soundId: string): Promise<AudioBuffer | null> => {
+  const source = getSoundSource(soundId);
+  if (!source || source.kind === 'synth') return Promise.resolve(null);
+
+  let pending = sampleBuffers.get(soundId);
+  if (!pending) {
+    pending = (async () => {
+      const context = getAudioContext();
+      if (!context) return null;
+      let data: ArrayBuffer | null;
+      if (source.kind === 'sample') {
+        const response = await fetch(source.url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        data = await response.arrayBuffer();
+      } else {
+        data = await getUploadedSoundData(source.uploadId);
+      }
+      return data ? decodeAudio(context, data) : null;
+    })().catch((e) => {
+      console.error(`Failed to load sound ${soundId}:`, e);
+      // Let a later play try again (e.g. once back online)
+      sampleBuffers.delete(soundId);
+      return null;
+    });
+    sampleBuffers.set(soundId, pending);
+  }
+  return pending;
+};
+
+/** Drop a cached sample, e.g. after its upload was deleted. */
+export const forgetSoundBuffer = (soundId: string): void => {
+  sampleBuffers.delete(soundId);
+};
+
+/**
+ * Decode the sounds the timer is about to need. Called when the timer starts
+ * (inside the user's tap), so on iOS the end sound can play from the
+ * background without a fetch.
+ */
+export const preloadSounds = (soundIds: (string | undefined)[]): void => {
+  Array.from(new Set(soundIds)).forEach((soundId) => {
+    if (soundId) loadSoundBuffer(soundId);
+  });
+};
+
+/** The interval-end sounds plus every event sound that isn't silent. */
+export const preloadEventSounds = (endSoundIds: (string | undefined)[]): void => {
+  const eventSounds = getEventSounds();
+  const events: SoundEvent[] = ['start', 'reset', 'skip', 'segmentComplete', 'practiceComplete'];
+  const endSoundId = endSoundIds[0] ?? DEFAULT_SOUND_ID;
+  preloadSounds([
+    ...endSoundIds,
+    ...events.map((event) => resolveEventSound(event, eventSounds, endSoundId) ?? undefined),
+  ]);
+};
+
+const playSynthTone = (context: AudioContext, preset: SynthPreset, volume: number, short: boolean): void => {
+  const tone = SYNTH_TONES[preset];
+  const decay = short ? tone.shortDecay : tone.decay;
+  const oscillator = context.createOscillator();
+  const gainNode = context.createGain();
+
+  oscillator.type = 'sine';
+  oscillator.frequency.setValueAtTime(tone.frequency, context.currentTime);
+  gainNode.gain.setValueAtTime(volume, context.currentTime);
+  gainNode.gain.exponentialRampToValueAtTime(0.001, context.currentTime + decay);
+
+  oscillator.connect(gainNode);
+  gainNode.connect(context.destination);
+
+  oscillator.start(context.currentTime);
+  oscillator.stop(context.currentTime + decay + 0.1);
+};
+
+const playBuffer = (context: AudioContext, buffer: AudioBuffer, volume: number): void => {
+  const source = context.createBufferSource();
+  const gainNode = context.createGain();
+  source.buffer = buffer;
+  gainNode.gain.setValueAtTime(volume, context.currentTime);
+  source.connect(gainNode);
+  gainNode.connect(context.destination);
+  source.start(context.currentTime);
+};
+
+// Web Audio playback: synth presets as an oscillator with smooth decay,
+// samples and uploads from their decoded buffers
 const playSoundWebAudio = async (
   effect: SoundEffect,
   numberOfBeeps: number = 3,
   volume: number = 50,
-  soundType: SoundType = 'beep'
+  soundId: string = DEFAULT_SOUND_ID
 ): Promise<void> => {
   const normalizedVolume = getNormalizedVolume(volume);
   const context = getAudioContext();
@@ -170,128 +295,33 @@ const playSoundWebAudio = async (
     } catch {}
   }
 
-  if (effect === 'end') {
-    const count = Math.max(1, numberOfBeeps);
-    for (let i = 0; i < count; i++) {
-      const oscillator = context.createOscillator();
-      const gainNode = context.createGain();
-
-      oscillator.type = 'sine';
-
-      switch (soundType) {
-        case 'bell':
-          oscillator.frequency.setValueAtTime(440, context.currentTime);
-          break;
-        case 'chime':
-          oscillator.frequency.setValueAtTime(523.25, context.currentTime);
-          break;
-        case 'digital':
-          oscillator.frequency.setValueAtTime(880, context.currentTime);
-          break;
-        case 'woodpecker':
-          oscillator.frequency.setValueAtTime(300, context.currentTime);
-          break;
-        case 'beep':
-        default:
-          oscillator.frequency.setValueAtTime(880, context.currentTime);
-          break;
-      }
-
-      gainNode.gain.setValueAtTime(normalizedVolume, context.currentTime);
-
-      let decayDuration = 1.2;
-      switch (soundType) {
-        case 'bell':
-          decayDuration = 1.5;
-          break;
-        case 'chime':
-          decayDuration = 1.3;
-          break;
-        case 'digital':
-          decayDuration = 0.8;
-          break;
-        case 'woodpecker':
-          decayDuration = 0.2;
-          break;
-        case 'beep':
-        default:
-          decayDuration = 1.2;
-          break;
-      }
-
-      gainNode.gain.exponentialRampToValueAtTime(0.001, context.currentTime + decayDuration);
-
-      oscillator.connect(gainNode);
-      gainNode.connect(context.destination);
+  const source = getSoundSource(soundId);
+  // A sample that can't be loaded falls back to the default beep
+  const buffer = source && source.kind !== 'synth' ? await loadSoundBuffer(soundId) : null;
+  const preset: SynthPreset = source?.kind === 'synth' ? source.preset : 'beep';
+  const count = effect === 'end' ? Math.max(1, numberOfBeeps) : 1;
 
-      oscillator.start(context.currentTime);
-      oscillator.stop(context.currentTime + decayDuration + 0.1);
-
-      if (i < count - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 1200));
-      }
-    }
-  } else {
-    // Single sound for start, reset, skip, or preview
-    const oscillator = context.createOscillator();
-    const gainNode = context.createGain();
-    oscillator.type = 'sine';
-
-    let freq = 880;
-    let decay = 0.5;
-    if (effect === 'start') {
-      freq = 660;
-      decay = 0.4;
-    } else if (effect === 'reset') {
-      freq = 440;
-      decay = 0.4;
-    } else if (effect === 'skip') {
-      freq = 550;
-      decay = 0.4;
+  for (let i = 0; i < count; i++) {
+    if (buffer) {
+      playBuffer(context, buffer, normalizedVolume);
     } else {
-      switch (soundType) {
-        case 'bell':
-          freq = 440;
-          decay = 1.5;
-          break;
-        case 'chime':
-          freq = 523.25;
-          decay = 1.3;
-          break;
-        case 'digital':
-          freq = 880;
-          decay = 0.8;
-          break;
-        case 'woodpecker':
-          freq = 300;
-          decay = 0.2;
-          break;
-        case 'beep':
-        default:
-          freq = 880;
-          decay = 0.5;
-          break;
-      }
+      playSynthTone(context, preset, normalizedVolume, effect !== 'end');
     }
 
-    oscillator.frequency.setValueAtTime(freq, context.currentTime);
-    gainNode.gain.setValueAtTime(normalizedVolume, context.currentTime);
-    gainNode.gain.exponentialRampToValueAtTime(0.001, context.currentTime + decay);
-
-    oscillator.connect(gainNode);
-    gainNode.connect(context.destination);
-
-    oscillator.start(context.currentTime);
-    oscillator.stop(context.currentTime + decay + 0.1);
+    if (i < count - 1) {
+      const gap = buffer ? Math.max(REPEAT_GAP_MS, buffer.duration * 1000) : REPEAT_GAP_MS;
+      await new Promise((resolve) => setTimeout(resolve, gap));
+    }
   }
 };
 
-// Main entry point for sound playback
+// Main entry point for sound playback. `soundType` is any registry sound id;
+// unknown ids play the default beep.
 export const playSound = async (
   effect: SoundEffect,
   numberOfBeeps: number = 3,
   volume: number = 50,
-  soundType: SoundType = 'beep'
+  soundType: string = DEFAULT_SOUND_ID
 ): Promise<void> => {
   try {
     const now = Date.now();
@@ -300,22 +330,28 @@ export const playSound = async (
     }
     lastPlaySoundTime = now;
 
-    // Validate soundType
-    const validSoundType: SoundType =
-      soundType === 'bell' ||
-      soundType === 'chime' ||
-      soundType === 'digital' ||
-      soundType === 'woodpecker' ||
-      soundType === 'beep'
-        ? soundType
-        : 'beep';
-
-    await playSoundWebAudio(effect, numberOfBeeps, volume, validSoundType);
+    await playSoundWebAudio(effect, numberOfBeeps, volume, soundType);
   } catch (error) {
     console.error('Error playing sound:', error);
   }
 };
 
+/**
+ * Play the sound chosen for a timer event (see soundPacks). `endSoundId` is
+ * the interval-end sound, which other events can be set to follow.
+ */
+export const playEventSound = async (
+  event: SoundEvent,
+  numberOfBeeps: number,
+  volume: number,
+  endSoundId: string = DEFAULT_SOUND_ID
+): Promise<void> => {
+  const soundId = resolveEventSound(event, getEventSounds(), endSoundId);
+  if (!soundId) return;
+  const effect: SoundEffect = event === 'start' || event === 'reset' || event === 'skip' ? event : 'end';
+  await playSound(effect, numberOfBeeps, volume, soundId);
+};
+
 export const setVolume = (volume: number): void => {
   masterVolume = Math.max(0, Math.min(1, volume));
 };
\ No newline at end of file
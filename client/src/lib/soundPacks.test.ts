@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    DEFAULT_EVENT_SOUNDS,
+    NO_SOUND,
+    SAME_AS_END,
+    forgetEventSound,
+    getEventSounds,
+    getSoundPacks,
+    getSoundSource,
+    isSoundId,
+    normalizeEventSounds,
+    resolveEventSound,
+    saveEventSounds,
+} from './soundPacks';
+import { getUploadName, getUploadProblem } from './soundUploads';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const upload = { id: 'abc', name: 'Cowbell', type: 'audio/wav', size: 2048, createdAt: '2026-01-01T00:00:00.000Z' };
+
+describe('soundPacks', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+    });
+
+    it('resolves synth presets, bundled samples and uploads by id', () => {
+        expect(getSoundSource('bell')).toEqual({ kind: 'synth', preset: 'bell' });
+        expect(getSoundSource('studio:marimba')).toEqual({ kind: 'sample', url: '/sounds/studio/marimba.wav' });
+        expect(getSoundSource('upload:abc')).toEqual({ kind: 'upload', uploadId: 'abc' });
+        expect(getSoundSource('kazoo')).toBeNull();
+
+        expect(isSoundId('woodpecker')).toBe(true);
+        expect(isSoundId('upload:abc')).toBe(true);
+        expect(isSoundId('upload:')).toBe(false);
+        expect(isSoundId('kazoo')).toBe(false);
+    });
+
+    it('adds a "My sounds" pack only when there are uploads', () => {
+        expect(getSoundPacks().map((p) => p.id)).toEqual(['classic', 'studio']);
+        const packs = getSoundPacks([upload]);
+        expect(packs[packs.length - 1]).toMatchObject({
+            name: 'My sounds',
+            sounds: [{ id: 'upload:abc', name: 'Cowbell', source: { kind: 'upload', uploadId: 'abc' } }],
+        });
+    });
+
+    it('keeps start, reset and skip silent and completions on the end sound by default', () => {
+        const sounds = getEventSounds();
+        expect(sounds).toEqual(DEFAULT_EVENT_SOUNDS);
+        expect(resolveEventSound('start', sounds, 'chime')).toBeNull();
+        expect(resolveEventSound('end', sounds, 'chime')).toBe('chime');
+        expect(resolveEventSound('segmentComplete', sounds, 'chime')).toBe('chime');
+        expect(resolveEventSound('practiceComplete', sounds, 'studio:bowl')).toBe('studio:bowl');
+    });
+
+    it('plays the sound chosen for each event and drops unknown choices', () => {
+        const sounds = normalizeEventSounds({ start: 'studio:woodblock', skip: 'kazoo', practiceComplete: NO_SOUND });
+        expect(sounds).toEqual({ ...DEFAULT_EVENT_SOUNDS, start: 'studio:woodblock', practiceComplete: NO_SOUND });
+        expect(resolveEventSound('start', sounds, 'beep')).toBe('studio:woodblock');
+        expect(resolveEventSound('practiceComplete', sounds, 'beep')).toBeNull();
+    });
+
+    it('puts events that used a deleted upload back on their defaults', () => {
+        saveEventSounds({ ...DEFAULT_EVENT_SOUNDS, start: 'upload:abc', segmentComplete: 'upload:abc', reset: 'bell' });
+        forgetEventSound('upload:abc');
+        expect(getEventSounds()).toEqual({ ...DEFAULT_EVENT_SOUNDS, segmentComplete: SAME_AS_END, reset: 'bell' });
+    });
+
+    it('checks uploads before storing them', () => {
+        expect(getUploadProblem({ type: 'audio/mpeg', size: 50_000 })).toBeNull();
+        expect(getUploadProblem({ type: 'image/png', size: 50_000 })).toBe('Choose an audio file.');
+        expect(getUploadProblem({ type: 'audio/wav', size: 5 * 1024 * 1024 })).toMatch(/1 MB/);
+        expect(getUploadName('Cowbell take 2.mp3')).toBe('Cowbell take 2');
+    });
+});
@@ -0,0 +1,196 @@
+/**
+ * Sound packs - the registry of sounds the timer can play, and which sound
+ * each timer event uses.
+ *
+ * Every sound has a string id, which is what settings and interval sequences
+ * store: the classic synth presets keep their old ids ('beep', 'bell', ...),
+ * bundled samples are '<pack>:<name>' and uploads are 'upload:<id>'. An id
+ * that no longer resolves (e.g. an upload deleted on this device) plays as
+ * the default beep.
+ */
+import type { UploadedSound } from './soundUploads';
+
+const EVENT_SOUNDS_KEY = 'practice-timer-event-sounds';
+
+export type SynthPreset = 'beep' | 'bell' | 'chime' | 'digital' | 'woodpecker';
+
+export type SoundSource =
+  | { kind: 'synth'; preset: SynthPreset }
+  | { kind: 'sample'; url: string }
+  | { kind: 'upload'; uploadId: string };
+
+export interface SoundDefinition {
+  id: string;
+  name: string;
+  source: SoundSource;
+}
+
+export interface SoundPack {
+  id: string;
+  name: string;
+  sounds: SoundDefinition[];
+}
+
+export const DEFAULT_SOUND_ID = 'beep';
+const UPLOAD_PREFIX = 'upload:';
+
+const synth = (preset: SynthPreset, name: string): SoundDefinition => ({
+  id: preset,
+  name,
+  source: { kind: 'synth', preset },
+});
+
+const sample = (pack: string, file: string, name: string): SoundDefinition => ({
+  id: `${pack}:${file}`,
+  name,
+  source: { kind: 'sample', url: `/sounds/${pack}/${file}.wav` },
+});
+
+export const BUNDLED_SOUND_PACKS: SoundPack[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    sounds: [
+      synth('beep', 'Beep'),
+      synth('bell', 'Bell'),
+      synth('chime', 'Chime'),
+      synth('digital', 'Digital'),
+      synth('woodpecker', 'Woodpecker'),
+    ],
+  },
+  {
+    // Rendered by scripts/generate_sound_pack.py
+    id: 'studio',
+    name: 'Studio',
+    sounds: [
+      sample('studio', 'woodblock', 'Woodblock'),
+      sample('studio', 'marimba', 'Marimba'),
+      sample('studio', 'triangle', 'Triangle'),
+      sample('studio', 'bowl', 'Singing bowl'),
+    ],
+  },
+];
+
+export function getUploadSoundId(uploadId: string): string {
+  return `${UPLOAD_PREFIX}${uploadId}`;
+}
+
+/** The bundled packs plus a "My sounds" pack when there are uploads. */
+export function getSoundPacks(uploads: UploadedSound[] = []): SoundPack[] {
+  if (uploads.length === 0) return BUNDLED_SOUND_PACKS;
+  return [
+    ...BUNDLED_SOUND_PACKS,
+    {
+      id: 'uploads',
+      name: 'My sounds',
+      sounds: uploads.map((upload) => ({
+        id: getUploadSoundId(upload.id),
+        name: upload.name,
+        source: { kind: 'upload', uploadId: upload.id },
+      })),
+    },
+  ];
+}
+
+/** Whether a stored value is shaped like a sound id (uploads can't be checked synchronously). */
+export function isSoundId(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  if (value.startsWith(UPLOAD_PREFIX)) return value.length > UPLOAD_PREFIX.length;
+  return BUNDLED_SOUND_PACKS.some((pack) => pack.sounds.some((sound) => sound.id === value));
+}
+
+/** Where to get a sound's audio, or null when the id is unknown. */
+export function getSoundSource(soundId: string): SoundSource | null {
+  if (soundId.startsWith(UPLOAD_PREFIX)) {
+    const uploadId = soundId.slice(UPLOAD_PREFIX.length);
+    return uploadId ? { kind: 'upload', uploadId } : null;
+  }
+  for (const pack of BUNDLED_SOUND_PACKS) {
+    const sound = pack.sounds.find((s) => s.id === soundId);
+    if (sound) return sound.source;
+  }
+  return null;
+}
+
+// --- Event sounds ---
+
+export type SoundEvent = 'start' | 'end' | 'reset' | 'skip' | 'segmentComplete' | 'practiceComplete';
+
+/**
+ * Sound for each event other than 'end': a sound id, NO_SOUND, or
+ * SAME_AS_END to follow the interval-end sound. The interval-end sound itself
+ * is the timer's soundType setting, because intervals can override it.
+ */
+export type EventSoundSettings = Record<Exclude<SoundEvent, 'end'>, string>;
+
+export const NO_SOUND = 'none';
+export const SAME_AS_END = 'end';
+
+export const SOUND_EVENTS: { event: SoundEvent; label: string }[] = [
+  { event: 'start', label: 'Timer start' },
+  { event: 'end', label: 'Interval end' },
+  { event: 'reset', label: 'Reset' },
+  { event: 'skip', label: 'Skip' },
+  { event: 'segmentComplete', label: 'Segment complete' },
+  { event: 'practiceComplete', label: 'Practice complete' },
+];
+
+// Start, reset and skip were silent before sounds could be chosen per event
+export const DEFAULT_EVENT_SOUNDS: EventSoundSettings = {
+  start: NO_SOUND,
+  reset: NO_SOUND,
+  skip: NO_SOUND,
+  segmentComplete: SAME_AS_END,
+  practiceComplete: SAME_AS_END,
+};
+
+export function normalizeEventSounds(value: unknown): EventSoundSettings {
+  const stored = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const result = { ...DEFAULT_EVENT_SOUNDS };
+  (Object.keys(result) as (keyof EventSoundSettings)[]).forEach((event) => {
+    const choice = stored[event];
+    if (choice === NO_SOUND || choice === SAME_AS_END || isSoundId(choice)) {
+      result[event] = choice;
+    }
+  });
+  return result;
+}
+
+export function getEventSounds(): EventSoundSettings {
+  try {
+    const stored = localStorage.getItem(EVENT_SOUNDS_KEY);
+    return normalizeEventSounds(stored ? JSON.parse(stored) : {});
+  } catch (e) {
+    console.error('Failed to load event sounds:', e);
+    return { ...DEFAULT_EVENT_SOUNDS };
+  }
+}
+
+export function saveEventSounds(sounds: EventSoundSettings): void {
+  try {
+    localStorage.setItem(EVENT_SOUNDS_KEY, JSON.stringify(sounds));
+  } catch (e) {
+    console.error('Failed to save event sounds:', e);
+  }
+}
+
+/** Point events that used a removed sound back at their defaults. */
+export function forgetEventSound(soundId: string): void {
+  const sounds = getEventSounds();
+  let changed = false;
+  (Object.keys(sounds) as (keyof EventSoundSettings)[]).forEach((event) => {
+    if (sounds[event] === soundId) {
+      sounds[event] = DEFAULT_EVENT_SOUNDS[event];
+      changed = true;
+    }
+  });
+  if (changed) saveEventSounds(sounds);
+}
+
+/** Sound id an event plays, or null when it is silent. */
+export function resolveEventSound(event: SoundEvent, sounds: EventSoundSettings, endSoundId: string): string | null {
+  const choice = event === 'end' ? endSoundId : sounds[event];
+  if (choice === NO_SOUND) return null;
+  if (choice === SAME_AS_END) return endSoundId || DEFAULT_SOUND_ID;
+  return choice || DEFAULT_SOUND_ID;
+}
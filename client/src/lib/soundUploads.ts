@@ -0,0 +1,129 @@
+/**
+ * Sound uploads - user-supplied audio files kept in IndexedDB.
+ *
+ * Audio files are too large for localStorage, so they live in their own
+ * database on this device (they are not synced or included in backups).
+ * The sound-pack registry refers to them as `upload:<id>`.
+ */
+
+const DB_NAME = 'practice-mate-sounds';
+const DB_VERSION = 1;
+const STORE_NAME = 'uploads';
+
+export const SOUND_UPLOADS_CHANGED_EVENT = 'sound-uploads-changed';
+
+/** Larger files are rejected; a cue only needs a few seconds of audio. */
+export const MAX_SOUND_UPLOAD_BYTES = 1024 * 1024;
+
+export interface UploadedSound {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  createdAt: string;
+}
+
+interface UploadedSoundRecord extends UploadedSound {
+  data: ArrayBuffer;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+      })
+  );
+}
+
+function notifyChanged(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(SOUND_UPLOADS_CHANGED_EVENT));
+  }
+}
+
+/** Display name for an uploaded file: its name without the extension. */
+export function getUploadName(fileName: string): string {
+  const base = fileName.replace(/\.[^.]+$/, '').trim();
+  return (base || 'Untitled sound').slice(0, 60);
+}
+
+/**
+ * Why a file can't be used as a sound, or null when it looks fine. The
+ * caller still decodes it, which is the real test of the format.
+ */
+export function getUploadProblem(file: { type: string; size: number }): string | null {
+  if (file.type && !file.type.startsWith('audio/')) return 'Choose an audio file.';
+  if (file.size === 0) return 'The file is empty.';
+  if (file.size > MAX_SOUND_UPLOAD_BYTES) return 'Sounds must be 1 MB or smaller.';
+  return null;
+}
+
+/** Uploaded sounds, oldest first. Empty when IndexedDB is unavailable. */
+export async function listUploadedSounds(): Promise<UploadedSound[]> {
+  try {
+    const records = await runRequest<UploadedSoundRecord[]>('readonly', (store) => store.getAll());
+    return records
+      .map(({ id, name, type, size, createdAt }) => ({ id, name, type, size, createdAt }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (e) {
+    console.error('Failed to list uploaded sounds:', e);
+    return [];
+  }
+}
+
+export async function addUploadedSound(file: File): Promise<UploadedSound> {
+  const problem = getUploadProblem(file);
+  if (problem) throw new Error(problem);
+
+  const sound: UploadedSound = {
+    id: `sound-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    name: getUploadName(file.name),
+    type: file.type,
+    size: file.size,
+    createdAt: new Date().toISOString(),
+  };
+  const record: UploadedSoundRecord = { ...sound, data: await file.arrayBuffer() };
+  await runRequest('readwrite', (store) => store.put(record));
+  notifyChanged();
+  return sound;
+}
+
+/** The stored audio bytes, or null when the sound is gone. */
+export async function getUploadedSoundData(id: string): Promise<ArrayBuffer | null> {
+  const record = await runRequest<UploadedSoundRecord | undefined>('readonly', (store) => store.get(id));
+  return record?.data ?? null;
+}
+
+export async function deleteUploadedSound(id: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(id));
+  notifyChanged();
+}
@@ -0,0 +1,112 @@
+/**
+ * Sync conflicts - plan items that were changed on this device and on
+ * another one since they last synced. The merged plan keeps the local
+ * version; each conflict waits here until the user keeps it or takes the
+ * other device's version.
+ */
+import type { PlanItem } from './planTypes';
+import type { PlanItemConflict, PlanItemFields } from './planMerge';
+import { PLAN_SWITCHED_EVENT, getActivePlanId, getPlanItems, getPlanStorageKey } from './planLibrary';
+import { getLessonPlan, saveLessonPlan } from './lessonPlan';
+import { deleteItemFromTree, savePlanToStorage, updateItemInTree } from './planStoreHelpers';
+import { scheduleUserDataPush } from './userDataSync';
+
+const SYNC_CONFLICTS_KEY = 'practice-timer-sync-conflicts';
+
+/** Fired on window whenever the list of open conflicts changes. */
+export const SYNC_CONFLICTS_CHANGED_EVENT = 'sync-conflicts-changed';
+
+export type SyncConflictChoice = 'local' | 'remote';
+
+export interface SyncConflict extends PlanItemConflict {
+  id: string;
+  planType: 'practice' | 'lesson';
+  /** Plan library id; null for the lesson plan. */
+  planId: string | null;
+  planName: string;
+  detectedAt: number; // Unix ms
+}
+
+export type NewSyncConflict = Omit<SyncConflict, 'id' | 'detectedAt'>;
+
+function notifyConflictsChanged(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(SYNC_CONFLICTS_CHANGED_EVENT));
+  }
+}
+
+export function getSyncConflicts(): SyncConflict[] {
+  try {
+    const stored = localStorage.getItem(SYNC_CONFLICTS_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveSyncConflicts(conflicts: SyncConflict[]): void {
+  try {
+    localStorage.setItem(SYNC_CONFLICTS_KEY, JSON.stringify(conflicts));
+  } catch (e) {
+    console.error('Failed to save sync conflicts:', e);
+  }
+  notifyConflictsChanged();
+}
+
+function conflictKey(conflict: Pick<SyncConflict, 'planType' | 'planId' | 'itemId'>): string {
+  return `${conflict.planType}:${conflict.planId ?? ''}:${conflict.itemId}`;
+}
+
+/** Record new conflicts; a newer conflict on the same item replaces the older one. */
+export function addSyncConflicts(conflicts: NewSyncConflict[], now: number = Date.now()): void {
+  if (conflicts.length === 0) return;
+  const incoming = new Map(
+    conflicts.map((c, i) => [conflictKey(c), { ...c, id: `conflict-${now}-${i}`, detectedAt: now }])
+  );
+  const kept = getSyncConflicts().filter((c) => !incoming.has(conflictKey(c)));
+  saveSyncConflicts([...kept, ...Array.from(incoming.values())]);
+}
+
+function applyChoice(items: PlanItem[], conflict: SyncConflict, choice: SyncConflictChoice): PlanItem[] {
+  const chosen: PlanItemFields | null = choice === 'local' ? conflict.local : conflict.remote;
+  if (!chosen) return deleteItemFromTree(items, conflict.itemId);
+
+  let found = false;
+  const next = updateItemInTree(items, conflict.itemId, (item) => {
+    found = true;
+    if (conflict.fields.length === 0) return { ...chosen, children: item.children };
+    // Only the clashing fields; other changes from both sides were already merged
+    const updated: PlanItem = { ...item };
+    for (const field of conflict.fields) {
+      Object.assign(updated, { [field]: chosen[field] });
+      if (chosen[field] === undefined) delete updated[field];
+    }
+    return updated;
+  });
+  return found ? next : [...items, { ...chosen, children: [] }];
+}
+
+/** Apply the user's pick for one conflict and drop it from the list. */
+export function resolveSyncConflict(conflictId: string, choice: SyncConflictChoice): void {
+  const conflicts = getSyncConflicts();
+  const conflict = conflicts.find((c) => c.id === conflictId);
+  if (!conflict) return;
+
+  if (conflict.planType === 'lesson') {
+    saveLessonPlan(applyChoice(getLessonPlan(), conflict, choice));
+  } else if (conflict.planId) {
+    savePlanToStorage(getPlanStorageKey(conflict.planId), applyChoice(getPlanItems(conflict.planId), conflict, choice));
+    if (typeof window !== 'undefined' && conflict.planId === getActivePlanId()) {
+      window.dispatchEvent(new CustomEvent(PLAN_SWITCHED_EVENT, { detail: { planId: conflict.planId } }));
+    }
+  }
+  saveSyncConflicts(conflicts.filter((c) => c.id !== conflictId));
+  scheduleUserDataPush();
+}
+
+export function resolveAllSyncConflicts(choice: SyncConflictChoice): void {
+  for (const conflict of getSyncConflicts()) {
+    resolveSyncConflict(conflict.id, choice);
+  }
+}
@@ -0,0 +1,80 @@
+import type { PlanItem } from './planTypes';
+
+export type AccountRole = 'student' | 'teacher';
+
+export interface AccountProfile {
+    user_id: string;
+    role: AccountRole;
+    display_name: string;
+    updated_at: string;
+}
+
+export interface TeacherStudentLink {
+    teacher_id: string;
+    student_id: string;
+    created_at: string;
+}
+
+/** The other side of a teacher–student link, as seen by the signed-in user. */
+export interface LinkedAccount {
+    userId: string;
+    name: string;
+    /** What the other user is to the signed-in user. */
+    relation: 'teacher' | 'student';
+    linkedAt: string;
+}
+
+export interface TeacherInvite {
+    token: string;
+    teacher_id: string;
+    created_at: string;
+    expires_at: string;
+    accepted_by: string | null;
+    accepted_at: string | null;
+}
+
+export interface InvitePreview {
+    teacherName: string;
+    expired: boolean;
+    accepted: boolean;
+}
+
+export interface LessonAssignment {
+    id: string;
+    teacher_id: string;
+    student_id: string;
+    title: string;
+    items: PlanItem[];
+    created_at: string;
+    updated_at: string;
+}
+
+export interface AssignedItemProgress {
+    itemId: string;
+    itemName: string;
+    seconds: number;
+    daysPracticed: number;
+    lastPracticed: string | null;
+    checked: boolean;
+}
+
+export interface AssignmentProgressSummary {
+    totalSeconds: number;
+    items: AssignedItemProgress[];
+}
+
+export interface AssignmentProgress {
+    assignment_id: string;
+    student_id: string;
+    summary: AssignmentProgressSummary;
+    updated_at: string;
+}
+
+export interface AssignmentComment {
+    id: string;
+    assignment_id: string;
+    author_id: string;
+    item_id: string | null;
+    body: string;
+    created_at: string;
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ReportSnapshot } from './reportShare';
+import {
+    addReportSubscription,
+    getReportSubscriptions,
+    parseReportId,
+    removeReportSubscription,
+    summarizeReportForDashboard,
+} from './teacherDashboard';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const snapshot: ReportSnapshot = {
+    v: 1,
+    // Thursday, the fourth day of a week starting Monday 2026-03-02
+    date: new Date('2026-03-05T18:00:00').toISOString(),
+    items: [
+        {
+            text: 'Technique', checked: false, blockType: 'heading1', children: [
+                { id: 'scales', text: 'Scales', checked: false, blockType: 'segment', allocatedTime: 10, allocationPeriod: 'day', children: [] },
+                { id: 'etude', text: 'Etude', checked: false, blockType: 'segment', allocatedTime: 30, allocationPeriod: 'week', children: [] },
+            ],
+        },
+        { id: 'sonata', text: '[Sonata](https://example.com)', checked: false, blockType: 'segment', allocatedTime: 15, allocationPeriod: 'day', children: [] },
+        { id: 'free', text: 'Free play', checked: false, blockType: 'segment', children: [] },
+    ],
+    logSummary: {
+        startDate: '2026-03-02',
+        endDate: '2026-03-08',
+        totalSeconds: 5400,
+        pieces: [
+            { itemId: 'scales', itemName: 'Scales', seconds: 1800, completionsCount: 3 },
+            { itemId: 'etude', itemName: 'Etude', seconds: 2400, completionsCount: 2 },
+            { itemId: 'renamed', itemName: 'Sonata', seconds: 1200, completionsCount: 1 },
+        ],
+    },
+    lastWeekLogSummary: { startDate: '2026-02-23', endDate: '2026-03-01', totalSeconds: 3600, pieces: [] },
+};
+
+describe('teacherDashboard', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+    });
+
+    it('reads report ids from permalinks and bare ids', () => {
+        expect(parseReportId('https://practicemate.app/r/abc123XYZ0')).toBe('abc123XYZ0');
+        expect(parseReportId('https://practicemate.app/r/abc123XYZ0/piece/p1?x=1')).toBe('abc123XYZ0');
+        expect(parseReportId('  abc123XYZ0 ')).toBe('abc123XYZ0');
+        expect(parseReportId('https://example.com/not a report')).toBeNull();
+    });
+
+    it('follows and unfollows reports without duplicates', () => {
+        addReportSubscription('/r/one', 'Ana');
+        addReportSubscription('/r/two', '');
+        addReportSubscription('https://x.test/r/one', 'Ana B.');
+        expect(getReportSubscriptions().map((s) => [s.id, s.label])).toEqual([['two', ''], ['one', 'Ana B.']]);
+        expect(addReportSubscription('???', 'x')).toBeNull();
+
+        removeReportSubscription('two');
+        expect(getReportSubscriptions().map((s) => s.id)).toEqual(['one']);
+    });
+
+    it('summarizes minutes, completions and segments behind their time box', () => {
+        const row = summarizeReportForDashboard(snapshot);
+        expect(row).toMatchObject({ weekSeconds: 5400, lastWeekSeconds: 3600, completions: 6, lastPublished: snapshot.date });
+        // Daily boxes count four days (Mon–Thu); the weekly box counts once
+        expect(row.behind).toEqual([
+            { id: 'scales', name: 'Scales', practicedSeconds: 1800, targetSeconds: 2400 },
+            { id: 'sonata', name: 'Sonata', practicedSeconds: 1200, targetSeconds: 3600 },
+        ]);
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * Teacher dashboard - follows several students' published reports, either by
+ * the `/r/:id` permalink a student sends or through a teacher–student link,
+ * and boils each report down to one row: minutes this week and last, segment
+ * completions, segments behind their time box, and when it was published.
+ */
+import type { ReportLogSummary, ReportSnapshot, ReportSnapshotItem } from './reportShare';
+import { getLocalYMD } from './practiceLog';
+import { stripMarkdown } from './richText';
+
+const SUBSCRIPTIONS_KEY = 'practice-timer-report-subscriptions';
+const REPORT_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export interface ReportSubscription {
+  /** Short id of the published report (the `:id` in `/r/:id`). */
+  id: string;
+  label: string;
+  addedAt: string;
+}
+
+export interface BehindTargetSegment {
+  id?: string;
+  name: string;
+  practicedSeconds: number;
+  targetSeconds: number;
+}
+
+export interface ReportDashboardRow {
+  weekSeconds: number;
+  lastWeekSeconds: number;
+  completions: number;
+  behind: BehindTargetSegment[];
+  /** ISO date the report was published. */
+  lastPublished: string;
+}
+
+/** The report id from a pasted `/r/:id` link or a bare id; null if neither. */
+export function parseReportId(input: string): string | null {
+  const value = input.trim();
+  const match = value.match(/\/r\/([^/?#]+)/);
+  const id = match ? match[1] : value;
+  return REPORT_ID_PATTERN.test(id) ? id : null;
+}
+
+export function getReportSubscriptions(): ReportSubscription[] {
+  try {
+    const stored = localStorage.getItem(SUBSCRIPTIONS_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((s) => s && typeof s.id === 'string') : [];
+  } catch (e) {
+    console.error('Failed to load report subscriptions:', e);
+    return [];
+  }
+}
+
+export function saveReportSubscriptions(subscriptions: ReportSubscription[]): void {
+  try {
+    localStorage.setItem(SUBSCRIPTIONS_KEY, JSON.stringify(subscriptions));
+  } catch (e) {
+    console.error('Failed to save report subscriptions:', e);
+  }
+}
+
+/** Follow a report by link or id. Returns null when the input isn't a report link. */
+export function addReportSubscription(input: string, label: string): ReportSubscription | null {
+  const id = parseReportId(input);
+  if (!id) return null;
+  const subscription: ReportSubscription = { id, label: label.trim(), addedAt: new Date().toISOString() };
+  saveReportSubscriptions([...getReportSubscriptions().filter((s) => s.id !== id), subscription]);
+  return subscription;
+}
+
+export function removeReportSubscription(id: string): void {
+  saveReportSubscriptions(getReportSubscriptions().filter((s) => s.id !== id));
+}
+
+function collectSegments(items: ReportSnapshotItem[], into: ReportSnapshotItem[] = []): ReportSnapshotItem[] {
+  for (const item of items) {
+    if (item.blockType === 'segment') into.push(item);
+    collectSegments(item.children ?? [], into);
+  }
+  return into;
+}
+
+/** Days of the summary's range up to and including the day the report was published. */
+function daysCovered(summary: ReportLogSummary, publishedDay: string): number {
+  const end = publishedDay < summary.endDate ? publishedDay : summary.endDate;
+  if (end < summary.startDate) return 0;
+  const ms = new Date(end + 'T12:00:00').getTime() - new Date(summary.startDate + 'T12:00:00').getTime();
+  return Math.round(ms / 86_400_000) + 1;
+}
+
+/**
+ * Segments with a time box that were practiced less than it asks for during
+ * the reported week. Daily time boxes count once per day of the week that had
+ * passed when the report was published.
+ */
+export function getBehindTargetSegments(snapshot: ReportSnapshot): BehindTargetSegment[] {
+  const summary = snapshot.logSummary;
+  if (!summary) return [];
+  const days = daysCovered(summary, getLocalYMD(new Date(snapshot.date)));
+  const behind: BehindTargetSegment[] = [];
+  for (const segment of collectSegments(snapshot.items)) {
+    if (!segment.allocatedTime || segment.allocatedTime <= 0) continue;
+    const name = stripMarkdown(segment.text ?? '');
+    const entry = summary.pieces.find(
+      (p) => (segment.id && p.itemId === segment.id) || stripMarkdown(p.itemName) === name
+    );
+    const practicedSeconds = entry?.seconds ?? 0;
+    const targetSeconds = segment.allocatedTime * 60 * (segment.allocationPeriod === 'week' ? 1 : days);
+    if (practicedSeconds < targetSeconds) {
+      behind.push({ id: segment.id, name, practicedSeconds, targetSeconds });
+    }
+  }
+  return behind;
+}
+
+export function summarizeReportForDashboard(snapshot: ReportSnapshot): ReportDashboardRow {
+  const pieces = snapshot.logSummary?.pieces ?? [];
+  return {
+    weekSeconds: snapshot.logSummary?.totalSeconds ?? 0,
+    lastWeekSeconds: snapshot.lastWeekLogSummary?.totalSeconds ?? 0,
+    completions: pieces.reduce((sum, piece) => sum + (piece.completionsCount ?? 0), 0),
+    behind: getBehindTargetSegments(snapshot),
+    lastPublished: snapshot.date,
+  };
+}
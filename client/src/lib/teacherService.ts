@@ -0,0 +1,243 @@
+import { nanoid } from 'nanoid';
+import { supabase } from './supabaseClient';
+import type { PlanItem } from './planTypes';
+import type { ReportSnapshot } from './reportShare';
+import type {
+    AccountProfile,
+    AccountRole,
+    AssignmentComment,
+    AssignmentProgress,
+    AssignmentProgressSummary,
+    InvitePreview,
+    LessonAssignment,
+    LinkedAccount,
+    TeacherInvite,
+    TeacherStudentLink,
+} from './teacher.types';
+
+async function requireUserId(): Promise<string> {
+    if (!supabase) throw new Error('Supabase is not configured');
+    const { data } = await supabase.auth.getSession();
+    const userId = data.session?.user?.id;
+    if (!userId) throw new Error('Sign in to continue');
+    return userId;
+}
+
+export const teacherService = {
+    async getProfile(): Promise<AccountProfile | null> {
+        const userId = await requireUserId();
+        const { data, error } = await supabase!
+            .from('account_profiles')
+            .select('*')
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    },
+
+    async saveProfile(updates: { role: AccountRole; display_name: string }): Promise<AccountProfile> {
+        const userId = await requireUserId();
+        const { data, error } = await supabase!
+            .from('account_profiles')
+            .upsert({ user_id: userId, ...updates, updated_at: new Date().toISOString() })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    },
+
+    /** Teachers and students linked to the signed-in user, with their display names. */
+    async getLinkedAccounts(): Promise<LinkedAccount[]> {
+        const userId = await requireUserId();
+        const { data, error } = await supabase!
+            .from('teacher_students')
+            .select('*')
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        const links = (data || []) as TeacherStudentLink[];
+        if (links.length === 0) return [];
+
+        const otherIds = links.map((link) => (link.teacher_id === userId ? link.student_id : link.teacher_id));
+        const { data: profiles, error: profileError } = await supabase!
+            .from('account_profiles')
+            .select('user_id, display_name')
+            .in('user_id', otherIds);
+
+        if (profileError) throw profileError;
+        const names = new Map((profiles || []).map((p) => [p.user_id as string, p.display_name as string]));
+        return links.map((link) => {
+            const isTeacher = link.teacher_id === userId;
+            const otherId = isTeacher ? link.student_id : link.teacher_id;
+            return {
+                userId: otherId,
+                name: names.get(otherId) || (isTeacher ? 'Student' : 'Teacher'),
+                relation: isTeacher ? 'student' : 'teacher',
+                linkedAt: link.created_at,
+            };
+        });
+    },
+
+    async removeLink(teacherId: string, studentId: string): Promise<void> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { error } = await supabase
+            .from('teacher_students')
+            .delete()
+            .eq('teacher_id', teacherId)
+            .eq('student_id', studentId);
+
+        if (error) throw error;
+    },
+
+    async getInvites(): Promise<TeacherInvite[]> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { data, error } = await supabase
+            .from('teacher_invites')
+            .select('*')
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data || [];
+    },
+
+    async createInvite(): Promise<TeacherInvite> {
+        const userId = await requireUserId();
+        const { data, error } = await supabase!
+            .from('teacher_invites')
+            .insert({ token: nanoid(16), teacher_id: userId })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    },
+
+    async deleteInvite(token: string): Promise<void> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { error } = await supabase.from('teacher_invites').delete().eq('token', token);
+        if (error) throw error;
+    },
+
+    async getInvitePreview(token: string): Promise<InvitePreview | null> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { data, error } = await supabase.rpc('get_teacher_invite', { invite_token: token });
+        if (error) throw error;
+        const row = Array.isArray(data) ? data[0] : data;
+        if (!row) return null;
+        return { teacherName: row.teacher_name || 'Your teacher', expired: !!row.expired, accepted: !!row.accepted };
+    },
+
+    /** Link the signed-in user to the invite's teacher; returns the teacher's id. */
+    async acceptInvite(token: string): Promise<string> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { data, error } = await supabase.rpc('accept_teacher_invite', { invite_token: token });
+        if (error) throw error;
+        return data as string;
+    },
+
+    /** Assignments the signed-in user received, or sent to `studentId` when given. */
+    async getAssignments(studentId?: string): Promise<LessonAssignment[]> {
+        const userId = await requireUserId();
+        let query = supabase!.from('lesson_assignments').select('*');
+        query = studentId
+            ? query.eq('teacher_id', userId).eq('student_id', studentId)
+            : query.eq('student_id', userId);
+        const { data, error } = await query.order('updated_at', { ascending: false });
+
+        if (error) throw error;
+        return data || [];
+    },
+
+    async createAssignment(studentId: string, title: string, items: PlanItem[]): Promise<LessonAssignment> {
+        const userId = await requireUserId();
+        const { data, error } = await supabase!
+            .from('lesson_assignments')
+            .insert({ teacher_id: userId, student_id: studentId, title, items })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    },
+
+    async deleteAssignment(id: string): Promise<void> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { error } = await supabase.from('lesson_assignments').delete().eq('id', id);
+        if (error) throw error;
+    },
+
+    async getProgress(assignmentIds: string[]): Promise<AssignmentProgress[]> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        if (assignmentIds.length === 0) return [];
+        const { data, error } = await supabase
+            .from('assignment_progress')
+            .select('*')
+            .in('assignment_id', assignmentIds);
+
+        if (error) throw error;
+        return data || [];
+    },
+
+    async reportProgress(assignmentId: string, summary: AssignmentProgressSummary): Promise<void> {
+        const userId = await requireUserId();
+        const { error } = await supabase!
+            .from('assignment_progress')
+            .upsert({
+                assignment_id: assignmentId,
+                student_id: userId,
+                summary,
+                updated_at: new Date().toISOString(),
+            });
+
+        if (error) throw error;
+    },
+
+    async getComments(assignmentId: string): Promise<AssignmentComment[]> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { data, error } = await supabase
+            .from('assignment_comments')
+            .select('*')
+            .eq('assignment_id', assignmentId)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data || [];
+    },
+
+    async addComment(assignmentId: string, body: string, itemId: string | null = null): Promise<AssignmentComment> {
+        const userId = await requireUserId();
+        const { data, error } = await supabase!
+            .from('assignment_comments')
+            .insert({ assignment_id: assignmentId, author_id: userId, item_id: itemId, body })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    },
+
+    async deleteComment(id: string): Promise<void> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        const { error } = await supabase.from('assignment_comments').delete().eq('id', id);
+        if (error) throw error;
+    },
+
+    /** The most recently published listed report of a student, by the date inside the report. */
+    async getLatestStudentReport(studentId: string): Promise<{ id: string; snapshot: ReportSnapshot } | null> {
+        if (!supabase) throw new Error('Supabase is not configured');
+        // Republishing a permalink updates its data but not created_at, so order by the report's own date
+        const { data, error } = await supabase
+            .from('shared_reports')
+            .select('id, data')
+            .eq('user_id', studentId)
+            .not('data->>date', 'is', null)
+            .order('data->>date', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data ? { id: data.id as string, snapshot: data.data as ReportSnapshot } : null;
+    },
+};
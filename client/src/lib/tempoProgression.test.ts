@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { applyTempoRun, getTempoProgress, getTempoTrackedSegments, normalizeTempoProgression } from './tempoProgression';
+import type { PlanItem } from './planTypes';
+
+const segment = (extra: Partial<PlanItem> = {}): PlanItem => ({
+    id: 'seg-1', text: 'Passage', checked: false, children: [], blockType: 'segment', ...extra,
+});
+
+describe('tempoProgression', () => {
+    const goal = { startTempo: 60, targetTempo: 96, step: 4, runsPerStep: 2 };
+
+    it('reports progress from start to target', () => {
+        expect(getTempoProgress(segment({ tempo: 78, tempoProgression: goal }))).toEqual({
+            startTempo: 60, currentTempo: 78, targetTempo: 96, percent: 50, reached: false,
+        });
+        expect(getTempoProgress(segment({ tempo: 96, tempoProgression: goal }))?.reached).toBe(true);
+        expect(getTempoProgress(segment({ tempo: 96 }))).toBeNull();
+    });
+
+    it('steps the tempo up after enough runs at the current tempo', () => {
+        let item = segment({ tempo: 60, tempoProgression: goal });
+        item = applyTempoRun(item, 60);
+        expect(item.tempo).toBe(60);
+        expect(item.tempoProgression?.runsAtTempo).toBe(1);
+
+        item = applyTempoRun(item, 60);
+        expect(item.tempo).toBe(64);
+        expect(item.tempoProgression?.runsAtTempo).toBeUndefined();
+    });
+
+    it('ignores slower runs and never passes the target', () => {
+        const item = segment({ tempo: 94, tempoProgression: { ...goal, runsPerStep: 1 } });
+        expect(applyTempoRun(item, 90)).toBe(item);
+        expect(applyTempoRun(item, 94).tempo).toBe(96);
+        expect(applyTempoRun(segment({ tempo: 96, tempoProgression: goal }), 96).tempo).toBe(96);
+    });
+
+    it('normalizes goals from the editor', () => {
+        expect(normalizeTempoProgression({ startTempo: 60 })).toBeNull();
+        expect(normalizeTempoProgression({ targetTempo: 100 })).toEqual({
+            startTempo: 100, targetTempo: 100, step: 4, runsPerStep: 1,
+        });
+    });
+
+    it('lists segments with a goal or logged tempos in plan order', () => {
+        const plan: PlanItem[] = [
+            { id: 'h', text: 'Warm-up', checked: false, isHeader: true, blockType: 'heading1', children: [
+                segment({ id: 'a', tempoProgression: goal }),
+                segment({ id: 'b' }),
+            ] },
+            segment({ id: 'c' }),
+        ];
+        const tracked = getTempoTrackedSegments(plan, { c: [{ ts: 2, bpm: 70 }, { ts: 1, bpm: 66 }] });
+        expect(tracked.map((s) => s.itemId)).toEqual(['a', 'c']);
+        expect(tracked[1].history.map((e) => e.bpm)).toEqual([66, 70]);
+    });
+});
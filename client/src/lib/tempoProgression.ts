@@ -0,0 +1,104 @@
+/**
+ * Tempo goals on segment blocks: where a segment stands between its start
+ * and target tempo, and stepping the current tempo up after completed runs.
+ */
+import type { PlanItem, TempoProgression } from './planTypes';
+import { clampTempo } from './metronome';
+import type { SegmentTempoLog, TempoLogEntry } from './practiceLog';
+
+export interface TempoProgress {
+  startTempo: number;
+  currentTempo: number;
+  targetTempo: number;
+  /** 0-100, share of the way from start to target. */
+  percent: number;
+  reached: boolean;
+}
+
+export function findPlanItem(items: PlanItem[], id: string): PlanItem | null {
+  for (const item of items) {
+    if (item.id === id) return item;
+    const found = findPlanItem(item.children ?? [], id);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Clean up a tempo goal from the editor; null when it has no usable target. */
+export function normalizeTempoProgression(progression: Partial<TempoProgression>): TempoProgression | null {
+  if (!progression.targetTempo || progression.targetTempo <= 0) return null;
+  const targetTempo = clampTempo(progression.targetTempo);
+  const startTempo = clampTempo(progression.startTempo || targetTempo);
+  return {
+    startTempo,
+    targetTempo,
+    step: Math.max(1, Math.round(progression.step || 4)),
+    runsPerStep: Math.max(1, Math.round(progression.runsPerStep || 1)),
+    ...(progression.runsAtTempo ? { runsAtTempo: progression.runsAtTempo } : {}),
+  };
+}
+
+export function getTempoProgress(item: Pick<PlanItem, 'tempo' | 'tempoProgression'>): TempoProgress | null {
+  const progression = item.tempoProgression;
+  if (!progression) return null;
+  const { startTempo, targetTempo } = progression;
+  const currentTempo = item.tempo ?? startTempo;
+  const span = targetTempo - startTempo;
+  const percent = span === 0 ? 100 : Math.round(((currentTempo - startTempo) / span) * 100);
+  return {
+    startTempo,
+    currentTempo,
+    targetTempo,
+    percent: Math.min(100, Math.max(0, percent)),
+    reached: span >= 0 ? currentTempo >= targetTempo : currentTempo <= targetTempo,
+  };
+}
+
+/**
+ * Count a completed run played at `usedTempo`. Runs slower than the current
+ * tempo don't count; after `runsPerStep` runs the tempo moves one step
+ * towards the target (down as well, for goals that slow a passage).
+ */
+export function applyTempoRun(item: PlanItem, usedTempo: number): PlanItem {
+  const progression = item.tempoProgression;
+  if (!progression) return item;
+  const progress = getTempoProgress(item) as TempoProgress;
+  if (progress.reached) return item;
+
+  const rising = progression.targetTempo >= progression.startTempo;
+  if (rising ? usedTempo < progress.currentTempo : usedTempo > progress.currentTempo) return item;
+
+  const runs = (progression.runsAtTempo ?? 0) + 1;
+  if (runs < progression.runsPerStep) {
+    return { ...item, tempoProgression: { ...progression, runsAtTempo: runs } };
+  }
+  const stepped = rising
+    ? Math.min(progression.targetTempo, progress.currentTempo + progression.step)
+    : Math.max(progression.targetTempo, progress.currentTempo - progression.step);
+  const nextProgression: TempoProgression = { ...progression };
+  delete nextProgression.runsAtTempo;
+  return { ...item, tempo: stepped, tempoProgression: nextProgression };
+}
+
+export interface TempoTrackedSegment {
+  itemId: string;
+  itemName: string;
+  progress: TempoProgress | null;
+  history: TempoLogEntry[];
+}
+
+/** Plan segments with a tempo goal or logged run tempos, in plan order. */
+export function getTempoTrackedSegments(items: PlanItem[], tempoLog: SegmentTempoLog): TempoTrackedSegment[] {
+  const result: TempoTrackedSegment[] = [];
+  const visit = (list: PlanItem[]) => {
+    for (const item of list) {
+      const history = [...(tempoLog[item.id] ?? [])].sort((a, b) => a.ts - b.ts);
+      if (item.blockType === 'segment' && (item.tempoProgression || history.length > 0)) {
+        result.push({ itemId: item.id, itemName: item.text, progress: getTempoProgress(item), history });
+      }
+      visit(item.children ?? []);
+    }
+  };
+  visit(items);
+  return result;
+}
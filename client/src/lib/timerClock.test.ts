@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createStopwatch,
+    createTimerClock,
+    getDeadline,
+    getElapsedSeconds,
+    getRemainingSeconds,
+    isClockDone,
+    parseTimerClock,
+    pauseClock,
+    startClock,
+    takeElapsedSeconds,
+} from './timerClock';
+
+// A fake wall clock: every test drives time by hand from T0
+const T0 = 1_700_000_000_000;
+const at = (seconds: number) => T0 + seconds * 1000;
+
+describe('timerClock', () => {
+    it('counts down from the start timestamp, showing the full duration until a second has passed', () => {
+        const clock = startClock(createTimerClock(1500), at(0));
+
+        expect(getRemainingSeconds(clock, at(0))).toBe(1500);
+        expect(getRemainingSeconds(clock, at(0.999))).toBe(1500);
+        expect(getRemainingSeconds(clock, at(1))).toBe(1499);
+        expect(getDeadline(clock)).toBe(at(1500));
+        expect(getRemainingSeconds(clock, at(1500))).toBe(0);
+        expect(isClockDone(clock, at(1500))).toBe(true);
+    });
+
+    it('catches up in one step after throttling or sleep and never goes below zero', () => {
+        const clock = startClock(createTimerClock(60), at(0));
+
+        // Nothing read the clock for 45s (backgrounded tab, locked phone)
+        expect(getRemainingSeconds(clock, at(45.2))).toBe(15);
+        expect(getRemainingSeconds(clock, at(3600))).toBe(0);
+        expect(getElapsedSeconds(clock, at(3600))).toBe(60);
+    });
+
+    it('excludes paused time and keeps the part of a second that already ran', () => {
+        let clock = startClock(createTimerClock(10), at(0));
+        clock = pauseClock(clock, at(2.5));
+
+        expect(getRemainingSeconds(clock, at(100))).toBe(8);
+        expect(getDeadline(clock)).toBeNull();
+
+        clock = startClock(clock, at(100));
+        expect(getDeadline(clock)).toBe(at(107.5));
+        expect(getRemainingSeconds(clock, at(100.4))).toBe(8);
+        expect(getRemainingSeconds(clock, at(100.5))).toBe(7);
+        expect(getRemainingSeconds(clock, at(107.5))).toBe(0);
+    });
+
+    it('ignores a repeated start or pause', () => {
+        const running = startClock(createTimerClock(10), at(0));
+        expect(startClock(running, at(5))).toBe(running);
+
+        const paused = pauseClock(running, at(3));
+        expect(pauseClock(paused, at(9))).toBe(paused);
+        expect(getRemainingSeconds(paused, at(9))).toBe(7);
+    });
+
+    it('hands out each elapsed second exactly once however unevenly it is polled', () => {
+        const stopwatch = startClock(createStopwatch(), at(0));
+        const polls = [0.25, 0.5, 1.1, 1.2, 9.7, 9.7, 10.01, 12.5];
+        let counted = 0;
+        const reported: number[] = [];
+        polls.forEach((seconds) => {
+            const taken = takeElapsedSeconds(stopwatch, counted, at(seconds));
+            counted = taken.counted;
+            reported.push(taken.seconds);
+        });
+
+        expect(reported).toEqual([0, 0, 1, 0, 8, 0, 1, 2]);
+        expect(reported.reduce((sum, s) => sum + s, 0)).toBe(getElapsedSeconds(stopwatch, at(12.5)));
+    });
+
+    it('reads back persisted clocks and rejects anything else', () => {
+        const clock = startClock(createTimerClock(30), at(0));
+        expect(parseTimerClock(JSON.parse(JSON.stringify(clock)))).toEqual(clock);
+        expect(parseTimerClock({ startTime: at(0), duration: 30 })).toBeNull();
+        expect(parseTimerClock(null)).toBeNull();
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Timer clock - the deadline-based core shared by every timer runtime (the
+ * timer worker, the background/iOS fallbacks and, mirrored, the service worker).
+ *
+ * Nothing here counts ticks. A clock only remembers when it was last started
+ * and how much time had already run before that, so remaining and elapsed time
+ * are always computed from the wall clock. A throttled interval, a sleeping
+ * device or a suspended app therefore catches up on its next read instead of
+ * drifting. Every function takes `now` (epoch ms) so tests can drive a fake clock.
+ */
+
+export interface TimerClock {
+  /** Total length of the countdown in ms. */
+  durationMs: number;
+  /** When the clock was last started or resumed; null while paused. */
+  startedAt: number | null;
+  /** Time that ran before `startedAt` (earlier runs, pauses excluded). */
+  elapsedBeforeStartMs: number;
+}
+
+/** A paused clock at the start of a `durationSeconds` countdown. */
+export function createTimerClock(durationSeconds: number): TimerClock {
+  return { durationMs: Math.max(0, durationSeconds) * 1000, startedAt: null, elapsedBeforeStartMs: 0 };
+}
+
+export function isClockRunning(clock: TimerClock): boolean {
+  return clock.startedAt !== null;
+}
+
+export function startClock(clock: TimerClock, now: number): TimerClock {
+  if (clock.startedAt !== null) return clock;
+  return { ...clock, startedAt: now };
+}
+
+export function pauseClock(clock: TimerClock, now: number): TimerClock {
+  if (clock.startedAt === null) return clock;
+  return { ...clock, startedAt: null, elapsedBeforeStartMs: getElapsedMs(clock, now) };
+}
+
+/** Running time so far, excluding pauses. Never goes past the duration. */
+export function getElapsedMs(clock: TimerClock, now: number): number {
+  const running = clock.startedAt === null ? 0 : Math.max(0, now - clock.startedAt);
+  return Math.min(clock.durationMs, clock.elapsedBeforeStartMs + running);
+}
+
+/** Whole seconds that have run, as counted for practice time. */
+export function getElapsedSeconds(clock: TimerClock, now: number): number {
+  return Math.floor(getElapsedMs(clock, now) / 1000);
+}
+
+/**
+ * Whole seconds left, rounded up so a fresh 25:00 countdown shows 25:00 until
+ * a full second has passed. Reaches 0 exactly at the deadline.
+ */
+export function getRemainingSeconds(clock: TimerClock, now: number): number {
+  return Math.ceil((clock.durationMs - getElapsedMs(clock, now)) / 1000);
+}
+
+/** Epoch ms at which a running clock reaches 0; null while paused. */
+export function getDeadline(clock: TimerClock): number | null {
+  if (clock.startedAt === null) return null;
+  return clock.startedAt + clock.durationMs - clock.elapsedBeforeStartMs;
+}
+
+export function isClockDone(clock: TimerClock, now: number): boolean {
+  return getElapsedMs(clock, now) >= clock.durationMs;
+}
+
+/**
+ * An open-ended clock for counting up (segment overtime has no deadline).
+ * Use with getElapsedSeconds.
+ */
+export function createStopwatch(): TimerClock {
+  return { durationMs: Number.MAX_SAFE_INTEGER, startedAt: null, elapsedBeforeStartMs: 0 };
+}
+
+/**
+ * Whole seconds elapsed since `alreadyCounted`, for consumers that attribute
+ * time incrementally. Seconds are reported once each no matter how unevenly
+ * the caller polls: a late read after sleep returns the whole gap, an early
+ * or repeated read returns 0.
+ */
+export function takeElapsedSeconds(
+  clock: TimerClock,
+  alreadyCounted: number,
+  now: number
+): { seconds: number; counted: number } {
+  const counted = Math.max(alreadyCounted, getElapsedSeconds(clock, now));
+  return { seconds: counted - alreadyCounted, counted };
+}
+
+/** Read a persisted clock back, or null when the value isn't one. */
+export function parseTimerClock(value: unknown): TimerClock | null {
+  if (!value || typeof value !== 'object') return null;
+  const { durationMs, startedAt, elapsedBeforeStartMs } = value as Record<string, unknown>;
+  if (typeof durationMs !== 'number' || typeof elapsedBeforeStartMs !== 'number') return null;
+  if (startedAt !== null && typeof startedAt !== 'number') return null;
+  return { durationMs, startedAt, elapsedBeforeStartMs };
+}
@@ -1,4 +1,6 @@
 import { config } from '../../../config';
+import type { IntervalSequence } from './intervalSequence';
+import type { WarningChime } from './warningChimes';
 
 // Types for settings
 export type WeekStartsOn = 'monday' | 'sunday';
@@ -11,12 +13,28 @@ export interface SettingsType {
   workDuration: number;
   breakDuration: number;
   iterations: number;
+  /** Long break length in minutes. */
+  longBreakDuration: number;
+  /** Take a long break after every N work sessions; 0 turns long breaks off. */
+  longBreakInterval: number;
   numberOfBeeps: number;
   mode: string;
   volume: number;
   soundType: string;
   weekStartsOn: WeekStartsOn;
+  /** Daily practice target in minutes; 0 turns it off. */
+  dailyGoalMinutes: number;
+  /** Weekly practice target in minutes; 0 turns it off. */
+  weeklyGoalMinutes: number;
+  /** Weekdays (0 = Sunday) that never break a practice streak. */
+  restDays: number[];
+  /** Missed days per week that are forgiven before a streak breaks. */
+  streakGraceDays: number;
   theme?: 'light' | 'dark' | 'system';
+  /** Custom interval sequence; when null the work/break/iterations cycle is used. */
+  sequence?: IntervalSequence | null;
+  /** Chimes played a set time before an interval or segment ends. */
+  warnings?: WarningChime[];
 }
 
 // Default settings from config file
@@ -24,6 +42,8 @@ export const DEFAULT_SETTINGS: SettingsType = {
   workDuration: 20,
   breakDuration: 5,
   iterations: 6,
+  longBreakDuration: 15,
+  longBreakInterval: 0,
   soundEnabled: true,
   browserNotificationsEnabled: false,
   numberOfBeeps: 3,
@@ -31,5 +51,11 @@ export const DEFAULT_SETTINGS: SettingsType = {
   volume: 50,
   soundType: 'beep',
   weekStartsOn: 'monday',
+  dailyGoalMinutes: 0,
+  weeklyGoalMinutes: 0,
+  restDays: [],
+  streakGraceDays: 0,
   theme: 'dark',
+  sequence: null,
+  warnings: [],
 };
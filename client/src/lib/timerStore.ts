@@ -64,6 +64,7 @@ export const useTimerStore = create<TimerStore>((set, get) => {
     mode: 'work',
     currentIteration: 1,
     totalIterations: 4,
+    intervalIndex: 0,
     settings: {
       workDuration: 25 * 60,
       breakDuration: 5 * 60,
@@ -3,6 +3,8 @@
 
 import { create } from 'zustand';
 import { getSettings } from '@/lib/localStorage';
+import type { IntervalSequence } from '@/lib/intervalSequence';
+import type { WarningChime } from '@/lib/warningChimes';
 
 // Types
 export interface TimerState {
@@ -11,10 +13,14 @@ export interface TimerState {
   mode: 'work' | 'break';
   currentIteration: number;
   totalIterations: number;
+  /** Index into the flattened interval sequence (see intervalSequence.ts). */
+  intervalIndex: number;
   settings: {
     workDuration: number;
     breakDuration: number;
     iterations: number;
+    longBreakDuration?: number;
+    longBreakInterval?: number;
     soundEnabled: boolean;
     browserNotificationsEnabled: boolean;
     darkMode: boolean;
@@ -22,6 +28,8 @@ export interface TimerState {
     mode: 'work' | 'break';
     volume: number;
     soundType: string;
+    sequence?: IntervalSequence | null;
+    warnings?: WarningChime[];
   };
 }
 
@@ -1,9 +1,11 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { pullUserDataFromCloud, pushUserDataToCloud } from './userDataSync';
 import { getLessonPlan, saveLessonPlan } from './lessonPlan';
 import { getPracticePlan, savePracticePlan } from './practicePlan';
 import { supabase } from './supabaseClient';
+import { getSyncConflicts, resolveSyncConflict } from './syncConflicts';
 import type { PlanItem } from './planTypes';
+import { applyReview, getReviewLog } from './repertoireReview';
 
 const localStorageMock = (() => {
   let store: Record<string, string> = {};
@@ -75,27 +77,148 @@ describe('userDataSync cross-device sync', () => {
     expect(restoredPracticePlan).toEqual(cloudPracticePlan);
   });
 
+  it('pullUserDataFromCloud keeps the newer repertoire review for each piece', async () => {
+    const local = applyReview(undefined, 'bach', 'good', '2026-03-02', '2026-03-02T10:00:00Z');
+    localStorage.setItem('practice-timer-repertoire-reviews', JSON.stringify({ bach: local }));
+    const cloudBach = applyReview(undefined, 'bach', 'again', '2026-03-01', '2026-03-01T10:00:00Z');
+    const cloudMozart = applyReview(undefined, 'mozart', 'easy', '2026-03-01', '2026-03-01T10:00:00Z');
+
+    (supabase as any).from.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          maybeSingle: vi.fn().mockResolvedValue({
+            data: { plan_data: [], logs_data: {}, completions_data: {}, review_data: { bach: cloudBach, mozart: cloudMozart } },
+            error: null,
+          }),
+        }),
+      }),
+    });
+
+    await pullUserDataFromCloud();
+    expect(getReviewLog()).toEqual({ bach: local, mozart: cloudMozart });
+  });
+
   it('pushUserDataToCloud includes both practice plan and lesson plan data', async () => {
     const localLessonPlan: PlanItem[] = [
       { id: 'l-local', text: 'My Local Lesson Note', checked: false, children: [], blockType: 'heading1', isHeader: true },
     ];
     saveLessonPlan(localLessonPlan);
 
-    const mockUpsert = vi.fn().mockResolvedValue({ error: null });
+    // No cloud row yet, so the first push creates it
+    const mockInsert = vi.fn().mockResolvedValue({ error: null });
     (supabase as any).from.mockReturnValue({
-      upsert: mockUpsert,
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({ maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }) }),
+      }),
+      insert: mockInsert,
     });
 
     const success = await pushUserDataToCloud();
     expect(success).toBe(true);
 
-    expect(mockUpsert).toHaveBeenCalledWith(
+    expect(mockInsert).toHaveBeenCalledWith(
       expect.objectContaining({
         user_id: 'test-user-123',
         lesson_plan_data: localLessonPlan,
         plan_data: expect.any(Array),
-      }),
-      { onConflict: 'user_id' }
+        revision: 1,
+      })
     );
   });
 });
+
+const segment = (id: string, text: string): PlanItem => ({ id, text, checked: false, children: [], blockType: 'segment' });
+
+/**
+ * Fake `user_practice_data` table: selects return the queued rows in turn and
+ * updates return the queued results, defaulting to success.
+ */
+function mockPracticeDataTable(rows: any[], updateResults: { data: any[] | null; error: any }[] = []) {
+  const update = vi.fn((payload: any) => {
+    const result = updateResults.shift() ?? { data: [{ revision: payload.revision }], error: null };
+    const chain: any = { eq: vi.fn(() => chain), select: vi.fn().mockResolvedValue(result) };
+    return chain;
+  });
+  const select = vi.fn(() => ({
+    eq: vi.fn(() => ({ maybeSingle: vi.fn().mockResolvedValue({ data: rows.shift() ?? null, error: null }) })),
+  }));
+  (supabase as any).from.mockReturnValue({ select, update, insert: vi.fn().mockResolvedValue({ error: null }) });
+  return { update, select };
+}
+
+const cloudRow = (revision: number, items: PlanItem[]) => ({
+  plan_data: items,
+  plans_data: { activePlanId: 'default', plans: [{ id: 'default', name: 'Practice Plan', createdAt: '', updatedAt: '', items }] },
+  lesson_plan_data: [],
+  segment_library_data: [],
+  logs_data: {},
+  completions_data: {},
+  revision,
+});
+
+describe('userDataSync revisions and merging', () => {
+  beforeEach(() => {
+    localStorageMock.clear();
+    vi.clearAllMocks();
+    // Keep the debounced follow-up push from firing during other tests
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pushes over the revision it last pulled', async () => {
+    const { update } = mockPracticeDataTable([cloudRow(3, [segment('a', 'Scales')])]);
+    await pullUserDataFromCloud();
+
+    expect(await pushUserDataToCloud()).toBe(true);
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ revision: 4 }));
+    const chain = update.mock.results[0].value;
+    expect(chain.eq).toHaveBeenCalledWith('revision', 3);
+  });
+
+  it('merges and retries when another device pushed first', async () => {
+    const base = [segment('a', 'Scales'), segment('b', 'Etude')];
+    const { update } = mockPracticeDataTable(
+      [cloudRow(3, base), cloudRow(4, [segment('a', 'Scales'), segment('b', 'Etude op. 10')])],
+      [{ data: [], error: null }]
+    );
+    await pullUserDataFromCloud();
+    savePracticePlan([segment('a', 'Scales in thirds'), segment('b', 'Etude'), segment('c', 'Sonata')]);
+
+    expect(await pushUserDataToCloud()).toBe(true);
+
+    expect(getPracticePlan().map((i) => i.text)).toEqual(['Scales in thirds', 'Etude op. 10', 'Sonata']);
+    expect(update).toHaveBeenCalledTimes(2);
+    expect(update).toHaveBeenLastCalledWith(expect.objectContaining({ revision: 5 }));
+    expect(getSyncConflicts()).toEqual([]);
+  });
+
+  it('records a conflict when the same item changed on both devices', async () => {
+    mockPracticeDataTable([cloudRow(3, [segment('a', 'Scales')]), cloudRow(4, [segment('a', 'Arpeggios')])]);
+    await pullUserDataFromCloud();
+    savePracticePlan([segment('a', 'Scales in thirds')]);
+
+    await pullUserDataFromCloud();
+
+    expect(getPracticePlan()[0].text).toBe('Scales in thirds');
+    const conflicts = getSyncConflicts();
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ itemId: 'a', fields: ['text'], planType: 'practice', planId: 'default' });
+
+    resolveSyncConflict(conflicts[0].id, 'remote');
+    expect(getPracticePlan()[0].text).toBe('Arpeggios');
+    expect(getSyncConflicts()).toEqual([]);
+  });
+
+  it('skips merging when the cloud revision has not moved', async () => {
+    mockPracticeDataTable([cloudRow(3, [segment('a', 'Scales')]), cloudRow(3, [segment('a', 'Stale copy')])]);
+    await pullUserDataFromCloud();
+    savePracticePlan([segment('a', 'Scales'), segment('b', 'Etude')]);
+
+    await pullUserDataFromCloud();
+
+    expect(getPracticePlan().map((i) => i.id)).toEqual(['a', 'b']);
+  });
+});
@@ -1,17 +1,306 @@
 import { supabase } from './supabaseClient';
+import type { PlanItem } from './planTypes';
 import { getPracticePlan, practicePlanApi } from './practicePlan';
-import { getLessonPlan, lessonPlanApi } from './lessonPlan';
+import { getLessonPlan, lessonPlanApi, saveLessonPlan } from './lessonPlan';
 import {
+  PLAN_SWITCHED_EVENT,
+  type PlanLibrarySyncState,
+  getActivePlanEntry,
+  getActivePlanId,
+  getPlanLibraryStateForSync,
+  getPlanStorageKey,
+  restorePlanLibraryFromSync,
+} from './planLibrary';
+import { savePlanToStorage } from './planStoreHelpers';
+import {
+  type SegmentTemplate,
+  getSegmentLibrary,
+  replaceSegmentLibrary,
+  restoreSegmentLibraryFromSync,
+} from './segmentLibrary';
+import {
+  type DetailedPracticeLog,
+  type ManualLogEntry,
+  type SegmentCompletionLog,
+  type SegmentTempoLog,
   getPracticeLogStateForSync,
   restorePracticeLogStateFromSync,
 } from './practiceLog';
+import { getSessionJournal, restoreSessionJournalFromSync } from './sessionJournal';
+import { type ReviewLog, getReviewLog, restoreReviewLogFromSync } from './repertoireReview';
+import { mergePlanLibraries, mergePlanTrees } from './planMerge';
+import { type NewSyncConflict, addSyncConflicts } from './syncConflicts';
 import { onAuthStateChange } from './authService';
 
+const SYNC_STATE_KEY = 'practice-timer-sync-state';
+const SELECT_COLUMNS =
+  'plan_data, plans_data, segment_library_data, lesson_plan_data, logs_data, completions_data, review_data, updated_at, revision';
+
 let pushTimeout: ReturnType<typeof setTimeout> | null = null;
 let isSyncing = false;
 
 /**
- * Pull practice plan, lesson plan, logs, and completion history from Supabase for the logged in user
+ * The cloud revision this device last synced with, and the plans as they
+ * were at that revision: the common ancestor for three-way merges.
+ */
+interface SyncState {
+  userId: string;
+  revision: number;
+  plans: PlanLibrarySyncState;
+  lessonPlan: PlanItem[];
+  segmentLibrary: SegmentTemplate[];
+}
+
+/** A `user_practice_data` row as selected; columns added later may be missing or empty on old rows. */
+interface CloudPracticeData {
+  plan_data?: PlanItem[] | null;
+  plans_data?: Partial<PlanLibrarySyncState> | null;
+  segment_library_data?: SegmentTemplate[] | null;
+  lesson_plan_data?: PlanItem[] | null;
+  logs_data?: {
+    overallLog?: Record<string, number>;
+    detailedLog?: DetailedPracticeLog;
+    manualEntries?: ManualLogEntry[];
+    journal?: unknown;
+    tempoLog?: SegmentTempoLog;
+  } | null;
+  completions_data?: SegmentCompletionLog | null;
+  review_data?: ReviewLog | null;
+  updated_at?: string;
+  revision?: number | null;
+}
+
+type UserPracticeDataPayload = ReturnType<typeof buildPayload>;
+
+function getSyncState(userId: string): SyncState | null {
+  try {
+    const stored = localStorage.getItem(SYNC_STATE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as SyncState) : null;
+    return parsed && parsed.userId === userId && typeof parsed.revision === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSyncState(state: SyncState): void {
+  try {
+    localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.error('[userDataSync] Failed to save sync state:', e);
+  }
+}
+
+function buildPayload(userId: string) {
+  const { log, detailedLog, completions, manualEntries, tempoLog } = getPracticeLogStateForSync();
+  return {
+    user_id: userId,
+    plan_data: getPracticePlan(),
+    plans_data: getPlanLibraryStateForSync(),
+    segment_library_data: getSegmentLibrary(),
+    lesson_plan_data: getLessonPlan(),
+    logs_data: { overallLog: log, detailedLog, manualEntries, journal: getSessionJournal(), tempoLog },
+    completions_data: completions,
+    review_data: getReviewLog(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function getSyncStateForPayload(userId: string, revision: number, payload: UserPracticeDataPayload): SyncState {
+  return {
+    userId,
+    revision,
+    plans: payload.plans_data,
+    lessonPlan: payload.lesson_plan_data,
+    segmentLibrary: payload.segment_library_data,
+  };
+}
+
+/** The cloud plan library; rows written before the library existed only have the active plan. */
+function getCloudPlans(data: CloudPracticeData, local: PlanLibrarySyncState): PlanLibrarySyncState | null {
+  if (data.plans_data && Array.isArray(data.plans_data.plans) && data.plans_data.plans.length > 0) {
+    return data.plans_data as PlanLibrarySyncState;
+  }
+  if (Array.isArray(data.plan_data) && data.plan_data.length > 0) {
+    return { activePlanId: local.activePlanId, plans: [{ ...getActivePlanEntry(), items: data.plan_data }] };
+  }
+  return null;
+}
+
+/** Templates carry updatedAt, so a template edited on both devices keeps the newer edit. */
+function mergeSegmentTemplates(
+  base: SegmentTemplate[],
+  local: SegmentTemplate[],
+  remote: SegmentTemplate[]
+): SegmentTemplate[] {
+  const ids = Array.from(new Set([...local.map((t) => t.id), ...remote.map((t) => t.id)]));
+  const merged: SegmentTemplate[] = [];
+  for (const id of ids) {
+    const b = base.find((t) => t.id === id);
+    const l = local.find((t) => t.id === id);
+    const r = remote.find((t) => t.id === id);
+    if (l && r) {
+      merged.push(r.updatedAt > l.updatedAt ? r : l);
+      continue;
+    }
+    const present = (l ?? r) as SegmentTemplate;
+    // Deleted on one device; keep it only if the other device changed it since
+    if (!b || JSON.stringify(b) !== JSON.stringify(present)) merged.push(present);
+  }
+  return merged;
+}
+
+/**
+ * Bring cloud changes into local storage. Logs, completions and the journal
+ * only grow, so they always merge additively; repertoire reviews keep the
+ * newer entry per piece. Plans merge three ways
+ * against `base`; without one (first sync on this device) the cloud plans win.
+ */
+function mergeCloudData(data: CloudPracticeData, base: SyncState | null): void {
+  restorePracticeLogStateFromSync({
+    log: data.logs_data?.overallLog,
+    detailedLog: data.logs_data?.detailedLog,
+    completions: data.completions_data ?? undefined,
+    manualEntries: data.logs_data?.manualEntries,
+    tempoLog: data.logs_data?.tempoLog,
+  });
+  restoreSessionJournalFromSync(data.logs_data?.journal);
+  restoreReviewLogFromSync(data.review_data);
+
+  if (!base) {
+    // Restore the library first so plan_data lands in the cloud's active plan
+    restorePlanLibraryFromSync(data.plans_data as PlanLibrarySyncState | null | undefined);
+    if (data.plan_data && Array.isArray(data.plan_data) && data.plan_data.length > 0) {
+      practicePlanApi.save(data.plan_data);
+    }
+    if (data.lesson_plan_data && Array.isArray(data.lesson_plan_data) && data.lesson_plan_data.length > 0) {
+      lessonPlanApi.save(data.lesson_plan_data);
+    }
+    restoreSegmentLibraryFromSync(data.segment_library_data);
+    return;
+  }
+
+  const conflicts: NewSyncConflict[] = [];
+  const cloudPlans = getCloudPlans(data, getPlanLibraryStateForSync());
+  if (cloudPlans) {
+    const { state, conflicts: planConflicts } = mergePlanLibraries(base.plans, getPlanLibraryStateForSync(), cloudPlans);
+    // Write every plan, including ones emptied on purpose, before the library itself
+    for (const plan of state.plans) {
+      savePlanToStorage(getPlanStorageKey(plan.id), plan.items);
+    }
+    restorePlanLibraryFromSync(state);
+    for (const conflict of planConflicts) {
+      const planName = state.plans.find((p) => p.id === conflict.planId)?.name ?? '';
+      conflicts.push({ ...conflict, planType: 'practice', planName });
+    }
+  }
+  if (Array.isArray(data.lesson_plan_data) && data.lesson_plan_data.length > 0) {
+    const result = mergePlanTrees(base.lessonPlan, getLessonPlan(), data.lesson_plan_data);
+    saveLessonPlan(result.items);
+    for (const conflict of result.conflicts) {
+      conflicts.push({ ...conflict, planType: 'lesson', planId: null, planName: 'Lesson plan' });
+    }
+  }
+  if (Array.isArray(data.segment_library_data)) {
+    replaceSegmentLibrary(mergeSegmentTemplates(base.segmentLibrary, getSegmentLibrary(), data.segment_library_data));
+  }
+  addSyncConflicts(conflicts);
+
+  // Open editors reload from storage on a plan switch, even to the same plan
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(PLAN_SWITCHED_EVENT, { detail: { planId: getActivePlanId() } }));
+  }
+}
+
+type PullResult = 'inserted' | 'synced' | null;
+
+/** Create the row on the first sync for this user. */
+async function insertUserData(userId: string, retry: boolean): Promise<PullResult> {
+  if (!supabase) return null;
+  const payload = buildPayload(userId);
+  const { error } = await supabase.from('user_practice_data').insert({ ...payload, revision: 1 });
+  if (error) {
+    // Another device created the row first
+    if (error.code === '23505' && retry) return pullAndMerge(userId, false);
+    console.warn('[userDataSync] Failed to create user practice data:', error);
+    return null;
+  }
+  saveSyncState(getSyncStateForPayload(userId, 1, payload));
+  return 'inserted';
+}
+
+async function pullAndMerge(userId: string, retry: boolean = true): Promise<PullResult> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('user_practice_data')
+    .select(SELECT_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle<CloudPracticeData>();
+
+  if (error && error.code !== 'PGRST116') {
+    console.warn('[userDataSync] Failed to pull user practice data:', error);
+    return null;
+  }
+  if (!data) {
+    // First sync for this user — push current local data to cloud
+    return insertUserData(userId, retry);
+  }
+
+  const base = getSyncState(userId);
+  const revision = typeof data.revision === 'number' ? data.revision : 0;
+  if (base && revision === base.revision) return 'synced';
+
+  mergeCloudData(data, base);
+  saveSyncState({
+    userId,
+    revision,
+    plans: getCloudPlans(data, getPlanLibraryStateForSync()) ?? getPlanLibraryStateForSync(),
+    lessonPlan: Array.isArray(data.lesson_plan_data) ? data.lesson_plan_data : [],
+    segmentLibrary: Array.isArray(data.segment_library_data) ? data.segment_library_data : [],
+  });
+  return 'synced';
+}
+
+/**
+ * Write local data over the revision this device last synced. If another
+ * device pushed in between, the update matches no row; merge its changes
+ * and try once more.
+ */
+async function pushWithRevision(userId: string, retry: boolean = true): Promise<boolean> {
+  if (!supabase) return false;
+  const base = getSyncState(userId);
+  if (!base) {
+    // Never synced on this device: merge the cloud copy before overwriting it
+    const pulled = await pullAndMerge(userId, retry);
+    if (pulled !== 'synced') return pulled === 'inserted';
+    return pushWithRevision(userId, false);
+  }
+
+  const payload = buildPayload(userId);
+  const revision = base.revision + 1;
+  const { data, error } = await supabase
+    .from('user_practice_data')
+    .update({ ...payload, revision })
+    .eq('user_id', userId)
+    .eq('revision', base.revision)
+    .select('revision');
+
+  if (error) {
+    console.warn('[userDataSync] Failed to push practice data:', error);
+    return false;
+  }
+  if (!data || data.length === 0) {
+    if (!retry) return false;
+    const pulled = await pullAndMerge(userId, false);
+    return pulled !== null && pushWithRevision(userId, false);
+  }
+
+  saveSyncState(getSyncStateForPayload(userId, revision, payload));
+  return true;
+}
+
+/**
+ * Pull practice plans, lesson plan, logs, and completion history from Supabase for the logged in user
+ * and merge them with local data
  */
 export async function pullUserDataFromCloud(): Promise<boolean> {
   if (!supabase) return false;
@@ -22,37 +311,11 @@ export async function pullUserDataFromCloud(): Promise<boolean> {
     if (!userId) return false;
 
     isSyncing = true;
-    const { data, error } = await supabase
-      .from('user_practice_data')
-      .select('plan_data, lesson_plan_data, logs_data, completions_data, updated_at')
-      .eq('user_id', userId)
-      .maybeSingle();
-
-    if (error && error.code !== 'PGRST116') {
-      console.warn('[userDataSync] Failed to pull user practice data:', error);
-      isSyncing = false;
-      return false;
-    }
-
-    if (data) {
-      if (data.plan_data && Array.isArray(data.plan_data) && data.plan_data.length > 0) {
-        practicePlanApi.save(data.plan_data);
-      }
-      if (data.lesson_plan_data && Array.isArray(data.lesson_plan_data) && data.lesson_plan_data.length > 0) {
-        lessonPlanApi.save(data.lesson_plan_data);
-      }
-      restorePracticeLogStateFromSync({
-        log: data.logs_data?.overallLog,
-        detailedLog: data.logs_data?.detailedLog,
-        completions: data.completions_data,
-      });
-    } else {
-      // First sync for this user — push current local data to cloud
-      await pushUserDataToCloud();
-    }
-
+    const result = await pullAndMerge(userId);
     isSyncing = false;
-    return true;
+    // Send back anything local the cloud doesn't have yet
+    if (result === 'synced') scheduleUserDataPush();
+    return result !== null;
   } catch (err) {
     console.error('[userDataSync] Error during pull:', err);
     isSyncing = false;
@@ -61,7 +324,7 @@ export async function pullUserDataFromCloud(): Promise<boolean> {
 }
 
 /**
- * Push practice plan, lesson plan, logs, and completion history from local storage to Supabase
+ * Push practice plans, lesson plan, logs, and completion history from local storage to Supabase
  */
 export async function pushUserDataToCloud(): Promise<boolean> {
   if (!supabase || isSyncing) return false;
@@ -71,31 +334,13 @@ export async function pushUserDataToCloud(): Promise<boolean> {
     const userId = sessionData.session?.user?.id;
     if (!userId) return false;
 
-    const planData = getPracticePlan();
-    const lessonPlanData = getLessonPlan();
-    const { log, detailedLog, completions } = getPracticeLogStateForSync();
-
-    const payload = {
-      user_id: userId,
-      plan_data: planData,
-      lesson_plan_data: lessonPlanData,
-      logs_data: { overallLog: log, detailedLog },
-      completions_data: completions,
-      updated_at: new Date().toISOString(),
-    };
-
-    const { error } = await supabase
-      .from('user_practice_data')
-      .upsert(payload, { onConflict: 'user_id' });
-
-    if (error) {
-      console.warn('[userDataSync] Failed to push practice data:', error);
-      return false;
-    }
-
-    return true;
+    isSyncing = true;
+    const pushed = await pushWithRevision(userId);
+    isSyncing = false;
+    return pushed;
   } catch (err) {
     console.error('[userDataSync] Error during push:', err);
+    isSyncing = false;
     return false;
   }
 }
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    DEFAULT_VOICE_CUES,
+    formatTimeLeft,
+    getCrossedThreshold,
+    getVoiceCues,
+    intervalEndMessage,
+    isVoiceCueOn,
+    normalizeVoiceCues,
+    saveVoiceCues,
+    speak,
+    timeLeftMessage,
+} from './voiceCues';
+
+const localStorageMock = (() => {
+    let store: Record<string, string> = {};
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+        removeItem: vi.fn((key: string) => { delete store[key]; }),
+        clear: vi.fn(() => { store = {}; }),
+    };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+describe('voiceCues', () => {
+    beforeEach(() => {
+        localStorageMock.clear();
+    });
+
+    it('is off by default and keeps valid stored choices', () => {
+        expect(getVoiceCues()).toEqual(DEFAULT_VOICE_CUES);
+        expect(isVoiceCueOn(getVoiceCues(), 'timeLeft')).toBe(false);
+
+        saveVoiceCues({ ...DEFAULT_VOICE_CUES, enabled: true, events: { ...DEFAULT_VOICE_CUES.events, intervalEnd: false } });
+        const cues = getVoiceCues();
+        expect(isVoiceCueOn(cues, 'timeLeft')).toBe(true);
+        expect(isVoiceCueOn(cues, 'intervalEnd')).toBe(false);
+
+        expect(normalizeVoiceCues({ enabled: 'yes', thresholds: [60, 45, 600] })).toEqual({
+            ...DEFAULT_VOICE_CUES,
+            thresholds: [600, 60],
+        });
+    });
+
+    it('finds the latest threshold a countdown passed', () => {
+        expect(getCrossedThreshold(301, 300, [300, 60])).toBe(300);
+        expect(getCrossedThreshold(300, 299, [300, 60])).toBeNull();
+        expect(getCrossedThreshold(400, 30, [300, 60])).toBe(60);
+        expect(getCrossedThreshold(61, 60, [])).toBeNull();
+    });
+
+    it('words announcements the way they are spoken', () => {
+        expect(formatTimeLeft(300)).toBe('5 minutes');
+        expect(formatTimeLeft(60)).toBe('1 minute');
+        expect(formatTimeLeft(30)).toBe('30 seconds');
+        expect(timeLeftMessage(300, 'Scales')).toBe('5 minutes left in Scales');
+        expect(intervalEndMessage({ mode: 'break', name: 'Break' })).toBe('Break time');
+        expect(intervalEndMessage({ mode: 'break', name: 'Long break', isLongBreak: true })).toBe('Long break time');
+        expect(intervalEndMessage({ mode: 'break', name: 'Stretch' })).toBe('Break time: Stretch');
+        expect(intervalEndMessage({ mode: 'work', name: 'Work session 2' })).toBe('Back to work: Work session 2');
+    });
+
+    it('falls back when the browser cannot speak', () => {
+        const fallback = vi.fn();
+        speak('Break time', 80, fallback);
+        expect(fallback).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,175 @@
+/**
+ * Voice cues - spoken announcements during a session ("5 minutes left in
+ * Scales", "Break time", "Segment complete: Bach Prelude") for practicing
+ * with an instrument in hand.
+ *
+ * Cues use the browser's speech synthesis. Where it is unavailable (or a
+ * voice fails to speak), time-left cues play a short tone instead; the other
+ * events already have their own sounds. Settings live on this device only,
+ * like the event sounds in soundPacks.
+ */
+
+const VOICE_CUES_KEY = 'practice-timer-voice-cues';
+
+export type VoiceCueEvent = 'timeLeft' | 'intervalEnd' | 'segmentComplete' | 'practiceComplete';
+
+export interface VoiceCueSettings {
+  enabled: boolean;
+  events: Record<VoiceCueEvent, boolean>;
+  /** Seconds left in an interval at which a time-left cue is spoken. */
+  thresholds: number[];
+}
+
+export const VOICE_CUE_EVENTS: { event: VoiceCueEvent; label: string; example: string }[] = [
+  { event: 'timeLeft', label: 'Time left', example: '5 minutes left in Scales' },
+  { event: 'intervalEnd', label: 'Interval change', example: 'Break time' },
+  { event: 'segmentComplete', label: 'Segment complete', example: 'Segment complete: Bach Prelude' },
+  { event: 'practiceComplete', label: 'Practice complete', example: 'Practice complete' },
+];
+
+export const THRESHOLD_OPTIONS = [600, 300, 120, 60, 30, 10];
+
+export const DEFAULT_VOICE_CUES: VoiceCueSettings = {
+  enabled: false,
+  events: { timeLeft: true, intervalEnd: true, segmentComplete: true, practiceComplete: true },
+  thresholds: [300, 60],
+};
+
+export function normalizeVoiceCues(value: unknown): VoiceCueSettings {
+  const stored = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const storedEvents = stored.events && typeof stored.events === 'object'
+    ? (stored.events as Record<string, unknown>)
+    : {};
+  const events = { ...DEFAULT_VOICE_CUES.events };
+  (Object.keys(events) as VoiceCueEvent[]).forEach((event) => {
+    if (typeof storedEvents[event] === 'boolean') events[event] = storedEvents[event] as boolean;
+  });
+  const thresholds = Array.isArray(stored.thresholds)
+    ? THRESHOLD_OPTIONS.filter((seconds) => (stored.thresholds as unknown[]).includes(seconds))
+    : [...DEFAULT_VOICE_CUES.thresholds];
+  return {
+    enabled: typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_VOICE_CUES.enabled,
+    events,
+    thresholds,
+  };
+}
+
+export function getVoiceCues(): VoiceCueSettings {
+  try {
+    const stored = localStorage.getItem(VOICE_CUES_KEY);
+    return normalizeVoiceCues(stored ? JSON.parse(stored) : {});
+  } catch (e) {
+    console.error('Failed to load voice cues:', e);
+    return normalizeVoiceCues({});
+  }
+}
+
+export function saveVoiceCues(cues: VoiceCueSettings): void {
+  try {
+    localStorage.setItem(VOICE_CUES_KEY, JSON.stringify(cues));
+  } catch (e) {
+    console.error('Failed to save voice cues:', e);
+  }
+}
+
+export function isVoiceCueOn(cues: VoiceCueSettings, event: VoiceCueEvent): boolean {
+  return cues.enabled && cues.events[event];
+}
+
+// --- Messages ---
+
+/** "5 minutes", "1 minute", "30 seconds". */
+export function formatTimeLeft(seconds: number): string {
+  if (seconds >= 60 && seconds % 60 === 0) {
+    const minutes = seconds / 60;
+    return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+  }
+  return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`;
+}
+
+/**
+ * The threshold the countdown passed going from `from` to `to` seconds left,
+ * or null. A countdown that jumps past several (a throttled background tab)
+ * only announces the latest one, and an interval that starts exactly on a
+ * threshold doesn't announce it.
+ */
+export function getCrossedThreshold(from: number, to: number, thresholds: number[]): number | null {
+  const crossed = thresholds.filter((seconds) => seconds > 0 && to <= seconds && seconds < from);
+  return crossed.length > 0 ? Math.min(...crossed) : null;
+}
+
+/** `place` is the segment being practiced, or else the interval's name. */
+export function timeLeftMessage(seconds: number, place: string): string {
+  return `${formatTimeLeft(seconds)} left in ${place}`;
+}
+
+const GENERIC_BREAK_NAMES = ['break', 'long break'];
+
+/** Announces the interval that just started. */
+export function intervalEndMessage(next: { mode: 'work' | 'break'; name?: string; isLongBreak?: boolean }): string {
+  const name = next.name?.trim();
+  if (next.mode === 'work') {
+    return name ? `Back to work: ${name}` : 'Back to work';
+  }
+  const message = next.isLongBreak ? 'Long break time' : 'Break time';
+  return name && !GENERIC_BREAK_NAMES.includes(name.toLowerCase()) ? `${message}: ${name}` : message;
+}
+
+export function segmentCompleteMessage(name: string): string {
+  return `Segment complete: ${name}`;
+}
+
+export const PRACTICE_COMPLETE_MESSAGE = 'Practice complete';
+
+// --- Speech ---
+
+export function isSpeechAvailable(): boolean {
+  return typeof window !== 'undefined'
+    && 'speechSynthesis' in window
+    && typeof SpeechSynthesisUtterance !== 'undefined';
+}
+
+/**
+ * iOS only lets a page speak after it has spoken from a tap, so call this
+ * from one (the start button) with an empty utterance.
+ */
+export function primeSpeech(): void {
+  if (!isSpeechAvailable()) return;
+  try {
+    const utterance = new SpeechSynthesisUtterance('');
+    utterance.volume = 0;
+    window.speechSynthesis.speak(utterance);
+  } catch (e) {
+    console.error('Failed to prime speech synthesis:', e);
+  }
+}
+
+/**
+ * Speak `text` at `volume` (0-100). `onUnavailable` runs instead when the
+ * browser can't speak, or when the utterance fails for a reason other than
+ * being cancelled.
+ */
+export function speak(text: string, volume: number, onUnavailable?: () => void): void {
+  if (!isSpeechAvailable()) {
+    onUnavailable?.();
+    return;
+  }
+  try {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.volume = Math.min(1, Math.max(0, volume / 100));
+    utterance.onerror = (event) => {
+      if (event.error !== 'interrupted' && event.error !== 'canceled') {
+        console.error('Failed to speak voice cue:', event.error);
+        onUnavailable?.();
+      }
+    };
+    window.speechSynthesis.speak(utterance);
+  } catch (e) {
+    console.error('Failed to speak voice cue:', e);
+    onUnavailable?.();
+  }
+}
+
+export function cancelSpeech(): void {
+  if (isSpeechAvailable()) window.speechSynthesis.cancel();
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { type WarningChime, MAX_WARNINGS, getDueWarnings, normalizeWarnings } from './warningChimes';
+
+const twoMinutes: WarningChime = { id: 'w-120', target: 'work', secondsBefore: 120, soundType: 'chime' };
+const thirtySeconds: WarningChime = { id: 'w-30', target: 'work', secondsBefore: 30, soundType: 'bell' };
+const segment: WarningChime = { id: 's-60', target: 'segment', secondsBefore: 60, soundType: 'studio:bowl' };
+
+describe('warningChimes', () => {
+    it('keeps valid warnings and drops broken ones', () => {
+        const warnings = normalizeWarnings([
+            twoMinutes,
+            { target: 'break', secondsBefore: 59.6 },
+            { target: 'lunch', secondsBefore: 60 },
+            { target: 'work', secondsBefore: 0 },
+            null,
+        ]);
+        expect(warnings).toHaveLength(2);
+        expect(warnings[0]).toEqual(twoMinutes);
+        expect(warnings[1]).toMatchObject({ target: 'break', secondsBefore: 60, soundType: 'beep' });
+        expect(warnings[1].id).toMatch(/^warning-/);
+
+        expect(normalizeWarnings('nope')).toEqual([]);
+        expect(normalizeWarnings(Array(20).fill(twoMinutes))).toHaveLength(MAX_WARNINGS);
+    });
+
+    it('fires a warning when the countdown passes its threshold', () => {
+        const warnings = [twoMinutes, thirtySeconds, segment];
+        const fired = new Set<string>();
+        expect(getDueWarnings(warnings, 'work', 121, 120, fired)).toEqual([twoMinutes]);
+        expect(getDueWarnings(warnings, 'work', 120, 119, fired)).toEqual([]);
+        expect(getDueWarnings(warnings, 'break', 121, 120, fired)).toEqual([]);
+        expect(getDueWarnings(warnings, 'segment', 61, 60, fired)).toEqual([segment]);
+    });
+
+    it('does not fire again once played, even if the countdown moves back up', () => {
+        const fired = new Set<string>([twoMinutes.id]);
+        // e.g. paused at 1:59, then a SYNC_STATE put the worker back at 2:05
+        expect(getDueWarnings([twoMinutes], 'work', 125, 119, fired)).toEqual([]);
+    });
+
+    it('lists every passed warning latest last after a jump, and none at zero', () => {
+        const warnings = [thirtySeconds, twoMinutes];
+        expect(getDueWarnings(warnings, 'work', 300, 20, new Set())).toEqual([twoMinutes, thirtySeconds]);
+        expect(getDueWarnings(warnings, 'work', 40, 0, new Set())).toEqual([]);
+    });
+});
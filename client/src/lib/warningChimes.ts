@@ -0,0 +1,76 @@
+/**
+ * Warning chimes - sounds played a set time before a work interval, a break
+ * or the active segment ends ("2 minutes before work ends").
+ *
+ * Warnings are part of the timer settings and are played by the timer
+ * worker, so they sound while the page is in the background. Each warning
+ * plays once per interval (or per segment run): the worker remembers which
+ * ones fired, so pausing, resuming or re-syncing the countdown above a
+ * threshold doesn't play it again.
+ *
+ * This module is imported by the timer worker, so it must stay free of DOM
+ * and localStorage access.
+ */
+
+export type WarningTarget = 'work' | 'break' | 'segment';
+
+export interface WarningChime {
+  id: string;
+  target: WarningTarget;
+  /** Seconds before the end at which the chime plays. */
+  secondsBefore: number;
+  soundType: string;
+}
+
+export const WARNING_TARGETS: { target: WarningTarget; label: string }[] = [
+  { target: 'work', label: 'Before work ends' },
+  { target: 'break', label: 'Before a break ends' },
+  { target: 'segment', label: 'Before a segment ends' },
+];
+
+export const WARNING_TIME_OPTIONS = [600, 300, 120, 60, 30, 10];
+
+export const MAX_WARNINGS = 8;
+
+export function generateWarningId(): string {
+  return `warning-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/** Validate warnings read from storage, dropping anything unusable. */
+export function normalizeWarnings(raw: unknown): WarningChime[] {
+  if (!Array.isArray(raw)) return [];
+  const warnings: WarningChime[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const w = item as Partial<WarningChime>;
+    if (w.target !== 'work' && w.target !== 'break' && w.target !== 'segment') continue;
+    if (typeof w.secondsBefore !== 'number' || !Number.isFinite(w.secondsBefore) || w.secondsBefore < 1) continue;
+    warnings.push({
+      id: typeof w.id === 'string' && w.id ? w.id : generateWarningId(),
+      target: w.target,
+      secondsBefore: Math.round(w.secondsBefore),
+      soundType: typeof w.soundType === 'string' && w.soundType ? w.soundType : 'beep',
+    });
+  }
+  return warnings.slice(0, MAX_WARNINGS);
+}
+
+/**
+ * Warnings for `target` whose threshold the countdown passed going from
+ * `from` to `to` seconds left and that haven't fired yet, latest last. A
+ * countdown that jumped past several (a throttled worker) should only play
+ * the last one. Nothing is due once the countdown reaches zero; the end
+ * sound takes over from there.
+ */
+export function getDueWarnings(
+  warnings: WarningChime[] | undefined,
+  target: WarningTarget,
+  from: number,
+  to: number,
+  fired: Set<string>
+): WarningChime[] {
+  if (!warnings || to <= 0 || to >= from) return [];
+  return warnings
+    .filter((w) => w.target === target && !fired.has(w.id) && to <= w.secondsBefore && w.secondsBefore < from)
+    .sort((a, b) => b.secondsBefore - a.secondsBefore);
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, readZip } from './zipArchive';
+
+describe('zipArchive', () => {
+    it('computes the standard CRC-32', () => {
+        expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    });
+
+    it('reads back the entries it writes', () => {
+        const zip = createZip([
+            { name: 'a.txt', data: 'hello' },
+            { name: 'ümlaut.csv', data: new Uint8Array([1, 2, 3]) },
+        ]);
+
+        const entries = readZip(zip);
+        expect(entries.map((e) => e.name)).toEqual(['a.txt', 'ümlaut.csv']);
+        expect(new TextDecoder().decode(entries[0].data)).toBe('hello');
+        expect(Array.from(entries[1].data)).toEqual([1, 2, 3]);
+    });
+
+    it('rejects corrupt archives', () => {
+        const zip = createZip([{ name: 'a.txt', data: 'hello' }]);
+        zip[30 + 'a.txt'.length] ^= 0xff;
+
+        expect(() => readZip(zip)).toThrow('checksum');
+        expect(() => readZip(new TextEncoder().encode('not a zip at all, really'))).toThrow('Not a zip archive');
+    });
+});
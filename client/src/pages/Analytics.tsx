@@ -0,0 +1,286 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { stripMarkdownLinks } from "@/lib/richText";
+import { getSettings } from "@/lib/localStorage";
+import { formatDuration, getLocalYMD } from "@/lib/practiceLog";
+import {
+  type AnalyticsRangePreset,
+  type DateRange,
+  getAnalyticsRange,
+  getHeatmapWeeks,
+  getMonthlyTotals,
+  getPieceTrends,
+  getRangeTotalSeconds,
+  getTimeOfDayDistribution,
+  getWeeklyTotals,
+} from "@/lib/practiceAnalytics";
+import "@/assets/headerBlur.css";
+
+type RangeOption = AnalyticsRangePreset | "custom";
+
+const RANGE_LABELS: Record<RangeOption, string> = {
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+  "12m": "Last 12 months",
+  year: "This year",
+  custom: "Custom range",
+};
+
+const HEATMAP_CLASSES = [
+  "bg-muted/60",
+  "bg-primary/20",
+  "bg-primary/40",
+  "bg-primary/65",
+  "bg-primary",
+];
+
+// Distinct hues for the per-piece lines; the theme only defines one accent color
+const PIECE_COLORS = ["hsl(217 91% 60%)", "hsl(160 84% 39%)", "hsl(38 92% 50%)", "hsl(330 81% 60%)", "hsl(262 83% 58%)"];
+
+const minutesConfig = {
+  minutes: { label: "Minutes", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function SectionCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h2 className="mb-3 text-xl font-semibold text-foreground">{title}</h2>
+      <div className="rounded-xl border border-primary/20 bg-primary/5 p-4">{children}</div>
+    </div>
+  );
+}
+
+export default function Analytics() {
+  const weekStartsOn = getSettings()?.weekStartsOn ?? "monday";
+  const today = getLocalYMD();
+  const [rangeOption, setRangeOption] = useState<RangeOption>("12m");
+  const [customRange, setCustomRange] = useState<DateRange>(() => getAnalyticsRange("30d", today));
+
+  const range = useMemo(
+    () => (rangeOption === "custom" ? customRange : getAnalyticsRange(rangeOption, today)),
+    [rangeOption, customRange, today]
+  );
+
+  const data = useMemo(() => {
+    if (range.start > range.end) return null;
+    const heatmap = getHeatmapWeeks(range, weekStartsOn);
+    const activeDays = heatmap.flat().filter((day) => day.seconds > 0).length;
+    const totalSeconds = getRangeTotalSeconds(range);
+    const trends = getPieceTrends(range, weekStartsOn);
+    return {
+      heatmap,
+      activeDays,
+      totalSeconds,
+      monthly: getMonthlyTotals(range).map((m) => ({ label: m.label, minutes: Math.round(m.seconds / 60) })),
+      weekly: getWeeklyTotals(range, weekStartsOn).map((w) => ({ label: w.label, minutes: Math.round(w.seconds / 60) })),
+      trendPieces: trends.pieces,
+      // Chart keys are positional so item ids never end up in CSS variable names
+      trendRows: trends.rows.map((row) => ({
+        label: row.label,
+        ...Object.fromEntries(trends.pieces.map((piece, i) => [`piece${i}`, row.minutes[piece.itemId] ?? 0])),
+      })),
+      timeOfDay: getTimeOfDayDistribution(range).map((seconds, hour) => ({
+        label: `${hour}:00`,
+        minutes: Math.round(seconds / 60),
+      })),
+    };
+  }, [range, weekStartsOn]);
+
+  const trendConfig = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        (data?.trendPieces ?? []).map((piece, i) => [
+          `piece${i}`,
+          { label: stripMarkdownLinks(piece.itemName) || "Untitled segment", color: PIECE_COLORS[i % PIECE_COLORS.length] },
+        ])
+      ),
+    [data]
+  );
+
+  const hasTimeOfDay = !!data?.timeOfDay.some((h) => h.minutes > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="w-44">
+          <Select value={rangeOption} onValueChange={(value) => setRangeOption(value as RangeOption)}>
+            <SelectTrigger aria-label="Date range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RANGE_LABELS) as RangeOption[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {RANGE_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {rangeOption === "custom" && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              aria-label="Start date"
+              value={customRange.start}
+              max={customRange.end}
+              onChange={(e) => e.target.value && setCustomRange((r) => ({ ...r, start: e.target.value }))}
+              className="w-40"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              aria-label="End date"
+              value={customRange.end}
+              min={customRange.start}
+              max={today}
+              onChange={(e) => e.target.value && setCustomRange((r) => ({ ...r, end: e.target.value }))}
+              className="w-40"
+            />
+          </div>
+        )}
+      </div>
+
+      {!data ? (
+        <p className="text-sm text-destructive">The start date must be on or before the end date.</p>
+      ) : (
+        <>
+          <div className="rounded-xl border border-primary/20 bg-primary/5 p-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Total</p>
+                <p className="text-2xl font-bold text-primary">{formatDuration(data.totalSeconds)}</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Active days</p>
+                <p className="text-2xl font-bold text-primary">{data.activeDays}</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Per active day</p>
+                <p className="text-2xl font-bold text-primary">
+                  {formatDuration(data.activeDays > 0 ? Math.round(data.totalSeconds / data.activeDays) : 0)}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <SectionCard title="Practice calendar">
+            <div className="overflow-x-auto">
+              <div className="flex gap-[3px] w-max" role="grid" aria-label="Practice time per day">
+                {data.heatmap.map((week) => (
+                  <div key={week[0].date} className="flex flex-col gap-[3px]" role="row">
+                    {week.map((day) => (
+                      <div
+                        key={day.date}
+                        role="gridcell"
+                        title={day.inRange ? `${day.date}: ${formatDuration(day.seconds)}` : undefined}
+                        aria-label={day.inRange ? `${day.date}: ${formatDuration(day.seconds)}` : undefined}
+                        className={cn(
+                          "h-3 w-3 rounded-[3px]",
+                          day.inRange ? HEATMAP_CLASSES[day.level] : "bg-transparent"
+                        )}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="mt-3 flex items-center justify-end gap-1 text-[10px] text-muted-foreground select-none">
+              <span className="mr-1">Less</span>
+              {HEATMAP_CLASSES.map((className) => (
+                <span key={className} className={cn("h-3 w-3 rounded-[3px]", className)} />
+              ))}
+              <span className="ml-1">More</span>
+            </div>
+          </SectionCard>
+
+          <Tabs defaultValue="monthly" className="w-full">
+            <div className="mb-3 flex items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold text-foreground">Totals</h2>
+              <TabsList>
+                <TabsTrigger value="monthly">Monthly</TabsTrigger>
+                <TabsTrigger value="weekly">Weekly</TabsTrigger>
+              </TabsList>
+            </div>
+            {(["monthly", "weekly"] as const).map((period) => (
+              <TabsContent key={period} value={period} className="mt-0">
+                <div className="rounded-xl border border-primary/20 bg-primary/5 p-4">
+                  <ChartContainer config={minutesConfig} className="aspect-auto h-56 w-full">
+                    <BarChart data={data[period]}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={12} />
+                      <YAxis tickLine={false} axisLine={false} width={36} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+              </TabsContent>
+            ))}
+          </Tabs>
+
+          <SectionCard title="Piece trends">
+            {data.trendPieces.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No piece-specific time logged in this range.</p>
+            ) : (
+              <ChartContainer config={trendConfig} className="aspect-auto h-64 w-full">
+                <LineChart data={data.trendRows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={12} />
+                  <YAxis tickLine={false} axisLine={false} width={36} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {data.trendPieces.map((piece, i) => (
+                    <Line
+                      key={piece.itemId}
+                      dataKey={`piece${i}`}
+                      type="monotone"
+                      stroke={`var(--color-piece${i})`}
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            )}
+          </SectionCard>
+
+          <SectionCard title="Time of day">
+            {!hasTimeOfDay ? (
+              <p className="text-sm text-muted-foreground">
+                No timed sessions in this range yet. Time of day is recorded when you practice with the timer.
+              </p>
+            ) : (
+              <ChartContainer config={minutesConfig} className="aspect-auto h-48 w-full">
+                <BarChart data={data.timeOfDay}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} interval={5} />
+                  <YAxis tickLine={false} axisLine={false} width={36} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </SectionCard>
+        </>
+      )}
+    </div>
+  );
+}
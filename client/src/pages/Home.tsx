@@ -1,8 +1,13 @@
-import { useEffect, useCallback, useState, useRef } from "react";
+import { useEffect, useCallback, useState, useRef, useMemo } from "react";
 import Timer from "@/components/Timer";
 import TimerControls from "@/components/TimerControls";
 import IterationTracker from "@/components/IterationTracker";
 import PracticeComplete from "@/components/PracticeComplete";
+import GoalProgressCard from "@/components/GoalProgressCard";
+import MetronomePanel from "@/components/MetronomePanel";
+import NextUpQueue from "@/components/NextUpQueue";
+import ReviewQueueCard from "@/components/ReviewQueueCard";
+import ReportFeedbackCard from "@/components/ReportFeedbackCard";
 import { useTimer } from "@/hooks/useTimer";
 import { useNotification } from "@/hooks/useNotification";
 import { playSound } from "@/lib/soundEffects";
@@ -19,6 +24,8 @@ import { useTimerStore } from "@/stores/timerStore";
 import { PracticePlanPane } from "@/components/PracticePlanPane";
 import { TextWithLinks } from "@/components/TextWithLinks";
 import { stripMarkdownLinks } from "@/lib/richText";
+import { getSequenceIntervals, isLongBreakAt } from "@/lib/intervalSequence";
+import type { QueuedSegment } from "@/lib/autoRun";
 
 import "@/assets/headerBlur.css";
 
@@ -33,6 +40,18 @@ export default function Home() {
   const pieceOvertimeRunning = useTimerStore((state) => state.pieceOvertimeRunning);
   const startPieceOvertime = useTimerStore((state) => state.startPieceOvertime);
   const stopPieceOvertime = useTimerStore((state) => state.stopPieceOvertime);
+  const selectPiece = useTimerStore((state) => state.selectPiece);
+  const intervalIndex = useTimerStore((state) => state.intervalIndex);
+  const timerSettings = useTimerStore((state) => state.settings);
+  // Only custom sequences get the per-interval tracker; the classic cycle keeps one dot per work session
+  const sequenceIntervals = useMemo(
+    () => (timerSettings.sequence ? getSequenceIntervals(timerSettings) : undefined),
+    [timerSettings]
+  );
+  const isLongBreak = useMemo(
+    () => isLongBreakAt(getSequenceIntervals(timerSettings), intervalIndex),
+    [timerSettings, intervalIndex]
+  );
 
   const formatSeconds = (totalSecs: number) => {
     const mins = Math.floor(totalSecs / 60);
@@ -49,7 +68,7 @@ export default function Home() {
   const { showNotification, showTimerCompletionNotification } = useNotification();
 
   // Initialize audio context on user interaction
-  const initializeAudio = async () => {
+  const initializeAudio = useCallback(async () => {
     if (!audioInitialized) {
       try {
         const resumed = await resumeAudioContext();
@@ -75,7 +94,7 @@ export default function Home() {
         });
       }
     }
-  };
+  }, [audioInitialized, setAudioInitialized, toast]);
 
   // Audio will be initialized only when the play button is clicked
   // This prevents unnecessary audio initialization on other interactions like skip, reset, etc.
@@ -189,6 +208,17 @@ export default function Home() {
   }, [isPracticeComplete, isPieceOvertime, pieceOvertimeRunning, startPieceOvertime, stopPieceOvertime,
     isRunning, isPiecePaused, handleStart, togglePausePiece]);
 
+  // Start a segment from the "next up" queue, like the plan's play button
+  const handlePlaySegment = useCallback(async (segment: QueuedSegment) => {
+    selectPiece(segment.id, segment.name, segment.minutes, segment.period, segment.tempo);
+    if (mode === 'break' || isPracticeComplete) {
+      // On a break (or after the last interval) only the segment's own timer runs
+      startPieceOvertime();
+    } else if (!isRunning) {
+      await handleStart();
+    }
+  }, [selectPiece, mode, isPracticeComplete, startPieceOvertime, isRunning, handleStart]);
+
   // Handle settings navigation
   const handleSettingsClick = useCallback(() => {
     if (isRunning) {
@@ -318,6 +348,7 @@ export default function Home() {
             totalTime={totalTime}
             mode={mode}
             isRunning={isRunning}
+            isLongBreak={isLongBreak}
           />
 
           <TimerControls
@@ -333,9 +364,22 @@ export default function Home() {
             currentIteration={currentIteration}
             totalIterations={totalIterations}
             mode={mode}
+            isLongBreak={isLongBreak}
+            intervals={sequenceIntervals}
+            intervalIndex={intervalIndex}
           />
         </div>
       )}
+
+      <NextUpQueue onPlay={handlePlaySegment} className="w-full max-w-sm mx-auto" />
+
+      <ReviewQueueCard className="w-full max-w-sm mx-auto" />
+
+      <ReportFeedbackCard className="w-full max-w-sm mx-auto" />
+
+      <MetronomePanel className="w-full max-w-sm mx-auto" />
+
+      <GoalProgressCard compact className="w-full max-w-sm mx-auto" />
     </div>
   );
 }
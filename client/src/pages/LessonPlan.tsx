@@ -2,10 +2,11 @@ import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { PlanEditorPane } from "@/components/PlanEditorPane";
 import { SignInPrompt } from "@/components/SignInPrompt";
+import TeacherAssignmentsPanel from "@/components/TeacherAssignmentsPanel";
 import { useAuth } from "@/contexts/AuthContext";
 import { lessonPlanApi, getLessonSnapshots, saveLessonSnapshot } from "@/lib/lessonPlan";
 import { useTimerStore } from "@/stores/timerStore";
-import { playSound, resumeAudioContext } from "@/lib/soundEffects";
+import { playEventSound, playSound, resumeAudioContext } from "@/lib/soundEffects";
 import { useToast } from "@/hooks/use-toast";
 import { useNotification } from "@/hooks/useNotification";
 
@@ -65,7 +66,7 @@ export default function LessonPlan() {
           await resumeAudioContext();
           let vol = store.settings.volume <= 1 ? store.settings.volume * 100 : store.settings.volume;
           vol = Math.min(100, Math.max(0, vol));
-          if (vol > 0) await playSound("end", store.settings.numberOfBeeps, vol, store.settings.soundType as any);
+          if (vol > 0) await playEventSound("practiceComplete", store.settings.numberOfBeeps, vol, store.settings.soundType);
         } catch (e) {
           console.error("LessonPlan: error playing practice-complete sound", e);
         }
@@ -100,25 +101,28 @@ export default function LessonPlan() {
   }
 
   return (
-    <PlanEditorPane
-      open={true}
-      onOpenChange={(open) => {
-        if (!open) navigate("/");
-      }}
-      planTitle="Lesson Plan"
-      planType="lesson"
-      planApi={lessonPlanApi}
-      getSnapshots={getLessonSnapshots}
-      saveSnapshot={saveLessonSnapshot}
-      timeRemaining={timeRemaining}
-      totalTime={totalTime}
-      mode={mode}
-      isRunning={isRunning}
-      isPracticeComplete={isPracticeComplete}
-      onStart={startTimer}
-      onPause={pauseTimer}
-      onSkip={skipTimer}
-      onStartNewSession={startNewSession}
-    />
+    <>
+      <TeacherAssignmentsPanel className="mb-6" />
+      <PlanEditorPane
+        open={true}
+        onOpenChange={(open) => {
+          if (!open) navigate("/");
+        }}
+        planTitle="Lesson Plan"
+        planType="lesson"
+        planApi={lessonPlanApi}
+        getSnapshots={getLessonSnapshots}
+        saveSnapshot={saveLessonSnapshot}
+        timeRemaining={timeRemaining}
+        totalTime={totalTime}
+        mode={mode}
+        isRunning={isRunning}
+        isPracticeComplete={isPracticeComplete}
+        onStart={startTimer}
+        onPause={pauseTimer}
+        onSkip={skipTimer}
+        onStartNewSession={startNewSession}
+      />
+    </>
   );
 }
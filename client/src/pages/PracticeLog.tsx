@@ -1,7 +1,13 @@
 import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import { TextWithLinks } from "@/components/TextWithLinks";
+import SessionTimeline from "@/components/SessionTimeline";
+import TempoProgressChart from "@/components/TempoProgressChart";
+import PracticeLogEditorDialog from "@/components/PracticeLogEditorDialog";
+import GoalProgressCard from "@/components/GoalProgressCard";
+import { Button } from "@/components/ui/button";
 import {
   getDailyBreakdown,
   getTodaySeconds,
@@ -35,6 +41,9 @@ export default function PracticeLog() {
   const lastWeekSeconds = getLastWeekSeconds(weekStartsOn);
 
   const [pieceSummaries, setPieceSummaries] = useState<PieceTimeSummary[]>([]);
+  // undefined = editor closed; "" = opened without a date (today)
+  const [editorDate, setEditorDate] = useState<string | undefined>(undefined);
+  const [logVersion, setLogVersion] = useState(0);
 
   const thisWeekRange = getThisWeekRange(weekStartsOn);
 
@@ -53,14 +62,28 @@ export default function PracticeLog() {
     });
 
     setPieceSummaries(summaries);
-  }, [weekStartsOn, timeRemaining]);
+  }, [weekStartsOn, timeRemaining, logVersion]);
 
   return (
     <div className="space-y-6">
       <div>
-        <h2 className="mb-3 text-xl font-semibold text-foreground">
-          Total practice time
-        </h2>
+        <div className="mb-3 flex items-center justify-between gap-2">
+          <h2 className="text-xl font-semibold text-foreground">
+            Total practice time
+          </h2>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/practice-log/analytics">
+                <span className="material-icons text-base mr-1">insights</span>
+                Analytics
+              </Link>
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setEditorDate("")}>
+              <span className="material-icons text-base mr-1">edit_calendar</span>
+              Add or edit time
+            </Button>
+          </div>
+        </div>
         <div className="rounded-xl border border-primary/20 bg-primary/5 p-4">
           <div className="grid grid-cols-3 gap-4">
             <div>
@@ -90,11 +113,20 @@ export default function PracticeLog() {
           </div>
         </div>
       </div>
+
+      <div>
+        <h2 className="mb-3 text-xl font-semibold text-foreground">
+          Goals & streaks
+        </h2>
+        <GoalProgressCard />
+      </div>
       
       <Tabs defaultValue="weekly" className="w-full">
-        <TabsList className="grid w-full grid-cols-2 mb-3">
+        <TabsList className="grid w-full grid-cols-4 mb-3">
           <TabsTrigger value="weekly">Weekly breakdown</TabsTrigger>
           <TabsTrigger value="daily">Daily breakdown</TabsTrigger>
+          <TabsTrigger value="timeline">Timeline</TabsTrigger>
+          <TabsTrigger value="tempo">Tempo</TabsTrigger>
         </TabsList>
 
         <TabsContent value="weekly" className="space-y-2 mt-0">
@@ -162,15 +194,41 @@ export default function PracticeLog() {
                   <span className="text-sm font-medium">
                     {formatDate(date)}
                   </span>
-                  <span className="text-sm text-muted-foreground">
-                    {formatDuration(seconds)}
+                  <span className="flex items-center gap-1">
+                    <span className="text-sm text-muted-foreground">
+                      {formatDuration(seconds)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      aria-label={`Edit ${formatDate(date)}`}
+                      onClick={() => setEditorDate(date)}
+                    >
+                      <span className="material-icons text-base text-muted-foreground">edit</span>
+                    </Button>
                   </span>
                 </li>
               ))}
             </ul>
           )}
         </TabsContent>
+
+        <TabsContent value="timeline" className="mt-0">
+          <SessionTimeline refreshKey={timeRemaining} />
+        </TabsContent>
+
+        <TabsContent value="tempo" className="mt-0">
+          <TempoProgressChart />
+        </TabsContent>
       </Tabs>
+
+      <PracticeLogEditorDialog
+        open={editorDate !== undefined}
+        onOpenChange={(open) => !open && setEditorDate(undefined)}
+        initialDate={editorDate || undefined}
+        onLogChanged={() => setLogVersion((v) => v + 1)}
+      />
     </div>
   );
 }
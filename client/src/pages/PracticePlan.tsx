@@ -4,7 +4,7 @@ import { PracticePlanPane } from "@/components/PracticePlanPane";
 import { SignInPrompt } from "@/components/SignInPrompt";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTimerStore } from "@/stores/timerStore";
-import { playSound, resumeAudioContext } from "@/lib/soundEffects";
+import { playEventSound, playSound, resumeAudioContext } from "@/lib/soundEffects";
 import { useToast } from "@/hooks/use-toast";
 import { useNotification } from "@/hooks/useNotification";
 
@@ -66,7 +66,7 @@ export default function PracticePlan() {
                     await resumeAudioContext();
                     let vol = store.settings.volume <= 1 ? store.settings.volume * 100 : store.settings.volume;
                     vol = Math.min(100, Math.max(0, vol));
-                    if (vol > 0) await playSound('end', store.settings.numberOfBeeps, vol, store.settings.soundType as any);
+                    if (vol > 0) await playEventSound('practiceComplete', store.settings.numberOfBeeps, vol, store.settings.soundType);
                 } catch (e) {
                     console.error('PracticePlan: error playing practice-complete sound', e);
                 }
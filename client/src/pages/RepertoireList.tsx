@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { repertoireService } from '@/lib/repertoireService';
@@ -17,6 +17,8 @@ import { Plus, Search, Music, ArrowLeft, Filter } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { AuthModal } from '@/components/AuthModal';
+import ReviewRatingButtons from '@/components/ReviewRatingButtons';
+import { type DueReview, REVIEWS_CHANGED_EVENT, formatDueLabel, getDueReviews } from '@/lib/repertoireReview';
 
 const statusColors: Record<string, string> = {
     learning: 'bg-muted/50 text-muted-foreground border-border',
@@ -34,6 +36,9 @@ const levelColors: Record<string, string> = {
     'level-6': 'bg-rose-500/20 text-rose-300 border-rose-500/30',
 };
 
+// Stable while loading, so the due-review effect doesn't re-run every render
+const NO_PIECES: RepertoirePiece[] = [];
+
 const formatPieceDate = (dateStr: string | null | undefined): string => {
     if (!dateStr) return '';
     try {
@@ -57,12 +62,20 @@ export default function RepertoireList() {
     const [authOpen, setAuthOpen] = useState(false);
     const [authMode, setAuthMode] = useState<'signin' | 'signup'>('signin');
 
-    const { data: pieces = [], isLoading } = useQuery({
+    const { data: pieces = NO_PIECES, isLoading } = useQuery({
         queryKey: ['repertoire'],
         queryFn: repertoireService.getAll,
         enabled: isLoggedIn,
     });
 
+    const [dueReviews, setDueReviews] = useState<DueReview[]>([]);
+    useEffect(() => {
+        const refresh = () => setDueReviews(getDueReviews(pieces));
+        refresh();
+        window.addEventListener(REVIEWS_CHANGED_EVENT, refresh);
+        return () => window.removeEventListener(REVIEWS_CHANGED_EVENT, refresh);
+    }, [pieces]);
+
     const createMutation = useMutation({
         mutationFn: () =>
             repertoireService.create({
@@ -186,6 +199,32 @@ export default function RepertoireList() {
                 </div>
             </div>
 
+            {/* Due for review */}
+            {dueReviews.length > 0 && (
+                <div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-4 space-y-3">
+                    <div>
+                        <h3 className="text-sm font-semibold">Due for review today</h3>
+                        <p className="text-xs text-muted-foreground">
+                            Play through each piece, then rate how it went to schedule its next review.
+                        </p>
+                    </div>
+                    <ul className="space-y-2">
+                        {dueReviews.map((review) => (
+                            <li key={review.piece.id} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                                <button
+                                    onClick={() => navigate(`/repertoire/${review.piece.id}`)}
+                                    className="flex-1 min-w-0 text-left"
+                                >
+                                    <p className="text-sm font-medium truncate">{review.piece.title || 'Untitled Piece'}</p>
+                                    <p className="text-xs text-muted-foreground font-mono">{formatDueLabel(review)}</p>
+                                </button>
+                                <ReviewRatingButtons pieceId={review.piece.id} />
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {/* List */}
             {isLoading ? (
                 <div className="flex items-center justify-center py-20">
@@ -232,6 +271,11 @@ export default function RepertoireList() {
                                 <Badge variant="outline" className={cn('text-xs rounded-full', statusColors[piece.status])}>
                                     {PIECE_STATUSES.find(s => s.value === piece.status)?.label}
                                 </Badge>
+                                {dueReviews.some((r) => r.piece.id === piece.id) && (
+                                    <Badge variant="outline" className="text-xs rounded-full bg-amber-500/20 text-amber-300 border-amber-500/30">
+                                        Review due
+                                    </Badge>
+                                )}
                                 <span className="text-xs text-muted-foreground font-medium">
                                     {PIECE_TYPES.find(t => t.value === piece.type)?.label}
                                 </span>
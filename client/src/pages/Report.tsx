@@ -1,30 +1,46 @@
 import { useEffect, useMemo, useState } from "react";
-import { useParams, useLocation, Link } from "react-router-dom";
-import { decodeReportToken, type ReportSnapshot, type ReportSnapshotItem, type ReportLogSummary } from "@/lib/reportShare";
+import { useParams, useLocation, useSearchParams, Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import {
+  decodeReportToken,
+  fetchSharedReport,
+  getSavedReportPassphrase,
+  saveReportPassphrase,
+  type ReportSnapshot,
+  type SharedReportStatus,
+  type ReportSnapshotItem,
+  type ReportLogSummary,
+  type ReportVersion,
+} from "@/lib/reportShare";
+import { diffReportSnapshots } from "@/lib/reportDiff";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TextWithLinks } from "@/components/TextWithLinks";
 import { RichLink } from "@/components/RichLink";
 import { supabase } from "@/lib/supabaseClient";
 import { sanitizeHref } from "@/lib/urlSafety";
+import { stripMarkdown } from "@/lib/richText";
 import { useSharedReport } from "@/contexts/SharedReportContext";
 import { ScoreUrlTooltip } from "@/components/ScoreUrlTooltip";
+import ReportCommentThread from "@/components/ReportCommentThread";
+import ReportVersionDiff from "@/components/ReportVersionDiff";
 import { getSegmentCompletionsLast7Days, getSegmentCompletionsForThisWeek, hasCompletedSegmentToday, getThisWeekSummary, getLastWeekSummary, getLast7DaysSummary } from "@/lib/practiceLog";
 import { getPracticePlan } from "@/lib/practicePlan";
 import { getSettings } from "@/lib/localStorage";
 import { cn } from "@/lib/utils";
+import { Progress } from "@/components/ui/progress";
+import { getTempoProgress } from "@/lib/tempoProgression";
 
-/** Strip markdown link syntax [text](url) → text. Also strips **bold** and *italic* markers. */
-function stripMarkdown(text: string): string {
-  return text
-    // Replace [label](url) with label
-    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
-    // Replace plain URLs that remain (just show as-is, no change needed)
-    // Strip **bold**
-    .replace(/\*\*(.+?)\*\*/g, "$1")
-    // Strip *italic*
-    .replace(/\*(.+?)\*/g, "$1");
-}
+// Stable while loading, so the selected version doesn't change identity every render
+const NO_VERSIONS: ReportVersion[] = [];
+
+const CLOSED_LINK_MESSAGES: Partial<Record<SharedReportStatus, { title: string; description: string }>> = {
+  revoked: { title: "Link revoked", description: "The owner of this report has revoked this link. Ask them for a new one." },
+  disabled: { title: "Link turned off", description: "The owner of this report has turned this link off for now." },
+  expired: { title: "Link expired", description: "This report link has expired. Ask for a new link." },
+};
 
 function formatCheckedDate(dateStr?: string): string {
   if (!dateStr) return "";
@@ -154,6 +170,7 @@ function ReportItem({
       : "";
 
     const isCompletedToday = (item.id ? hasCompletedSegmentToday(item.id) : false) || (item.checked ?? false);
+    const tempoProgress = getTempoProgress(item);
 
     return (
       <div className="py-2.5 rounded-xl border border-border/50 border-l-2 border-l-primary/30 bg-white/[0.03] dark:bg-white/[0.03] space-y-1.5 transition-all duration-200 hover:bg-white/[0.05] hover:border-primary/30 hover:border-l-primary/70 px-3.5 mb-2" style={{ paddingLeft: depth ? `${paddingLeft + 14}px` : undefined }}>
@@ -176,6 +193,11 @@ function ReportItem({
                     Time Box: {item.allocatedTime}m
                   </span>
                 )}
+                {item.tempo != null && !tempoProgress && (
+                  <span className="inline-flex items-center h-[22px] px-2 text-xs font-mono font-medium rounded-full bg-muted/60 border border-muted-foreground/20 text-muted-foreground shrink-0 select-none">
+                    ♩ = {item.tempo}
+                  </span>
+                )}
               </span>
             </div>
             <div className="flex items-center gap-1.5 sm:ml-auto shrink-0 select-none pl-7 sm:pl-0 flex-wrap">
@@ -193,12 +215,31 @@ function ReportItem({
                 </span>
               )}
               {practicedSeconds > 0 && (
-                <span className="inline-flex items-center h-[22px] bg-primary/10 border border-primary/25 text-primary px-2 rounded-full text-xs font-semibold font-mono tracking-tight">
+                <span
+                  className="inline-flex items-center h-[22px] bg-primary/10 border border-primary/25 text-primary px-2 rounded-full text-xs font-semibold font-mono tracking-tight"
+                  title={practicedEntry?.manualSeconds ? `${formatDuration(practicedEntry.manualSeconds)} entered manually` : undefined}
+                >
                   {formatDuration(practicedSeconds)}
+                  {!!practicedEntry?.manualSeconds && (
+                    <span className="material-icons text-[13px] ml-1 select-none" aria-label="Includes manually entered time">
+                      edit_note
+                    </span>
+                  )}
                 </span>
               )}
             </div>
           </div>
+          {tempoProgress && (
+            <div className="pl-7 flex items-center gap-2 text-xs text-muted-foreground" title="Tempo goal">
+              <span className="material-icons text-[13px] select-none" aria-hidden="true">speed</span>
+              <span className="font-mono">{tempoProgress.startTempo}</span>
+              <Progress value={tempoProgress.percent} className="h-1.5 w-24" aria-label={`Tempo goal ${tempoProgress.percent}%`} />
+              <span className="font-mono">{tempoProgress.targetTempo} BPM</span>
+              <span className={cn("font-mono font-semibold", tempoProgress.reached ? "text-emerald-600 dark:text-emerald-300" : "text-foreground")}>
+                now {tempoProgress.currentTempo}
+              </span>
+            </div>
+          )}
           {item.segmentGoal && (
             <p className="text-sm text-muted-foreground pl-7 leading-relaxed whitespace-pre-wrap">
               <TextWithLinks text={item.segmentGoal} richLinkVariant="report" linkVariant="inline" />
@@ -236,6 +277,9 @@ function ReportItem({
               {item.videoUrl && <RichLink url={item.videoUrl} eagerPreview />}
             </div>
           )}
+          {sharedId && item.id && (
+            <ReportCommentThread reportId={sharedId} targetType="item" targetId={item.id} className="pl-7 pt-0.5" />
+          )}
         </div>
         {item.children.length > 0 && (
           <div className="pl-4 border-l border-border/50 mt-0.5 ml-2 space-y-0.5">
@@ -348,94 +392,56 @@ export default function Report() {
   // Token from path (/report/:token) or from hash (/report#token - used in dev to avoid long URLs)
   const token = pathToken ?? (location.pathname === "/report" && location.hash ? location.hash.slice(1) : null);
   const tokenSnapshot = useTokenSnapshot(id ? null : token);
-  const [idSnapshot, setIdSnapshot] = useState<ReportSnapshot | null>(null);
-  const [idLoading, setIdLoading] = useState(!!id);
-  const [idError, setIdError] = useState(false);
-
-  const snapshot = id ? idSnapshot : tokenSnapshot;
-  const loading = id ? idLoading : false;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [showChanges, setShowChanges] = useState(false);
+  const [passphrase, setPassphrase] = useState<string | null>(() => (id ? getSavedReportPassphrase(id) : null));
+  const [passphraseInput, setPassphraseInput] = useState("");
+
+  // Permalinks keep every published version; ?v=N pins one, otherwise the latest shows
+  const requestedVersion = Number(searchParams.get("v")) || null;
+  const { data: latest, isLoading: latestLoading } = useQuery({
+    queryKey: ["shared-report-link", id, passphrase],
+    queryFn: () => fetchSharedReport(id!, { passphrase }),
+    enabled: !!id,
+  });
+  const versions = latest?.versions ?? NO_VERSIONS;
+  const latestVersion = versions[0]?.version ?? null;
+  const viewingOldVersion = !!id && requestedVersion !== null && requestedVersion !== latestVersion;
+  const shownVersion = viewingOldVersion ? requestedVersion : latestVersion;
+  const { data: versionResult, isLoading: versionLoading } = useQuery({
+    queryKey: ["shared-report-link", id, passphrase, requestedVersion],
+    queryFn: () => fetchSharedReport(id!, { passphrase, version: requestedVersion }),
+    enabled: viewingOldVersion,
+  });
+  const canCompare = showChanges && shownVersion !== null && shownVersion > 1;
+  const previousVersion = shownVersion === null ? null : shownVersion - 1;
+  const { data: previousResult } = useQuery({
+    queryKey: ["shared-report-link", id, passphrase, previousVersion],
+    queryFn: () => fetchSharedReport(id!, { passphrase, version: previousVersion }),
+    enabled: !!id && canCompare,
+  });
+
+  const idResult = viewingOldVersion ? versionResult : latest;
+  const linkStatus = id ? idResult?.status : undefined;
+  const snapshot = id ? idResult?.snapshot ?? null : tokenSnapshot;
+  const loading = id ? latestLoading || (viewingOldVersion && versionLoading) : false;
   const tokenInvalid = Boolean(token && !id && !tokenSnapshot);
-  const error = id ? idError : tokenInvalid;
-
-  // Handle short ID (server-side fetch)
-  useEffect(() => {
-    if (!id) {
-      setIdSnapshot(null);
-      setIdError(false);
-      setIdLoading(false);
-      return;
-    }
-
-    async function loadReport() {
-      setIdLoading(true);
-      setIdError(false);
-
-      // 1. Try to load from Supabase first (if configured)
-      if (supabase) {
-        try {
-          const { data, error } = await supabase
-            .from("shared_reports")
-            .select("data")
-            .eq("id", id)
-            .single();
-
-          if (data && !error) {
-            setIdSnapshot(data.data as ReportSnapshot);
-            setIdLoading(false);
-            return;
-          }
-        } catch (e) {
-          console.warn("[Report] Failed to load from Supabase, trying fallback:", e);
-        }
-      }
-
-      // In dev, if Supabase failed or wasn't configured, Netlify functions are unavailable - stop here
-      if (import.meta.env.DEV) {
-        setIdError(true);
-        setIdLoading(false);
-        return;
-      }
+  const error = id ? !snapshot : tokenInvalid;
+  const previousSnapshot = previousResult?.snapshot ?? null;
 
-      // 2. Fallback to Netlify Blobs (via serverless function)
-      try {
-        const res = await fetch(`/.netlify/functions/share-report?id=${encodeURIComponent(id!)}`, {
-          cache: "no-store",
-          headers: { Accept: "application/json" },
-        });
+  const versionDiff = useMemo(
+    () => (canCompare && previousSnapshot && snapshot ? diffReportSnapshots(previousSnapshot, snapshot) : null),
+    [canCompare, previousSnapshot, snapshot]
+  );
 
-        if (!res.ok) throw new Error("Failed to fetch from Netlify function");
-
-        const data = (await res.json()) as ReportSnapshot;
-        setIdSnapshot(data);
-
-        // 3. Asynchronously migrate the legacy report to Supabase for future visits
-        if (supabase) {
-          supabase
-            .from("shared_reports")
-            .insert({ id: id!, data })
-            .then(
-              ({ error }) => {
-                if (error) {
-                  console.warn("[Report] Auto-migration to Supabase failed:", error);
-                } else {
-                  console.log("[Report] Auto-migrated legacy report to Supabase successfully.");
-                }
-              },
-              (err: unknown) => {
-                console.warn("[Report] Error auto-migrating to Supabase:", err);
-              }
-            );
-        }
-      } catch (err) {
-        console.warn("[Report] Failed to load report from fallback:", err);
-        setIdError(true);
-      } finally {
-        setIdLoading(false);
-      }
-    }
+  const selectVersion = (version: number) => {
+    setSearchParams(version === latestVersion ? {} : { v: String(version) }, { replace: true });
+  };
 
-    loadReport();
-  }, [id]);
+  // Remember a passphrase that worked, for this report's piece pages
+  useEffect(() => {
+    if (id && passphrase && latest?.status === "ok") saveReportPassphrase(id, passphrase);
+  }, [id, passphrase, latest?.status]);
 
   useEffect(() => {
     if (snapshot) {
@@ -548,6 +554,49 @@ export default function Report() {
     );
   }
 
+  if (id && (linkStatus === "passphrase_required" || linkStatus === "wrong_passphrase")) {
+    return (
+      <form
+        className="max-w-sm mx-auto flex flex-col items-center py-10 text-foreground text-center gap-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (passphraseInput.trim()) setPassphrase(passphraseInput.trim());
+        }}
+      >
+        <span className="material-icons text-4xl text-primary">lock</span>
+        <h1 className="text-2xl font-bold text-primary">Protected report</h1>
+        <p className="text-muted-foreground text-sm leading-relaxed">
+          Enter the passphrase you were given with this link.
+        </p>
+        <Input
+          type="password"
+          value={passphraseInput}
+          onChange={(e) => setPassphraseInput(e.target.value)}
+          placeholder="Passphrase"
+          aria-label="Passphrase"
+          autoFocus
+        />
+        {linkStatus === "wrong_passphrase" && <p className="text-sm text-destructive">That passphrase isn't right. After several wrong tries, wait 15 minutes before trying again.</p>}
+        <Button type="submit" className="w-full" disabled={!passphraseInput.trim()}>
+          Open report
+        </Button>
+      </form>
+    );
+  }
+
+  if (id && linkStatus && CLOSED_LINK_MESSAGES[linkStatus]) {
+    const { title, description } = CLOSED_LINK_MESSAGES[linkStatus]!;
+    return (
+      <div className="flex flex-col items-center justify-center py-10 text-foreground text-center">
+        <h1 className="text-2xl font-bold text-primary mb-2">{title}</h1>
+        <p className="text-muted-foreground text-sm max-w-sm mb-6 leading-relaxed">{description}</p>
+        <Button variant="outline" asChild className="border-white/10 rounded-xl">
+          <Link to="/">Open Practice Mate</Link>
+        </Button>
+      </div>
+    );
+  }
+
   if (error || !snapshot) {
     return (
       <div className="flex flex-col items-center justify-center py-10 text-foreground text-center">
@@ -610,6 +659,11 @@ export default function Report() {
                     {formatDuration(activeLogSummary.totalSeconds ?? 0)}
                   </span>
                   <span className="text-muted-foreground">time this week</span>
+                  {!!activeLogSummary.manualSeconds && (
+                    <span className="text-xs text-muted-foreground font-normal">
+                      (incl. {formatDuration(activeLogSummary.manualSeconds)} manual)
+                    </span>
+                  )}
                 </span>
               </>
             )}
@@ -627,7 +681,58 @@ export default function Report() {
             )}
           </div>
         </div>
+        {versions.length > 1 && shownVersion !== null && (
+          <div className="flex items-center gap-2 shrink-0">
+            <Select value={String(shownVersion)} onValueChange={(value) => selectVersion(Number(value))}>
+              <SelectTrigger className="h-9 w-56" aria-label="Report version">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.version} value={String(version.version)}>
+                    Version {version.version} ·{" "}
+                    {new Date(version.createdAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+                    {version.version === latestVersion ? " (latest)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {shownVersion > 1 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-9 border-white/10"
+                onClick={() => setShowChanges((v) => !v)}
+                aria-expanded={showChanges}
+              >
+                <span className="material-icons text-base mr-1.5">difference</span>
+                What changed
+              </Button>
+            )}
+          </div>
+        )}
       </header>
+      {viewingOldVersion && (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <span className="material-icons text-base select-none">history</span>
+          You're viewing version {shownVersion} of this report.
+          {latestVersion !== null && (
+            <button type="button" className="underline hover:text-foreground" onClick={() => selectVersion(latestVersion)}>
+              See the latest
+            </button>
+          )}
+        </p>
+      )}
+      {canCompare && (
+        <section className="rounded-2xl border border-white/[0.08] bg-white/[0.03] p-5 space-y-3">
+          <h2 className="text-sm font-semibold">Changes since version {shownVersion! - 1}</h2>
+          {versionDiff ? (
+            <ReportVersionDiff diff={versionDiff} previousVersion={shownVersion! - 1} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Loading…</p>
+          )}
+        </section>
+      )}
       <main className="w-full space-y-8">
         {snapshot.lessonPlanItems && snapshot.lessonPlanItems.length > 0 ? (
           <Tabs defaultValue="practice" className="w-full space-y-0">
@@ -711,6 +816,7 @@ export default function Report() {
             </div>
           )
         )}
+        {id && <ReportCommentThread reportId={id} targetType="report" title="Feedback" />}
       </main>
     </div>
   );
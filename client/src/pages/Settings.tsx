@@ -10,7 +10,6 @@ import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { useNotification } from "@/hooks/useNotification";
 import { playSound } from "@/lib/soundEffects";
-import { SoundType } from "@/lib/soundEffects";
 import { useAuth } from "@/contexts/AuthContext";
 import { updatePassword, updateDisplayName } from "@/lib/authService";
 import { Input } from "@/components/ui/input";
@@ -18,6 +17,17 @@ import { AlertCircle, CheckCircle2 } from "lucide-react";
 import { restorePlanFromSnapshot, type ReportSnapshot } from "@/lib/reportShare";
 import { practicePlanApi } from "@/lib/practicePlan";
 import { supabase } from "@/lib/supabaseClient";
+import SequenceEditor from "@/components/SequenceEditor";
+import DataBackupDialog from "@/components/DataBackupDialog";
+import AutoRunOptions from "@/components/AutoRunOptions";
+import PlanRolloverOptions from "@/components/PlanRolloverOptions";
+import SoundPackSettings from "@/components/SoundPackSettings";
+import VoiceCueSettings from "@/components/VoiceCueSettings";
+import WarningChimeSettings from "@/components/WarningChimeSettings";
+import SharedLinksManager from "@/components/SharedLinksManager";
+import { createSequenceFromSettings } from "@/lib/intervalSequence";
+import { getOrderedWeekdays } from "@/lib/practiceGoals";
+import { formatDuration } from "@/lib/practiceLog";
 
 
 import {
@@ -40,6 +50,7 @@ export default function Settings() {
   const [localSettings, setLocalSettings] = useState<SettingsType>(getSettings() || DEFAULT_SETTINGS);
   const [isVolumeChanging, setIsVolumeChanging] = useState(false);
   const [isSoundTypeChanging, setIsSoundTypeChanging] = useState(false);
+  const [backupDialogOpen, setBackupDialogOpen] = useState(false);
   const { isRunning } = useTimerStore();
   const { isLoggedIn, user, signOut, refreshUser } = useAuth();
 
@@ -118,7 +129,7 @@ export default function Settings() {
 
 
 
-    playSound('end', 1, newVolume, localSettings.soundType as SoundType)
+    playSound('end', 1, newVolume, localSettings.soundType)
       .catch(error => {
         console.error('Error playing preview sound:', error);
       });
@@ -130,30 +141,6 @@ export default function Settings() {
     // updateGlobalSettings(localSettings); // This line is removed as per the edit hint
   };
 
-  // Handle sound type change with preview
-  const handleSoundTypeChange = async (value: string) => {
-    const newSoundType = value as SoundType;
-    const newSettings = {
-      ...localSettings,
-      soundType: newSoundType
-    };
-
-    // Update settings
-    setLocalSettings(newSettings);
-
-    // For iOS, try to unlock audio on sound type change
-    playSound('end', 1, localSettings.volume, newSoundType)
-      .catch(error => {
-        console.error('Error playing preview sound:', error);
-      });
-  };
-
-  // Save sound type setting when selection is made
-  const handleSoundTypeChangeComplete = () => {
-    saveSettings(localSettings);
-    // updateGlobalSettings(localSettings); // This line is removed as per the edit hint
-  };
-
   const handleDisplayNameUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     setDisplayNameError(null);
@@ -359,34 +346,6 @@ export default function Settings() {
                   className="w-full"
                 />
               </div>
-              <div className="flex items-center justify-between">
-                <div className="flex items-center">
-                  <span className="material-icons text-muted-foreground mr-3">music_note</span>
-                  <Label htmlFor="sound-type-select">Sound Type</Label>
-                </div>
-                <div className="w-48">
-                  <Select
-                    value={['beep', 'bell', 'chime', 'digital', 'woodpecker'].includes(localSettings.soundType) ? localSettings.soundType : 'beep'}
-                    onValueChange={handleSoundTypeChange}
-                    onOpenChange={(open) => {
-                      if (!open) {
-                        handleSoundTypeChangeComplete();
-                      }
-                    }}
-                  >
-                    <SelectTrigger id="sound-type-select">
-                      <SelectValue placeholder="Select sound type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="beep">Beep</SelectItem>
-                      <SelectItem value="bell">Bell</SelectItem>
-                      <SelectItem value="chime">Chime</SelectItem>
-                      <SelectItem value="digital">Digital</SelectItem>
-                      <SelectItem value="woodpecker">Woodpecker</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
               <div className="flex items-center justify-between">
                 <div className="flex items-center">
                   <span className="material-icons text-muted-foreground mr-3">notifications</span>
@@ -416,9 +375,33 @@ export default function Settings() {
                   </Button>
                 </div>
               </div>
+              <SoundPackSettings
+                endSoundId={localSettings.soundType}
+                volume={localSettings.volume}
+                onEndSoundChange={(soundType) => handleSettingsUpdate({ soundType })}
+              />
             </div>
           </div>
 
+          {/* Warning Chimes */}
+          <div className="pt-6 border-t border-white/10">
+            <h2 className="text-lg font-semibold mb-1">Warning Chimes</h2>
+            <p className="text-xs text-muted-foreground mb-4">
+              A heads-up before time runs out. Each plays once per interval or segment, even in the background.
+            </p>
+            <WarningChimeSettings
+              warnings={localSettings.warnings ?? []}
+              volume={localSettings.volume}
+              onChange={(warnings) => handleSettingsUpdate({ warnings })}
+            />
+          </div>
+
+          {/* Voice Cues */}
+          <div className="pt-6 border-t border-white/10">
+            <h2 className="text-lg font-semibold mb-4">Voice Cues</h2>
+            <VoiceCueSettings volume={localSettings.volume} soundId={localSettings.soundType} />
+          </div>
+
           {/* Timer Settings */}
           <div className="pt-6 border-t border-white/10">
             <h2 className="text-lg font-semibold mb-4">Timer Settings</h2>
@@ -515,6 +498,242 @@ export default function Settings() {
               <p className="text-xs text-muted-foreground">
                 Number of work-break cycles to complete before reset.
               </p>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <span className="material-icons text-muted-foreground mr-3">weekend</span>
+                  <Label>Long Break Every</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleSettingsUpdate({
+                      longBreakInterval: Math.max(0, localSettings.longBreakInterval - 1)
+                    })}
+                  >
+                    -
+                  </Button>
+                  <span className="w-16 text-center font-semibold font-mono">
+                    {localSettings.longBreakInterval > 0 ? localSettings.longBreakInterval : 'Off'}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleSettingsUpdate({
+                      longBreakInterval: Math.min(8, localSettings.longBreakInterval + 1)
+                    })}
+                  >
+                    +
+                  </Button>
+                </div>
+              </div>
+
+              {localSettings.longBreakInterval > 0 && (
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <span className="material-icons text-muted-foreground mr-3">hotel</span>
+                    <Label>Long Break Duration</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleSettingsUpdate({
+                        longBreakDuration: Math.max(5, localSettings.longBreakDuration - 5)
+                      })}
+                    >
+                      -
+                    </Button>
+                    <span className="w-16 text-center font-semibold font-mono">{localSettings.longBreakDuration} min</span>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleSettingsUpdate({
+                        longBreakDuration: Math.min(45, localSettings.longBreakDuration + 5)
+                      })}
+                    >
+                      +
+                    </Button>
+                  </div>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Take a longer break after every few work sessions.
+              </p>
+            </div>
+          </div>
+
+          {/* Interval Sequence */}
+          <div className="pt-6 border-t border-white/10">
+            <h2 className="text-lg font-semibold mb-4">Interval Sequence</h2>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <span className="material-icons text-muted-foreground mr-3">format_list_numbered</span>
+                  <Label htmlFor="custom-sequence">Use custom sequence</Label>
+                </div>
+                <Switch
+                  id="custom-sequence"
+                  checked={!!localSettings.sequence}
+                  disabled={isRunning}
+                  onCheckedChange={(checked) => handleSettingsUpdate({
+                    sequence: checked ? createSequenceFromSettings(localSettings) : null
+                  })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Build your own order of warm-ups, work sessions and breaks. Overrides the durations and iterations above.
+              </p>
+              {localSettings.sequence && (
+                <SequenceEditor
+                  sequence={localSettings.sequence}
+                  disabled={isRunning}
+                  onSave={(sequence) => handleSettingsUpdate({ sequence })}
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Auto-run */}
+          <div className="pt-6 border-t border-white/10">
+            <h2 className="text-lg font-semibold mb-4">Auto-run Plan</h2>
+            <AutoRunOptions />
+          </div>
+
+          {/* Plan rollover */}
+          <div className="pt-6 border-t border-white/10">
+            <h2 className="text-lg font-semibold mb-4">Plan Rollover</h2>
+            <PlanRolloverOptions />
+          </div>
+
+          {/* Goals */}
+          <div className="pt-6 border-t border-white/10">
+            <h2 className="text-lg font-semibold mb-4">Goals & Streaks</h2>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <span className="material-icons text-muted-foreground mr-3">today</span>
+                  <Label>Daily Goal</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleSettingsUpdate({
+                      dailyGoalMinutes: Math.max(0, localSettings.dailyGoalMinutes - 5)
+                    })}
+                  >
+                    -
+                  </Button>
+                  <span className="w-16 text-center font-semibold font-mono">
+                    {localSettings.dailyGoalMinutes > 0 ? `${localSettings.dailyGoalMinutes} min` : 'Off'}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleSettingsUpdate({
+                      dailyGoalMinutes: Math.min(480, localSettings.dailyGoalMinutes + 5)
+                    })}
+                  >
+                    +
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <span className="material-icons text-muted-foreground mr-3">date_range</span>
+                  <Label>Weekly Goal</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleSettingsUpdate({
+                      weeklyGoalMinutes: Math.max(0, localSettings.weeklyGoalMinutes - 30)
+                    })}
+                  >
+                    -
+                  </Button>
+                  <span className="w-16 text-center font-semibold font-mono">
+                    {localSettings.weeklyGoalMinutes > 0 ? formatDuration(localSettings.weeklyGoalMinutes * 60) : 'Off'}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleSettingsUpdate({
+                      weeklyGoalMinutes: Math.min(3000, localSettings.weeklyGoalMinutes + 30)
+                    })}
+                  >
+                    +
+                  </Button>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Without a daily goal, any day with a minute of practice keeps your streak going.
+              </p>
+
+              <div className="flex items-center justify-between gap-4 flex-wrap">
+                <div className="flex items-center">
+                  <span className="material-icons text-muted-foreground mr-3">self_improvement</span>
+                  <Label>Rest Days</Label>
+                </div>
+                <div className="flex items-center gap-1">
+                  {getOrderedWeekdays(localSettings.weekStartsOn).map(({ day, label, name }) => {
+                    const isRestDay = localSettings.restDays.includes(day);
+                    return (
+                      <Button
+                        key={day}
+                        variant={isRestDay ? "default" : "outline"}
+                        size="sm"
+                        className="h-8 w-9 px-0"
+                        aria-pressed={isRestDay}
+                        aria-label={name}
+                        title={name}
+                        onClick={() => handleSettingsUpdate({
+                          restDays: isRestDay
+                            ? localSettings.restDays.filter((d) => d !== day)
+                            : [...localSettings.restDays, day].sort()
+                        })}
+                      >
+                        {label}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <span className="material-icons text-muted-foreground mr-3">healing</span>
+                  <Label>Grace Days per Week</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleSettingsUpdate({
+                      streakGraceDays: Math.max(0, localSettings.streakGraceDays - 1)
+                    })}
+                  >
+                    -
+                  </Button>
+                  <span className="w-16 text-center font-semibold font-mono">{localSettings.streakGraceDays}</span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleSettingsUpdate({
+                      streakGraceDays: Math.min(3, localSettings.streakGraceDays + 1)
+                    })}
+                  >
+                    +
+                  </Button>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Missing a rest day never breaks your streak; grace days forgive other missed days each week.
+              </p>
             </div>
           </div>
 
@@ -576,9 +795,39 @@ export default function Settings() {
               </p>
             </div>
           </div>
+
+          {/* Shared links */}
+          <div className="pt-6 border-t border-white/10">
+            <h2 className="text-lg font-semibold mb-1">My Shared Links</h2>
+            <p className="text-xs text-muted-foreground mb-4">
+              Reports you've published. Set an expiry or a passphrase, hide a link from your teachers, or revoke it for good.
+            </p>
+            <SharedLinksManager />
+          </div>
         </div>
       )}
 
+      {/* Backup & Restore */}
+      <div className="mt-6 pt-4 border-t border-white/10">
+        <h3 className="text-sm font-medium text-foreground mb-1">Backup &amp; Restore</h3>
+        <p className="text-xs text-muted-foreground mb-3">
+          Download all your practice data as a file, or import a backup from another device.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="border-white/10"
+          onClick={() => setBackupDialogOpen(true)}
+        >
+          Back up or restore data
+        </Button>
+        <DataBackupDialog
+          open={backupDialogOpen}
+          onOpenChange={setBackupDialogOpen}
+          onImported={() => setLocalSettings(getSettings())}
+        />
+      </div>
+
       {/* Data Recovery */}
       {isLoggedIn && (
         <div className="mt-6 pt-4 border-t border-white/10">
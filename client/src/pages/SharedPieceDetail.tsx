@@ -1,7 +1,12 @@
 import { useState, useEffect } from 'react';
 import { useParams, useLocation, Link } from 'react-router-dom';
-import { decodeReportToken, type ReportSnapshot } from '@/lib/reportShare';
-import { supabase } from '@/lib/supabaseClient';
+import {
+    decodeReportToken,
+    fetchSharedReport,
+    getSavedReportPassphrase,
+    type ReportSnapshot,
+    type SharedReportStatus,
+} from '@/lib/reportShare';
 import { sanitizeHref } from '@/lib/urlSafety';
 import { RepertoirePiece, RepertoireBlock, LEVELS, PIECE_STATUSES, PIECE_TYPES } from '@/lib/repertoire.types';
 import { YouTubeEmbed, extractYouTubeId } from '@/components/YouTubeEmbed';
@@ -13,6 +18,7 @@ import { ArrowLeft, Calendar, FileText, Video, ExternalLink } from 'lucide-react
 import { cn } from '@/lib/utils';
 import { useSharedReport } from '@/contexts/SharedReportContext';
 import { ScoreUrlTooltip } from '@/components/ScoreUrlTooltip';
+import ReportCommentThread from '@/components/ReportCommentThread';
 
 function ReadOnlyRepertoireNotes({ blocks }: { blocks: RepertoireBlock[] }) {
     if (!blocks || blocks.length === 0) {
@@ -118,6 +124,7 @@ export default function SharedPieceDetail() {
     const [snapshot, setSnapshot] = useState<ReportSnapshot | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState(false);
+    const [linkStatus, setLinkStatus] = useState<SharedReportStatus | null>(null);
 
     // Apply meta robots tag to prevent indexing
     useEffect(() => {
@@ -148,50 +155,18 @@ export default function SharedPieceDetail() {
             setLoading(true);
             setError(false);
 
-            const fetchSnapshot = async () => {
-                // 1. Try Supabase first
-                if (supabase) {
-                    try {
-                        const { data, error } = await supabase
-                            .from('shared_reports')
-                            .select('data')
-                            .eq('id', id)
-                            .single();
-                        if (data && !error) {
-                            setSnapshot(data.data as ReportSnapshot);
-                            setLoading(false);
-                            return;
-                        }
-                    } catch (e) {
-                        console.warn("[SharedPieceDetail] Failed to load from Supabase, trying fallback:", e);
-                    }
-                }
-
-                // In dev, stop here if Supabase failed, since Netlify function is unavailable
-                if (import.meta.env.DEV) {
+            // Protected links reuse the passphrase entered on the report page
+            fetchSharedReport(id, { passphrase: getSavedReportPassphrase(id) })
+                .then((result) => {
+                    setSnapshot(result.snapshot);
+                    setLinkStatus(result.status);
+                    setError(!result.snapshot);
+                })
+                .catch((err) => {
+                    console.warn("[SharedPieceDetail] Failed to load shared report:", err);
                     setError(true);
-                    setLoading(false);
-                    return;
-                }
-
-                // 2. Fallback to Netlify function
-                try {
-                    const res = await fetch(`/.netlify/functions/share-report?id=${encodeURIComponent(id!)}`, {
-                        cache: "no-store",
-                        headers: { Accept: "application/json" },
-                    });
-                    if (!res.ok) throw new Error("Failed to fetch from Netlify function");
-                    const data = await res.json();
-                    setSnapshot(data as ReportSnapshot);
-                } catch (err) {
-                    console.warn("[SharedPieceDetail] Fallback fetch failed:", err);
-                    setError(true);
-                } finally {
-                    setLoading(false);
-                }
-            }
-
-            fetchSnapshot();
+                })
+                .finally(() => setLoading(false));
         } else if (token) {
             setLoading(true);
             setError(false);
@@ -218,6 +193,20 @@ export default function SharedPieceDetail() {
 
     const piece = snapshot?.embeddedPieces?.[pieceId || ''];
 
+    if (id && (linkStatus === 'passphrase_required' || linkStatus === 'wrong_passphrase')) {
+        return (
+            <div className="flex flex-col items-center justify-center py-20 text-foreground text-center">
+                <h1 className="text-2xl font-bold text-primary mb-2">Protected Report</h1>
+                <p className="text-muted-foreground text-sm max-w-sm mb-6 leading-relaxed">
+                    Enter the report's passphrase to see this piece.
+                </p>
+                <Button variant="outline" asChild className="border-white/10 rounded-xl">
+                    <Link to={`/r/${id}`}>Open the report</Link>
+                </Button>
+            </div>
+        );
+    }
+
     if (error || !snapshot || !piece) {
         return (
             <div className="flex flex-col items-center justify-center py-20 text-foreground text-center">
@@ -371,6 +360,16 @@ export default function SharedPieceDetail() {
                 </h3>
                 <ReadOnlyRepertoireNotes blocks={piece.notes} />
             </div>
+
+            {id && pieceId && (
+                <ReportCommentThread
+                    reportId={id}
+                    targetType="piece"
+                    targetId={pieceId}
+                    title="Feedback on this piece"
+                    className="border-t border-white/5 pt-6"
+                />
+            )}
         </div>
     );
 }
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/practiceLog";
+import { type ReportSnapshot, loadSharedReport } from "@/lib/reportShare";
+import { isSupabaseConfigured } from "@/lib/supabaseClient";
+import { teacherService } from "@/lib/teacherService";
+import {
+  type ReportSubscription,
+  addReportSubscription,
+  getReportSubscriptions,
+  removeReportSubscription,
+  summarizeReportForDashboard,
+} from "@/lib/teacherDashboard";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+const STALE_AFTER_DAYS = 7;
+
+interface DashboardSource {
+  key: string;
+  name: string;
+  reportId: string | null;
+  snapshot: ReportSnapshot | null;
+  isLoading: boolean;
+  /** Set for reports followed by link, which can be unfollowed here. */
+  subscription?: ReportSubscription;
+}
+
+function daysAgo(iso: string): number {
+  return Math.floor((Date.now() - new Date(iso).getTime()) / 86_400_000);
+}
+
+function formatPublished(iso: string): string {
+  const days = daysAgo(iso);
+  const date = new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  if (days <= 0) return `${date} · today`;
+  return `${date} · ${days === 1 ? "yesterday" : `${days} days ago`}`;
+}
+
+function DashboardRow({ source, onRemove }: { source: DashboardSource; onRemove: (id: string) => void }) {
+  const [showBehind, setShowBehind] = useState(false);
+  const row = source.snapshot ? summarizeReportForDashboard(source.snapshot) : null;
+  const name = source.name || source.snapshot?.creatorName || "Student";
+
+  return (
+    <>
+      <TableRow>
+        <TableCell className="font-medium max-w-[10rem] truncate">{name}</TableCell>
+        {!row ? (
+          <TableCell colSpan={5} className="text-sm text-muted-foreground">
+            {source.isLoading ? "Loading…" : source.reportId ? "Report not found." : "No published report yet."}
+          </TableCell>
+        ) : (
+          <>
+            <TableCell className="font-mono text-right">{formatDuration(row.weekSeconds)}</TableCell>
+            <TableCell className="font-mono text-right text-muted-foreground">{formatDuration(row.lastWeekSeconds)}</TableCell>
+            <TableCell className="font-mono text-right">{row.completions}</TableCell>
+            <TableCell className="text-right">
+              {row.behind.length === 0 ? (
+                <span className="text-emerald-400 text-sm">On track</span>
+              ) : (
+                <button
+                  type="button"
+                  className="text-amber-400 text-sm hover:underline"
+                  onClick={() => setShowBehind((v) => !v)}
+                  aria-expanded={showBehind}
+                >
+                  {row.behind.length} segment{row.behind.length === 1 ? "" : "s"}
+                </button>
+              )}
+            </TableCell>
+            <TableCell
+              className={cn(
+                "text-sm whitespace-nowrap",
+                daysAgo(row.lastPublished) > STALE_AFTER_DAYS ? "text-amber-400/80" : "text-muted-foreground"
+              )}
+            >
+              {formatPublished(row.lastPublished)}
+            </TableCell>
+          </>
+        )}
+        <TableCell className="text-right whitespace-nowrap">
+          {source.reportId && row && (
+            <Button asChild variant="ghost" size="sm">
+              <Link to={`/r/${source.reportId}`}>Open</Link>
+            </Button>
+          )}
+          {source.subscription && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+              onClick={() => onRemove(source.subscription!.id)}
+              aria-label={`Stop following ${name}`}
+            >
+              <span className="material-icons text-base">close</span>
+            </Button>
+          )}
+        </TableCell>
+      </TableRow>
+      {showBehind && row && row.behind.length > 0 && (
+        <TableRow className="hover:bg-transparent">
+          <TableCell />
+          <TableCell colSpan={6} className="pt-0">
+            <ul className="space-y-0.5 text-sm">
+              {row.behind.map((segment, i) => (
+                <li key={segment.id ?? i} className="flex items-center gap-2">
+                  <span className="flex-1 min-w-0 truncate">{segment.name || "Untitled segment"}</span>
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {formatDuration(segment.practicedSeconds)} / {formatDuration(segment.targetSeconds)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </TableCell>
+        </TableRow>
+      )}
+    </>
+  );
+}
+
+/**
+ * One table for all of a teacher's students: their linked accounts' latest
+ * reports and any report permalinks the teacher follows, with drill-down into
+ * the full report.
+ */
+export default function TeacherDashboard() {
+  const { isLoggedIn } = useAuth();
+  const { toast } = useToast();
+  const [subscriptions, setSubscriptions] = useState<ReportSubscription[]>(() => getReportSubscriptions());
+  const [linkInput, setLinkInput] = useState("");
+  const [labelInput, setLabelInput] = useState("");
+
+  const { data: linked = [] } = useQuery({
+    queryKey: ["linked-accounts"],
+    queryFn: teacherService.getLinkedAccounts,
+    enabled: isLoggedIn && isSupabaseConfigured,
+  });
+  const students = linked.filter((account) => account.relation === "student");
+
+  const studentReports = useQueries({
+    queries: students.map((student) => ({
+      queryKey: ["student-report", student.userId],
+      queryFn: () => teacherService.getLatestStudentReport(student.userId),
+    })),
+  });
+  const followedReports = useQueries({
+    queries: subscriptions.map((subscription) => ({
+      queryKey: ["shared-report", subscription.id],
+      queryFn: () => loadSharedReport(subscription.id),
+    })),
+  });
+
+  const studentReportIds = new Set(studentReports.map((q) => q.data?.id).filter(Boolean));
+  const sources: DashboardSource[] = [
+    ...students.map((student, i) => ({
+      key: `student:${student.userId}`,
+      name: student.name,
+      reportId: studentReports[i]?.data?.id ?? null,
+      snapshot: studentReports[i]?.data?.snapshot ?? null,
+      isLoading: !!studentReports[i]?.isLoading,
+    })),
+    ...subscriptions
+      // A linked student's permalink already has a row
+      .filter((subscription) => !studentReportIds.has(subscription.id))
+      .map((subscription) => {
+        const query = followedReports[subscriptions.indexOf(subscription)];
+        return {
+          key: `report:${subscription.id}`,
+          name: subscription.label,
+          reportId: subscription.id,
+          snapshot: query?.data ?? null,
+          isLoading: !!query?.isLoading,
+          subscription,
+        };
+      }),
+  ];
+
+  const handleAdd = () => {
+    const added = addReportSubscription(linkInput, labelInput);
+    if (!added) {
+      toast({ title: "Not a report link", description: "Paste a link like https://…/r/abc123XYZ0.", variant: "destructive" });
+      return;
+    }
+    setSubscriptions(getReportSubscriptions());
+    setLinkInput("");
+    setLabelInput("");
+  };
+
+  const handleRemove = (id: string) => {
+    removeReportSubscription(id);
+    setSubscriptions(getReportSubscriptions());
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          value={linkInput}
+          onChange={(e) => setLinkInput(e.target.value)}
+          placeholder="Student's report link"
+          className="flex-[2]"
+        />
+        <Input
+          value={labelInput}
+          onChange={(e) => setLabelInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAdd();
+          }}
+          placeholder="Name (optional)"
+          maxLength={80}
+          className="flex-1"
+        />
+        <Button onClick={handleAdd} disabled={!linkInput.trim()} className="shrink-0">
+          Follow
+        </Button>
+      </div>
+
+      {sources.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-10 text-center">
+          Paste the report link a student shared with you, or{" "}
+          <Link to="/teaching" className="underline hover:text-foreground">
+            invite students
+          </Link>{" "}
+          to see their latest published reports here.
+        </p>
+      ) : (
+        <div className="rounded-xl border border-white/10">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead className="text-right">This week</TableHead>
+                <TableHead className="text-right">Last week</TableHead>
+                <TableHead className="text-right">Completions</TableHead>
+                <TableHead className="text-right">Behind target</TableHead>
+                <TableHead>Published</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sources.map((source) => (
+                <DashboardRow key={source.key} source={source} onRemove={handleRemove} />
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Numbers come from each student's last published report; they update when the student publishes again.
+      </p>
+    </div>
+  );
+}
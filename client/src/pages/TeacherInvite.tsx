@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SignInPrompt } from "@/components/SignInPrompt";
+import { teacherService } from "@/lib/teacherService";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+/** Landing page of a teacher's invite link: join as their student. */
+export default function TeacherInvite() {
+  const { token = "" } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user, isLoggedIn } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+
+  const { data: preview, isLoading } = useQuery({
+    queryKey: ["teacher-invite", token],
+    queryFn: () => teacherService.getInvitePreview(token),
+    enabled: isLoggedIn && !!token,
+  });
+  const { data: profile } = useQuery({
+    queryKey: ["account-profile"],
+    queryFn: teacherService.getProfile,
+    enabled: isLoggedIn,
+  });
+
+  useEffect(() => {
+    if (profile?.display_name) setName(profile.display_name);
+  }, [profile]);
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const displayName = name.trim() || user?.email?.split("@")[0] || "";
+      if (displayName !== profile?.display_name) {
+        await teacherService.saveProfile({ role: profile?.role ?? "student", display_name: displayName });
+      }
+      return teacherService.acceptInvite(token);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["linked-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["account-profile"] });
+      toast({ title: `You joined ${preview?.teacherName ?? "your teacher"}`, description: "Lessons they send appear here." });
+      navigate("/lesson-plan");
+    },
+    onError: (e: Error) => toast({ title: "Could not accept invite", description: e.message, variant: "destructive" }),
+  });
+
+  if (!isLoggedIn) {
+    return (
+      <SignInPrompt
+        icon="school"
+        title="Join Your Teacher"
+        description="Sign in or create a free account to accept this invite. Your teacher can then send lessons to your Lesson Plan."
+      />
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const unusable = !preview || preview.expired || (preview.accepted && !acceptMutation.isSuccess);
+
+  return (
+    <div className="max-w-md mx-auto rounded-xl border border-white/10 bg-white/5 p-6 space-y-4">
+      <div className="flex items-center gap-3">
+        <span className="material-icons text-primary text-3xl">school</span>
+        <h2 className="text-lg font-semibold">
+          {preview ? `${preview.teacherName} invited you` : "Invite not found"}
+        </h2>
+      </div>
+      {unusable ? (
+        <p className="text-sm text-muted-foreground">
+          {!preview
+            ? "This invite link is invalid. Ask your teacher for a new one."
+            : preview.expired
+              ? "This invite link has expired. Ask your teacher for a new one."
+              : "This invite link has already been used. Ask your teacher for a new one."}
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            As their student, the lessons they send show up on your Lesson Plan page. They can see how long you practice
+            the items they assign, and you can both leave comments.
+          </p>
+          <div className="space-y-1.5">
+            <Label htmlFor="student-name">Your name</Label>
+            <Input
+              id="student-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="How your teacher will see you"
+              maxLength={80}
+            />
+          </div>
+          <Button className="w-full" onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+            Join as student
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
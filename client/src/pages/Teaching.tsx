@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SignInPrompt } from "@/components/SignInPrompt";
+import StudentAssignmentsCard from "@/components/StudentAssignmentsCard";
+import { teacherService } from "@/lib/teacherService";
+import type { TeacherInvite } from "@/lib/teacher.types";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+function inviteUrl(invite: TeacherInvite): string {
+  return `${window.location.origin}/invite/${invite.token}`;
+}
+
+export default function Teaching() {
+  const { user, isLoggedIn } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [nameInput, setNameInput] = useState("");
+
+  const { data: profile, isLoading: profileLoading } = useQuery({
+    queryKey: ["account-profile"],
+    queryFn: teacherService.getProfile,
+    enabled: isLoggedIn,
+  });
+  const isTeacher = profile?.role === "teacher";
+  const { data: linked = [] } = useQuery({
+    queryKey: ["linked-accounts"],
+    queryFn: teacherService.getLinkedAccounts,
+    enabled: isLoggedIn,
+  });
+  const { data: invites = [] } = useQuery({
+    queryKey: ["teacher-invites"],
+    queryFn: teacherService.getInvites,
+    enabled: isLoggedIn && isTeacher,
+  });
+
+  const profileMutation = useMutation({
+    mutationFn: () =>
+      teacherService.saveProfile({
+        role: "teacher",
+        display_name: nameInput.trim() || profile?.display_name || user?.email?.split("@")[0] || "Teacher",
+      }),
+    onSuccess: (saved) => queryClient.setQueryData(["account-profile"], saved),
+    onError: (e: Error) => toast({ title: "Could not save profile", description: e.message, variant: "destructive" }),
+  });
+
+  const copyInvite = async (invite: TeacherInvite) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invite));
+      toast({ title: "Invite link copied", description: "Send it to your student. It works once and expires in 14 days." });
+    } catch {
+      toast({ title: "Invite link", description: inviteUrl(invite) });
+    }
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: teacherService.createInvite,
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: ["teacher-invites"] });
+      copyInvite(invite);
+    },
+    onError: (e: Error) => toast({ title: "Could not create invite", description: e.message, variant: "destructive" }),
+  });
+
+  const deleteInviteMutation = useMutation({
+    mutationFn: teacherService.deleteInvite,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["teacher-invites"] }),
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: (teacherId: string) => teacherService.removeLink(teacherId, user!.id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["linked-accounts"] }),
+  });
+
+  if (!isLoggedIn) {
+    return (
+      <SignInPrompt
+        icon="groups"
+        title="Teach Your Students"
+        description="Send lesson plans to your students, follow their practice on what you assigned, and talk it through in comments."
+      />
+    );
+  }
+
+  const students = linked.filter((account) => account.relation === "student");
+  const teachers = linked.filter((account) => account.relation === "teacher");
+  const now = new Date().toISOString();
+  const openInvites = invites.filter((invite) => !invite.accepted_by && invite.expires_at > now);
+
+  return (
+    <div className="space-y-8">
+      {teachers.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Your teachers</h2>
+          <ul className="space-y-2">
+            {teachers.map((teacher) => (
+              <li key={teacher.userId} className="flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+                <span className="material-icons text-muted-foreground">school</span>
+                <span className="flex-1 min-w-0 truncate font-medium">{teacher.name}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-muted-foreground hover:text-destructive"
+                  onClick={() => leaveMutation.mutate(teacher.userId)}
+                  disabled={leaveMutation.isPending}
+                >
+                  Leave
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">Lessons they send appear at the top of your Lesson Plan page.</p>
+        </section>
+      )}
+
+      {profileLoading ? null : !isTeacher ? (
+        <section className="rounded-xl border border-white/10 bg-white/5 p-4 space-y-3">
+          <h2 className="text-lg font-semibold">Teaching</h2>
+          <p className="text-sm text-muted-foreground">
+            Set up a teacher profile to invite students, send them lessons from your Lesson Plan, and see how much
+            they practice what you assigned.
+          </p>
+          <div className="space-y-1.5">
+            <Label htmlFor="teacher-name">Name your students will see</Label>
+            <Input
+              id="teacher-name"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              placeholder={profile?.display_name || "e.g. Ms. Rivera"}
+              maxLength={80}
+            />
+          </div>
+          <Button onClick={() => profileMutation.mutate()} disabled={profileMutation.isPending}>
+            I'm a teacher
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Students already send you report links?{" "}
+            <Link to="/teaching/dashboard" className="underline hover:text-foreground">
+              Follow them side by side
+            </Link>
+            .
+          </p>
+        </section>
+      ) : (
+        <section className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold">Students</h2>
+            <div className="flex items-center gap-2">
+              <Button asChild variant="outline" className="h-9 !rounded-full px-4 border-white/10">
+                <Link to="/teaching/dashboard">
+                  <span className="material-icons text-base mr-1.5">table_chart</span>
+                  Reports
+                </Link>
+              </Button>
+              <Button
+                onClick={() => inviteMutation.mutate()}
+                disabled={inviteMutation.isPending}
+                className="h-9 !rounded-full px-4"
+              >
+                <span className="material-icons text-base mr-1.5">person_add</span>
+                Invite student
+              </Button>
+            </div>
+          </div>
+          {openInvites.length > 0 && (
+            <ul className="space-y-1">
+              {openInvites.map((invite) => (
+                <li key={invite.token} className="flex items-center gap-2 text-sm">
+                  <span className="material-icons text-sm text-muted-foreground">link</span>
+                  <span className="flex-1 min-w-0 truncate text-muted-foreground">
+                    Invite link · expires{" "}
+                    {new Date(invite.expires_at).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => copyInvite(invite)}>
+                    Copy
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => deleteInviteMutation.mutate(invite.token)}
+                  >
+                    Revoke
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {students.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">
+              No students yet. Create an invite link and send it to a student; they join by opening it while signed in.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {students.map((student) => (
+                <StudentAssignmentsCard key={student.userId} student={student} teacherId={user!.id} />
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
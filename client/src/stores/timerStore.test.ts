@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
 // Capture the worker mock so tests can assert on postMessage and simulate
 // worker-to-store messages (e.g. PIECE_TICK during segment overtime).
@@ -33,23 +33,63 @@ vi.mock('@/lib/practicePlan', () => ({
     practicePlanApi: {
         getSegmentItems: vi.fn(() => []),
         checkItem: vi.fn((plan: unknown) => plan),
+        recordTempoRun: vi.fn(),
     },
 }));
 
+vi.mock('@/lib/metronome', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@/lib/metronome')>();
+    return { ...actual, getMetronomeStatus: vi.fn(actual.getMetronomeStatus) };
+});
+
 vi.mock('@/lib/userDataSync', () => ({
     scheduleUserDataPush: vi.fn(),
 }));
 
+vi.mock('@/lib/sessionJournal', () => ({
+    recordJournalTime: vi.fn(),
+    closeJournalEntry: vi.fn(),
+}));
+
+vi.mock('@/lib/voiceCues', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/voiceCues')>()),
+    speak: vi.fn(),
+}));
+
 import { useTimerStore } from './timerStore';
 import { DEFAULT_SETTINGS } from '@/lib/timerService';
-import { addDetailedPracticeTime } from '@/lib/practiceLog';
+import { addDetailedPracticeTime, logSegmentCompletion } from '@/lib/practiceLog';
+import { recordJournalTime, closeJournalEntry } from '@/lib/sessionJournal';
+import { getMetronomeStatus } from '@/lib/metronome';
+import { addMessageHandler } from '@/lib/timerWorkerSingleton';
+import { DEFAULT_VOICE_CUES, saveVoiceCues, speak } from '@/lib/voiceCues';
+import { DEFAULT_AUTO_RUN, saveAutoRunSettings } from '@/lib/autoRun';
+import { getPracticePlan, practicePlanApi } from '@/lib/practicePlan';
 
 // Simulate a PIECE_TICK message coming from the worker.
-function emitPieceTick() {
+function emitPieceTick(seconds?: number) {
     if (!capturedMessageHandler) {
         throw new Error('Worker message handler was not captured — did you call initializeWorker() first?');
     }
-    capturedMessageHandler({ data: { type: 'PIECE_TICK' } } as MessageEvent);
+    const payload = seconds === undefined ? undefined : { seconds };
+    capturedMessageHandler({ data: { type: 'PIECE_TICK', payload } } as MessageEvent);
+}
+
+// The store attaches its handler only on the first initializeWorker(); later
+// tests pick it up from the mock's recorded calls.
+async function attachWorker() {
+    await useTimerStore.getState().initializeWorker();
+    capturedMessageHandler = vi.mocked(addMessageHandler).mock.calls[0][0];
+}
+
+// Simulate a countdown TICK from the worker.
+function emitTick(timeRemaining: number) {
+    if (!capturedMessageHandler) {
+        throw new Error('Worker message handler was not captured — did you call attachWorker() first?');
+    }
+    capturedMessageHandler({
+        data: { type: 'TICK', payload: { timeRemaining, mode: 'work', currentIteration: 1, totalIterations: 4, intervalIndex: 0 } },
+    } as MessageEvent);
 }
 
 describe('timerStore', () => {
@@ -157,6 +197,15 @@ describe('timerStore', () => {
         expect(state.pieceTotalTime).toBe(600);
     });
 
+    it('selectPiece loads the segment tempo into the metronome', () => {
+        useTimerStore.getState().selectPiece('piece-2', 'Etude', 10, 'day', 96);
+        expect(getMetronomeStatus().settings.tempo).toBe(96);
+
+        // Segments without a tempo leave the metronome alone
+        useTimerStore.getState().selectPiece('piece-3', 'Scales', 10, 'day');
+        expect(getMetronomeStatus().settings.tempo).toBe(96);
+    });
+
     it('startPieceOvertime starts overtime count and logs time', async () => {
         // Initialize worker so the store attaches its message handler (which
         // we intercept via the mocked addMessageHandler).
@@ -184,6 +233,7 @@ describe('timerStore', () => {
         // Store should have asked the worker to start ticking.
         expect(workerMock.postMessage).toHaveBeenCalledWith({ type: 'PIECE_TICK_START' });
 
+        vi.mocked(recordJournalTime).mockClear();
         // Simulate 3 worker-driven ticks (1s each).
         emitPieceTick();
         emitPieceTick();
@@ -191,6 +241,9 @@ describe('timerStore', () => {
 
         expect(useTimerStore.getState().pieceTimeRemaining).toBe(7);
         expect(addDetailedPracticeTime).toHaveBeenCalledWith('piece-1', 'Bach Prelude', 1);
+        // Overtime is journaled as a segment run in break mode, not as a work interval
+        expect(recordJournalTime).toHaveBeenCalledWith('segment', 1, { mode: 'break', pieceId: 'piece-1', pieceName: 'Bach Prelude' });
+        expect(recordJournalTime).not.toHaveBeenCalledWith('interval', expect.anything(), expect.anything());
 
         // Stop overtime
         useTimerStore.getState().stopPieceOvertime();
@@ -198,6 +251,195 @@ describe('timerStore', () => {
         expect(workerMock.postMessage).toHaveBeenCalledWith({ type: 'PIECE_TICK_STOP' });
     });
 
+    it('counts a piece tick that caught up after sleep as all of its seconds', async () => {
+        await attachWorker();
+        useTimerStore.setState({
+            mode: 'break',
+            activePieceId: 'piece-1',
+            activePieceName: 'Bach Prelude',
+            pieceTimeRemaining: 60,
+            pieceTotalTime: 60,
+            isPieceOvertime: true,
+            pieceOvertimeRunning: true,
+        });
+
+        emitPieceTick(42);
+
+        expect(useTimerStore.getState().pieceTimeRemaining).toBe(18);
+        expect(addDetailedPracticeTime).toHaveBeenCalledWith('piece-1', 'Bach Prelude', 42);
+    });
+
+    it('attributes each second once when worker ticks and the iOS fallback interleave', async () => {
+        await attachWorker();
+        useTimerStore.setState({ mode: 'work', timeRemaining: 1500, isRunning: true });
+        vi.mocked(recordJournalTime).mockClear();
+
+        emitTick(1499);
+        // The fallback started a few ms later and still reads 1500, then catches up
+        useTimerStore.getState().setTimeRemaining(1500);
+        useTimerStore.getState().setTimeRemaining(1499);
+        // A throttled worker wakes up 30 seconds later
+        emitTick(1469);
+        useTimerStore.getState().setTimeRemaining(1469);
+
+        const attributed = vi.mocked(recordJournalTime).mock.calls
+            .filter(([kind]) => kind === 'interval')
+            .reduce((sum, [, seconds]) => sum + seconds, 0);
+        expect(attributed).toBe(31);
+        expect(useTimerStore.getState().timeRemaining).toBe(1469);
+    });
+
+    it('announces a time-left threshold once, naming the active segment', async () => {
+        saveVoiceCues({ ...DEFAULT_VOICE_CUES, enabled: true });
+        await attachWorker();
+        useTimerStore.setState({
+            mode: 'work', timeRemaining: 1000, isRunning: false,
+            activePieceId: 'piece-1', activePieceName: 'Scales', pieceTimeRemaining: 302, isPiecePaused: false,
+        });
+        // Starting the run marks where its countdown is attributed from
+        await useTimerStore.getState().startTimer();
+        vi.mocked(speak).mockClear();
+
+        emitTick(999);
+        emitTick(998);
+        emitTick(997);
+
+        expect(speak).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(speak).mock.calls[0][0]).toBe('5 minutes left in Scales');
+        saveVoiceCues(DEFAULT_VOICE_CUES);
+    });
+
+    it("counts a segment's time-left cue down from the segment, not the interval", async () => {
+        saveVoiceCues({ ...DEFAULT_VOICE_CUES, enabled: true });
+        await attachWorker();
+        useTimerStore.setState({
+            mode: 'work', timeRemaining: 302, isRunning: false,
+            activePieceId: 'piece-1', activePieceName: 'Scales', pieceTimeRemaining: 720, isPiecePaused: false,
+        });
+        // Starting the run marks where its countdown is attributed from
+        await useTimerStore.getState().startTimer();
+        vi.mocked(speak).mockClear();
+
+        emitTick(301);
+        emitTick(300);
+        emitTick(299);
+
+        expect(speak).not.toHaveBeenCalled();
+        expect(useTimerStore.getState().pieceTimeRemaining).toBe(717);
+        saveVoiceCues(DEFAULT_VOICE_CUES);
+    });
+
+    describe('tempo runs', () => {
+        const tempoPlan = () => [{
+            id: 'etude', text: 'Etude', checked: false, children: [], blockType: 'segment' as const, tempo: 96,
+            tempoProgression: { startTempo: 96, targetTempo: 120, step: 4, runsPerStep: 1 },
+        }];
+
+        beforeEach(async () => {
+            vi.mocked(getPracticePlan).mockReturnValue(tempoPlan());
+            vi.mocked(logSegmentCompletion).mockClear();
+            vi.mocked(practicePlanApi.recordTempoRun).mockClear();
+            await attachWorker();
+            useTimerStore.getState().selectPiece('etude', 'Etude', 1, 'day', 96);
+            useTimerStore.setState({ mode: 'break', isPieceOvertime: true, pieceOvertimeRunning: true });
+        });
+
+        afterEach(() => {
+            vi.mocked(getPracticePlan).mockReturnValue([]);
+            useTimerStore.getState().clearPiece();
+        });
+
+        it('logs no tempo and leaves the goal alone when the metronome stayed off', () => {
+            emitPieceTick(60);
+
+            expect(logSegmentCompletion).toHaveBeenCalledWith('etude', expect.any(Number), undefined);
+            expect(practicePlanApi.recordTempoRun).not.toHaveBeenCalled();
+        });
+
+        it('records the run at the tempo the metronome played', () => {
+            const status = getMetronomeStatus();
+            vi.mocked(getMetronomeStatus).mockReturnValueOnce({ ...status, running: true, settings: { ...status.settings, tempo: 100 } });
+            emitPieceTick(30);
+            emitPieceTick(30);
+
+            expect(logSegmentCompletion).toHaveBeenCalledWith('etude', expect.any(Number), 100);
+            expect(practicePlanApi.recordTempoRun).toHaveBeenCalledWith(expect.anything(), 'etude', 100);
+        });
+    });
+
+    it('mirrors the active segment to the worker for its warning chimes', async () => {
+        await attachWorker();
+        workerMock.postMessage.mockClear();
+
+        useTimerStore.getState().selectPiece('piece-1', 'Scales', 10, 'day');
+        expect(workerMock.postMessage).toHaveBeenCalledWith({
+            type: 'UPDATE_PIECE',
+            payload: { id: 'piece-1', timeRemaining: 600, totalTime: 600, paused: false, overtime: false },
+        });
+
+        useTimerStore.getState().clearPiece();
+        expect(workerMock.postMessage).toHaveBeenLastCalledWith({ type: 'UPDATE_PIECE', payload: null });
+    });
+
+    it('auto-runs the next plan segment after the transition pause, keeping overtime going', async () => {
+        saveAutoRunSettings({ ...DEFAULT_AUTO_RUN, enabled: true, transitionSeconds: 10 });
+        vi.mocked(getPracticePlan).mockReturnValue([
+            { id: 'scales', text: 'Scales', checked: false, children: [], blockType: 'segment' },
+            { id: 'etude', text: 'Etude', checked: false, children: [], blockType: 'segment', allocatedTime: 5 },
+        ]);
+        await attachWorker();
+        vi.useFakeTimers();
+        try {
+            useTimerStore.setState({
+                mode: 'break',
+                activePieceId: 'scales',
+                activePieceName: 'Scales',
+                pieceTimeRemaining: 1,
+                pieceTotalTime: 60,
+                pieceOvertimeRunning: true,
+            });
+
+            emitPieceTick(1);
+
+            expect(useTimerStore.getState().activePieceId).toBeNull();
+            expect(useTimerStore.getState().pendingSegment).toMatchObject({ id: 'etude', name: 'Etude' });
+
+            vi.advanceTimersByTime(10_000);
+
+            expect(useTimerStore.getState().pendingSegment).toBeNull();
+            expect(useTimerStore.getState().activePieceId).toBe('etude');
+            expect(useTimerStore.getState().pieceTimeRemaining).toBe(300);
+            expect(useTimerStore.getState().pieceOvertimeRunning).toBe(true);
+        } finally {
+            vi.useRealTimers();
+            vi.mocked(getPracticePlan).mockReturnValue([]);
+            saveAutoRunSettings(DEFAULT_AUTO_RUN);
+        }
+    });
+
+    it('plays a loaded session in its own order, even with auto-run off', async () => {
+        saveAutoRunSettings({ ...DEFAULT_AUTO_RUN, transitionSeconds: 0 });
+        await attachWorker();
+        const segment = (id: string, minutes: number) => ({
+            id, name: id, minutes, period: 'day' as const, checked: false, sectionId: null, sectionName: null,
+        });
+        try {
+            useTimerStore.getState().loadSession([segment('scales', 5), segment('mozart', 7)]);
+            expect(useTimerStore.getState().activePieceId).toBe('scales');
+            expect(useTimerStore.getState().sessionQueue.map((s) => s.id)).toEqual(['mozart']);
+
+            useTimerStore.setState({ mode: 'break', pieceTimeRemaining: 1, pieceOvertimeRunning: true });
+            emitPieceTick(1);
+
+            expect(useTimerStore.getState().activePieceId).toBe('mozart');
+            expect(useTimerStore.getState().pieceTimeRemaining).toBe(420);
+            expect(useTimerStore.getState().sessionQueue).toEqual([]);
+        } finally {
+            useTimerStore.getState().clearSession();
+            saveAutoRunSettings(DEFAULT_AUTO_RUN);
+        }
+    });
+
     it('skipTimer updates mode and timeRemaining atomically from work to break', async () => {
         useTimerStore.setState({
             mode: 'work',
@@ -215,6 +457,7 @@ describe('timerStore', () => {
         expect(state.mode).toBe('break');
         expect(state.timeRemaining).toBe(DEFAULT_SETTINGS.breakDuration * 60);
         expect(state.totalTime).toBe(DEFAULT_SETTINGS.breakDuration * 60);
+        expect(closeJournalEntry).toHaveBeenCalledWith('interval', 'skipped');
     });
 
     it('skipTimer updates mode and timeRemaining atomically from break to work', async () => {
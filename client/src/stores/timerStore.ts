@@ -4,8 +4,42 @@ import { getSettings, getTimerProgress, saveTimerProgress, clearTimerProgress }
 import { addPracticeTime, addDetailedPracticeTime, getPiecePracticedSeconds, logSegmentCompletion } from '@/lib/practiceLog';
 import { getPracticePlan, practicePlanApi } from '@/lib/practicePlan';
 import { scheduleUserDataPush } from '@/lib/userDataSync';
+import { recordJournalTime, closeJournalEntry } from '@/lib/sessionJournal';
 import { getTimerWorker, addMessageHandler, removeMessageHandler } from '@/lib/timerWorkerSingleton';
-import { playSound, resumeAudioContext, unlockAudioContext, startSilenceKeepAlive, stopSilenceKeepAlive } from '@/lib/soundEffects';
+import { getMetronomeStatus, setMetronomeSettings } from '@/lib/metronome';
+import { findPlanItem } from '@/lib/tempoProgression';
+import { type QueuedSegment, getAutoRunSettings, getNextSegment } from '@/lib/autoRun';
+import {
+  playEventSound,
+  playSound,
+  preloadEventSounds,
+  preloadSounds,
+  resumeAudioContext,
+  unlockAudioContext,
+  startSilenceKeepAlive,
+  stopSilenceKeepAlive
+} from '@/lib/soundEffects';
+import {
+  getSequenceIntervals,
+  countWorkIntervals,
+  getIterationForIndex,
+  getIntervalSeconds,
+  resolveIntervalIndex,
+  isLongBreakAt
+} from '@/lib/intervalSequence';
+import {
+  type VoiceCueEvent,
+  PRACTICE_COMPLETE_MESSAGE,
+  cancelSpeech,
+  getCrossedThreshold,
+  getVoiceCues,
+  intervalEndMessage,
+  isVoiceCueOn,
+  primeSpeech,
+  segmentCompleteMessage,
+  speak,
+  timeLeftMessage
+} from '@/lib/voiceCues';
 
 // Clean up stale pending messages (older than 5 seconds) - global cleanup
 if (typeof window !== 'undefined') {
@@ -22,6 +56,7 @@ interface TimerState {
   mode: 'work' | 'break';
   currentIteration: number;
   totalIterations: number;
+  intervalIndex: number; // position in the flattened interval sequence
   isPracticeComplete: boolean;
   isSkipping: boolean; // Flag to prevent concurrent skip operations
   activePieceId: string | null;
@@ -32,6 +67,10 @@ interface TimerState {
   isPieceOvertime: boolean;      // piece has time remaining after the work session ended
   pieceOvertimeRunning: boolean; // the piece-only interval is actively counting
   audioInitialized: boolean;
+  /** Auto-run: the segment that starts when the transition pause ends. */
+  pendingSegment: { id: string; name: string; startsAt: number } | null;
+  /** A loaded daily session: the segments still to play after the current one. */
+  sessionQueue: QueuedSegment[];
 
   // Settings
   settings: SettingsType;
@@ -51,12 +90,19 @@ interface TimerState {
   setSettings: (settings: SettingsType) => void;
   setWorkerReady: (ready: boolean) => void;
   setActivePiece: (id: string | null, name: string | null) => void;
-  selectPiece: (id: string, name: string, allocatedMinutes: number, period: 'day' | 'week') => void;
+  /** `tempo` is the segment's default metronome tempo, if it has one. */
+  selectPiece: (id: string, name: string, allocatedMinutes: number, period: 'day' | 'week', tempo?: number) => void;
   clearPiece: () => void;
   togglePausePiece: () => void;
   setAudioInitialized: (initialized: boolean) => void;
   startPieceOvertime: () => void | Promise<void>;
   stopPieceOvertime: () => void;
+  /** Start the pending auto-run segment without waiting out the pause. */
+  startPendingSegment: () => void;
+  cancelPendingSegment: () => void;
+  /** Select the session's first segment and queue the rest to follow it. */
+  loadSession: (segments: QueuedSegment[]) => void;
+  clearSession: () => void;
 
   // Complex actions
   startTimer: () => Promise<void>;
@@ -72,26 +118,31 @@ interface TimerState {
 
 // Get saved settings or use defaults
 const savedSettings = getSettings();
-const DEFAULT_WORK_TIME = savedSettings.workDuration * 60;
+const savedIntervals = getSequenceIntervals(savedSettings);
 
 // Rehydrate timer progress from localStorage (always restored as paused)
 const savedProgress = getTimerProgress();
 
 // Sanitize savedProgress if it holds a corrupt/desynchronized state (e.g. break mode with work duration timeRemaining)
-let initialMode: 'work' | 'break' = (savedProgress?.mode ?? 'work') as 'work' | 'break';
-let initialTimeRemaining = savedProgress?.timeRemaining ?? DEFAULT_WORK_TIME;
+const initialMode: 'work' | 'break' = (savedProgress?.mode ?? savedIntervals[0].mode) as 'work' | 'break';
+const initialIntervalIndex = savedProgress
+  ? resolveIntervalIndex(
+      savedIntervals,
+      savedProgress.intervalIndex,
+      initialMode,
+      savedProgress.currentIteration,
+      savedProgress.isLongBreak
+    )
+  : 0;
+let initialTimeRemaining = savedProgress?.timeRemaining ?? getIntervalSeconds(savedIntervals, 0);
 let initialTotalTime = savedProgress?.totalTime ?? initialTimeRemaining;
 
 if (savedProgress && !savedProgress.isPracticeComplete) {
-  const workSec = savedSettings.workDuration * 60;
-  const breakSec = savedSettings.breakDuration * 60;
-
-  if (initialMode === 'break' && initialTimeRemaining > breakSec) {
-    initialTimeRemaining = breakSec;
-    initialTotalTime = breakSec;
-  } else if (initialMode === 'work' && initialTimeRemaining > workSec) {
-    initialTimeRemaining = workSec;
-    initialTotalTime = workSec;
+  const intervalSec = getIntervalSeconds(savedIntervals, initialIntervalIndex);
+
+  if (initialTimeRemaining > intervalSec) {
+    initialTimeRemaining = intervalSec;
+    initialTotalTime = intervalSec;
   }
 }
 
@@ -102,14 +153,18 @@ function persistProgress(state: {
   mode: 'work' | 'break';
   currentIteration: number;
   totalIterations: number;
+  intervalIndex: number;
   isPracticeComplete: boolean;
 }) {
+  const intervals = getSequenceIntervals(useTimerStore.getState().settings);
   saveTimerProgress({
     timeRemaining: state.timeRemaining,
     totalTime: state.totalTime,
     mode: state.mode,
     currentIteration: state.currentIteration,
     totalIterations: state.totalIterations,
+    intervalIndex: state.intervalIndex,
+    isLongBreak: isLongBreakAt(intervals, state.intervalIndex),
     isPracticeComplete: state.isPracticeComplete,
   });
 }
@@ -137,11 +192,39 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
     }
   };
 
+  // Mirror the active segment's countdown to the worker, which plays its
+  // warning chimes (and keeps counting it down while the page is hidden).
+  const syncWorkerPiece = (previous: TimerState) => {
+    const s = get();
+    if (!worker || (
+      previous.activePieceId === s.activePieceId &&
+      previous.pieceTimeRemaining === s.pieceTimeRemaining &&
+      previous.pieceTotalTime === s.pieceTotalTime &&
+      previous.isPiecePaused === s.isPiecePaused &&
+      previous.isPieceOvertime === s.isPieceOvertime
+    )) {
+      return;
+    }
+    worker.postMessage({
+      type: 'UPDATE_PIECE',
+      payload: s.activePieceId && s.pieceTimeRemaining > 0
+        ? {
+            id: s.activePieceId,
+            timeRemaining: s.pieceTimeRemaining,
+            totalTime: s.pieceTotalTime,
+            paused: s.isPiecePaused,
+            overtime: s.isPieceOvertime
+          }
+        : null
+    });
+  };
+
   // Shadow set to automatically derive isPieceOvertime and manage pieceOvertimeRunning
   const set = (
     partial: TimerState | Partial<TimerState> | ((state: TimerState) => TimerState | Partial<TimerState>),
     replace?: boolean
   ) => {
+    const previous = get();
     baseSet((state) => {
       const nextState = typeof partial === 'function' ? partial(state) : partial;
 
@@ -175,8 +258,13 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
         pieceOvertimeRunning: nextPieceOvertimeRunning
       } as any;
     }, replace as any);
+    syncWorkerPiece(previous);
   };
 
+  // Metronome tempo heard while the active segment counted down; null until
+  // the metronome runs during it, so a silent run logs no tempo
+  let segmentMetronomeTempo: number | null = null;
+
   /**
    * Attribute `diff` seconds of practice time to whatever the user is currently
    * doing. Shared between the main-timer TICK path (during work sessions),
@@ -196,6 +284,11 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
     if (diff <= 0) return;
     const s = get();
 
+    // Overtime ticks run during a break, outside any work interval
+    if (!s.isPieceOvertime) {
+      recordJournalTime('interval', diff, { mode: 'work' });
+    }
+
     if (!s.activePieceId) {
       addPracticeTime(diff);
       return;
@@ -210,15 +303,33 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
 
     // Records to piece detail AND general practice time (see addDetailedPracticeTime)
     addDetailedPracticeTime(s.activePieceId, pieceName, diff);
+    recordJournalTime('segment', diff, {
+      mode: s.isPieceOvertime ? 'break' : 'work',
+      pieceId: s.activePieceId,
+      pieceName,
+    });
 
     if (s.pieceTimeRemaining <= 0) return;
 
+    const metronome = getMetronomeStatus();
+    if (metronome.running) segmentMetronomeTempo = metronome.settings.tempo;
+
     const nextPieceTime = Math.max(0, s.pieceTimeRemaining - diff);
     set({ pieceTimeRemaining: nextPieceTime });
 
     if (nextPieceTime === 0) {
-      logSegmentCompletion(s.activePieceId);
-      practicePlanApi.checkItem(getPracticePlan(), s.activePieceId);
+      // Segments with a tempo record the metronome tempo the run was played at
+      const planItem = findPlanItem(getPracticePlan(), s.activePieceId);
+      const usedTempo = planItem && (planItem.tempo || planItem.tempoProgression)
+        ? segmentMetronomeTempo ?? undefined
+        : undefined;
+      segmentMetronomeTempo = null;
+      logSegmentCompletion(s.activePieceId, Date.now(), usedTempo);
+      closeJournalEntry('segment', 'completed');
+      const checkedPlan = practicePlanApi.checkItem(getPracticePlan(), s.activePieceId);
+      if (usedTempo && planItem?.tempoProgression) {
+        practicePlanApi.recordTempoRun(checkedPlan, s.activePieceId, usedTempo);
+      }
       scheduleUserDataPush();
 
       if (typeof window !== 'undefined') {
@@ -226,6 +337,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
           detail: { name: s.activePieceName, id: s.activePieceId }
         }));
       }
+      announce('segmentComplete', segmentCompleteMessage(pieceName));
 
       set({
         activePieceId: null,
@@ -234,7 +346,114 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
         pieceTotalTime: 0,
         isPiecePaused: false
       });
+
+      queueNextSegment(s.activePieceId, s.pieceOvertimeRunning);
+    }
+  };
+
+  // Auto-run: the pending segment's start, while a transition pause runs
+  let pendingSegmentTimeout: ReturnType<typeof setTimeout> | null = null;
+  let startPendingSegmentNow: (() => void) | null = null;
+
+  const clearPendingSegment = () => {
+    if (pendingSegmentTimeout) {
+      clearTimeout(pendingSegmentTimeout);
+      pendingSegmentTimeout = null;
     }
+    startPendingSegmentNow = null;
+    if (get().pendingSegment) set({ pendingSegment: null });
+  };
+
+  /**
+   * Start the next segment after the one that just finished, once the
+   * transition pause is over: the loaded session's next segment if there is
+   * one, otherwise (with auto-run on) the plan's next unchecked segment. A
+   * segment that finished in overtime (on a break) hands the overtime on.
+   */
+  const queueNextSegment = (completedId: string, continueOvertime: boolean) => {
+    const autoRun = getAutoRunSettings();
+    const sessionQueue = get().sessionQueue.filter((segment) => segment.id !== completedId);
+    if (sessionQueue.length !== get().sessionQueue.length) set({ sessionQueue });
+    const next = sessionQueue[0]
+      ?? (autoRun.enabled ? getNextSegment(getPracticePlan(), completedId, autoRun) : null);
+    if (!next) return;
+
+    clearPendingSegment();
+    const begin = () => {
+      clearPendingSegment();
+      set((state) => ({ sessionQueue: state.sessionQueue.filter((segment) => segment.id !== next.id) }));
+      get().selectPiece(next.id, next.name, next.minutes, next.period, next.tempo);
+      if (continueOvertime && get().isPieceOvertime) {
+        get().startPieceOvertime();
+      }
+    };
+    if (autoRun.transitionSeconds <= 0) {
+      begin();
+      return;
+    }
+    const delayMs = autoRun.transitionSeconds * 1000;
+    set({ pendingSegment: { id: next.id, name: next.name, startsAt: Date.now() + delayMs } });
+    startPendingSegmentNow = begin;
+    pendingSegmentTimeout = setTimeout(begin, delayMs);
+  };
+
+  // Volume (0-100) for store-triggered cues, or 0 when sound is off
+  const getCueVolume = () => {
+    const { settings } = get();
+    if (!settings.soundEnabled) return 0;
+    return Math.min(100, Math.max(0, settings.volume <= 1 ? settings.volume * 100 : settings.volume));
+  };
+
+  // Start/reset/skip cues. Silent unless a sound is chosen for them in Settings.
+  const playCue = (event: 'start' | 'reset' | 'skip') => {
+    const volume = getCueVolume();
+    if (volume > 0) {
+      playEventSound(event, 1, volume, get().settings.soundType);
+    }
+  };
+
+  // Spoken cues, when turned on in Settings. Time-left cues fall back to a
+  // short tone where speech is unavailable; the other events play their own
+  // sounds regardless.
+  const announce = (event: VoiceCueEvent, text: string) => {
+    const volume = getCueVolume();
+    if (volume <= 0 || !isVoiceCueOn(getVoiceCues(), event)) return;
+    const fallback = event === 'timeLeft'
+      ? () => { playSound('start', 1, volume, get().settings.soundType); }
+      : undefined;
+    speak(text, volume, fallback);
+  };
+
+  // Announce a time-left threshold passed between two TICKs. A cue naming the
+  // active segment counts down that segment; otherwise the interval's countdown.
+  const announceTimeLeft = (previous: TimerState) => {
+    const cues = getVoiceCues();
+    if (!isVoiceCueOn(cues, 'timeLeft')) return;
+    const s = get();
+    const inSegment = s.mode === 'work' && !!s.activePieceId && s.activePieceId === previous.activePieceId
+      && !s.isPiecePaused;
+    const segmentName = inSegment ? s.activePieceName?.trim() : undefined;
+    const threshold = segmentName
+      ? getCrossedThreshold(previous.pieceTimeRemaining, s.pieceTimeRemaining, cues.thresholds)
+      : getCrossedThreshold(previous.timeRemaining, s.timeRemaining, cues.thresholds);
+    if (threshold === null) return;
+    const place = segmentName
+      ? segmentName
+      : getSequenceIntervals(s.settings)[s.intervalIndex]?.name ?? (s.mode === 'work' ? 'this session' : 'this break');
+    announce('timeLeft', timeLeftMessage(threshold, place));
+  };
+
+  // Lowest countdown value already attributed in the current run. Both the
+  // worker's TICKs and the iOS fallback timer report the same deadline, each
+  // from its own clock, so they can briefly disagree by a second; counting
+  // only below this mark attributes every second exactly once.
+  let countedDownTo: number | null = null;
+
+  const attributeCountdown = (timeRemaining: number) => {
+    const from = countedDownTo ?? get().timeRemaining;
+    if (timeRemaining >= from) return;
+    countedDownTo = timeRemaining;
+    attributePracticeTime(from - timeRemaining);
   };
 
   // Send message to worker with sequence number
@@ -296,6 +515,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
             timeRemaining: initialTimeRemaining,
             currentIteration: savedProgress.currentIteration,
             totalIterations: savedProgress.totalIterations,
+            intervalIndex: initialIntervalIndex,
             isRunning: false
           });
         }
@@ -358,9 +578,8 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
               // Skip piece logging when isPieceOvertime — the worker-driven PIECE_TICK owns that.
               const oldState = get();
               const isWorkMode = oldState.mode === 'work' || payload.mode === 'work';
-              if (isWorkMode && !oldState.isPieceOvertime && oldState.timeRemaining > payload.timeRemaining) {
-                const diff = oldState.timeRemaining - payload.timeRemaining;
-                attributePracticeTime(diff);
+              if (isWorkMode && !oldState.isPieceOvertime) {
+                attributeCountdown(payload.timeRemaining);
               }
 
               // Update state with new timeRemaining
@@ -368,8 +587,10 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 timeRemaining: payload.timeRemaining,
                 mode: payload.mode,
                 currentIteration: payload.currentIteration,
-                totalIterations: payload.totalIterations
+                totalIterations: payload.totalIterations,
+                intervalIndex: payload.intervalIndex ?? get().intervalIndex
               });
+              announceTimeLeft(oldState);
               // Persist progress on every tick
               persistProgress({
                 timeRemaining: payload.timeRemaining,
@@ -377,6 +598,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 mode: payload.mode,
                 currentIteration: payload.currentIteration,
                 totalIterations: payload.totalIterations,
+                intervalIndex: get().intervalIndex,
                 isPracticeComplete: get().isPracticeComplete,
               });
               break;
@@ -402,7 +624,8 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 timeRemaining: payload.timeRemaining,
                 mode: payload.mode,
                 currentIteration: payload.currentIteration,
-                totalIterations: payload.totalIterations
+                totalIterations: payload.totalIterations,
+                intervalIndex: payload.intervalIndex ?? get().intervalIndex
               });
               // Persist progress when paused
               persistProgress({
@@ -411,6 +634,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 mode: payload.mode,
                 currentIteration: payload.currentIteration,
                 totalIterations: payload.totalIterations,
+                intervalIndex: get().intervalIndex,
                 isPracticeComplete: get().isPracticeComplete,
               });
               break;
@@ -432,6 +656,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 mode: payload.mode ?? 'work',
                 currentIteration: payload.currentIteration ?? 1,
                 totalIterations: payload.totalIterations ?? get().totalIterations,
+                intervalIndex: payload.intervalIndex ?? 0,
                 isRunning: false
               });
               break;
@@ -458,11 +683,11 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 skipTimeoutId = null;
               }
 
-              const updateTimeRemaining = payload.timeRemaining ?? (
-                payload.mode === 'work'
-                  ? get().settings.workDuration * 60
-                  : get().settings.breakDuration * 60
+              const updateIntervals = getSequenceIntervals(get().settings);
+              const updateIntervalIndex = resolveIntervalIndex(
+                updateIntervals, payload.intervalIndex, payload.mode, payload.currentIteration
               );
+              const updateTimeRemaining = payload.timeRemaining ?? getIntervalSeconds(updateIntervals, updateIntervalIndex);
 
               set({
                 mode: payload.mode,
@@ -470,6 +695,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 totalTime: updateTimeRemaining,
                 currentIteration: payload.currentIteration,
                 totalIterations: payload.totalIterations,
+                intervalIndex: updateIntervalIndex,
                 isRunning: false,
                 isSkipping: false
               });
@@ -481,6 +707,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 mode: payload.mode,
                 currentIteration: payload.currentIteration,
                 totalIterations: payload.totalIterations,
+                intervalIndex: updateIntervalIndex,
                 isPracticeComplete: get().isPracticeComplete,
               });
               break;
@@ -508,12 +735,15 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 }
               }
 
-              // Stop running state & transition to completed mode from worker payload
-              const completeTimeRemaining = payload.timeRemaining || (
-                payload.mode === 'work'
-                  ? get().settings.workDuration * 60
-                  : get().settings.breakDuration * 60
+              // The finished interval ran to the end (no-op after a break)
+              closeJournalEntry('interval', 'completed');
+
+              // Stop running state & transition to the next interval from worker payload
+              const completeIntervals = getSequenceIntervals(get().settings);
+              const completeIntervalIndex = resolveIntervalIndex(
+                completeIntervals, payload.intervalIndex, payload.mode, payload.currentIteration, payload.isLongBreak
               );
+              const completeTimeRemaining = payload.timeRemaining || getIntervalSeconds(completeIntervals, completeIntervalIndex);
 
               set({
                 isRunning: false,
@@ -522,6 +752,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 totalTime: completeTimeRemaining,
                 currentIteration: payload.currentIteration,
                 totalIterations: payload.totalIterations,
+                intervalIndex: completeIntervalIndex,
                 isSkipping: false
               });
 
@@ -531,6 +762,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 mode: payload.mode,
                 currentIteration: payload.currentIteration,
                 totalIterations: payload.totalIterations,
+                intervalIndex: completeIntervalIndex,
                 isPracticeComplete: get().isPracticeComplete,
               });
 
@@ -540,6 +772,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                   detail: payload
                 }));
               }
+              announce('intervalEnd', intervalEndMessage(completeIntervals[completeIntervalIndex] ?? { mode: payload.mode }));
 
               // If a piece segment still has time remaining after the work session
               // ended, activate overtime mode so the user can continue the segment.
@@ -575,6 +808,20 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
               })();
               break;
 
+            case 'PLAY_WARNING':
+              // A pre-end warning chime; the worker only sends these with sound on
+              (async () => {
+                try {
+                  await resumeAudioContext();
+                  if (payload.volume > 0) {
+                    await playSound('end', 1, payload.volume, payload.soundType);
+                  }
+                } catch (e) {
+                  console.error('[timerStore] Error playing PLAY_WARNING audio:', e);
+                }
+              })();
+              break;
+
             case 'PRACTICE_COMPLETE':
               if (sequence !== undefined) {
                 const lastSeq = get().lastMessageSequence;
@@ -582,6 +829,8 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                   set({ lastMessageSequence: sequence });
                 }
               }
+              // The worker sends no COMPLETE for the last interval
+              closeJournalEntry('interval', 'completed');
               if (typeof window !== 'undefined') {
                 window.dispatchEvent(new CustomEvent('practice-complete', {
                   detail: {
@@ -600,13 +849,14 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                     if (vol <= 1) vol = vol * 100;
                     vol = Math.min(100, Math.max(0, vol));
                     if (vol > 0) {
-                      await playSound('end', storeSettings.numberOfBeeps, vol, storeSettings.soundType as any);
+                      await playEventSound('practiceComplete', storeSettings.numberOfBeeps, vol, storeSettings.soundType);
                     }
                   }
                 } catch (e) {
                   console.error('[timerStore] Error playing PRACTICE_COMPLETE sound:', e);
                 }
               })();
+              announce('practiceComplete', PRACTICE_COMPLETE_MESSAGE);
               set({ isPracticeComplete: true, isRunning: false });
               saveTimerProgress({
                 timeRemaining: get().timeRemaining,
@@ -614,6 +864,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
                 mode: get().mode,
                 currentIteration: get().currentIteration,
                 totalIterations: get().totalIterations,
+                intervalIndex: get().intervalIndex,
                 isPracticeComplete: true,
               });
               break;
@@ -623,7 +874,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
               // stopped in the meantime (stopPieceOvertime already messaged the
               // worker but a tick was already in flight).
               if (get().pieceOvertimeRunning) {
-                attributePracticeTime(1);
+                attributePracticeTime(payload?.seconds ?? 1);
               }
               break;
           }
@@ -662,7 +913,8 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
     isRunning: false, // always restore as paused
     mode: initialMode,
     currentIteration: savedProgress?.currentIteration ?? 1,
-    totalIterations: savedProgress?.totalIterations ?? savedSettings.iterations,
+    totalIterations: savedProgress?.totalIterations ?? countWorkIntervals(savedIntervals),
+    intervalIndex: initialIntervalIndex,
     isPracticeComplete: savedProgress?.isPracticeComplete ?? false,
     isSkipping: false,
     settings: savedSettings,
@@ -676,13 +928,14 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
     isPieceOvertime: false,
     pieceOvertimeRunning: false,
     audioInitialized: false,
+    pendingSegment: null,
+    sessionQueue: [],
 
     // Simple setters
     setTimeRemaining: (time) => {
       const state = get();
-      if (state.mode === 'work' && state.isRunning && state.timeRemaining > time) {
-        const diff = state.timeRemaining - time;
-        attributePracticeTime(diff);
+      if (state.mode === 'work' && state.isRunning) {
+        attributeCountdown(time);
       }
       set({ timeRemaining: time });
     },
@@ -699,22 +952,28 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
       const state = get();
       const updates: Partial<TimerState> = { settings };
       if (!state.isRunning) {
-        updates.totalIterations = settings.iterations ?? state.totalIterations;
-
-        if (state.mode === 'break') {
-          const newBreakSec = settings.breakDuration * 60;
-          const oldBreakSec = state.settings.breakDuration * 60;
-          if (state.timeRemaining === oldBreakSec || state.timeRemaining === state.totalTime || state.timeRemaining > newBreakSec) {
-            updates.timeRemaining = newBreakSec;
-            updates.totalTime = newBreakSec;
-          }
-        } else if (state.mode === 'work') {
-          const newWorkSec = settings.workDuration * 60;
-          const oldWorkSec = state.settings.workDuration * 60;
-          if (state.timeRemaining === oldWorkSec || state.timeRemaining === state.totalTime || state.timeRemaining > newWorkSec) {
-            updates.timeRemaining = newWorkSec;
-            updates.totalTime = newWorkSec;
-          }
+        const oldIntervals = getSequenceIntervals(state.settings);
+        const newIntervals = getSequenceIntervals(settings);
+        const oldIndex = resolveIntervalIndex(oldIntervals, state.intervalIndex, state.mode, state.currentIteration);
+        // Stay on the same position when it still exists in the edited sequence
+        const newIndex = oldIndex < newIntervals.length ? oldIndex : 0;
+        const newInterval = newIntervals[newIndex];
+
+        updates.totalIterations = countWorkIntervals(newIntervals);
+        updates.intervalIndex = newIndex;
+        updates.currentIteration = getIterationForIndex(newIntervals, newIndex);
+
+        const newSec = newInterval.duration * 60;
+        const oldSec = getIntervalSeconds(oldIntervals, oldIndex);
+        if (
+          newInterval.mode !== state.mode ||
+          state.timeRemaining === oldSec ||
+          state.timeRemaining === state.totalTime ||
+          state.timeRemaining > newSec
+        ) {
+          updates.mode = newInterval.mode;
+          updates.timeRemaining = newSec;
+          updates.totalTime = newSec;
         }
       }
       set(updates);
@@ -727,6 +986,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
         mode: freshState.mode,
         currentIteration: freshState.currentIteration,
         totalIterations: freshState.totalIterations,
+        intervalIndex: freshState.intervalIndex,
         isPracticeComplete: freshState.isPracticeComplete,
       });
 
@@ -738,6 +998,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
             timeRemaining: freshState.timeRemaining,
             currentIteration: freshState.currentIteration,
             totalIterations: freshState.totalIterations,
+            intervalIndex: freshState.intervalIndex,
             isRunning: false
           }).catch(() => {});
         }
@@ -790,11 +1051,13 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
       let effectiveMode = state.mode;
       const workSec = state.settings.workDuration * 60;
       const breakSec = state.settings.breakDuration * 60;
+      const intervals = getSequenceIntervals(state.settings);
+      const intervalIndex = resolveIntervalIndex(intervals, state.intervalIndex, state.mode, state.currentIteration);
+      const intervalSec = getIntervalSeconds(intervals, intervalIndex);
 
-      if (state.mode === 'break' && state.timeRemaining > breakSec) {
-        effectiveMode = 'break';
-        set({ timeRemaining: breakSec, totalTime: breakSec });
-      } else if (state.mode === 'work' && state.timeRemaining <= breakSec && breakSec < workSec && state.timeRemaining === breakSec) {
+      if (state.timeRemaining > intervalSec) {
+        set({ timeRemaining: intervalSec, totalTime: intervalSec });
+      } else if (!state.settings.sequence && state.mode === 'work' && state.timeRemaining <= breakSec && breakSec < workSec && state.timeRemaining === breakSec) {
         console.warn('Store startTimer: mode was work but timeRemaining matches break duration. Correcting mode to break.');
         effectiveMode = 'break';
         set({ mode: 'break' });
@@ -811,12 +1074,19 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
       try {
         unlockAudioContext();
         startSilenceKeepAlive();
+        // Decode sample sounds now, inside the tap, so they can play from the background on iOS
+        preloadEventSounds([state.settings.soundType, ...intervals.map((interval) => interval.soundType)]);
+        preloadSounds((state.settings.warnings ?? []).map((warning) => warning.soundType));
+        playCue('start');
+        if (getVoiceCues().enabled) primeSpeech();
 
+        countedDownTo = get().timeRemaining;
         await sendMessage('START', {
-          timeRemaining: state.timeRemaining,
+          timeRemaining: get().timeRemaining,
           mode: effectiveMode,
           currentIteration: state.currentIteration,
-          totalIterations: state.totalIterations
+          totalIterations: state.totalIterations,
+          intervalIndex
         });
 
         set({ isRunning: true });
@@ -839,27 +1109,37 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
       stopSilenceKeepAlive();
       const state = get();
       if (!worker) return;
+      playCue('reset');
+      cancelSpeech();
+      clearPendingSegment();
 
-      // Reset always goes to first work session (not "reset current session")
-      const workDurationSeconds = state.settings.workDuration * 60;
-      const totalIterations = state.settings.iterations ?? 4;
+      // Reset always goes to the first interval of the sequence (not "reset current session")
+      const intervals = getSequenceIntervals(state.settings);
+      const firstInterval = intervals[0];
+      const firstDurationSeconds = firstInterval.duration * 60;
+      const totalIterations = countWorkIntervals(intervals);
 
       await sendMessage('RESET', {
-        timeRemaining: workDurationSeconds,
-        mode: 'work',
+        timeRemaining: firstDurationSeconds,
+        mode: firstInterval.mode,
         currentIteration: 1,
-        totalIterations
+        totalIterations,
+        intervalIndex: 0
       });
 
       // Stop piece overtime if active
       stopWorkerPieceTicks();
+      closeJournalEntry('interval', 'reset');
+      closeJournalEntry('segment', 'reset');
 
       set({
         isRunning: false,
-        mode: 'work',
+        mode: firstInterval.mode,
         currentIteration: 1,
-        timeRemaining: workDurationSeconds,
-        totalTime: workDurationSeconds,
+        totalIterations,
+        intervalIndex: 0,
+        timeRemaining: firstDurationSeconds,
+        totalTime: firstDurationSeconds,
         isPracticeComplete: false,
         isPieceOvertime: false,
         pieceOvertimeRunning: false
@@ -878,6 +1158,7 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
 
       console.log('Store: Starting skip operation');
       set({ isSkipping: true });
+      playCue('skip');
 
       // Clear any existing timeout first
       if (skipTimeoutId) {
@@ -914,93 +1195,70 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
         // Re-read state after pause to ensure we have latest values
         const freshState = get();
 
-        if (freshState.mode === 'work') {
-          // Check if this is the last work session
-          if (freshState.currentIteration === freshState.totalIterations) {
-            stopWorkerPieceTicks();
-            set({
-              isPracticeComplete: true,
-              isRunning: false,
-              isSkipping: false,
-              isPieceOvertime: false,
-              pieceOvertimeRunning: false
-            });
-            clearTimerProgress();
-            return;
-          }
-
-          // Go to break mode
-          const newTimeRemaining = freshState.settings.breakDuration * 60;
-          console.log('Store: Transitioning to break, iteration:', freshState.currentIteration);
+        const intervals = getSequenceIntervals(freshState.settings);
+        const currentIndex = resolveIntervalIndex(
+          intervals, freshState.intervalIndex, freshState.mode, freshState.currentIteration
+        );
+        closeJournalEntry('interval', 'skipped');
 
-          // Update store state atomically with consistent mode and duration
+        // Skipping the last interval of the sequence completes the practice
+        if (currentIndex >= intervals.length - 1) {
+          stopWorkerPieceTicks();
           set({
-            mode: 'break',
-            timeRemaining: newTimeRemaining,
-            totalTime: newTimeRemaining,
-            currentIteration: freshState.currentIteration,
+            isPracticeComplete: true,
             isRunning: false,
-            isSkipping: false
-          });
-
-          persistProgress({
-            timeRemaining: newTimeRemaining,
-            totalTime: newTimeRemaining,
-            mode: 'break',
-            currentIteration: freshState.currentIteration,
-            totalIterations: freshState.totalIterations,
-            isPracticeComplete: false,
+            isSkipping: false,
+            isPieceOvertime: false,
+            pieceOvertimeRunning: false
           });
+          clearTimerProgress();
+          return;
+        }
 
-          if (worker) {
-            await sendMessage('UPDATE_MODE', {
-              mode: 'break',
-              timeRemaining: newTimeRemaining,
-              currentIteration: freshState.currentIteration,
-              totalIterations: freshState.totalIterations,
-              isRunning: false
-            });
-          }
-        } else {
-          // After break, increment iteration and go to work
-          const nextIteration = freshState.currentIteration + 1;
-          const newIteration = nextIteration > freshState.totalIterations ? 1 : nextIteration;
-          const newTimeRemaining = freshState.settings.workDuration * 60;
+        const nextIndex = currentIndex + 1;
+        const nextInterval = intervals[nextIndex];
+        const newMode = nextInterval.mode;
+        const newIteration = getIterationForIndex(intervals, nextIndex);
+        const newTimeRemaining = nextInterval.duration * 60;
 
-          console.log('Store: Transitioning to work, iteration:', newIteration);
+        console.log('Store: Transitioning to', newMode, 'interval', nextIndex, 'iteration:', newIteration);
 
+        // Piece ticks only run during work, so a new work interval starts fresh
+        if (newMode === 'work') {
           stopWorkerPieceTicks();
+        }
 
-          // Update store state atomically with consistent mode and duration
-          set({
-            mode: 'work',
-            timeRemaining: newTimeRemaining,
-            totalTime: newTimeRemaining,
-            currentIteration: newIteration,
-            isRunning: false,
-            isPieceOvertime: false,
-            pieceOvertimeRunning: false,
-            isSkipping: false
-          });
+        // Update store state atomically with consistent mode and duration
+        set({
+          mode: newMode,
+          timeRemaining: newTimeRemaining,
+          totalTime: newTimeRemaining,
+          currentIteration: newIteration,
+          intervalIndex: nextIndex,
+          isRunning: false,
+          isSkipping: false,
+          ...(newMode === 'work' ? { isPieceOvertime: false, pieceOvertimeRunning: false } : {})
+        });
 
-          persistProgress({
+        persistProgress({
+          timeRemaining: newTimeRemaining,
+          totalTime: newTimeRemaining,
+          mode: newMode,
+          currentIteration: newIteration,
+          totalIterations: freshState.totalIterations,
+          intervalIndex: nextIndex,
+          isPracticeComplete: false,
+        });
+
+        if (worker) {
+          await sendMessage('UPDATE_MODE', {
+            mode: newMode,
             timeRemaining: newTimeRemaining,
-            totalTime: newTimeRemaining,
-            mode: 'work',
             currentIteration: newIteration,
             totalIterations: freshState.totalIterations,
-            isPracticeComplete: false,
+            intervalIndex: nextIndex,
+            isRunning: false
           });
-
-          if (worker) {
-            await sendMessage('UPDATE_MODE', {
-              mode: 'work',
-              timeRemaining: newTimeRemaining,
-              currentIteration: newIteration,
-              totalIterations: freshState.totalIterations,
-              isRunning: false
-            });
-          }
         }
       } catch (error) {
         console.error('Error in skipTimer:', error);
@@ -1020,7 +1278,15 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
       await get().resetTimer();
     },
 
-    selectPiece: (id, name, allocatedMinutes, _period) => {
+    selectPiece: (id, name, allocatedMinutes, _period, tempo) => {
+      clearPendingSegment();
+      if (get().activePieceId !== id) {
+        closeJournalEntry('segment', 'stopped');
+        segmentMetronomeTempo = null;
+      }
+      if (tempo) {
+        setMetronomeSettings({ tempo });
+      }
       const targetSeconds = (allocatedMinutes || 15) * 60;
       const pieceName = name && name.trim() ? name : 'Untitled segment';
       set({
@@ -1033,8 +1299,11 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
     },
 
     clearPiece: () => {
+      clearPendingSegment();
       // Stop overtime ticker if running
       stopWorkerPieceTicks();
+      closeJournalEntry('segment', 'stopped');
+      segmentMetronomeTempo = null;
       set({
         activePieceId: null,
         activePieceName: null,
@@ -1077,6 +1346,25 @@ export const useTimerStore = create<TimerState>((baseSet, get) => {
       set({ pieceOvertimeRunning: false });
     },
 
+    startPendingSegment: () => {
+      startPendingSegmentNow?.();
+    },
+
+    cancelPendingSegment: () => {
+      clearPendingSegment();
+    },
+
+    loadSession: (segments) => {
+      const [first, ...rest] = segments;
+      if (!first) return;
+      get().selectPiece(first.id, first.name, first.minutes, first.period, first.tempo);
+      set({ sessionQueue: rest });
+    },
+
+    clearSession: () => {
+      set({ sessionQueue: [] });
+    },
+
     togglePausePiece: () => {
       set((state) => ({ isPiecePaused: !state.isPiecePaused }));
     },
@@ -1,5 +1,28 @@
 // Timer Web Worker
 import { TimerState } from '../lib/timerWorkerSingleton';
+import {
+  getSequenceIntervals,
+  countWorkIntervals,
+  getIterationForIndex,
+  resolveIntervalIndex,
+  isLongBreakAt
+} from '../lib/intervalSequence';
+import {
+  type TimerClock,
+  createStopwatch,
+  createTimerClock,
+  getRemainingSeconds,
+  pauseClock,
+  startClock,
+  takeElapsedSeconds
+} from '../lib/timerClock';
+import { type WarningChime, type WarningTarget, getDueWarnings } from '../lib/warningChimes';
+
+// The countdown is read off a deadline clock (see lib/timerClock), so the
+// interval only decides how often we look. Polling faster than once a second
+// keeps the display within a quarter second of the deadline, and a throttled
+// or suspended worker catches up with one larger step instead of drifting.
+const TICK_INTERVAL_MS = 250;
 
 let workerId: string | null = null;
 let timerInterval: number | null = null;
@@ -8,6 +31,25 @@ let timerInterval: number | null = null;
 // session). Kept independent of the main Pomodoro timerInterval so the two can
 // coexist (main clock ticks the break, piece clock ticks the segment).
 let pieceTickInterval: number | null = null;
+// Clock behind the running (or paused) countdown; null when the next START
+// should begin a fresh one from state.timeRemaining.
+let clock: TimerClock | null = null;
+// Stopwatch behind the piece ticker, and how many of its seconds were sent.
+let pieceClock: TimerClock | null = null;
+let pieceSecondsSent = 0;
+
+// The active segment's countdown, mirrored from the store (UPDATE_PIECE) and
+// counted down here between updates so its warnings play in the background.
+// `overtime` segments count with the piece ticker, others with work time.
+let piece: { id: string; timeRemaining: number; paused: boolean; overtime: boolean } | null = null;
+
+// Warnings already played for the current interval and segment run. Pausing,
+// resuming or a SYNC_STATE can move the countdown back above a threshold;
+// these sets keep the warning from playing twice. Cleared when a new interval
+// (or a fresh segment run) begins.
+const intervalWarningsFired = new Set<string>();
+let intervalWarningsKey = '';
+const pieceWarningsFired = new Set<string>();
 
 // Worker state
 // NOTE: Settings durations are stored in MINUTES, not seconds
@@ -18,10 +60,13 @@ let state: TimerState = {
   mode: 'work',
   currentIteration: 1,
   totalIterations: 4,
+  intervalIndex: 0,
   settings: {
     workDuration: 25, // Minutes (will be converted to seconds when used)
     breakDuration: 5, // Minutes (will be converted to seconds when used)
     iterations: 4,
+    longBreakDuration: 15,
+    longBreakInterval: 0,
     soundEnabled: true,
     browserNotificationsEnabled: true,
     darkMode: false,
@@ -38,30 +83,6 @@ console.log('Timer Worker created');
 // Sequence counter for outgoing messages
 let messageSequence = 0;
 
-function updateTimer() {
-  if (state.timeRemaining > 0) {
-    state.timeRemaining--;
-    messageSequence++;
-    self.postMessage({
-      type: 'TICK',
-      payload: state,
-      sequence: messageSequence
-    });
-  } else {
-    state.isRunning = false;
-    if (timerInterval) {
-      self.clearInterval(timerInterval);
-      timerInterval = null;
-    }
-    messageSequence++;
-    self.postMessage({
-      type: 'COMPLETE',
-      payload: state,
-      sequence: messageSequence
-    });
-  }
-}
-
 // Message sequence tracking
 let lastReceivedSequence = 0;
 
@@ -110,12 +131,20 @@ self.addEventListener('message', (event: MessageEvent) => {
         if (payload.totalIterations !== undefined) {
           state.totalIterations = payload.totalIterations;
         }
+        if (payload.intervalIndex !== undefined) {
+          state.intervalIndex = payload.intervalIndex;
+        }
       }
       startTimer();
       break;
 
     case 'PAUSE':
-      pauseTimer();
+      // Report the seconds that ran since the last poll before stopping
+      if (state.isRunning && syncTimeRemaining() <= 0) {
+        completeTimer();
+      } else {
+        pauseTimer();
+      }
       break;
 
     case 'RESET':
@@ -135,16 +164,20 @@ self.addEventListener('message', (event: MessageEvent) => {
       break;
 
     case 'UPDATE_MODE':
-      updateMode(payload.mode, payload.timeRemaining, payload.currentIteration, payload.totalIterations);
+      updateMode(payload.mode, payload.timeRemaining, payload.currentIteration, payload.totalIterations, payload.intervalIndex);
       break;
 
     case 'SYNC_STATE':
       // Sync state without interfering with running timer
       if (!state.isRunning) {
         state.timeRemaining = payload.timeRemaining;
+        clock = null;
         state.mode = payload.mode;
         state.currentIteration = payload.currentIteration;
         state.totalIterations = payload.totalIterations;
+        if (payload.intervalIndex !== undefined) {
+          state.intervalIndex = payload.intervalIndex;
+        }
         state.isRunning = payload.isRunning;
       }
       break;
@@ -157,6 +190,10 @@ self.addEventListener('message', (event: MessageEvent) => {
       stopPieceTicks();
       break;
 
+    case 'UPDATE_PIECE':
+      updatePiece(payload);
+      break;
+
     default:
       // Unknown message type - silently ignore
       break;
@@ -168,6 +205,7 @@ function updateState(newState: Partial<TimerState>) {
   // Don't update timeRemaining if timer is running to prevent interference
   if (newState.timeRemaining !== undefined && !state.isRunning) {
     state.timeRemaining = newState.timeRemaining;
+    clock = null;
   }
 
   if (newState.isRunning !== undefined) {
@@ -186,6 +224,10 @@ function updateState(newState: Partial<TimerState>) {
     state.totalIterations = newState.totalIterations;
   }
 
+  if (newState.intervalIndex !== undefined) {
+    state.intervalIndex = newState.intervalIndex;
+  }
+
   if (newState.settings !== undefined) {
     state.settings = {
       ...state.settings,
@@ -203,7 +245,7 @@ function updateState(newState: Partial<TimerState>) {
 }
 
 // Update the timer mode
-function updateMode(mode: 'work' | 'break', timeRemaining: number, currentIteration: number, totalIterations: number) {
+function updateMode(mode: 'work' | 'break', timeRemaining: number, currentIteration: number, totalIterations: number, intervalIndex?: number) {
   // Update state
   state = {
     ...state,
@@ -211,8 +253,11 @@ function updateMode(mode: 'work' | 'break', timeRemaining: number, currentIterat
     timeRemaining,
     currentIteration,
     totalIterations,
+    intervalIndex: resolveIntervalIndex(getSequenceIntervals(state.settings), intervalIndex ?? state.intervalIndex, mode, currentIteration),
     isRunning: false
   };
+  clock = null;
+  armIntervalWarnings();
 
   // Clear any existing interval
   if (timerInterval) {
@@ -237,6 +282,7 @@ function updateTime(timeRemaining: number) {
   }
 
   state.timeRemaining = timeRemaining;
+  clock = null;
 
   // Send updated state back to main thread (not as TICK to avoid confusion)
   messageSequence++;
@@ -270,9 +316,31 @@ function startTimer() {
     timerInterval = null;
   }
 
+  // Resuming at the second we paused on keeps the paused clock, so the part
+  // of that second which already ran isn't run again
+  const now = Date.now();
+  if (!clock || getRemainingSeconds(clock, now) !== state.timeRemaining) {
+    clock = createTimerClock(state.timeRemaining);
+  }
+  clock = startClock(clock, now);
   state.isRunning = true;
 
+  armIntervalWarnings();
+
   // Send initial state update
+  postTick();
+
+  timerInterval = self.setInterval(() => {
+    if (syncTimeRemaining() <= 0) {
+      completeTimer();
+    }
+  }, TICK_INTERVAL_MS);
+
+  console.log('Worker: Timer interval started');
+}
+
+// Post the current countdown to the main thread
+function postTick() {
   messageSequence++;
   self.postMessage({
     type: 'TICK',
@@ -281,38 +349,39 @@ function startTimer() {
       mode: state.mode,
       currentIteration: state.currentIteration,
       totalIterations: state.totalIterations,
+      intervalIndex: state.intervalIndex,
       isRunning: state.isRunning
     },
     sequence: messageSequence
   });
+}
 
-  // Start the interval
-  timerInterval = self.setInterval(() => {
-    if (state.timeRemaining > 0) {
-      state.timeRemaining--;
-      messageSequence++;
-      self.postMessage({
-        type: 'TICK',
-        payload: {
-          timeRemaining: state.timeRemaining,
-          mode: state.mode,
-          currentIteration: state.currentIteration,
-          totalIterations: state.totalIterations,
-          isRunning: state.isRunning
-        },
-        sequence: messageSequence
-      });
-    } else {
-      completeTimer();
+// Read the countdown off the clock and post a TICK when the displayed second
+// changed. After throttling or sleep this is a single jump of several seconds,
+// which the store attributes in one go. Returns the seconds left.
+function syncTimeRemaining(): number {
+  if (!clock || !state.isRunning) {
+    return state.timeRemaining;
+  }
+  const remaining = getRemainingSeconds(clock, Date.now());
+  const previous = state.timeRemaining;
+  if (remaining !== previous) {
+    state.timeRemaining = remaining;
+    postTick();
+    playDueWarnings(state.mode, previous, remaining, intervalWarningsFired);
+    if (state.mode === 'work' && piece && !piece.overtime) {
+      countDownPiece(previous - remaining);
     }
-  }, 1000);
-
-  console.log('Worker: Timer interval started');
+  }
+  return remaining;
 }
 
 // Pause the timer
 function pauseTimer() {
   if (state.isRunning) {
+    if (clock) {
+      clock = pauseClock(clock, Date.now());
+    }
     state.isRunning = false;
     if (timerInterval) {
       self.clearInterval(timerInterval);
@@ -326,6 +395,7 @@ function pauseTimer() {
         mode: state.mode,
         currentIteration: state.currentIteration,
         totalIterations: state.totalIterations,
+        intervalIndex: state.intervalIndex,
         isRunning: state.isRunning
       },
       sequence: messageSequence
@@ -333,23 +403,27 @@ function pauseTimer() {
   }
 }
 
-// Reset the timer - always goes to first work session
-function resetTimer(payload?: { timeRemaining?: number; mode?: string; currentIteration?: number; totalIterations?: number }) {
+// Reset the timer - always goes to the first interval of the sequence
+function resetTimer(payload?: { timeRemaining?: number; mode?: 'work' | 'break'; currentIteration?: number; totalIterations?: number }) {
   pauseTimer();
-  // Use payload from store (reset always targets first work session)
-  const workDurationSeconds = state.settings.workDuration * 60;
-  const timeRemaining = payload?.timeRemaining ?? workDurationSeconds;
+  // Use payload from store (reset always targets the first interval)
+  const intervals = getSequenceIntervals(state.settings);
+  const first = intervals[0];
+  const timeRemaining = payload?.timeRemaining ?? first.duration * 60;
   const currentIteration = payload?.currentIteration ?? 1;
   const totalIterations = payload?.totalIterations ?? state.totalIterations;
 
   state = {
     ...state,
-    mode: 'work',
+    mode: payload?.mode ?? first.mode,
     timeRemaining,
     currentIteration,
     totalIterations,
+    intervalIndex: 0,
     isRunning: false
   };
+  clock = null;
+  clearIntervalWarnings();
 
   messageSequence++;
   self.postMessage({
@@ -359,7 +433,8 @@ function resetTimer(payload?: { timeRemaining?: number; mode?: string; currentIt
       totalTime: state.timeRemaining,
       mode: state.mode,
       currentIteration: state.currentIteration,
-      totalIterations: state.totalIterations
+      totalIterations: state.totalIterations,
+      intervalIndex: state.intervalIndex
     },
     sequence: messageSequence
   });
@@ -371,10 +446,15 @@ function completeTimer() {
   console.log('Worker: Current state before completion:', state);
 
   pauseTimer();
+  clock = null;
+
+  const intervals = getSequenceIntervals(state.settings);
+  const intervalIndex = resolveIntervalIndex(intervals, state.intervalIndex, state.mode, state.currentIteration);
+  const completedInterval = intervals[intervalIndex];
 
-  // Check if this is the last work session - if so, practice is complete
+  // Check if this is the last interval of the sequence - if so, practice is complete
   // For practice completion, don't play sound here - it will be played in handlePracticeComplete
-  const isPracticeComplete = state.mode === 'work' && state.currentIteration === state.totalIterations;
+  const isPracticeComplete = intervalIndex >= intervals.length - 1;
 
   // Play sound if enabled (but not for practice completion - that's handled separately)
   if (state.settings.soundEnabled && !isPracticeComplete) {
@@ -392,13 +472,13 @@ function completeTimer() {
       type: 'PLAY_SOUND', payload: {
         numberOfBeeps: state.settings.numberOfBeeps,
         volume: volume,
-        soundType: state.settings.soundType
+        soundType: completedInterval?.soundType ?? state.settings.soundType
       }
     });
   }
 
   if (isPracticeComplete) {
-    console.log('Worker: Last work session complete, practice is finished!');
+    console.log('Worker: Last interval complete, practice is finished!');
 
     // Show notification if enabled
     if (state.settings.browserNotificationsEnabled) {
@@ -424,45 +504,33 @@ function completeTimer() {
     return;
   }
 
+  // Advance to the next interval in the sequence
+  const nextIndex = intervalIndex + 1;
+  const nextInterval = intervals[nextIndex];
+  const nextIsLongBreak = isLongBreakAt(intervals, nextIndex);
+
   // Show notification if enabled
   if (state.settings.browserNotificationsEnabled) {
     console.log('Worker: Sending SHOW_NOTIFICATION message');
     self.postMessage({
       type: 'SHOW_NOTIFICATION', payload: {
         title: state.mode === 'work' ? 'Work Time Complete!' : 'Break Time Complete!',
-        body: state.mode === 'work' ? 'Time for a break!' : 'Time to get back to work!'
+        body: nextIsLongBreak
+          ? `Time for a long break (${nextInterval.duration} min)!`
+          : nextInterval.name
+          ? `Up next: ${nextInterval.name}`
+          : (nextInterval.mode === 'break' ? 'Time for a break!' : 'Time to get back to work!')
       }
     });
   }
 
-  // Switch modes
-  const newMode = state.mode === 'work' ? 'break' : 'work';
+  state.intervalIndex = nextIndex;
+  state.mode = nextInterval.mode;
+  state.currentIteration = getIterationForIndex(intervals, nextIndex);
+  state.timeRemaining = nextInterval.duration * 60;
+  clearIntervalWarnings();
 
-  // Only increment iteration count after break session completes
-  if (state.mode === 'break') {
-    state.currentIteration++;
-  }
-
-  state.mode = newMode;
-  state.timeRemaining = state.mode === 'work' ? state.settings.workDuration * 60 : state.settings.breakDuration * 60;
-
-  // Check if all iterations are complete (shouldn't happen after last work session check above, but safety check)
-  if (state.currentIteration > state.totalIterations) {
-    messageSequence++;
-    self.postMessage({
-      type: 'COMPLETE',
-      payload: {
-        mode: state.mode,
-        currentIteration: state.currentIteration,
-        totalIterations: state.totalIterations,
-        timeRemaining: state.timeRemaining
-      },
-      sequence: messageSequence
-    });
-    return;
-  }
-
-  // Send COMPLETE message with updated state (mode switched, ready for next session)
+  // Send COMPLETE message with updated state (next interval loaded, ready to start)
   messageSequence++;
   self.postMessage({
     type: 'COMPLETE',
@@ -470,6 +538,8 @@ function completeTimer() {
       mode: state.mode,
       currentIteration: state.currentIteration,
       totalIterations: state.totalIterations,
+      intervalIndex: state.intervalIndex,
+      isLongBreak: nextIsLongBreak,
       timeRemaining: state.timeRemaining
     },
     sequence: messageSequence
@@ -479,10 +549,10 @@ function completeTimer() {
 // Update settings
 function updateSettings(settings: Partial<TimerState['settings']>) {
   state.settings = { ...state.settings, ...settings };
-  // Keep totalIterations in sync with settings.iterations so the practice-complete
-  // check always uses the user's configured goal (only when not mid-session).
-  if (!state.isRunning && settings.iterations !== undefined) {
-    state.totalIterations = settings.iterations;
+  // Keep totalIterations in sync with the configured sequence so the displayed
+  // goal always matches the user's setup (only when not mid-session).
+  if (!state.isRunning && (settings.iterations !== undefined || settings.sequence !== undefined)) {
+    state.totalIterations = countWorkIntervals(getSequenceIntervals(state.settings));
   }
   messageSequence++;
   self.postMessage({
@@ -492,20 +562,35 @@ function updateSettings(settings: Partial<TimerState['settings']>) {
   });
 }
 
-// Start emitting one PIECE_TICK message per second. Idempotent — if the piece
-// ticker is already running this is a no-op. The store decrements piece time
-// on each PIECE_TICK it receives.
+// Start emitting PIECE_TICK messages, each carrying the whole seconds that
+// passed since the previous one (normally 1, more after throttling or sleep).
+// Idempotent — if the piece ticker is already running this is a no-op. The
+// store counts piece time down by each PIECE_TICK's seconds.
 function startPieceTicks() {
   if (pieceTickInterval !== null) {
     return;
   }
+  pieceClock = startClock(createStopwatch(), Date.now());
+  pieceSecondsSent = 0;
   pieceTickInterval = self.setInterval(() => {
+    if (!pieceClock) {
+      return;
+    }
+    const { seconds, counted } = takeElapsedSeconds(pieceClock, pieceSecondsSent, Date.now());
+    if (seconds === 0) {
+      return;
+    }
+    pieceSecondsSent = counted;
     messageSequence++;
     self.postMessage({
       type: 'PIECE_TICK',
+      payload: { seconds },
       sequence: messageSequence
     });
-  }, 1000);
+    if (piece?.overtime) {
+      countDownPiece(seconds);
+    }
+  }, TICK_INTERVAL_MS);
 }
 
 // Stop the piece ticker. Safe to call even when it's not running.
@@ -514,4 +599,81 @@ function stopPieceTicks() {
     self.clearInterval(pieceTickInterval);
     pieceTickInterval = null;
   }
+  pieceClock = null;
+}
+
+// Forget which interval warnings played, so the next interval plays them all
+function clearIntervalWarnings() {
+  intervalWarningsFired.clear();
+  intervalWarningsKey = `${state.intervalIndex}:${state.mode}`;
+}
+
+// Clear the played warnings only if the timer is now on a different interval
+// than they were tracked for (a skip, or progress restored after a reload)
+function armIntervalWarnings() {
+  if (`${state.intervalIndex}:${state.mode}` !== intervalWarningsKey) {
+    clearIntervalWarnings();
+  }
+}
+
+// Mirror the store's active segment. A different segment, or the same one
+// started over at its full time, plays its warnings again.
+function updatePiece(payload: { id: string; timeRemaining: number; totalTime: number; paused: boolean; overtime: boolean } | null) {
+  if (!payload) {
+    piece = null;
+    pieceWarningsFired.clear();
+    return;
+  }
+  if (!piece || piece.id !== payload.id || payload.timeRemaining >= payload.totalTime) {
+    pieceWarningsFired.clear();
+  }
+  piece = {
+    id: payload.id,
+    timeRemaining: payload.timeRemaining,
+    paused: payload.paused,
+    overtime: payload.overtime
+  };
+}
+
+// Count the mirrored segment down by `seconds` of practice and play any
+// segment warnings it passed
+function countDownPiece(seconds: number) {
+  if (!piece || piece.paused || seconds <= 0) {
+    return;
+  }
+  const previous = piece.timeRemaining;
+  piece.timeRemaining = Math.max(0, previous - seconds);
+  playDueWarnings('segment', previous, piece.timeRemaining, pieceWarningsFired);
+}
+
+// Play the latest warning the countdown passed (once), marking every passed
+// one as played
+function playDueWarnings(target: WarningTarget, from: number, to: number, fired: Set<string>) {
+  const due = getDueWarnings(state.settings.warnings, target, from, to, fired);
+  if (due.length === 0) {
+    return;
+  }
+  due.forEach((warning) => fired.add(warning.id));
+  if (state.settings.soundEnabled) {
+    postWarning(due[due.length - 1], to);
+  }
+}
+
+function postWarning(warning: WarningChime, timeRemaining: number) {
+  let volume = state.settings.volume;
+  if (volume <= 1) {
+    volume = volume * 100;
+  }
+  volume = Math.min(100, Math.max(0, volume));
+  self.postMessage({
+    type: 'PLAY_WARNING',
+    payload: {
+      id: warning.id,
+      target: warning.target,
+      secondsBefore: warning.secondsBefore,
+      timeRemaining,
+      soundType: warning.soundType,
+      volume
+    }
+  });
 }
@@ -1,6 +1,7 @@
 import { connectLambda, getStore } from "@netlify/blobs";
 import type { Handler } from "@netlify/functions";
 import { nanoid } from "nanoid";
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -17,9 +18,159 @@ import * as path from 'path';
 //     instead of silently overwriting someone else's report. Legitimate share
 //     flows always mint a fresh nanoid before calling us, so collisions are
 //     effectively impossible.
+//
+// --- Link controls -------------------------------------------------------------
+// Each new report also gets link settings, stored under `link:<id>` (ids can't
+// contain ':', so the keys never collide with reports), and a manage token
+// returned once to the creator. With the token, PATCH can set an expiry date,
+// a passphrase, 'unlisted' or 'disabled', or revoke the link for good; GET
+// enforces them. Reports stored before this have no settings and stay open.
+// Wrong passphrases are recorded per link and per client (by a hash of the
+// IP); past the limits, every try gets the same 403 as a wrong passphrase
+// until the window passes, so the hash can't be brute-forced through GET.
 
 const MAX_BODY_BYTES = 256 * 1024; // 256 KB — reports include text, no binaries.
 const ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const MAX_PASSPHRASE_LENGTH = 200;
+const PASSPHRASE_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_CLIENT = 10;
+const MAX_FAILURES_PER_LINK = 30;
+
+type LinkStatus = 'unlisted' | 'disabled';
+
+interface LinkSettings {
+    manageTokenHash: string;
+    status: LinkStatus;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    /** `salt:hash`, both hex, from scrypt. */
+    passphraseHash: string | null;
+}
+
+function linkKey(id: string): string {
+    return `link:${id}`;
+}
+
+/** Recent wrong passphrases for a link, as `{ at, client }`. */
+function linkFailuresKey(id: string): string {
+    return `passphrase-failures:${id}`;
+}
+
+/** Recent wrong passphrases from one client, on any link, as timestamps. */
+function clientFailuresKey(clientHash: string): string {
+    return `passphrase-client:${clientHash}`;
+}
+
+function sha256(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+}
+
+/** Hash of the caller's IP, or null when the platform doesn't pass one. */
+function clientHash(requestHeaders: Record<string, string | undefined> | undefined): string | null {
+    const ip = (requestHeaders?.['x-nf-client-connection-ip'] || requestHeaders?.['x-forwarded-for'] || '')
+        .split(',')[0]
+        .trim();
+    return ip ? sha256(`report-passphrase:${ip}`) : null;
+}
+
+function hashPassphrase(passphrase: string): string {
+    const salt = randomBytes(16).toString('hex');
+    return `${salt}:${scryptSync(passphrase, salt, 32).toString('hex')}`;
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+    const bufA = Buffer.from(a, 'hex');
+    const bufB = Buffer.from(b, 'hex');
+    return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function passphraseMatches(passphrase: string, stored: string): boolean {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+    return safeEqualHex(scryptSync(passphrase, salt, 32).toString('hex'), hash);
+}
+
+/** Why a link can't be opened right now, or null if it can (before any passphrase check). */
+function closedReason(settings: LinkSettings): 'revoked' | 'disabled' | 'expired' | null {
+    if (settings.revokedAt) return 'revoked';
+    if (settings.status === 'disabled') return 'disabled';
+    if (settings.expiresAt && new Date(settings.expiresAt).getTime() <= Date.now()) return 'expired';
+    return null;
+}
+
+/** Settings as shown to the link's manager - never the hashes. */
+function publicSettings(id: string, settings: LinkSettings) {
+    return {
+        id,
+        status: settings.status,
+        expiresAt: settings.expiresAt,
+        revoked: !!settings.revokedAt,
+        hasPassphrase: !!settings.passphraseHash,
+    };
+}
+
+/** Apply a PATCH body's `changes`; returns an error message for invalid input. */
+function applyLinkChanges(settings: LinkSettings, changes: Record<string, unknown>): string | null {
+    if ('status' in changes) {
+        if (changes.status !== 'unlisted' && changes.status !== 'disabled') return 'Invalid status';
+        settings.status = changes.status;
+    }
+    if ('expiresAt' in changes) {
+        const expiresAt = changes.expiresAt;
+        if (expiresAt !== null && (typeof expiresAt !== 'string' || Number.isNaN(new Date(expiresAt).getTime()))) {
+            return 'Invalid expiry date';
+        }
+        settings.expiresAt = expiresAt === null ? null : new Date(expiresAt).toISOString();
+    }
+    if ('passphrase' in changes) {
+        const passphrase = changes.passphrase;
+        if (passphrase !== null && (typeof passphrase !== 'string' || passphrase.length > MAX_PASSPHRASE_LENGTH)) {
+            return 'Invalid passphrase';
+        }
+        settings.passphraseHash = passphrase ? hashPassphrase(passphrase) : null;
+    }
+    if (changes.revoke === true) {
+        settings.revokedAt = new Date().toISOString();
+    }
+    return null;
+}
+
+interface PassphraseFailure {
+    at: number;
+    client: string | null;
+}
+
+type BlobStore = { setJSON: (key: string, data: unknown) => Promise<void>; get: (key: string, options?: unknown) => Promise<unknown> };
+
+async function getRecentFailures<T extends number | PassphraseFailure>(store: BlobStore, key: string, now: number): Promise<T[]> {
+    const saved = await store.get(key, { type: "json" });
+    if (!Array.isArray(saved)) return [];
+    return (saved as T[]).filter((f) => (typeof f === 'number' ? f : f.at) > now - PASSPHRASE_WINDOW_MS);
+}
+
+/**
+ * Check a passphrase against the link's hash, unless the link or the client
+ * is locked out; a lockout looks exactly like a wrong passphrase.
+ */
+async function checkPassphrase(
+    store: BlobStore,
+    id: string,
+    passphraseHash: string,
+    passphrase: string,
+    client: string | null
+): Promise<boolean> {
+    const now = Date.now();
+    const linkFailures = await getRecentFailures<PassphraseFailure>(store, linkFailuresKey(id), now);
+    const clientFailures = client ? await getRecentFailures<number>(store, clientFailuresKey(client), now) : [];
+    if (linkFailures.length >= MAX_FAILURES_PER_LINK || clientFailures.length >= MAX_FAILURES_PER_CLIENT) {
+        return false;
+    }
+    if (passphraseMatches(passphrase, passphraseHash)) return true;
+
+    await store.setJSON(linkFailuresKey(id), [...linkFailures, { at: now, client }]);
+    if (client) await store.setJSON(clientFailuresKey(client), [...clientFailures, now]);
+    return false;
+}
 
 /** Light schema check for the ReportSnapshot shape used by the client. */
 function isValidReportBody(body: unknown): body is Record<string, unknown> & { items: unknown[] } {
@@ -40,7 +191,8 @@ function respond(statusCode: number, body: string | Record<string, unknown>, hea
 export const handler: Handler = async (event) => {
     const headers = {
         "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Headers": "Content-Type",
+        "Access-Control-Allow-Headers": "Content-Type, X-Report-Passphrase, X-Manage-Token",
+        "Access-Control-Allow-Methods": "GET, POST, PATCH, OPTIONS",
         "Content-Type": "application/json"
     };
 
@@ -53,7 +205,7 @@ export const handler: Handler = async (event) => {
         };
     }
 
-    let store: { setJSON: (key: string, data: unknown) => Promise<void>; get: (key: string, options?: unknown) => Promise<unknown> };
+    let store: BlobStore;
     const isLocalDev = process.env.NETLIFY_DEV === 'true';
 
     if (isLocalDev) {
@@ -165,7 +317,17 @@ export const handler: Handler = async (event) => {
 
             await store.setJSON(id, dataToStore);
 
-            return respond(200, { id }, headers);
+            const manageToken = randomBytes(24).toString('hex');
+            const settings: LinkSettings = {
+                manageTokenHash: sha256(manageToken),
+                status: 'unlisted',
+                expiresAt: null,
+                revokedAt: null,
+                passphraseHash: null,
+            };
+            await store.setJSON(linkKey(id), settings);
+
+            return respond(200, { id, manageToken }, headers);
         }
 
         if (event.httpMethod === "GET") {
@@ -185,7 +347,63 @@ export const handler: Handler = async (event) => {
                 return respond(404, "Report not found", headers);
             }
 
-            return respond(200, report as Record<string, unknown>, headers);
+            const settings = (await store.get(linkKey(id), { type: "json" })) as LinkSettings | null;
+            if (settings) {
+                const reason = closedReason(settings);
+                if (reason) {
+                    return respond(410, { error: reason }, headers);
+                }
+                if (settings.passphraseHash) {
+                    const passphrase = event.headers?.['x-report-passphrase'];
+                    if (!passphrase) {
+                        return respond(401, { error: "passphrase_required" }, headers);
+                    }
+                    if (!(await checkPassphrase(store, id, settings.passphraseHash, passphrase, clientHash(event.headers)))) {
+                        return respond(403, { error: "wrong_passphrase" }, headers);
+                    }
+                }
+            }
+
+            // Managed links must not be copied anywhere their settings don't follow
+            return respond(200, report as Record<string, unknown>, settings ? { ...headers, "X-Report-Managed": "1" } : headers);
+        }
+
+        if (event.httpMethod === "PATCH") {
+            let body: { id?: unknown; changes?: unknown };
+            try {
+                body = JSON.parse(event.body || '{}');
+            } catch {
+                return respond(400, { error: "Body is not valid JSON" }, headers);
+            }
+
+            const id = body.id;
+            if (typeof id !== 'string' || !ID_PATTERN.test(id)) {
+                return respond(400, { error: "Invalid id format" }, headers);
+            }
+
+            const settings = (await store.get(linkKey(id), { type: "json" })) as LinkSettings | null;
+            const manageToken = event.headers?.['x-manage-token'];
+            if (!settings) {
+                return respond(404, { error: "Link not found" }, headers);
+            }
+            if (!manageToken || !safeEqualHex(sha256(manageToken), settings.manageTokenHash)) {
+                return respond(403, { error: "Invalid manage token" }, headers);
+            }
+
+            // An empty `changes` just reads the current settings
+            const changes = body.changes && typeof body.changes === 'object' ? body.changes as Record<string, unknown> : {};
+            if (Object.keys(changes).length > 0) {
+                if (settings.revokedAt) {
+                    return respond(409, { error: "This link was revoked" }, headers);
+                }
+                const invalid = applyLinkChanges(settings, changes);
+                if (invalid) {
+                    return respond(400, { error: invalid }, headers);
+                }
+                await store.setJSON(linkKey(id), settings);
+            }
+
+            return respond(200, publicSettings(id, settings), headers);
         }
 
         return respond(405, "Method Not Allowed", headers);
@@ -0,0 +1,60 @@
+#!/usr/bin/env python3
+"""Render the bundled "Studio" sound pack to client/public/sounds/studio/.
+
+The samples are synthesized here (additive partials with exponential decay)
+so the repo carries their source rather than opaque recordings. Re-run after
+changing a recipe:
+
+    python3 scripts/generate_sound_pack.py
+"""
+import math
+import os
+import random
+import struct
+import wave
+
+SAMPLE_RATE = 22050
+OUT_DIR = os.path.join(os.path.dirname(__file__), "..", "client", "public", "sounds", "studio")
+
+# name -> (seconds, [(frequency Hz, amplitude, decay time constant s)], noise burst s)
+RECIPES = {
+    "woodblock": (0.18, [(1150, 1.0, 0.025), (2870, 0.5, 0.012), (4100, 0.2, 0.008)], 0.004),
+    "marimba": (0.7, [(523.25, 1.0, 0.22), (2093, 0.35, 0.05), (5230, 0.08, 0.015)], 0.002),
+    "triangle": (1.2, [(1760, 0.6, 0.6), (4470, 0.5, 0.45), (6330, 0.3, 0.3), (8150, 0.15, 0.2)], 0.001),
+    "bowl": (1.4, [(220, 1.0, 0.9), (220.6, 0.8, 0.9), (596, 0.45, 0.6), (1111, 0.2, 0.35)], 0.0),
+}
+
+
+def render(seconds, partials, noise_seconds):
+    rng = random.Random(7)
+    total = int(seconds * SAMPLE_RATE)
+    attack = int(0.002 * SAMPLE_RATE)
+    frames = []
+    for n in range(total):
+        t = n / SAMPLE_RATE
+        value = sum(a * math.exp(-t / tau) * math.sin(2 * math.pi * f * t) for f, a, tau in partials)
+        if t < noise_seconds:
+            value += (rng.random() * 2 - 1) * 0.3 * (1 - t / noise_seconds)
+        if n < attack:
+            value *= n / attack
+        # Fade the tail so the sample ends on silence
+        value *= min(1.0, (total - n) / (0.02 * SAMPLE_RATE))
+        frames.append(value)
+    peak = max(abs(v) for v in frames) or 1.0
+    return [int(v / peak * 0.9 * 32767) for v in frames]
+
+
+def main():
+    os.makedirs(OUT_DIR, exist_ok=True)
+    for name, (seconds, partials, noise) in RECIPES.items():
+        path = os.path.join(OUT_DIR, f"{name}.wav")
+        with wave.open(path, "wb") as out:
+            out.setnchannels(1)
+            out.setsampwidth(2)
+            out.setframerate(SAMPLE_RATE)
+            out.writeframes(b"".join(struct.pack("<h", s) for s in render(seconds, partials, noise)))
+        print(f"wrote {os.path.relpath(path)}")
+
+
+if __name__ == "__main__":
+    main()
@@ -6,6 +6,8 @@ export const settingsSchema = z.object({
   workDuration: z.number().default(25),
   breakDuration: z.number().default(5),
   iterations: z.number().default(4),
+  longBreakDuration: z.number().min(1).default(15),
+  longBreakInterval: z.number().min(0).default(0),
   darkMode: z.boolean().default(true),
   numberOfBeeps: z.number().min(1).max(5).default(3)
 });
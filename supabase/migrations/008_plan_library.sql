@@ -0,0 +1,5 @@
+-- Add plans_data to user_practice_data for the multi-plan library.
+-- Shape: { "activePlanId": text, "plans": [{ id, name, createdAt, updatedAt, archived, items }] }
+-- plan_data keeps mirroring the active plan so shared reports and older clients keep working.
+ALTER TABLE user_practice_data
+ADD COLUMN IF NOT EXISTS plans_data JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,4 @@
+-- Add segment_library_data to user_practice_data for reusable segment templates.
+-- Shape: [{ id, name, segmentGoal, allocatedTime, allocationPeriod, repertoirePieceId, videoUrl, createdAt, updatedAt }]
+ALTER TABLE user_practice_data
+ADD COLUMN IF NOT EXISTS segment_library_data JSONB NOT NULL DEFAULT '[]'::jsonb;
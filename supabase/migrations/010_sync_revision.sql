@@ -0,0 +1,24 @@
+-- Revision counter for conflict-aware sync of user_practice_data.
+-- Clients update with `WHERE revision = <last revision they saw>` and set it
+-- one higher; an update that matches no row means another device wrote first,
+-- so the client pulls, merges and retries instead of overwriting.
+ALTER TABLE user_practice_data
+ADD COLUMN IF NOT EXISTS revision BIGINT NOT NULL DEFAULT 0;
+
+-- Older clients upsert without touching revision; bump it for them so newer
+-- clients still notice the change.
+CREATE OR REPLACE FUNCTION bump_user_practice_data_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.revision IS NOT DISTINCT FROM OLD.revision THEN
+    NEW.revision := OLD.revision + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_user_practice_data_revision ON user_practice_data;
+CREATE TRIGGER bump_user_practice_data_revision
+  BEFORE UPDATE ON user_practice_data
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_user_practice_data_revision();
@@ -0,0 +1,4 @@
+-- Add review_data to user_practice_data for spaced-repetition reviews of maintained repertoire.
+-- Shape: { [pieceId]: { pieceId, intervalDays, ease, reps, lapses, lastReviewed, dueDate, updatedAt, previous? } }
+ALTER TABLE user_practice_data
+ADD COLUMN IF NOT EXISTS review_data JSONB NOT NULL DEFAULT '{}'::jsonb;
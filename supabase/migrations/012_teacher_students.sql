@@ -0,0 +1,263 @@
+-- Teacher–student accounts.
+--
+-- A signed-in user becomes a teacher by setting the role on their profile.
+-- Teachers create invite links; a student who opens one while signed in
+-- accepts it through accept_teacher_invite(), which is the only way a
+-- teacher_students link is made. Once linked:
+--   * the teacher can send lesson assignments (a list of plan items) that the
+--     student adds to their Lesson Plan;
+--   * the student reports time practiced on assigned items to
+--     assignment_progress, which the teacher can read;
+--   * both sides can comment on an assignment.
+-- Either side can remove the link; assignments stay readable to the student.
+
+-- Profiles
+CREATE TABLE IF NOT EXISTS account_profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'student' CHECK (role IN ('student', 'teacher')),
+  display_name TEXT NOT NULL DEFAULT '',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Links
+CREATE TABLE IF NOT EXISTS teacher_students (
+  teacher_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (teacher_id, student_id),
+  CHECK (teacher_id <> student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_teacher_students_student_id ON teacher_students(student_id);
+
+-- Invites
+CREATE TABLE IF NOT EXISTS teacher_invites (
+  token TEXT PRIMARY KEY, -- random slug carried in the invite link
+  teacher_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (now() + interval '14 days'),
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_teacher_invites_teacher_id ON teacher_invites(teacher_id);
+
+-- Assignments
+CREATE TABLE IF NOT EXISTS lesson_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL DEFAULT 'Lesson',
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_assignments_student_id ON lesson_assignments(student_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lesson_assignments_teacher_id ON lesson_assignments(teacher_id, student_id);
+
+-- Practice on assigned items, reported by the student
+CREATE TABLE IF NOT EXISTS assignment_progress (
+  assignment_id UUID PRIMARY KEY REFERENCES lesson_assignments(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Comments
+CREATE TABLE IF NOT EXISTS assignment_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id UUID REFERENCES lesson_assignments(id) ON DELETE CASCADE NOT NULL,
+  author_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  item_id TEXT, -- plan item the comment is about, if any
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 4000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_comments_assignment_id ON assignment_comments(assignment_id, created_at);
+
+ALTER TABLE account_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE teacher_students ENABLE ROW LEVEL SECURITY;
+ALTER TABLE teacher_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lesson_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assignment_progress ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assignment_comments ENABLE ROW LEVEL SECURITY;
+
+-- Helpers (SECURITY DEFINER so policies don't recurse through each other's RLS)
+CREATE OR REPLACE FUNCTION is_teacher(uid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM account_profiles WHERE user_id = uid AND role = 'teacher');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_linked(teacher UUID, student UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM teacher_students WHERE teacher_id = teacher AND student_id = student);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_assignment_party(assignment UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM lesson_assignments
+    WHERE id = assignment AND (teacher_id = auth.uid() OR student_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- account_profiles: own row, plus the names of linked teachers and students
+CREATE POLICY "Users can view own and linked profiles"
+  ON account_profiles FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR is_linked(auth.uid(), user_id)
+    OR is_linked(user_id, auth.uid())
+  );
+
+CREATE POLICY "Users can insert own profile"
+  ON account_profiles FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own profile"
+  ON account_profiles FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- teacher_students: both sides can see and remove the link; only
+-- accept_teacher_invite() creates one
+CREATE POLICY "Teachers and students can view their links"
+  ON teacher_students FOR SELECT
+  TO authenticated
+  USING (auth.uid() = teacher_id OR auth.uid() = student_id);
+
+CREATE POLICY "Teachers and students can remove their links"
+  ON teacher_students FOR DELETE
+  TO authenticated
+  USING (auth.uid() = teacher_id OR auth.uid() = student_id);
+
+-- teacher_invites: teachers manage their own; students go through the function
+CREATE POLICY "Teachers can view own invites"
+  ON teacher_invites FOR SELECT
+  TO authenticated
+  USING (auth.uid() = teacher_id);
+
+CREATE POLICY "Teachers can create invites"
+  ON teacher_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = teacher_id AND is_teacher(auth.uid()) AND accepted_by IS NULL);
+
+CREATE POLICY "Teachers can delete own invites"
+  ON teacher_invites FOR DELETE
+  TO authenticated
+  USING (auth.uid() = teacher_id);
+
+-- lesson_assignments: written by the teacher for a linked student
+CREATE POLICY "Teachers and students can view their assignments"
+  ON lesson_assignments FOR SELECT
+  TO authenticated
+  USING (auth.uid() = teacher_id OR auth.uid() = student_id);
+
+CREATE POLICY "Teachers can assign to linked students"
+  ON lesson_assignments FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = teacher_id AND is_linked(teacher_id, student_id));
+
+CREATE POLICY "Teachers can update assignments for linked students"
+  ON lesson_assignments FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id AND is_linked(teacher_id, student_id));
+
+CREATE POLICY "Teachers can delete own assignments"
+  ON lesson_assignments FOR DELETE
+  TO authenticated
+  USING (auth.uid() = teacher_id);
+
+-- assignment_progress: written by the student, read by both
+CREATE POLICY "Teachers and students can view assignment progress"
+  ON assignment_progress FOR SELECT
+  TO authenticated
+  USING (is_assignment_party(assignment_id));
+
+CREATE POLICY "Students can report progress on their assignments"
+  ON assignment_progress FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = student_id
+    AND EXISTS (SELECT 1 FROM lesson_assignments a WHERE a.id = assignment_id AND a.student_id = auth.uid())
+  );
+
+CREATE POLICY "Students can update progress on their assignments"
+  ON assignment_progress FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = student_id)
+  WITH CHECK (
+    auth.uid() = student_id
+    AND EXISTS (SELECT 1 FROM lesson_assignments a WHERE a.id = assignment_id AND a.student_id = auth.uid())
+  );
+
+-- assignment_comments: either side of the assignment can post; authors can delete
+CREATE POLICY "Teachers and students can view assignment comments"
+  ON assignment_comments FOR SELECT
+  TO authenticated
+  USING (is_assignment_party(assignment_id));
+
+CREATE POLICY "Teachers and students can comment on assignments"
+  ON assignment_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = author_id AND is_assignment_party(assignment_id));
+
+CREATE POLICY "Authors can delete own comments"
+  ON assignment_comments FOR DELETE
+  TO authenticated
+  USING (auth.uid() = author_id);
+
+-- Accept an invite as the signed-in user. Returns the teacher's id, or raises
+-- when the invite is unknown, expired, already used, or the caller's own.
+CREATE OR REPLACE FUNCTION accept_teacher_invite(invite_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invite teacher_invites%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept an invite';
+  END IF;
+
+  SELECT * INTO invite FROM teacher_invites WHERE token = invite_token FOR UPDATE;
+  IF NOT FOUND OR invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invite link is invalid or has expired';
+  END IF;
+  IF invite.teacher_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot accept your own invite';
+  END IF;
+  IF invite.accepted_by IS NOT NULL AND invite.accepted_by <> auth.uid() THEN
+    RAISE EXCEPTION 'This invite link has already been used';
+  END IF;
+
+  INSERT INTO teacher_students (teacher_id, student_id)
+  VALUES (invite.teacher_id, auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  UPDATE teacher_invites
+  SET accepted_by = auth.uid(), accepted_at = COALESCE(accepted_at, now())
+  WHERE token = invite_token;
+
+  INSERT INTO account_profiles (user_id) VALUES (auth.uid()) ON CONFLICT DO NOTHING;
+
+  RETURN invite.teacher_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The teacher's name for the invite page, without exposing the invite table
+CREATE OR REPLACE FUNCTION get_teacher_invite(invite_token TEXT)
+RETURNS TABLE (teacher_name TEXT, expired BOOLEAN, accepted BOOLEAN) AS $$
+  SELECT p.display_name, i.expires_at < now(), i.accepted_by IS NOT NULL
+  FROM teacher_invites i
+  LEFT JOIN account_profiles p ON p.user_id = i.teacher_id
+  WHERE i.token = invite_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION accept_teacher_invite(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION accept_teacher_invite(TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION get_teacher_invite(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_teacher_invite(TEXT) TO authenticated;
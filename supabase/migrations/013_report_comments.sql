@@ -0,0 +1,110 @@
+-- Comments on shared reports.
+--
+-- Anyone who can open a report permalink (/r/:id) - a teacher, a parent,
+-- signed in or not - can leave feedback on the whole report, on one of its
+-- segments, or on a linked piece. The report's owner sees it in the app and
+-- moderates: they can hide a comment from other viewers or delete it.
+--   * Only reports that belong to an account take comments; an anonymous
+--     report has nobody to read or moderate them.
+--   * Readers never see hidden comments; the owner sees everything.
+--   * author_id is always the caller (NULL when anonymous), set by the insert
+--     trigger, which also rate-limits posting per IP and per report.
+--   * The only column anyone can update is `hidden`, and only the owner.
+
+CREATE TABLE IF NOT EXISTS report_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id TEXT REFERENCES shared_reports(id) ON DELETE CASCADE NOT NULL,
+  target_type TEXT NOT NULL DEFAULT 'report' CHECK (target_type IN ('report', 'item', 'piece')),
+  target_id TEXT, -- plan item or repertoire piece id; NULL for the whole report
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name TEXT NOT NULL DEFAULT '' CHECK (char_length(author_name) <= 80),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  hidden BOOLEAN NOT NULL DEFAULT false,
+  author_ip_hash TEXT, -- for rate limiting only; not readable through the API
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((target_type = 'report') = (target_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_comments_report_id ON report_comments(report_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_report_comments_ip_hash ON report_comments(author_ip_hash, created_at);
+
+ALTER TABLE report_comments ENABLE ROW LEVEL SECURITY;
+
+-- Column privileges: hide the IP hash, and make `hidden` the only updatable column
+REVOKE ALL ON report_comments FROM anon, authenticated;
+GRANT SELECT (id, report_id, target_type, target_id, author_id, author_name, body, hidden, created_at)
+  ON report_comments TO anon, authenticated;
+GRANT INSERT (report_id, target_type, target_id, author_name, body)
+  ON report_comments TO anon, authenticated;
+GRANT UPDATE (hidden) ON report_comments TO authenticated;
+GRANT DELETE ON report_comments TO authenticated;
+
+CREATE OR REPLACE FUNCTION owns_report(report TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM shared_reports WHERE id = report AND user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Anyone can view visible comments; owners view all"
+  ON report_comments FOR SELECT
+  USING (NOT hidden OR owns_report(report_id));
+
+CREATE POLICY "Anyone can comment on account-owned reports"
+  ON report_comments FOR INSERT
+  WITH CHECK (
+    NOT hidden
+    AND EXISTS (SELECT 1 FROM shared_reports r WHERE r.id = report_id AND r.user_id IS NOT NULL)
+  );
+
+CREATE POLICY "Owners can hide comments on their reports"
+  ON report_comments FOR UPDATE
+  TO authenticated
+  USING (owns_report(report_id))
+  WITH CHECK (owns_report(report_id));
+
+CREATE POLICY "Owners and authors can delete comments"
+  ON report_comments FOR DELETE
+  TO authenticated
+  USING (owns_report(report_id) OR auth.uid() = author_id);
+
+-- Stamp the author and enforce rate limits. Anonymous commenters are counted
+-- by a hash of their IP (from the PostgREST request headers) and per report;
+-- signed-in commenters by account.
+CREATE OR REPLACE FUNCTION report_comments_before_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  headers JSON;
+  ip TEXT;
+BEGIN
+  NEW.author_id := auth.uid();
+  NEW.hidden := false;
+  NEW.created_at := now();
+  NEW.author_name := btrim(NEW.author_name);
+
+  IF NEW.author_id IS NOT NULL THEN
+    IF (SELECT count(*) FROM report_comments
+        WHERE author_id = NEW.author_id AND created_at > now() - interval '10 minutes') >= 20 THEN
+      RAISE EXCEPTION 'Too many comments, try again later';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  headers := NULLIF(current_setting('request.headers', true), '')::json;
+  ip := btrim(split_part(COALESCE(headers->>'x-forwarded-for', headers->>'x-real-ip', ''), ',', 1));
+  NEW.author_ip_hash := CASE WHEN ip = '' THEN NULL ELSE md5('report-comments:' || ip) END;
+
+  IF NEW.author_ip_hash IS NOT NULL AND (SELECT count(*) FROM report_comments
+      WHERE author_ip_hash = NEW.author_ip_hash AND created_at > now() - interval '10 minutes') >= 5 THEN
+    RAISE EXCEPTION 'Too many comments, try again later';
+  END IF;
+  IF (SELECT count(*) FROM report_comments
+      WHERE report_id = NEW.report_id AND author_id IS NULL AND created_at > now() - interval '1 day') >= 30 THEN
+    RAISE EXCEPTION 'This report has too many comments today, try again tomorrow';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS report_comments_before_insert ON report_comments;
+CREATE TRIGGER report_comments_before_insert
+  BEFORE INSERT ON report_comments
+  FOR EACH ROW EXECUTE FUNCTION report_comments_before_insert();
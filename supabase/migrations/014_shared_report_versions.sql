@@ -0,0 +1,51 @@
+-- Version history of shared reports.
+--
+-- Publishing to a permalink upserts its shared_reports row, which used to
+-- overwrite the previous report. Now every insert of a report, and every
+-- update that changes its data, also appends an immutable copy to
+-- shared_report_versions, numbered 1, 2, 3… per report. The trigger is the
+-- only writer: clients can read versions but not insert, change or delete
+-- them. Deleting the report deletes its history.
+
+CREATE TABLE IF NOT EXISTS shared_report_versions (
+  report_id TEXT REFERENCES shared_reports(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (report_id, version)
+);
+
+ALTER TABLE shared_report_versions ENABLE ROW LEVEL SECURITY;
+
+-- Same audience as the report itself: anyone with the link
+CREATE POLICY "Allow public read access"
+  ON shared_report_versions FOR SELECT
+  USING (true);
+
+-- Runs in the same transaction as the upsert, which holds the report row's
+-- lock, so concurrent publishes to one permalink get distinct numbers.
+CREATE OR REPLACE FUNCTION append_shared_report_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.data IS NOT DISTINCT FROM OLD.data THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO shared_report_versions (report_id, version, data)
+  SELECT NEW.id, COALESCE(MAX(version), 0) + 1, NEW.data
+  FROM shared_report_versions
+  WHERE report_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS shared_reports_append_version ON shared_reports;
+CREATE TRIGGER shared_reports_append_version
+  AFTER INSERT OR UPDATE OF data ON shared_reports
+  FOR EACH ROW EXECUTE FUNCTION append_shared_report_version();
+
+-- Existing reports start their history at the currently published report
+INSERT INTO shared_report_versions (report_id, version, data, created_at)
+SELECT id, 1, data, created_at FROM shared_reports
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,239 @@
+-- Per-link controls for shared reports.
+--
+-- Until now a report's id was a permanent capability: anyone holding it could
+-- read the report, and the public read policy let anyone list every report.
+-- Owners can now, per link:
+--   * set an expiry date;
+--   * revoke it - permanent, the link never works again;
+--   * require a passphrase, stored as a bcrypt hash;
+--   * mark it 'listed' (the default: linked teachers see it on their
+--     dashboard), 'unlisted' (only people with the link), or 'disabled'
+--     (shows as unavailable until switched back).
+--
+-- Readers other than the owner go through get_shared_report(), which applies
+-- all of the above and also serves versions. Direct table access is limited
+-- to the owner, linked teachers for listed open links, and anonymous reports,
+-- which have no owner to manage them and stay publicly readable as before.
+-- Comments are only shown and accepted on open links without a passphrase.
+-- Wrong passphrases are recorded and rate-limited per report and per client
+-- (signed-in user, or a hash of the IP as in 013); a locked-out try gets the
+-- same 'wrong_passphrase' answer as a wrong one.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE shared_reports
+  ADD COLUMN IF NOT EXISTS link_status TEXT NOT NULL DEFAULT 'listed'
+    CHECK (link_status IN ('listed', 'unlisted', 'disabled')),
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS passphrase_hash TEXT;
+
+-- Whether a non-owner may see the report without a passphrase check
+CREATE OR REPLACE FUNCTION report_link_is_open(report TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM shared_reports
+    WHERE id = report
+      AND revoked_at IS NULL
+      AND link_status <> 'disabled'
+      AND (expires_at IS NULL OR expires_at > now())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- shared_reports: replace the public read policy
+DROP POLICY IF EXISTS "Allow public read access" ON shared_reports;
+
+CREATE POLICY "Owners can view own reports"
+  ON shared_reports FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Linked teachers can view listed reports"
+  ON shared_reports FOR SELECT
+  TO authenticated
+  USING (
+    link_status = 'listed'
+    AND passphrase_hash IS NULL
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now())
+    AND is_linked(auth.uid(), user_id)
+  );
+
+CREATE POLICY "Anyone can view anonymous reports"
+  ON shared_reports FOR SELECT
+  USING (user_id IS NULL);
+
+-- Revocation is permanent: a revoked link can't be restored or republished
+CREATE OR REPLACE FUNCTION shared_reports_keep_revoked()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL
+     AND (NEW.revoked_at IS DISTINCT FROM OLD.revoked_at OR NEW.data IS DISTINCT FROM OLD.data) THEN
+    RAISE EXCEPTION 'This link was revoked';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS shared_reports_keep_revoked ON shared_reports;
+CREATE TRIGGER shared_reports_keep_revoked
+  BEFORE UPDATE ON shared_reports
+  FOR EACH ROW EXECUTE FUNCTION shared_reports_keep_revoked();
+
+-- shared_report_versions: owners read directly, everyone else through the function
+DROP POLICY IF EXISTS "Allow public read access" ON shared_report_versions;
+
+CREATE POLICY "Owners can view versions of own reports"
+  ON shared_report_versions FOR SELECT
+  TO authenticated
+  USING (owns_report(report_id));
+
+-- report_comments: only on open links without a passphrase, except for the owner
+DROP POLICY IF EXISTS "Anyone can view visible comments; owners view all" ON report_comments;
+DROP POLICY IF EXISTS "Anyone can comment on account-owned reports" ON report_comments;
+
+CREATE POLICY "Anyone can view visible comments; owners view all"
+  ON report_comments FOR SELECT
+  USING (
+    owns_report(report_id)
+    OR (NOT hidden AND report_link_is_open(report_id)
+        AND NOT EXISTS (SELECT 1 FROM shared_reports r WHERE r.id = report_id AND r.passphrase_hash IS NOT NULL))
+  );
+
+CREATE POLICY "Anyone can comment on account-owned reports"
+  ON report_comments FOR INSERT
+  WITH CHECK (
+    NOT hidden
+    AND EXISTS (
+      SELECT 1 FROM shared_reports r
+      WHERE r.id = report_id AND r.user_id IS NOT NULL
+        AND (r.user_id = auth.uid() OR (r.passphrase_hash IS NULL AND report_link_is_open(r.id)))
+    )
+  );
+
+-- Wrong passphrases, for rate limiting only; not readable through the API
+CREATE TABLE IF NOT EXISTS report_passphrase_failures (
+  report_id TEXT NOT NULL REFERENCES shared_reports(id) ON DELETE CASCADE,
+  client_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_passphrase_failures_report ON report_passphrase_failures(report_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_report_passphrase_failures_client ON report_passphrase_failures(client_hash, created_at);
+
+ALTER TABLE report_passphrase_failures ENABLE ROW LEVEL SECURITY;
+
+-- A report for anyone with its link. `status` is one of 'ok', 'not_found',
+-- 'revoked', 'disabled', 'expired', 'passphrase_required' or
+-- 'wrong_passphrase'; with 'ok' come `data` (the latest report, or
+-- `version_number`) and `versions`, newest first. Owners always get 'ok'.
+CREATE OR REPLACE FUNCTION get_shared_report(share_id TEXT, passphrase TEXT DEFAULT NULL, version_number INTEGER DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  report shared_reports%ROWTYPE;
+  snapshot JSONB;
+  headers JSON;
+  ip TEXT;
+  client TEXT;
+BEGIN
+  SELECT * INTO report FROM shared_reports WHERE id = share_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF report.user_id IS NULL OR report.user_id IS DISTINCT FROM auth.uid() THEN
+    IF report.revoked_at IS NOT NULL THEN
+      RETURN jsonb_build_object('status', 'revoked');
+    ELSIF report.link_status = 'disabled' THEN
+      RETURN jsonb_build_object('status', 'disabled');
+    ELSIF report.expires_at IS NOT NULL AND report.expires_at <= now() THEN
+      RETURN jsonb_build_object('status', 'expired');
+    ELSIF report.passphrase_hash IS NOT NULL THEN
+      IF COALESCE(passphrase, '') = '' THEN
+        RETURN jsonb_build_object('status', 'passphrase_required');
+      END IF;
+
+      IF auth.uid() IS NOT NULL THEN
+        client := md5('report-passphrase:user:' || auth.uid()::text);
+      ELSE
+        headers := NULLIF(current_setting('request.headers', true), '')::json;
+        ip := btrim(split_part(COALESCE(headers->>'x-forwarded-for', headers->>'x-real-ip', ''), ',', 1));
+        client := CASE WHEN ip = '' THEN NULL ELSE md5('report-passphrase:' || ip) END;
+      END IF;
+
+      -- Locked out: answer as if wrong, without checking the hash
+      IF (client IS NOT NULL AND (SELECT count(*) FROM report_passphrase_failures
+            WHERE client_hash = client AND created_at > now() - interval '15 minutes') >= 10)
+         OR (SELECT count(*) FROM report_passphrase_failures
+            WHERE report_id = share_id AND created_at > now() - interval '15 minutes') >= 30 THEN
+        RETURN jsonb_build_object('status', 'wrong_passphrase');
+      END IF;
+
+      IF extensions.crypt(passphrase, report.passphrase_hash) <> report.passphrase_hash THEN
+        DELETE FROM report_passphrase_failures
+        WHERE report_id = share_id AND created_at < now() - interval '1 day';
+        INSERT INTO report_passphrase_failures (report_id, client_hash) VALUES (share_id, client);
+        RETURN jsonb_build_object('status', 'wrong_passphrase');
+      END IF;
+    END IF;
+  END IF;
+
+  IF version_number IS NULL THEN
+    snapshot := report.data;
+  ELSE
+    SELECT v.data INTO snapshot FROM shared_report_versions v
+    WHERE v.report_id = share_id AND v.version = version_number;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'data', snapshot,
+    'versions', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('version', v.version, 'created_at', v.created_at) ORDER BY v.version DESC)
+       FROM shared_report_versions v WHERE v.report_id = share_id),
+      '[]'::jsonb
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Set or clear (NULL / empty) the passphrase of one of the caller's reports;
+-- hashing happens here so the passphrase itself is never stored
+CREATE OR REPLACE FUNCTION set_report_passphrase(share_id TEXT, passphrase TEXT)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE shared_reports
+  SET passphrase_hash = CASE
+    WHEN COALESCE(passphrase, '') = '' THEN NULL
+    ELSE extensions.crypt(passphrase, extensions.gen_salt('bf'))
+  END
+  WHERE id = share_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Whether the report takes comments from the caller, and whether they own it
+CREATE OR REPLACE FUNCTION get_report_comment_access(share_id TEXT)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'open', COALESCE(bool_or(
+      r.user_id IS NOT NULL
+      AND (r.user_id = auth.uid() OR (r.passphrase_hash IS NULL AND report_link_is_open(r.id)))
+    ), false),
+    'is_owner', COALESCE(bool_or(r.user_id = auth.uid()), false)
+  )
+  FROM shared_reports r WHERE r.id = share_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_shared_report(TEXT, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_shared_report(TEXT, TEXT, INTEGER) TO anon, authenticated;
+REVOKE ALL ON FUNCTION set_report_passphrase(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_report_passphrase(TEXT, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION get_report_comment_access(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_report_comment_access(TEXT) TO anon, authenticated;
@@ -254,4 +254,110 @@ describe('share-report function', () => {
         const result = await handler(event, {} as any);
         expect(result!.statusCode).toBe(400);
     });
+
+    // --- Link controls -------------------------------------------------------
+
+    const publish = async (id: string) => {
+        const result = await handler({
+            httpMethod: 'POST',
+            headers: {},
+            body: JSON.stringify({ id, title: 'Linked', items: [] }),
+            queryStringParameters: null,
+        } as any, {} as any);
+        return JSON.parse(result!.body!).manageToken as string;
+    };
+
+    const get = (id: string, headers: Record<string, string> = {}) =>
+        handler({ httpMethod: 'GET', headers, body: null, queryStringParameters: { id } } as any, {} as any);
+
+    const patch = (id: string, manageToken: string | undefined, changes: Record<string, unknown>) =>
+        handler({
+            httpMethod: 'PATCH',
+            headers: manageToken ? { 'x-manage-token': manageToken } : {},
+            body: JSON.stringify({ id, changes }),
+            queryStringParameters: null,
+        } as any, {} as any);
+
+    it('returns a manage token and refuses link changes without it', async () => {
+        const manageToken = await publish('managed');
+        expect(manageToken).toMatch(/^[0-9a-f]{48}$/);
+
+        expect((await patch('managed', undefined, { status: 'disabled' }))!.statusCode).toBe(403);
+        expect((await patch('managed', 'ab'.repeat(24), { status: 'disabled' }))!.statusCode).toBe(403);
+        expect((await get('managed'))!.statusCode).toBe(200);
+
+        const settings = await patch('managed', manageToken, {});
+        expect(JSON.parse(settings!.body!)).toEqual({
+            id: 'managed', status: 'unlisted', expiresAt: null, revoked: false, hasPassphrase: false,
+        });
+    });
+
+    it('enforces disabled and expired links', async () => {
+        const manageToken = await publish('closing');
+
+        await patch('closing', manageToken, { status: 'disabled' });
+        const disabled = await get('closing');
+        expect(disabled!.statusCode).toBe(410);
+        expect(JSON.parse(disabled!.body!).error).toBe('disabled');
+
+        await patch('closing', manageToken, { status: 'unlisted', expiresAt: '2020-01-01T00:00:00Z' });
+        expect(JSON.parse((await get('closing'))!.body!).error).toBe('expired');
+
+        await patch('closing', manageToken, { expiresAt: null });
+        expect((await get('closing'))!.statusCode).toBe(200);
+    });
+
+    it('requires the passphrase when one is set', async () => {
+        const manageToken = await publish('secret');
+        await patch('secret', manageToken, { passphrase: 'open sesame' });
+
+        expect((await get('secret'))!.statusCode).toBe(401);
+        expect((await get('secret', { 'x-report-passphrase': 'wrong' }))!.statusCode).toBe(403);
+        const ok = await get('secret', { 'x-report-passphrase': 'open sesame' });
+        expect(ok!.statusCode).toBe(200);
+        expect(JSON.parse(ok!.body!).title).toBe('Linked');
+    });
+
+    it('locks out a client after too many wrong passphrases, like a wrong one', async () => {
+        const manageToken = await publish('guarded');
+        await patch('guarded', manageToken, { passphrase: 'open sesame' });
+        const from = (ip: string, passphrase: string) =>
+            get('guarded', { 'x-nf-client-connection-ip': ip, 'x-report-passphrase': passphrase });
+
+        for (let i = 0; i < 10; i++) {
+            expect((await from('203.0.113.7', `guess ${i}`))!.statusCode).toBe(403);
+        }
+        const locked = await from('203.0.113.7', 'open sesame');
+        expect(locked!.statusCode).toBe(403);
+        expect(JSON.parse(locked!.body!)).toEqual({ error: 'wrong_passphrase' });
+
+        expect((await from('198.51.100.2', 'open sesame'))!.statusCode).toBe(200);
+    });
+
+    it('locks a link after too many wrong passphrases from any clients', async () => {
+        const manageToken = await publish('popular');
+        await patch('popular', manageToken, { passphrase: 'open sesame' });
+
+        for (let i = 0; i < 30; i++) {
+            await get('popular', { 'x-nf-client-connection-ip': `192.0.2.${i}`, 'x-report-passphrase': 'guess' });
+        }
+        const locked = await get('popular', { 'x-nf-client-connection-ip': '192.0.2.200', 'x-report-passphrase': 'open sesame' });
+        expect(locked!.statusCode).toBe(403);
+    });
+
+    it('makes revocation permanent', async () => {
+        const manageToken = await publish('gone');
+        await patch('gone', manageToken, { revoke: true });
+
+        expect(JSON.parse((await get('gone'))!.body!).error).toBe('revoked');
+        expect((await patch('gone', manageToken, { status: 'unlisted' }))!.statusCode).toBe(409);
+        expect(JSON.parse((await patch('gone', manageToken, {}))!.body!).revoked).toBe(true);
+    });
+
+    it('rejects invalid link changes', async () => {
+        const manageToken = await publish('strict');
+        expect((await patch('strict', manageToken, { status: 'public' }))!.statusCode).toBe(400);
+        expect((await patch('strict', manageToken, { expiresAt: 'someday' }))!.statusCode).toBe(400);
+        expect((await patch('strict', manageToken, { passphrase: 'x'.repeat(201) }))!.statusCode).toBe(400);
+    });
 });